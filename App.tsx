@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useLayoutEffect, useCallback } from 'react';
-import { Activity, Layout, FileCode, Settings, X, MessageSquare, Mic, Database, UserCircle, LogOut, FilePlus, FolderOpen, Save, FileJson, BrainCircuit, BookOpen, Download, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen, Shield, ListTree } from 'lucide-react';
+import { Activity, Layout, FileCode, Settings, X, MessageSquare, Mic, Database, UserCircle, LogOut, FilePlus, FolderOpen, Save, FileJson, BrainCircuit, BookOpen, Download, PanelLeftClose, PanelLeftOpen, PanelRightClose, PanelRightOpen, Shield, ListTree, Wrench, MailCheck } from 'lucide-react';
 import Editor, { EditorHandle, EditorState } from './components/Editor';
 import EditorToolbar from './components/EditorToolbar';
 import AnalysisPanel from './components/AnalysisPanel';
@@ -15,10 +15,12 @@ import AuthModal from './components/AuthModal';
 import CloudFileManager from './components/CloudFileManager';
 import HumanReadablePanel from './components/HumanReadablePanel';
 import ValidationRulesPanel from './components/ValidationRulesPanel';
+import InterchangeNavigator from './components/InterchangeNavigator';
+import AckReconciliationPanel from './components/AckReconciliationPanel';
 import MenuBar from './components/MenuBar';
 import CommandPalette, { CommandItem } from './components/CommandPalette';
 import SaveAsModal from './components/SaveAsModal';
-import { AppState, AppMode, EdiFile, AppSettings, PanelTab, TPRuleSet } from './types';
+import { AppState, AppMode, EdiFile, AppSettings, PanelTab, TPRuleSet, TradingPartner } from './types';
 import { animatePageEntrance, animatePanelEnter, animatePanelExit } from './utils/gsapAnimations';
 import { storageService } from './services/storageService';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
@@ -45,6 +47,7 @@ function App() {
   const [isBusinessView, setIsBusinessView] = useState(false);
 
   const [ruleSets, setRuleSets] = useState<TPRuleSet[]>([]);
+  const [tradingPartners, setTradingPartners] = useState<TradingPartner[]>([]);
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [sidebarWidth, setSidebarWidth] = useState(260);
@@ -65,7 +68,8 @@ function App() {
     showLineNumbers: true,
     theme: 'dark',
     aiModel: 'speed',
-    aiProvider: 'gemini'
+    aiProvider: 'gemini',
+    dateChecks: { enabled: true }
   });
 
   const [isStediOpen, setIsStediOpen] = useState(false);
@@ -126,10 +130,22 @@ function App() {
       if (savedSettings) {
         try { setSettings({ ...settings, ...JSON.parse(savedSettings) }); } catch (e) {}
       }
-      const savedRules = localStorage.getItem('edi_rules');
-      if (savedRules) {
-          try { setRuleSets(JSON.parse(savedRules)); } catch (e) {}
-      }
+      try {
+        const storedRuleSets = await storageService.getAllRuleSets();
+        // Rule sets kept in localStorage before the library moved them to IndexedDB
+        const savedRules = localStorage.getItem('edi_rules');
+        if (storedRuleSets.length === 0 && savedRules) {
+          const migrated: TPRuleSet[] = JSON.parse(savedRules);
+          await storageService.saveRuleSets(migrated);
+          localStorage.removeItem('edi_rules');
+          setRuleSets(migrated);
+        } else {
+          setRuleSets(storedRuleSets);
+        }
+      } catch (err) { console.error("Failed to load rule sets from DB:", err); }
+      try {
+        setTradingPartners(await storageService.getAllTradingPartners());
+      } catch (err) { console.error("Failed to load trading partners from DB:", err); }
       try {
         const storedFiles = await storageService.getAllFiles();
         if (storedFiles && storedFiles.length > 0) {
@@ -154,13 +170,51 @@ function App() {
     setFiles(prev => prev.map(f => {
       if (f.id === activeFileId) {
         const updated = { ...f, content: newContent, lastModified: new Date() };
-        storageService.saveFile(updated); 
+        storageService.saveFile(updated).catch(err => console.error("Failed to save file:", err));
         return updated;
       }
       return f;
     }));
   };
 
+  // Generated documents (acknowledgments, reports) open beside the file they were made from
+  const openNewFile = (name: string, content: string) => {
+    const id = Date.now().toString();
+    const newFile: EdiFile = { id, name, content, lastModified: new Date() };
+    setFiles(prev => [...prev, newFile]);
+    storageService.saveFile(newFile).catch(err => console.error("Failed to save file:", err));
+    setActiveFileId(id);
+    setOpenFileIds(prev => [...prev, id]);
+  };
+
+  const updateRuleSets = (sets: TPRuleSet[]) => {
+    setRuleSets(sets);
+    storageService.saveRuleSets(sets).catch(err => console.error("Failed to save rule sets:", err));
+  };
+
+  const updateTradingPartners = (partners: TradingPartner[]) => {
+    setTradingPartners(partners);
+    storageService.saveTradingPartners(partners).catch(err => console.error("Failed to save trading partners:", err));
+  };
+
+  // Jumps into another file wait for its editor to render
+  const [pendingJump, setPendingJump] = useState<{ fileId: string; line: number } | null>(null);
+
+  useEffect(() => {
+    if (!pendingJump || pendingJump.fileId !== activeFileId) return;
+    const timer = setTimeout(() => {
+      editorRef.current?.scrollToLine(pendingJump.line);
+      setPendingJump(null);
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [pendingJump, activeFileId]);
+
+  const openFileAtLine = (fileId: string, line: number) => {
+    setActiveFileId(fileId);
+    setOpenFileIds(prev => prev.includes(fileId) ? prev : [...prev, fileId]);
+    setPendingJump({ fileId, line });
+  };
+
   const toggleRightPanel = (tab: PanelTab) => {
     if (isRightPanelOpen && activeRightTab === tab) {
       setIsRightPanelOpen(false);
@@ -196,6 +250,7 @@ function App() {
               onClose={() => setAppMode(AppMode.EDITOR)}
               isFullScreen={true}
               ruleSets={ruleSets}
+              tradingPartners={tradingPartners}
               aiProvider={settings.aiProvider}
             />
         </div>
@@ -234,6 +289,7 @@ function App() {
                 key={activeFile.id}
                 content={activeFile.content} 
                 onChange={updateActiveContent} 
+                fileId={activeFile.id}
                 fileName={activeFile.name}
                 settings={settings}
                 onStateChange={setEditorState}
@@ -282,6 +338,7 @@ function App() {
 
       <div className="flex-1 flex overflow-hidden relative z-10 w-full">
         <div ref={sidebarRef} className={`flex-none flex flex-col h-full overflow-hidden bg-slate-900/50 border-r border-white/5 backdrop-blur-md z-20 ${!isResizing ? 'transition-all duration-300 ease-in-out' : ''}`} style={{ width: isSidebarOpen ? sidebarWidth : 0, opacity: isSidebarOpen ? 1 : 0 }}>
+           <div className="flex-1 min-h-0">
            <FileExplorer files={files} activeFileId={activeFileId} selectedFileIds={selectedFileIds} onSelectFile={(id) => { setActiveFileId(id); setOpenFileIds(prev => prev.includes(id) ? prev : [...prev, id]); }} onToggleSelection={(id) => {
              const next = new Set(selectedFileIds);
              if (next.has(id)) next.delete(id); else next.add(id);
@@ -292,7 +349,11 @@ function App() {
              setFiles([...files, newFile]);
              setActiveFileId(id);
              setOpenFileIds([...openFileIds, id]);
-           }} onDeleteFile={(id) => setFiles(files.filter(f => f.id !== id))} onUpload={() => {}} />
+           }} onDeleteFile={(id) => { setFiles(files.filter(f => f.id !== id)); storageService.deleteFile(id); }} onUpload={() => {}} />
+           </div>
+           {activeFile && editorState.isEdiMode && appMode === AppMode.EDITOR && !isBusinessView && (
+             <InterchangeNavigator ediContent={activeFile.content} onJumpToLine={(l) => editorRef.current?.scrollToLine(l)} />
+           )}
         </div>
         {isSidebarOpen && <div className="w-1 h-full cursor-col-resize hover:bg-blue-500/50 active:bg-blue-600 transition-colors z-30 flex-none" onMouseDown={startResizing('left')} />}
         <div className="flex-1 flex flex-col min-w-0 relative z-10 h-full overflow-hidden">{renderMainArea()}</div>
@@ -303,13 +364,15 @@ function App() {
                   <button onClick={() => setActiveRightTab('chat')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'chat' ? 'bg-blue-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><MessageSquare size={12} /> AI</button>
                   <button onClick={() => setActiveRightTab('validate')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'validate' ? 'bg-emerald-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><Activity size={12} /> Health</button>
                   <button onClick={() => setActiveRightTab('structure')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'structure' ? 'bg-amber-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><ListTree size={12} /> Elements</button>
+                  <button onClick={() => setActiveRightTab('tools')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'tools' ? 'bg-sky-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><Wrench size={12} /> Tools</button>
+                  <button onClick={() => setActiveRightTab('acks')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'acks' ? 'bg-violet-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><MailCheck size={12} /> Acks</button>
                   <button onClick={() => setActiveRightTab('rules')} className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeRightTab === 'rules' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}><Shield size={12} /> Rules</button>
                </div>
                <button onClick={handleCloseRightPanel} className="p-1.5 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg transition-colors"><X size={16} /></button>
             </div>
             <div className="flex-1 overflow-hidden w-full">
             {(isRightPanelOpen && activeFile && !activeFile.isCompareView) && (
-                activeRightTab === 'chat' || activeRightTab === 'validate' || activeRightTab === 'structure' ? (
+                activeRightTab === 'chat' || activeRightTab === 'validate' || activeRightTab === 'structure' || activeRightTab === 'tools' ? (
                     <AnalysisPanel 
                         activeTab={activeRightTab}
                         analysis={activeFile.analysis || null} 
@@ -319,10 +382,14 @@ function App() {
                         onUpdateContent={updateActiveContent}
                         onClose={handleCloseRightPanel}
                         onJumpToLine={(l) => editorRef.current?.scrollToLine(l)}
+                        onOpenFile={openNewFile}
                         ruleSets={ruleSets}
+                        tradingPartners={tradingPartners}
                         aiProvider={settings.aiProvider}
                     />
-                ) : activeRightTab === 'rules' ? <ValidationRulesPanel ruleSets={ruleSets} onUpdateRuleSets={setRuleSets} onClose={handleCloseRightPanel} /> : <CloudFileManager currentFile={activeFile} onLoadFile={(f) => { setActiveFileId(f.id); setOpenFileIds(prev => prev.includes(f.id) ? prev : [...prev, f.id]); }} onFileSaved={() => {}} />
+                ) : activeRightTab === 'rules' ? <ValidationRulesPanel ruleSets={ruleSets} onUpdateRuleSets={updateRuleSets} tradingPartners={tradingPartners} onUpdateTradingPartners={updateTradingPartners} activeFileContent={activeFile?.content} onClose={handleCloseRightPanel} />
+                : activeRightTab === 'acks' ? <AckReconciliationPanel files={files} onOpenLine={openFileAtLine} onClose={handleCloseRightPanel} />
+                : <CloudFileManager currentFile={activeFile} onLoadFile={(f) => { setActiveFileId(f.id); setOpenFileIds(prev => prev.includes(f.id) ? prev : [...prev, f.id]); }} onFileSaved={() => {}} />
             )}
             </div>
         </div>
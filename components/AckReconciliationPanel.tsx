@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MailCheck, CheckCircle2, XCircle, AlertTriangle, Clock, ChevronDown, ChevronRight } from 'lucide-react';
+import { AckStatus, EdiFile, ReconciledTransaction } from '../types';
+import { DEFAULT_ACK_OVERDUE_HOURS } from '../utils/ackReconciliation';
+import { storageService } from '../services/storageService';
+import { ediParseService } from '../services/ediParseService';
+
+interface AckReconciliationPanelProps {
+  files: EdiFile[];
+  onOpenLine: (fileId: string, line: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<AckStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  ACCEPTED: { label: 'Accepted', className: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20', icon: <CheckCircle2 size={10} /> },
+  PARTIAL: { label: 'Partial', className: 'text-amber-400 bg-amber-500/10 border-amber-500/20', icon: <AlertTriangle size={10} /> },
+  REJECTED: { label: 'Rejected', className: 'text-red-400 bg-red-500/10 border-red-500/20', icon: <XCircle size={10} /> },
+  MISSING: { label: 'Missing', className: 'text-slate-400 bg-slate-500/10 border-slate-500/20', icon: <Clock size={10} /> }
+};
+
+type Filter = AckStatus | 'OVERDUE' | 'ALL';
+
+const rowKey = (r: ReconciledTransaction) => `${r.fileId}|${r.interchangeControl}|${r.groupControl || ''}|${r.transactionControl}|${r.line}`;
+
+/**
+ * Sent transactions across the stored files matched against the 997 / 999 / TA1 / CONTRL files
+ * received back. Overdue acknowledgments are listed first; error positions link to the sent file.
+ */
+const AckReconciliationPanel: React.FC<AckReconciliationPanelProps> = ({ files, onOpenLine, onClose }) => {
+  const [overdueHours, setOverdueHours] = useState(DEFAULT_ACK_OVERDUE_HOURS);
+  const [filter, setFilter] = useState<Filter>('ALL');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    storageService.getSetting('ack_overdue_hours').then(hours => { if (Number(hours) > 0) setOverdueHours(Number(hours)); });
+  }, []);
+
+  const updateOverdueHours = (hours: number) => {
+    if (!(hours > 0)) return;
+    setOverdueHours(hours);
+    storageService.saveSetting('ack_overdue_hours', hours);
+  };
+
+  // Every stored file is parsed for this, so it runs in the parse worker
+  const [results, setResults] = useState<ReconciledTransaction[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    ediParseService.reconcile(files, { overdueHours })
+      .then(reconciled => { if (!cancelled) setResults(reconciled); })
+      .catch(err => console.error('Acknowledgment reconciliation failed', err));
+    return () => { cancelled = true; };
+  }, [files, overdueHours]);
+
+  const counts = useMemo(() => {
+    const c: Record<Filter, number> = { ALL: results.length, ACCEPTED: 0, PARTIAL: 0, REJECTED: 0, MISSING: 0, OVERDUE: 0 };
+    results.forEach(r => {
+      c[r.status]++;
+      if (r.overdue) c.OVERDUE++;
+    });
+    return c;
+  }, [results]);
+
+  const visible = results
+    .filter(r => filter === 'ALL' || (filter === 'OVERDUE' ? r.overdue : r.status === filter))
+    .sort((a, b) => Number(b.overdue) - Number(a.overdue) || (a.sentAt?.getTime() ?? 0) - (b.sentAt?.getTime() ?? 0));
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const filters: { id: Filter; label: string }[] = [
+    { id: 'ALL', label: 'All' },
+    { id: 'OVERDUE', label: 'Overdue' },
+    { id: 'REJECTED', label: 'Rejected' },
+    { id: 'PARTIAL', label: 'Partial' },
+    { id: 'MISSING', label: 'Missing' },
+    { id: 'ACCEPTED', label: 'Accepted' }
+  ];
+
+  return (
+    <div className="h-full flex flex-col bg-slate-900 border-l border-white/5">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between">
+        <h3 className="font-bold text-slate-200 flex items-center gap-2">
+          <MailCheck size={16} className="text-sky-400" />
+          Acknowledgments
+        </h3>
+        <button onClick={onClose} className="text-xs text-slate-500 hover:text-white">Close</button>
+      </div>
+
+      <div className="p-4 border-b border-white/5 space-y-3">
+        <div className="flex flex-wrap gap-1.5">
+          {filters.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFilter(f.id)}
+              className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border transition-colors ${filter === f.id ? 'bg-sky-600 text-white border-sky-500' : 'text-slate-400 border-white/10 hover:text-white hover:bg-white/5'}`}
+            >
+              {f.label} <span className="font-mono opacity-70">{counts[f.id]}</span>
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Overdue after
+          <input
+            type="number"
+            min={1}
+            value={overdueHours}
+            onChange={e => updateOverdueHours(parseInt(e.target.value, 10))}
+            className="w-16 bg-slate-800 border border-white/10 rounded px-2 py-1 text-slate-200 font-mono"
+          />
+          hours without an acknowledgment
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+        {results.length === 0 && (
+          <div className="text-center text-slate-500 py-8 text-sm px-4">
+            <MailCheck size={32} className="mx-auto mb-3 opacity-20" />
+            No sent transactions in the stored files. <br /> Open the interchanges you sent and the 997 / 999 / TA1 / CONTRL files you received.
+          </div>
+        )}
+
+        {visible.map(r => {
+          const key = rowKey(r);
+          const style = STATUS_STYLES[r.status];
+          const isOpen = expanded.has(key);
+          return (
+            <div key={key} className={`rounded-lg border text-xs ${r.overdue ? 'border-red-500/30 bg-red-900/10' : 'border-white/5 bg-slate-800/50'}`}>
+              <div className="flex items-center gap-2 px-3 py-2 cursor-pointer hover:bg-white/5" onClick={() => r.errors.length > 0 ? toggle(key) : onOpenLine(r.fileId, r.line)}>
+                {r.errors.length > 0
+                  ? (isOpen ? <ChevronDown size={12} className="text-slate-500" /> : <ChevronRight size={12} className="text-slate-500" />)
+                  : <span className="w-3" />}
+                <span className="font-mono font-bold text-slate-200">{r.type}</span>
+                <span className="font-mono text-slate-400 truncate" title={`ISA13/UNB05 ${r.interchangeControl}${r.groupControl ? ` · GS06 ${r.groupControl}` : ''} · ${r.transactionControl}`}>
+                  {r.interchangeControl}{r.groupControl ? `/${r.groupControl}` : ''}/{r.transactionControl}
+                </span>
+                <span className={`ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${style.className}`}>
+                  {style.icon}{r.overdue ? 'Overdue' : style.label}
+                </span>
+              </div>
+              <div className="px-3 pb-2 pl-8 text-[10px] text-slate-500 flex flex-wrap gap-x-3">
+                <button onClick={() => onOpenLine(r.fileId, r.line)} className="hover:text-sky-400 truncate">{r.fileName}:{r.line}</button>
+                {r.sentAt && <span>{r.sentAt.toISOString().substring(0, 16).replace('T', ' ')}</span>}
+                {r.ack && (
+                  <button onClick={() => onOpenLine(r.ack!.fileId, 1)} className="hover:text-sky-400 truncate">
+                    {r.ack.type} {r.ack.code} · {r.ack.fileName}
+                  </button>
+                )}
+              </div>
+              {isOpen && (
+                <div className="border-t border-white/5 px-3 py-2 pl-8 space-y-1">
+                  {r.errors.map((e, i) => (
+                    <button
+                      key={i}
+                      disabled={e.line === undefined}
+                      onClick={() => e.line !== undefined && onOpenLine(r.fileId, e.line)}
+                      className="w-full text-left font-mono text-[11px] text-slate-300 hover:text-sky-400 disabled:hover:text-slate-300 flex gap-2"
+                    >
+                      <span className="text-slate-500 w-10 flex-none">{e.line !== undefined ? `L${e.line}` : '—'}</span>
+                      <span>
+                        {e.segmentId || 'Segment'}{e.position !== undefined ? ` #${e.position}` : ''}
+                        {e.element !== undefined ? ` el ${e.element}${e.component ? `-${e.component}` : ''}` : ''}
+                      </span>
+                      <span className="text-red-400 ml-auto">code {e.code}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AckReconciliationPanel;
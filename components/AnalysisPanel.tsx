@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Send, Bot, User, Loader2, BrainCircuit, Globe, Sparkles, Image, Film, ChevronUp, X, ListTree } from 'lucide-react';
-import { EdiAnalysisResult, ChatMessage, EdiFile, PanelTab, OrchestratedResult, TPRuleSet } from '../types';
+import { EdiAnalysisResult, ChatMessage, EdiFile, PanelTab, OrchestratedResult, TPRuleSet, TradingPartner } from '../types';
 import { sendEdiChat, generateEdiFlowImage, generateEdiFlowVideo } from '../services/geminiService';
 import { validationOrchestrator } from '../services/validationOrchestrator';
 import JsonPanel from './JsonPanel';
@@ -19,10 +19,12 @@ interface AnalysisPanelProps {
   onUpdateContent: (c: string) => void;
   onClose: () => void;
   onSplitFiles?: (files: { name: string; content: string }[]) => void;
+  onOpenFile?: (name: string, content: string) => void;
   onStediClick?: () => void;
   isFullScreen?: boolean;
   onJumpToLine?: (line: number) => void;
   ruleSets?: TPRuleSet[];
+  tradingPartners?: TradingPartner[];
   aiProvider?: 'gemini' | 'deepseek';
 }
 
@@ -36,7 +38,9 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
   onClose,
   isFullScreen = false,
   onJumpToLine,
+  onOpenFile,
   ruleSets = [],
+  tradingPartners = [],
   aiProvider = 'gemini'
 }) => {
   const [chatInput, setChatInput] = useState('');
@@ -64,6 +68,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         const result = await validationOrchestrator.validate(activeFileContent, {
           useAi: true,
           activeRuleSets: ruleSets,
+          tradingPartners,
           aiProvider: aiProvider as 'gemini' | 'deepseek'
         });
         if (isMounted) setOrchestratedResult(result);
@@ -75,7 +80,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
     };
     const debounce = setTimeout(runValidation, 500);
     return () => { isMounted = false; clearTimeout(debounce); };
-  }, [activeFileContent, ruleSets, aiProvider]);
+  }, [activeFileContent, ruleSets, tradingPartners, aiProvider]);
 
   useEffect(() => {
     if (activeTab === 'chat' && messagesEndRef.current) {
@@ -166,7 +171,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
                   <button onClick={() => setConversionResult(null)} className="text-xs text-blue-400 mb-2">← Back</button>
                   <textarea readOnly className="flex-1 w-full bg-[#0a0c10] text-emerald-400 p-4 font-mono text-[11px] rounded-xl border border-white/10" value={conversionResult.content} />
                </div>
-            ) : <Toolbox ediContent={activeFileContent} onUpdateContent={onUpdateContent} onConvert={(res, fmt) => setConversionResult({ content: res, format: fmt })} />}
+            ) : <Toolbox ediContent={activeFileContent} onUpdateContent={onUpdateContent} onOpenFile={onOpenFile} onConvert={(res, fmt) => setConversionResult({ content: res, format: fmt })} ruleSets={ruleSets} tradingPartners={tradingPartners} />}
           </div>
         )}
 
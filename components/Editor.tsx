@@ -1,9 +1,12 @@
 
 import React, { useState, useMemo, useRef, useEffect, useLayoutEffect, forwardRef, useImperativeHandle, useCallback } from 'react';
 import { Search, CaseSensitive, WholeWord, Regex, AlertOctagon, ChevronRight, ChevronDown, XCircle, Sparkles, Loader2, Check, AlertTriangle, Lock } from 'lucide-react';
-import { parseEdiToLines } from '../utils/ediParser';
-import { ParsedLine, EdiToken, AppSettings, EditorValidationResult, LineError, ElementSchema } from '../types';
-import { validateRealTime } from '../utils/ediValidator';
+import { schemaRegistry } from '../data/schemaRegistry';
+import { ParsedLine, EdiToken, AppSettings, EditorValidationResult, LineError, ElementSchema, ValidationProgress } from '../types';
+import { ediParseService } from '../services/ediParseService';
+import { storageService } from '../services/storageService';
+import { findStoredDuplicates } from '../utils/controlNumbers';
+import { tokenSchema } from '../utils/documentViews';
 import { warpEdi, unwarpEdi } from '../utils/ediFormatter';
 import { generateEdiFix, hasValidApiKey } from '../services/geminiService';
 import HoverInfo from './HoverInfo';
@@ -37,6 +40,7 @@ export interface EditorState {
 interface EditorProps {
   content: string;
   onChange: (val: string) => void;
+  fileId?: string; // Stored file id; other stored files are checked for reused control numbers
   fileName?: string;
   searchTerm?: string;
   settings?: AppSettings;
@@ -50,6 +54,7 @@ interface EditorPopupState {
   y: number;
   segmentId: string;
   rawSegment: string;
+  dictionary?: string;
   isPinned: boolean;
   validationError?: string; 
 }
@@ -89,12 +94,13 @@ const genericTokenizer = (text: string, format: 'json' | 'xml' | 'csv' | 'text')
 
 // Fixed row height for virtualization (only used when no errors present)
 const ROW_HEIGHT = 24;
+const NO_ERRORS: LineError[] = [];
 
 /**
  * REFINED SYNTAX HIGHLIGHTING LOGIC
  * Optimized for Dark Mode (Slate 950 Background)
  */
-const getTokenColor = (token: EdiToken, format: string, isEdiMode: boolean) => {
+const getTokenColor = (token: EdiToken, line: ParsedLine, format: string, isEdiMode: boolean) => {
     if (format === 'json') {
         if (token.type === 'SEGMENT_ID') return 'text-purple-400 font-bold'; // true, false, null
         if (token.type === 'DELIMITER') return 'text-slate-500'; // brackets, commas
@@ -130,9 +136,9 @@ const getTokenColor = (token: EdiToken, format: string, isEdiMode: boolean) => {
             return 'text-slate-500 font-bold opacity-60'; 
         }
         
-        // DATA ELEMENTS (Typed Coloring)
-        if (token.type === 'ELEMENT') {
-            const schema = token.schema as ElementSchema | undefined;
+        // DATA ELEMENTS & COMPOSITE COMPONENTS (Typed Coloring)
+        if (token.type === 'ELEMENT' || token.type === 'COMPONENT') {
+            const schema = tokenSchema(token, line.dictionary, line.segmentId) as ElementSchema | undefined;
             if (schema) {
                 switch(schema.type) {
                     case 'DT': // DATE
@@ -177,6 +183,7 @@ interface EditorRowProps {
   onTokenClick: (e: React.MouseEvent, token: EdiToken, line: ParsedLine, errorMsg?: string) => void;
   visualWrap: boolean;
   onApplyFix: (line: number, newText: string) => void;
+  dictionaryRevision: number; // Token colors resolve schemas from the registry; repaint when packs load
 }
 
 const EditorRow = React.memo(({
@@ -241,6 +248,52 @@ const EditorRow = React.memo(({
       }
   };
 
+  const renderToken = (token: EdiToken, key: string) => {
+    const colorClass = getTokenColor(token, line, isEdiMode ? 'edi' : fileFormat, isEdiMode);
+
+    let isSearchMatch = false;
+    if (findText) {
+        const text = token.value;
+        if (!useRegex && !matchWholeWord && !matchCase) {
+            isSearchMatch = text.toLowerCase().includes(findText.toLowerCase());
+        } else if (!useRegex && !matchWholeWord && matchCase) {
+            isSearchMatch = text.includes(findText);
+        } else if (!useRegex && matchWholeWord) {
+            isSearchMatch = text === findText;
+        } else {
+            try {
+                const regex = new RegExp(findText, matchCase ? '' : 'i');
+                isSearchMatch = regex.test(text);
+            } catch (e) {}
+        }
+    }
+    
+    const tokenIssue = errors.find(e => e.tokenIndex === token.index || e.tokenIndex === -1);
+    let errorDecoration = '';
+    if (tokenIssue) {
+        if (tokenIssue.severity === 'ERROR') {
+            errorDecoration = 'underline decoration-red-500/50 decoration-wavy underline-offset-4';
+        } else {
+            errorDecoration = 'underline decoration-amber-500/50 decoration-wavy underline-offset-4';
+        }
+    }
+
+    const searchClass = isSearchMatch ? 'bg-yellow-500/40 text-white ring-1 ring-yellow-500/50 rounded-sm' : '';
+    const isActive = popupToken === token;
+
+    return (
+        <span
+        key={key}
+        className={`${colorClass} ${searchClass} ${isActive ? 'bg-white/10 ring-1 ring-white/20 rounded' : ''} ${errorDecoration} hover:brightness-125 transition-all duration-150 relative select-none cursor-pointer`}
+        onMouseEnter={(e) => onTokenEnter(e, token, line, tokenIssue?.message)}
+        onMouseLeave={onTokenLeave}
+        onClick={(e) => onTokenClick(e, token, line, tokenIssue?.message)}
+        >
+        {token.value}
+        </span>
+    );
+  };
+
   return (
     <div className={`group transition-colors relative flex flex-col ${rowBgClass}`} style={containerStyle}>
       <div className="flex relative">
@@ -287,51 +340,11 @@ const EditorRow = React.memo(({
             {isFolded ? (
                 <span className="bg-slate-800 text-slate-400 px-2 py-0.5 rounded text-[10px] uppercase font-bold cursor-pointer select-none border border-white/5 hover:border-white/20 transition-colors" onClick={(e) => { e.stopPropagation(); onToggleFold(originalIndex, line.loopEndLine!); }}>Folding Loop...</span>
             ) : (
-                line.tokens.map((token, tIdx) => {
-                const colorClass = getTokenColor(token, isEdiMode ? 'edi' : fileFormat, isEdiMode);
-
-                let isSearchMatch = false;
-                if (findText) {
-                    const text = token.value;
-                    if (!useRegex && !matchWholeWord && !matchCase) {
-                        isSearchMatch = text.toLowerCase().includes(findText.toLowerCase());
-                    } else if (!useRegex && !matchWholeWord && matchCase) {
-                        isSearchMatch = text.includes(findText);
-                    } else if (!useRegex && matchWholeWord) {
-                        isSearchMatch = text === findText;
-                    } else {
-                        try {
-                            const regex = new RegExp(findText, matchCase ? '' : 'i');
-                            isSearchMatch = regex.test(text);
-                        } catch (e) {}
-                    }
-                }
-                
-                const tokenIssue = errors.find(e => e.tokenIndex === token.index || e.tokenIndex === -1);
-                let errorDecoration = '';
-                if (tokenIssue) {
-                    if (tokenIssue.severity === 'ERROR') {
-                        errorDecoration = 'underline decoration-red-500/50 decoration-wavy underline-offset-4';
-                    } else {
-                        errorDecoration = 'underline decoration-amber-500/50 decoration-wavy underline-offset-4';
-                    }
-                }
-
-                const searchClass = isSearchMatch ? 'bg-yellow-500/40 text-white ring-1 ring-yellow-500/50 rounded-sm' : '';
-                const isActive = popupToken === token;
-
-                return (
-                    <span
-                    key={tIdx}
-                    className={`${colorClass} ${searchClass} ${isActive ? 'bg-white/10 ring-1 ring-white/20 rounded' : ''} ${errorDecoration} hover:brightness-125 transition-all duration-150 relative select-none cursor-pointer`}
-                    onMouseEnter={(e) => onTokenEnter(e, token, line, tokenIssue?.message)}
-                    onMouseLeave={onTokenLeave}
-                    onClick={(e) => onTokenClick(e, token, line, tokenIssue?.message)}
-                    >
-                    {token.value}
-                    </span>
-                );
-                })
+                // Composites render each component separately so they can be hovered individually
+                line.tokens.flatMap((token, tIdx) => token.subTokens
+                    ? token.subTokens.map((sub, sIdx) => renderToken(sub, `${tIdx}.${sIdx}`))
+                    : [renderToken(token, `${tIdx}`)]
+                )
             )}
             </div>
         </div>
@@ -405,6 +418,7 @@ const EditorRow = React.memo(({
 const Editor = forwardRef<EditorHandle, EditorProps>(({ 
   content, 
   onChange, 
+  fileId,
   fileName = 'Untitled.txt', 
   searchTerm: externalSearchTerm = '', 
   settings = { fontSize: 'medium', showLineNumbers: true, theme: 'dark', aiModel: 'speed', aiProvider: 'gemini' },
@@ -415,6 +429,11 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
   const [popupState, setPopupState] = useState<EditorPopupState | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [validationResult, setValidationResult] = useState<EditorValidationResult | null>(null);
+  // Lines tokenized by the parse worker, for the content they came from
+  const [parsed, setParsed] = useState<{ content: string; lines: ParsedLine[] } | null>(null);
+  const [validationProgress, setValidationProgress] = useState<ValidationProgress | null>(null);
+  const [dictionaryRevision, setDictionaryRevision] = useState(schemaRegistry.revision);
+  const [dictionaryError, setDictionaryError] = useState<string | null>(null);
   const [visualWrap, setVisualWrap] = useState(false);
   const [history, setHistory] = useState<string[]>([content]);
   const [historyIndex, setHistoryIndex] = useState(0);
@@ -492,14 +511,52 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     });
   }, [historyIndex, history.length, isEditing, visualWrap, isEdiMode, isFindOpen, onStateChange]);
 
+  // Imported specs (Toolbox) change definitions without the content changing
+  useEffect(() => schemaRegistry.subscribe(() => setDictionaryRevision(schemaRegistry.revision)), []);
+
+  // Date windows from Settings; applied before the validation below so it picks them up
+  useEffect(() => ediParseService.setDateChecks(settings.dateChecks), [settings.dateChecks]);
+
+  // Parsing and validation run in the parse worker; debounce so typing bursts only validate once.
+  // Outside edit mode the content only changes as a whole (another file, a generated document), so don't wait.
   useEffect(() => {
-    if (isEdiMode) {
-      const result = validateRealTime(content);
-      setValidationResult(result);
-    } else {
+    if (!isEdiMode) {
       setValidationResult(null);
+      setValidationProgress(null);
+      return;
     }
-  }, [content, isEdiMode]);
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ediParseService.validate(content, progress => { if (!cancelled) setValidationProgress(progress); })
+        .then(async result => {
+          // The worker loaded the dictionary packs for GS08 / UNH; token colors, hovers and side panels
+          // read this thread's registry. Validation itself doesn't wait for them.
+          schemaRegistry.ensureLoaded(result.dictionaries)
+            .then(() => { if (!cancelled) setDictionaryError(null); })
+            .catch(e => {
+              console.error('Dictionary packs failed to load', e);
+              if (!cancelled) setDictionaryError(`Definitions for ${result.dictionaries.join(', ')} could not be loaded; names and types fall back to the base dictionary`);
+            });
+          // Interchange / group control numbers already used by other stored files
+          const stored = fileId ? await storageService.getControlNumberIndex().catch(() => []) : [];
+          const duplicates = fileId ? findStoredDuplicates(result.controlNumbers, fileId, stored) : [];
+          return duplicates.length ? { ...result, errors: [...result.errors, ...duplicates].sort((a, b) => a.line - b.line) } : result;
+        })
+        .then(result => {
+          if (cancelled) return;
+          setValidationResult(result);
+          setParsed({ content, lines: result.lines });
+        })
+        .catch(e => console.error('Validation failed', e))
+        .finally(() => { if (!cancelled) setValidationProgress(null); });
+    }, isEditing ? 150 : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [content, isEdiMode, isEditing, dictionaryRevision, settings.dateChecks, fileId]);
 
   useEffect(() => {
     if (!isEdiMode && !fileName.endsWith('.json') && !fileName.endsWith('.xml') && !fileName.endsWith('.pdf')) {
@@ -641,7 +698,8 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
 
   const lines = useMemo(() => {
     if (fileFormat === 'pdf') return [];
-    if (isEdiMode && !isEditing) return parseEdiToLines(content);
+    // Plain lines until the worker's result for this content arrives
+    if (isEdiMode && !isEditing && parsed?.content === content) return parsed.lines;
     return content.split(/\r?\n/).map((raw, i) => ({
       lineNumber: i + 1,
       raw,
@@ -650,7 +708,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
       isLoopStart: false,
       tokens: genericTokenizer(raw, fileFormat)
     } as ParsedLine));
-  }, [content, isEdiMode, isEditing, fileFormat]);
+  }, [content, isEdiMode, isEditing, fileFormat, parsed]);
 
   const toggleFold = useCallback((lineNum: number, endLine?: number) => {
     if (!endLine) return;
@@ -678,6 +736,16 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
   // Disable virtualization when errors exist to allow dynamic row heights
   // OR when visual wrap is on (which makes row height variable)
   const hasErrors = validationResult?.errors && validationResult.errors.length > 0;
+
+  // Group once per validation run instead of filtering the full error list for every row
+  const errorsByLine = useMemo(() => {
+    const map = new Map<number, LineError[]>();
+    validationResult?.errors.forEach(e => {
+      const list = map.get(e.line);
+      if (list) list.push(e); else map.set(e.line, [e]);
+    });
+    return map;
+  }, [validationResult]);
   const isVirtualizationEnabled = !visualWrap && !hasErrors && visibleLines.length > 2000;
   
   const { virtualItems, totalHeight, translateY } = useMemo(() => {
@@ -715,6 +783,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
       token,
       segmentId: line.segmentId,
       rawSegment: line.raw,
+      dictionary: line.dictionary,
       x: rect.left,
       y: rect.bottom, 
       isPinned: false,
@@ -738,6 +807,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
       token,
       segmentId: line.segmentId,
       rawSegment: line.raw,
+      dictionary: line.dictionary,
       x: rect.left,
       y: rect.bottom,
       isPinned: true,
@@ -800,6 +870,25 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
         </div>
       )}
 
+      {validationProgress && (
+        <div className="absolute top-2 right-4 z-10 flex items-center gap-2 px-2.5 py-1 rounded-lg bg-slate-900/90 border border-white/10 text-[10px] font-mono text-slate-400 pointer-events-none">
+          <Loader2 size={10} className="animate-spin text-blue-400" />
+          {validationProgress.phase === 'PARSE' ? 'Parsing…' : `Validating ${validationProgress.done}/${validationProgress.total} TX`}
+          {validationProgress.total > 0 && (
+            <div className="w-16 h-1 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${Math.round((validationProgress.done / validationProgress.total) * 100)}%` }} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {isEdiMode && dictionaryError && !validationProgress && (
+        <div className="absolute top-2 right-4 z-10 flex items-center gap-2 px-2.5 py-1 rounded-lg bg-slate-900/90 border border-amber-500/20 text-[10px] font-mono text-amber-400" title={dictionaryError}>
+          <AlertTriangle size={10} />
+          Dictionary not loaded
+        </div>
+      )}
+
       {/* Editor Content */}
       <div ref={scrollContainerRef} onScroll={handleScroll} className={`flex-1 horizontal-scroll font-mono ${fontSizeClass} leading-6 relative bg-[#020617]`} onDoubleClick={handleDoubleClick}>
         {isEditing ? (
@@ -816,7 +905,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
                 {virtualItems.map((line) => {
                   const originalIndex = line.lineNumber - 1; 
                   const isFolded = collapsedLines.has(originalIndex);
-                  const errorsForLine = validationResult?.errors.filter(e => e.line === line.lineNumber) || [];
+                  const errorsForLine = errorsByLine.get(line.lineNumber) || NO_ERRORS;
                   
                   return (
                     <EditorRow 
@@ -840,6 +929,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
                       onTokenClick={handleTokenClick}
                       visualWrap={visualWrap}
                       onApplyFix={handleApplyFix}
+                      dictionaryRevision={dictionaryRevision}
                     />
                   );
                 })}
@@ -854,6 +944,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
           position={{ x: popupState.x, y: popupState.y }} 
           segmentId={popupState.segmentId}
           rawSegment={popupState.rawSegment}
+          dictionary={popupState.dictionary}
           isPinned={popupState.isPinned}
           validationError={popupState.validationError}
           onClose={() => setPopupState(null)}
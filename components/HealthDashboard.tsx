@@ -1,5 +1,5 @@
 import React, { useLayoutEffect, useRef, useState } from 'react';
-import { Activity, AlertTriangle, CheckCircle, AlertOctagon, ShieldCheck, ArrowUpRight, Sparkles, Loader2, RefreshCw } from 'lucide-react';
+import { Activity, AlertTriangle, CheckCircle, AlertOctagon, ShieldCheck, ArrowUpRight, Sparkles, Loader2, RefreshCw, Users } from 'lucide-react';
 import { OrchestratedResult, ValidationIssue, FixResult } from '../types';
 import { generateEdiFix } from '../services/geminiService';
 
@@ -167,6 +167,22 @@ const HealthDashboard: React.FC<HealthDashboardProps> = ({
          </div>
       </div>
 
+      {result.partners && result.partners.length > 0 && (
+         <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+            <Users size={14} className="text-blue-400" />
+            {result.partners.map(({ partner, direction, interchangeLine }) => (
+               <button
+                 key={interchangeLine}
+                 onClick={() => onJumpToLine?.(interchangeLine)}
+                 className="px-2 py-0.5 rounded bg-blue-500/10 text-blue-300 hover:bg-blue-500/20"
+                 title={`Interchange at line ${interchangeLine}`}
+               >
+                 {direction === 'INBOUND' ? 'From' : 'To'} {partner.name}{partner.version ? ` · ${partner.version}` : ''}
+               </button>
+            ))}
+         </div>
+      )}
+
       <div className="grid grid-cols-3 gap-3">
          <div className="bg-red-950/20 border border-red-500/20 p-3 rounded-xl flex flex-col items-center text-center">
             <AlertOctagon size={20} className="text-red-500 mb-1" />
@@ -4,6 +4,8 @@ import { Sparkles, Pin, X, BookOpen, Check, RefreshCw, FileJson } from 'lucide-r
 import { ElementSchema, SegmentSchema, EdiToken } from '../types';
 import { GoogleGenAI } from "@google/genai";
 import { useSmartPopupPosition } from '../hooks/useSmartPopupPosition';
+import { schemaRegistry } from '../data/schemaRegistry';
+import { tokenSchema } from '../utils/documentViews';
 
 // Static cache to store AI explanations during the session for instant recall
 const explanationCache = new Map<string, string>();
@@ -13,6 +15,7 @@ interface HoverInfoProps {
   position: { x: number; y: number };
   segmentId: string;
   rawSegment: string;
+  dictionary?: string; // Schema registry key of the line, e.g. "X12/004010"
   isPinned?: boolean;
   validationError?: string;
   onClose?: () => void;
@@ -26,6 +29,7 @@ const HoverInfo: React.FC<HoverInfoProps> = ({
   position, 
   segmentId, 
   rawSegment, 
+  dictionary,
   isPinned, 
   validationError, 
   onClose,
@@ -41,7 +45,15 @@ const HoverInfo: React.FC<HoverInfoProps> = ({
   const cardRef = useRef<HTMLDivElement>(null);
   const smartPos = useSmartPopupPosition(cardRef, position, 8);
 
-  const schema = token.schema as (ElementSchema & SegmentSchema) | undefined;
+  // Segment and element definitions come from the registry for the line's version;
+  // components are looked up inside their element's definition
+  const resolvedSchema = token.type === 'SEGMENT_ID'
+    ? schemaRegistry.resolveSegment(dictionary, segmentId)
+    : token.type === 'ELEMENT'
+      ? schemaRegistry.resolveElement(dictionary, segmentId, token.index)
+      : undefined;
+  const schema = (resolvedSchema || tokenSchema(token, dictionary, segmentId)) as (ElementSchema & SegmentSchema) | undefined;
+  const [dictionaryStandard, dictionaryVersion] = dictionary ? dictionary.split('/') : [];
   
   const isSegment = token.type === 'SEGMENT_ID';
   const displayId = isSegment ? segmentId : (token.fullId || schema?.id || 'UNK');
@@ -55,7 +67,13 @@ const HoverInfo: React.FC<HoverInfoProps> = ({
   }
 
   const referenceUrl = `https://ediacademy.com/blog/x12-${segmentId.toLowerCase()}-segment/`;
-  const schemaUrl = `https://www.stedi.com/edi/x12/segment/${segmentId}`;
+  let schemaUrl = `https://www.stedi.com/edi/x12/segment/${segmentId}`;
+  if (dictionaryStandard === 'X12' && dictionaryVersion && /^\d{6}/.test(dictionaryVersion)) {
+    schemaUrl = `https://www.stedi.com/edi/x12-${dictionaryVersion.substring(0, 6)}/segment/${segmentId}`;
+  } else if (dictionaryStandard === 'EDIFACT' && dictionaryVersion && /^D\d{2}[A-Z]$/.test(dictionaryVersion)) {
+    // UN/EDIFACT segment directory (trsd) of the message's directory release
+    schemaUrl = `https://service.unece.org/trade/untdid/${dictionaryVersion.toLowerCase()}/trsd/trsd${segmentId.toLowerCase()}.htm`;
+  }
 
   const handleAiExplain = async (force: boolean = false) => {
     const cacheKey = `${segmentId}:${token.fullId || 'SEG'}:${token.value}`;
@@ -161,7 +179,19 @@ const HoverInfo: React.FC<HoverInfoProps> = ({
       <div className="px-4 py-2.5 bg-[#161b22] border-b border-white/10 flex items-center justify-between">
         <div className="flex items-center gap-2 overflow-hidden text-xs leading-none w-full">
              <span className="font-bold text-blue-400 font-mono flex-none bg-blue-500/10 px-1.5 py-0.5 rounded">{displayId}</span>
+
+             {/* Composite component: show the dictionary position (e.g. C001-1) and repetition */}
+             {token.type === 'COMPONENT' && schema?.id && schema.id !== displayId && (
+               <span className="font-mono text-[10px] text-indigo-400 flex-none">{schema.id}</span>
+             )}
+             {!!token.repetitionIndex && (
+               <span className="font-mono text-[10px] text-slate-500 flex-none border border-white/5 px-1 rounded">REP {token.repetitionIndex + 1}</span>
+             )}
              
+             {dictionaryVersion && (
+               <span className="font-mono text-[10px] text-slate-500 flex-none border border-white/5 px-1 rounded" title={`${dictionaryStandard} dictionary${schemaRegistry.has(dictionary!) ? '' : ' (base definitions)'}`}>{dictionaryVersion}</span>
+             )}
+
              {schema?.type && (
                <span className="font-mono text-[10px] text-slate-500 flex-none uppercase border border-white/5 px-1 rounded">{schema.type} {schema.min}-{schema.max}</span>
              )}
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, ChevronRight, ChevronDown, Package, FileText, XCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ediParseService } from '../services/ediParseService';
+import { InterchangeOutline, LineError, TransactionOutline } from '../types';
+
+interface InterchangeNavigatorProps {
+  ediContent: string;
+  onJumpToLine: (line: number) => void;
+}
+
+/**
+ * Lists every interchange, functional group and transaction set in the active file,
+ * with per-transaction issue counts. Clicking an entry scrolls the editor to it.
+ */
+const InterchangeNavigator: React.FC<InterchangeNavigatorProps> = ({ ediContent, onJumpToLine }) => {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  const [interchanges, setInterchanges] = useState<InterchangeOutline[]>([]);
+  const [errors, setErrors] = useState<LineError[]>([]);
+
+  // The outline is built in the parse worker; the errors share the editor's in-flight validation
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ediParseService.view(ediContent, 'OUTLINE')
+        .then(outline => { if (!cancelled) setInterchanges(outline); })
+        .catch(() => { if (!cancelled) setInterchanges([]); });
+      ediParseService.validate(ediContent)
+        .then(result => { if (!cancelled) setErrors(result.errors); })
+        .catch(() => { if (!cancelled) setErrors([]); });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [ediContent]);
+
+  if (interchanges.length === 0) return null;
+
+  const issuesFor = (tx: TransactionOutline): LineError[] =>
+    errors.filter(e => e.line >= tx.startLine && e.line <= tx.endLine);
+
+  const toggle = (idx: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(idx)) next.delete(idx); else next.add(idx);
+      return next;
+    });
+  };
+
+  const transactionCount = interchanges.reduce((sum, ic) => sum + ic.groups.reduce((s, g) => s + g.transactions.length, 0), 0);
+
+  return (
+    <div className="flex flex-col min-h-0 max-h-[45%] border-t border-white/5 bg-slate-900/60 text-slate-400">
+      <div className="h-9 flex items-center justify-between px-4 border-b border-white/5 flex-none">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-500 flex items-center gap-2">
+          <Layers size={12} /> Interchanges
+        </span>
+        <span className="text-[10px] font-mono text-slate-600">
+          {interchanges.length} ISA · {transactionCount} TX
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-2 px-2 space-y-1">
+        {interchanges.map((ic, icIdx) => {
+          const isCollapsed = collapsed.has(icIdx);
+          return (
+            <div key={icIdx}>
+              <div
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md cursor-pointer hover:bg-white/5 text-xs"
+                onClick={() => onJumpToLine(ic.startLine)}
+              >
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggle(icIdx); }}
+                  className="text-slate-500 hover:text-white"
+                >
+                  {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                </button>
+                <span className="font-mono font-bold text-rose-400">{ic.headerId || 'Interchange'}</span>
+                <span className="font-mono text-slate-300 truncate">{ic.controlNumber || '—'}</span>
+                {(ic.sender || ic.receiver) && (
+                  <span className="text-[10px] text-slate-600 truncate ml-auto">{ic.sender} → {ic.receiver}</span>
+                )}
+              </div>
+
+              {!isCollapsed && ic.groups.map((group, gIdx) => (
+                <div key={gIdx} className="pl-4">
+                  {group.headerId && (
+                    <div
+                      className="flex items-center gap-1.5 px-2 py-1 rounded-md cursor-pointer hover:bg-white/5 text-xs"
+                      onClick={() => onJumpToLine(group.startLine)}
+                    >
+                      <Package size={11} className="text-amber-400" />
+                      <span className="font-mono font-bold text-amber-300">{group.functionalId || group.headerId}</span>
+                      <span className="font-mono text-slate-400">{group.controlNumber}</span>
+                      {group.version && <span className="text-[10px] text-slate-600 ml-auto">{group.version}</span>}
+                    </div>
+                  )}
+
+                  {group.transactions.map((tx, tIdx) => {
+                    const issues = issuesFor(tx);
+                    const errorCount = issues.filter(i => i.severity === 'ERROR').length;
+                    const warningCount = issues.length - errorCount;
+                    return (
+                      <div
+                        key={tIdx}
+                        className={`flex items-center gap-1.5 px-2 py-1 rounded-md cursor-pointer hover:bg-white/5 text-xs ${group.headerId ? 'ml-4' : ''}`}
+                        onClick={() => onJumpToLine(tx.startLine)}
+                        title={`Lines ${tx.startLine}–${tx.endLine}`}
+                      >
+                        <FileText size={11} className="text-sky-400" />
+                        <span className="font-mono font-bold text-sky-300">{tx.type || 'Segments'}</span>
+                        <span className="font-mono text-slate-500">{tx.controlNumber}</span>
+                        <span className="ml-auto flex items-center gap-1.5">
+                          {errorCount > 0 && (
+                            <span className="flex items-center gap-0.5 text-red-400 text-[10px] font-bold"><XCircle size={10} /> {errorCount}</span>
+                          )}
+                          {warningCount > 0 && (
+                            <span className="flex items-center gap-0.5 text-amber-400 text-[10px] font-bold"><AlertTriangle size={10} /> {warningCount}</span>
+                          )}
+                          {issues.length === 0 && <CheckCircle2 size={10} className="text-emerald-500" />}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default InterchangeNavigator;
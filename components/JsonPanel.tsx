@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Braces, Download, Copy, Check, Play, Loader2 } from 'lucide-react';
+import { Braces, Download, Copy, Check, Play, Loader2, ListTree } from 'lucide-react';
 import { convertEdiToFormat } from '../services/geminiService';
+import { ediParseService } from '../services/ediParseService';
 
 interface JsonPanelProps {
   ediContent: string;
@@ -24,6 +25,19 @@ const JsonPanel: React.FC<JsonPanelProps> = ({ ediContent }) => {
     }
   };
 
+  // Deterministic conversion straight from the document tree (no AI call), built in the parse worker
+  const handleStructuralConvert = async () => {
+    setIsLoading(true);
+    try {
+      setJsonOutput(JSON.stringify(await ediParseService.view(ediContent, 'JSON'), null, 2));
+    } catch (error) {
+      console.error(error);
+      setJsonOutput(JSON.stringify({ error: "Failed to convert" }, null, 2));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(jsonOutput);
     setCopied(true);
@@ -87,6 +101,13 @@ const JsonPanel: React.FC<JsonPanelProps> = ({ ediContent }) => {
               <Play size={18} fill="currentColor" />
               Convert Now
             </button>
+            <button
+              onClick={handleStructuralConvert}
+              className="mt-3 flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium rounded-lg transition-all"
+            >
+              <ListTree size={14} />
+              Structural JSON (Offline)
+            </button>
           </div>
         ) : isLoading ? (
           <div className="flex flex-col items-center justify-center h-full text-slate-400">
@@ -1,11 +1,10 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Layout, ArrowRight, Save, Database, Cloud, Link2, Code, FileJson, Wand2, Lock, ChevronDown, Loader2 } from 'lucide-react';
 import { cloudDataService } from '../services/cloudDataService';
 import { generateXsltWithAi } from '../services/geminiService';
-import { parseEdiToLines } from '../utils/ediParser';
-import { detectDelimiters } from '../utils/ediDetection';
-import { ErpSchema, ErpSchemaNode, MappingRule } from '../types';
+import { ediParseService } from '../services/ediParseService';
+import { ErpSchema, ErpSchemaNode, MappingRule, SourceTreeView } from '../types';
 
 interface MapperViewProps {
   ediContent: string;
@@ -28,43 +27,19 @@ const MapperView: React.FC<MapperViewProps> = ({ ediContent, hasApiKey = false }
   const [selectedSource, setSelectedSource] = useState<string | null>(null);
   const [selectedTarget, setSelectedTarget] = useState<string | null>(null);
 
-  // 1. Detect Transaction Type Dynamically
-  const transactionSet = useMemo(() => {
-    const lines = parseEdiToLines(ediContent);
-    
-    // X12 Strategy: Look for ST segment
-    const st = lines.find(l => l.segmentId === 'ST');
-    if (st) {
-        const id = st.tokens.find(t => t.index === 1)?.value;
-        return id || 'Unknown';
-    }
-
-    // EDIFACT Strategy: Look for UNH segment
-    const unh = lines.find(l => l.segmentId === 'UNH');
-    if (unh) {
-        const idComp = unh.tokens.find(t => t.index === 2)?.value;
-        if (idComp) {
-            // Split by component delimiter if present (e.g. ORDERS:D:96A)
-            const { component } = detectDelimiters(ediContent);
-            return idComp.split(component)[0];
-        }
-    }
+  const [source, setSource] = useState<SourceTreeView>({ transactionSet: 'Unknown', segments: [] });
 
-    return 'Unknown';
+  // Transaction type (ST01 / UNH S009) and source tree, built in the parse worker.
+  // Composite elements are expanded into their components (path SEG/05/1)
+  useEffect(() => {
+    let cancelled = false;
+    ediParseService.view(ediContent, 'SOURCE_TREE')
+      .then(result => { if (!cancelled) setSource(result); })
+      .catch(e => console.error('Source tree failed', e));
+    return () => { cancelled = true; };
   }, [ediContent]);
 
-  // 2. Parse EDI Source Tree
-  const sourceTree = useMemo(() => {
-    const lines = parseEdiToLines(ediContent);
-    return lines.map(line => ({
-        id: line.segmentId,
-        elements: line.tokens.filter(t => t.type === 'ELEMENT').map((t, i) => ({
-            id: t.fullId || `${line.segmentId}${i+1}`,
-            value: t.value,
-            index: t.index
-        }))
-    }));
-  }, [ediContent]);
+  const { transactionSet, segments: sourceTree } = source;
 
   const handleConnectCloud = async () => {
     setIsDbConnected(false);
@@ -209,9 +184,12 @@ const MapperView: React.FC<MapperViewProps> = ({ ediContent, hasApiKey = false }
                 <div className="flex-1 overflow-y-auto p-2 space-y-4 custom-scrollbar">
                    {sourceTree.map((seg, i) => (
                      <div key={i} className="mb-2">
-                       <div className="text-xs font-bold text-slate-400 mb-1 pl-2">{seg.id}</div>
+                       <div className="text-xs font-bold text-slate-400 mb-1 pl-2 flex items-center gap-2">
+                         {seg.id}
+                         {seg.loopPath && <span className="text-[10px] font-normal text-slate-300">{seg.loopPath}</span>}
+                       </div>
                        {seg.elements.map((el) => {
-                         const path = `${seg.id}/${el.index < 10 ? '0' + el.index : el.index}`;
+                         const path = `${seg.id}/${el.path}`;
                          return (
                            <div 
                              key={el.id}
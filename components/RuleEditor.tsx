@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { RuleParamsMap, RuleScope, RuleType, TPRule } from '../types';
+import { RULE_TYPES } from '../data/ruleTypes';
+import { parseRulePath } from '../utils/rulePath';
+import { compilePattern, parseExpression } from '../utils/ruleExpression';
+
+interface RuleEditorProps {
+  rule: TPRule;
+  onSave: (rule: TPRule) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-white/10 rounded px-2 py-1.5 text-xs text-white outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] font-bold text-slate-500 uppercase';
+
+// Empty number inputs leave the limit unset
+const optionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className={labelClass}>{label}</span>
+    {children}
+  </label>
+);
+
+const ScopeSelect: React.FC<{ value?: RuleScope; onChange: (scope: RuleScope) => void }> = ({ value, onChange }) => (
+  <Field label="Scope">
+    <select value={value || 'TRANSACTION'} onChange={e => onChange(e.target.value as RuleScope)} className={inputClass}>
+      <option value="TRANSACTION">Each transaction set</option>
+      <option value="FILE">Whole file</option>
+    </select>
+  </Field>
+);
+
+/**
+ * Form for one trading partner rule: its target, severity and message, plus the params of its type.
+ */
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<TPRule>(rule);
+  const info = RULE_TYPES[draft.type];
+
+  // Switching type starts from that type's default params
+  const setType = (type: RuleType) => {
+    setDraft(d => ({ ...d, type, params: RULE_TYPES[type].defaultParams } as TPRule));
+  };
+
+  const setParams = (params: Partial<RuleParamsMap[RuleType]>) => {
+    setDraft(d => ({ ...d, params: { ...d.params, ...params } } as TPRule));
+  };
+
+  const renderParams = () => {
+    switch (draft.type) {
+      case 'MAX_LENGTH':
+      case 'MIN_LENGTH':
+        return (
+          <Field label="Length">
+            <input type="number" min={1} value={draft.params?.length ?? ''} onChange={e => setParams({ length: Number(e.target.value) })} className={inputClass} />
+          </Field>
+        );
+      case 'ALLOWED_CODES':
+        return (
+          <Field label="Codes (comma separated)">
+            <input
+              value={draft.params?.codes.join(', ') ?? ''}
+              onChange={e => setParams({ codes: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })}
+              className={`${inputClass} font-mono`}
+              placeholder="00, 06"
+            />
+          </Field>
+        );
+      case 'CONDITIONAL_EXISTS':
+        return (
+          <Field label="Then require segment">
+            <input value={draft.params?.dependentSegment ?? ''} onChange={e => setParams({ dependentSegment: e.target.value.toUpperCase() })} className={`${inputClass} font-mono`} placeholder="REF" />
+          </Field>
+        );
+      case 'CUSTOM_BUSINESS_LOGIC':
+        return (
+          <>
+            <Field label="Expression (must be true)">
+              <textarea
+                value={draft.params?.expression ?? ''}
+                onChange={e => setParams({ expression: e.target.value })}
+                rows={3}
+                spellCheck={false}
+                className={`${inputClass} font-mono resize-none ${expressionError ? 'border-red-500/50' : ''}`}
+                placeholder={'sum(PO1.02 * PO1.04) == AMT.02\nif BEG.02 == "SA" then exists(DTM[01=002])'}
+              />
+            </Field>
+            {expressionError && <p className="text-[10px] text-red-400">{expressionError}</p>}
+          </>
+        );
+      case 'REGEX':
+        return (
+          <>
+            <div className="grid grid-cols-[1fr_4rem] gap-2">
+              <Field label="Pattern">
+                <input value={draft.params?.pattern ?? ''} onChange={e => setParams({ pattern: e.target.value })} className={`${inputClass} font-mono ${patternError ? 'border-red-500/50' : ''}`} placeholder="[0-9]{10}" />
+              </Field>
+              <Field label="Flags">
+                <input value={draft.params?.flags ?? ''} onChange={e => setParams({ flags: e.target.value.trim() || undefined })} className={`${inputClass} font-mono ${patternError ? 'border-red-500/50' : ''}`} placeholder="i" />
+              </Field>
+            </div>
+            {patternError && <p className="text-[10px] text-red-400">{patternError}</p>}
+          </>
+        );
+      case 'VALUE_RANGE':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Min">
+              <input type="number" value={draft.params?.min ?? ''} onChange={e => setParams({ min: optionalNumber(e.target.value) })} className={inputClass} />
+            </Field>
+            <Field label="Max">
+              <input type="number" value={draft.params?.max ?? ''} onChange={e => setParams({ max: optionalNumber(e.target.value) })} className={inputClass} />
+            </Field>
+          </div>
+        );
+      case 'SEGMENT_COUNT':
+        return (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Min uses">
+                <input type="number" min={0} value={draft.params?.min ?? ''} onChange={e => setParams({ min: optionalNumber(e.target.value) })} className={inputClass} />
+              </Field>
+              <Field label="Max uses">
+                <input type="number" min={0} value={draft.params?.max ?? ''} onChange={e => setParams({ max: optionalNumber(e.target.value) })} className={inputClass} />
+              </Field>
+            </div>
+            <ScopeSelect value={draft.params?.scope} onChange={scope => setParams({ scope })} />
+          </>
+        );
+      case 'UNIQUE_VALUES':
+        return <ScopeSelect value={draft.params?.scope} onChange={scope => setParams({ scope })} />;
+      case 'DATE_WINDOW': {
+        const params = draft.params || {};
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Qualifier element">
+              <input
+                type="number"
+                min={1}
+                value={params.qualifier?.element ?? ''}
+                onChange={e => {
+                  const element = optionalNumber(e.target.value);
+                  setParams({ qualifier: element ? { element, value: params.qualifier?.value || '' } : undefined });
+                }}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Qualifier value">
+              <input
+                value={params.qualifier?.value ?? ''}
+                disabled={!params.qualifier}
+                onChange={e => params.qualifier && setParams({ qualifier: { ...params.qualifier, value: e.target.value } })}
+                className={`${inputClass} font-mono disabled:opacity-50`}
+                placeholder="002"
+              />
+            </Field>
+            <Field label="Max days past">
+              <input type="number" min={0} value={params.maxPastDays ?? ''} onChange={e => setParams({ maxPastDays: optionalNumber(e.target.value) })} className={inputClass} />
+            </Field>
+            <Field label="Max days future">
+              <input type="number" min={0} value={params.maxFutureDays ?? ''} onChange={e => setParams({ maxFutureDays: optionalNumber(e.target.value) })} className={inputClass} />
+            </Field>
+            <Field label="Not before segment">
+              <input
+                value={params.notBefore?.segment ?? ''}
+                onChange={e => {
+                  const segment = e.target.value.toUpperCase();
+                  setParams({ notBefore: segment ? { element: 1, ...params.notBefore, segment } : undefined });
+                }}
+                className={`${inputClass} font-mono`}
+                placeholder="BEG"
+              />
+            </Field>
+            <Field label="Not before element">
+              <input
+                type="number"
+                min={1}
+                value={params.notBefore?.element ?? ''}
+                disabled={!params.notBefore}
+                onChange={e => params.notBefore && setParams({ notBefore: { ...params.notBefore, element: Number(e.target.value) } })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </Field>
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const pathError = useMemo(() => {
+    if (!draft.scopePath?.trim()) return null;
+    try {
+      parseRulePath(draft.scopePath);
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  }, [draft.scopePath]);
+
+  const expressionError = useMemo(() => {
+    if (draft.type !== 'CUSTOM_BUSINESS_LOGIC') return null;
+    try {
+      parseExpression(draft.params?.expression ?? '');
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  }, [draft]);
+
+  const patternError = useMemo(() => {
+    if (draft.type !== 'REGEX' || !draft.params?.pattern) return null;
+    try {
+      compilePattern(draft.params.pattern, draft.params.flags);
+      return null;
+    } catch (e: any) {
+      return e.message as string;
+    }
+  }, [draft]);
+
+  const canSave = !!draft.targetSegment && (!info.needsElement || !!draft.targetElement) && !pathError && !expressionError && !patternError;
+
+  return (
+    <div className="p-3 rounded-lg border border-blue-500/30 bg-slate-900/80 space-y-3">
+      <Field label="Rule type">
+        <select value={draft.type} onChange={e => setType(e.target.value as RuleType)} className={inputClass}>
+          {(Object.keys(RULE_TYPES) as RuleType[]).map(type => (
+            <option key={type} value={type}>{RULE_TYPES[type].label}</option>
+          ))}
+        </select>
+      </Field>
+      <p className="text-[10px] text-slate-500">{info.description}</p>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Field label="Segment">
+          <input value={draft.targetSegment} onChange={e => setDraft({ ...draft, targetSegment: e.target.value.toUpperCase() })} className={`${inputClass} font-mono`} placeholder="BEG" />
+        </Field>
+        {info.needsElement && (
+          <Field label="Element">
+            <input
+              type="number"
+              min={1}
+              value={draft.targetElement ?? ''}
+              onChange={e => setDraft({ ...draft, targetElement: optionalNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </Field>
+        )}
+        <Field label="Severity">
+          <select value={draft.severity} onChange={e => setDraft({ ...draft, severity: e.target.value as TPRule['severity'] })} className={inputClass}>
+            <option value="ERROR">Error</option>
+            <option value="WARNING">Warning</option>
+          </select>
+        </Field>
+      </div>
+
+      <Field label="Scope path (optional)">
+        <input
+          value={draft.scopePath ?? ''}
+          onChange={e => setDraft({ ...draft, scopePath: e.target.value || undefined })}
+          className={`${inputClass} font-mono ${pathError ? 'border-red-500/50' : ''}`}
+          placeholder="PO1, N1[01=ST], REF[01=DP], HL[03=I]"
+        />
+      </Field>
+      {pathError
+        ? <p className="text-[10px] text-red-400">{pathError}</p>
+        : draft.scopePath && <p className="text-[10px] text-slate-500">Checked separately within each {draft.scopePath} in every transaction set.</p>}
+
+      {renderParams()}
+
+      <Field label="Message">
+        <input value={draft.message} onChange={e => setDraft({ ...draft, message: e.target.value })} className={inputClass} placeholder="Leave empty for the default message" />
+      </Field>
+
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 py-1.5 bg-slate-800 text-slate-400 rounded-lg text-xs font-bold hover:bg-slate-700 flex items-center justify-center gap-1.5">
+          <X size={12} /> Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...draft, targetElement: info.needsElement ? draft.targetElement : undefined })}
+          disabled={!canSave}
+          className="flex-1 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-500 disabled:opacity-50 flex items-center justify-center gap-1.5"
+        >
+          <Check size={12} /> Save Rule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RuleEditor;
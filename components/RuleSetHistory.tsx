@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCommit, Loader2, Minus, Pencil, Plus } from 'lucide-react';
+import { RuleSetVersion, TPRule, TPRuleSet, VersionBump } from '../types';
+import { RULE_TYPES } from '../data/ruleTypes';
+import { bumpVersion, diffRuleSets, publishRuleSet } from '../utils/ruleSetLibrary';
+import { storageService } from '../services/storageService';
+
+interface RuleSetHistoryProps {
+  ruleSet: TPRuleSet;
+  onPublish: (ruleSet: TPRuleSet) => void;
+}
+
+const WORKING_COPY = 'working';
+
+const ruleLabel = (rule: TPRule) =>
+  `${rule.targetSegment}${rule.targetElement ? String(rule.targetElement).padStart(2, '0') : ''} ${RULE_TYPES[rule.type]?.label || rule.type}${rule.scopePath ? ` in ${rule.scopePath}` : ''}`;
+
+/**
+ * Published versions of a rule set: publishing the working copy as a new semantic version with a
+ * changelog note, and a diff between any two versions.
+ */
+const RuleSetHistory: React.FC<RuleSetHistoryProps> = ({ ruleSet, onPublish }) => {
+  const [versions, setVersions] = useState<RuleSetVersion[] | null>(null);
+  const [bump, setBump] = useState<VersionBump>(ruleSet.version ? 'minor' : 'major');
+  const [summary, setSummary] = useState('');
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>(WORKING_COPY);
+
+  useEffect(() => {
+    storageService.getRuleSetVersions(ruleSet.id).then(stored => {
+      setVersions(stored);
+      setFrom(stored[0]?.version || '');
+    });
+  }, [ruleSet.id]);
+
+  const resolve = (key: string): TPRuleSet | undefined =>
+    key === WORKING_COPY ? ruleSet : versions?.find(v => v.version === key)?.ruleSet;
+
+  // What publishing now would record, against the latest published version
+  const pending = useMemo(() => {
+    const latest = versions?.[0]?.ruleSet;
+    return latest ? diffRuleSets(latest, ruleSet) : null;
+  }, [versions, ruleSet]);
+
+  useEffect(() => {
+    if (pending?.suggestedBump) setBump(pending.suggestedBump);
+  }, [pending?.suggestedBump]);
+
+  const diff = useMemo(() => {
+    const a = resolve(from);
+    const b = resolve(to);
+    return a && b && a !== b ? diffRuleSets(a, b) : null;
+  }, [from, to, versions, ruleSet]);
+
+  const handlePublish = async () => {
+    const { ruleSet: published, snapshot } = publishRuleSet(ruleSet, bump, summary);
+    await storageService.saveRuleSetVersion(snapshot);
+    setVersions(prev => [snapshot, ...(prev || [])]);
+    setFrom(snapshot.version);
+    setSummary('');
+    onPublish(published);
+  };
+
+  if (!versions) {
+    return <div className="flex justify-center py-3"><Loader2 size={14} className="animate-spin text-slate-500" /></div>;
+  }
+
+  const unchanged = versions.length > 0 && pending?.suggestedBump === null;
+  const options = [{ key: WORKING_COPY, label: 'Working copy' }, ...versions.map(v => ({ key: v.version, label: `v${v.version}` }))];
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="space-y-2 p-2 rounded bg-slate-900/50">
+        <div className="flex items-center gap-2">
+          <select value={bump} onChange={e => setBump(e.target.value as VersionBump)} className="bg-slate-800 border border-white/10 rounded px-2 py-1 text-slate-200 outline-none">
+            {(['major', 'minor', 'patch'] as VersionBump[]).map(b => (
+              <option key={b} value={b}>{b} → v{bumpVersion(ruleSet.version, b)}</option>
+            ))}
+          </select>
+          {pending?.suggestedBump && <span className="text-[10px] text-slate-500">suggested: {pending.suggestedBump}</span>}
+        </div>
+        <input
+          value={summary}
+          onChange={e => setSummary(e.target.value)}
+          className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1 text-slate-200 outline-none focus:border-blue-500"
+          placeholder="What changed, e.g. Partner guide rev. 4.2"
+        />
+        <button
+          onClick={handlePublish}
+          disabled={unchanged}
+          className="w-full py-1.5 bg-emerald-600 text-white rounded font-bold hover:bg-emerald-500 disabled:opacity-50 flex items-center justify-center gap-1.5"
+          title={unchanged ? 'No changes since the last published version' : undefined}
+        >
+          <GitCommit size={12} /> Publish Version
+        </button>
+      </div>
+
+      {ruleSet.changelog && ruleSet.changelog.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-bold text-slate-500 uppercase">Changelog</div>
+          {ruleSet.changelog.map(entry => (
+            <div key={`${entry.version}-${entry.date}`} className="flex gap-2 text-slate-400">
+              <span className="font-mono text-slate-200 flex-none">v{entry.version}</span>
+              <span className="truncate flex-1" title={entry.summary}>{entry.summary}</span>
+              <span className="text-[10px] text-slate-500 flex-none">{entry.date.substring(0, 10)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-1.5">
+            <span className="text-[10px] font-bold text-slate-500 uppercase">Diff</span>
+            <select value={from} onChange={e => setFrom(e.target.value)} className="flex-1 bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-slate-200 outline-none">
+              {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+            </select>
+            <span className="text-slate-500">→</span>
+            <select value={to} onChange={e => setTo(e.target.value)} className="flex-1 bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-slate-200 outline-none">
+              {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+            </select>
+          </div>
+          {diff && (
+            <div className="space-y-0.5 font-mono text-[11px]">
+              {diff.suggestedBump === null && <div className="text-slate-500 font-sans">No differences</div>}
+              {diff.metadata.map(m => (
+                <div key={m.field} className="text-amber-300 flex gap-1.5"><Pencil size={10} className="mt-0.5 flex-none" />{m.field}: {m.before} → {m.after}</div>
+              ))}
+              {diff.added.map(r => (
+                <div key={`+${r.id}`} className="text-emerald-400 flex gap-1.5"><Plus size={10} className="mt-0.5 flex-none" />{ruleLabel(r)}</div>
+              ))}
+              {diff.removed.map(r => (
+                <div key={`-${r.id}`} className="text-red-400 flex gap-1.5"><Minus size={10} className="mt-0.5 flex-none" />{ruleLabel(r)}</div>
+              ))}
+              {diff.changed.map(c => (
+                <div key={`~${c.after.id}`} className="text-amber-300 flex gap-1.5" title={c.fields.map(f => f === 'severity' ? `severity ${c.before.severity} → ${c.after.severity}` : f).join(', ')}>
+                  <Pencil size={10} className="mt-0.5 flex-none" />{ruleLabel(c.after)} <span className="text-slate-500 truncate">({c.fields.join(', ')})</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleSetHistory;
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, FileText, Loader2, Play, Plus, Trash2, Upload, XCircle } from 'lucide-react';
+import { RuleSetTestCase, RuleSetTestResult, TPRuleSet } from '../types';
+import { formatExpectedIssues, parseExpectedIssues, ruleSetTestRunner } from '../services/ruleSetTestRunner';
+
+interface RuleSetTestsProps {
+  ruleSet: TPRuleSet;
+  activeFileContent?: string;
+  onUpdateTests: (tests: RuleSetTestCase[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-white/10 rounded px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500';
+
+/**
+ * Sample documents attached to a rule set, each expected to come out clean or with given issue
+ * codes, and a runner showing which ones still behave as expected.
+ */
+const RuleSetTests: React.FC<RuleSetTestsProps> = ({ ruleSet, activeFileContent, onUpdateTests }) => {
+  const tests = ruleSet.tests || [];
+  const [results, setResults] = useState<Record<string, RuleSetTestResult>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleSetTestCase | null>(null);
+  const [expectedText, setExpectedText] = useState('');
+  const [running, setRunning] = useState(false);
+  const sampleInputRef = useRef<HTMLInputElement>(null);
+
+  const runAll = async () => {
+    setRunning(true);
+    try {
+      const all = await ruleSetTestRunner.runAll(ruleSet);
+      setResults(Object.fromEntries(all.map(r => [r.testId, r])));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const startNew = (content = '', name = '') => {
+    setDraft({ id: Date.now().toString(), name: name || `Sample ${tests.length + 1}`, content, expect: 'CLEAN', expectedIssues: [] });
+    setExpectedText('');
+  };
+
+  const handleSampleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) startNew(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const testCase: RuleSetTestCase = {
+      ...draft,
+      expectedIssues: draft.expect === 'ISSUES' ? parseExpectedIssues(expectedText) : []
+    };
+    const exists = tests.some(t => t.id === testCase.id);
+    onUpdateTests(exists ? tests.map(t => t.id === testCase.id ? testCase : t) : [...tests, testCase]);
+    setDraft(null);
+  };
+
+  const editCase = (testCase: RuleSetTestCase) => {
+    setDraft(testCase);
+    setExpectedText(formatExpectedIssues(testCase.expectedIssues));
+  };
+
+  const deleteCase = (id: string) => {
+    onUpdateTests(tests.filter(t => t.id !== id));
+    setResults(prev => {
+      const { [id]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const ran = Object.keys(results).length > 0;
+  const passed = tests.filter(t => results[t.id]?.passed).length;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={runAll}
+          disabled={tests.length === 0 || running}
+          className="flex-1 py-1.5 bg-blue-600 text-white rounded font-bold hover:bg-blue-500 disabled:opacity-50 flex items-center justify-center gap-1.5"
+        >
+          {running ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Run {tests.length} Test{tests.length === 1 ? '' : 's'}
+        </button>
+        {ran && (
+          <span className={`font-bold ${passed === tests.length ? 'text-emerald-400' : 'text-red-400'}`}>{passed}/{tests.length} passed</span>
+        )}
+      </div>
+
+      {tests.map(testCase => {
+        const result = results[testCase.id];
+        const isOpen = expanded === testCase.id;
+        return (
+          <div key={testCase.id} className="rounded bg-slate-900/50">
+            <div className="group flex items-center gap-2 px-2 py-1.5">
+              <button onClick={() => setExpanded(isOpen ? null : testCase.id)} className="flex items-center gap-1.5 min-w-0 flex-1 text-left">
+                {isOpen ? <ChevronDown size={12} className="text-slate-500 flex-none" /> : <ChevronRight size={12} className="text-slate-500 flex-none" />}
+                {result && (result.passed ? <CheckCircle2 size={12} className="text-emerald-400 flex-none" /> : <XCircle size={12} className="text-red-400 flex-none" />)}
+                <span className="text-slate-200 truncate">{testCase.name}</span>
+                <span className="text-[10px] text-slate-500 flex-none">
+                  {testCase.expect === 'CLEAN' ? 'must be clean' : formatExpectedIssues(testCase.expectedIssues) || 'any issue'}
+                </span>
+              </button>
+              <button onClick={() => editCase(testCase)} className="text-slate-500 hover:text-white opacity-0 group-hover:opacity-100"><FileText size={12} /></button>
+              <button onClick={() => deleteCase(testCase.id)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100"><Trash2 size={12} /></button>
+            </div>
+            {isOpen && (
+              <div className="border-t border-white/5 px-2 py-1.5 space-y-1 font-mono text-[11px]">
+                {!result && <div className="text-slate-500 font-sans">Not run yet</div>}
+                {result?.error && <div className="text-red-400">{result.error}</div>}
+                {result && !result.error && result.passed && <div className="text-emerald-400 font-sans">{result.issues.length} issue(s) reported, as expected</div>}
+                {result?.missing.map((m, i) => (
+                  <div key={`m${i}`} className="text-red-400">− expected {m.code}{m.line !== undefined ? ` on line ${m.line}` : ''}, not reported</div>
+                ))}
+                {result?.unexpected.map((u, i) => (
+                  <div key={`u${i}`} className="text-amber-300" title={u.message}>+ {u.code}{u.line !== undefined ? ` line ${u.line}` : ''} <span className="text-slate-500">{u.message}</span></div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {draft ? (
+        <div className="p-2 rounded border border-blue-500/30 bg-slate-900/80 space-y-2">
+          <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="Test name" />
+          <textarea
+            value={draft.content}
+            onChange={e => setDraft({ ...draft, content: e.target.value })}
+            rows={5}
+            spellCheck={false}
+            className={`${inputClass} font-mono resize-none`}
+            placeholder="Paste a sample document"
+          />
+          <div className="flex bg-slate-800 p-1 rounded-lg">
+            {(['CLEAN', 'ISSUES'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setDraft({ ...draft, expect: mode })}
+                className={`flex-1 py-1 text-[10px] font-bold rounded-md transition-all ${draft.expect === mode ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+              >
+                {mode === 'CLEAN' ? 'Must be clean' : 'Expect issues'}
+              </button>
+            ))}
+          </div>
+          {draft.expect === 'ISSUES' && (
+            <>
+              <input
+                value={expectedText}
+                onChange={e => setExpectedText(e.target.value)}
+                className={`${inputClass} font-mono`}
+                placeholder="TP_INVALID_CODE@4, TP_MISSING_SEG"
+              />
+              <label className="flex items-center gap-2 text-[10px] text-slate-400">
+                <input type="checkbox" checked={!!draft.allowOtherIssues} onChange={e => setDraft({ ...draft, allowOtherIssues: e.target.checked })} />
+                Ignore issues that aren't listed
+              </label>
+            </>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(null)} className="flex-1 py-1.5 bg-slate-800 text-slate-400 rounded font-bold hover:bg-slate-700">Cancel</button>
+            <button onClick={saveDraft} disabled={!draft.content.trim()} className="flex-1 py-1.5 bg-blue-600 text-white rounded font-bold hover:bg-blue-500 disabled:opacity-50">Save Test</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-1">
+          <button onClick={() => startNew()} className="flex-1 py-1.5 text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 rounded flex items-center justify-center gap-1.5">
+            <Plus size={12} /> Add Test
+          </button>
+          {activeFileContent && (
+            <button onClick={() => startNew(activeFileContent)} className="flex-1 py-1.5 text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 rounded flex items-center justify-center gap-1.5">
+              <FileText size={12} /> From Open File
+            </button>
+          )}
+          <button onClick={() => sampleInputRef.current?.click()} className="flex-1 py-1.5 text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 rounded flex items-center justify-center gap-1.5">
+            <Upload size={12} /> Upload
+          </button>
+          <input ref={sampleInputRef} type="file" accept=".edi,.x12,.txt,.dat,.edifact" className="hidden" onChange={handleSampleFile} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleSetTests;
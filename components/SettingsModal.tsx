@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { X, Monitor, Type, Hash, Zap, BrainCircuit, Database, Trash2, Globe, Key, ExternalLink } from 'lucide-react';
-import { AppSettings } from '../types';
+import { X, Monitor, Type, Hash, Zap, BrainCircuit, Database, Trash2, Globe, Key, ExternalLink, CalendarClock } from 'lucide-react';
+import { AppSettings, DateCheckSettings } from '../types';
 import { storageService } from '../services/storageService';
 
 interface SettingsModalProps {
@@ -20,6 +20,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     onUpdateSettings({ ...settings, [key]: value });
   };
 
+  const dateChecks: DateCheckSettings = settings.dateChecks || { enabled: true };
+  const updateDateChecks = (changes: Partial<DateCheckSettings>) => update('dateChecks', { ...dateChecks, ...changes });
+  const dayLimit = (value: string) => value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+
   const handleClearDb = async () => {
     if (confirm("Are you sure you want to clear all files from the local database? This cannot be undone.")) {
         setClearingDb(true);
@@ -124,6 +128,53 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
 
           <hr className="border-slate-100" />
 
+          {/* Business Date Checks */}
+          <div className="space-y-3">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+              <CalendarClock size={14} /> Date Checks
+            </h3>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium text-slate-700">Business Date Windows</label>
+                <p className="text-xs text-slate-500">e.g. ship date not before PO date</p>
+              </div>
+              <button
+                onClick={() => updateDateChecks({ enabled: !dateChecks.enabled })}
+                className={`w-11 h-6 flex items-center rounded-full p-1 transition-colors ${dateChecks.enabled ? 'bg-blue-600' : 'bg-slate-300'}`}
+              >
+                <div className={`bg-white w-4 h-4 rounded-full shadow-md transform transition-transform ${dateChecks.enabled ? 'translate-x-5' : 'translate-x-0'}`} />
+              </button>
+            </div>
+
+            <div className={`grid grid-cols-2 gap-3 ${dateChecks.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+              <label className="text-xs font-medium text-slate-600 space-y-1">
+                <span>Max days in past</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="No limit"
+                  value={dateChecks.maxPastDays ?? ''}
+                  onChange={e => updateDateChecks({ maxPastDays: dayLimit(e.target.value) })}
+                  className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-300"
+                />
+              </label>
+              <label className="text-xs font-medium text-slate-600 space-y-1">
+                <span>Max days in future</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="No limit"
+                  value={dateChecks.maxFutureDays ?? ''}
+                  onChange={e => updateDateChecks({ maxFutureDays: dayLimit(e.target.value) })}
+                  className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-300"
+                />
+              </label>
+            </div>
+          </div>
+
+          <hr className="border-slate-100" />
+
           {/* AI Configuration */}
           <div className="space-y-3">
              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -1,19 +1,65 @@
 
-import React, { useMemo } from 'react';
-import { ListTree, Hash, FileCode, Search, Info } from 'lucide-react';
-import { parseEdiToLines } from '../utils/ediParser';
-import { ParsedLine, ElementSchema } from '../types';
+import React, { useEffect, useState } from 'react';
+import { ListTree, Hash, FileCode, Search, Info, GitBranch, AlertTriangle } from 'lucide-react';
+import { ediParseService } from '../services/ediParseService';
+import { tokenSchema } from '../utils/documentViews';
+import { ElementSchema, HlOutline, SegmentSchema, StructureView } from '../types';
 
 interface StructurePanelProps {
   ediContent: string;
 }
 
+const HlTreeNode: React.FC<{ node: HlOutline; depth: number }> = ({ node, depth }) => (
+  <div style={{ marginLeft: `${depth * 14}px` }} className={depth > 0 ? 'border-l border-white/5 pl-2' : ''}>
+    <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-white/[0.03] transition-colors">
+      <span className="text-[10px] font-mono text-slate-500 w-5 flex-none">{node.lineNumber}</span>
+      <span className="font-mono font-bold text-blue-400 text-xs flex-none">HL {node.id}</span>
+      <span className="text-[10px] font-mono text-sky-400/80 bg-sky-500/5 border border-sky-500/10 px-1.5 rounded flex-none">{node.level || '?'}</span>
+      <span className="text-[10px] text-slate-400 truncate">{node.levelName || 'Unknown level'}</span>
+      {node.orphan && (
+        <span className="flex items-center gap-1 text-[9px] text-amber-400 flex-none" title={`HL02 '${node.parentId}' does not refer to a preceding HL`}>
+          <AlertTriangle size={10} /> parent {node.parentId}?
+        </span>
+      )}
+      <span className="text-[9px] font-mono text-slate-600 truncate ml-auto">
+        {node.segmentIds.join(' ')}
+      </span>
+    </div>
+    {node.children.map(child => <HlTreeNode key={child.lineNumber} node={child} depth={depth + 1} />)}
+  </div>
+);
+
 const StructurePanel: React.FC<StructurePanelProps> = ({ ediContent }) => {
-  const segments = useMemo(() => {
-    if (!ediContent) return [];
-    return parseEdiToLines(ediContent);
+  const [view, setView] = useState<'segments' | 'hierarchy'>('segments');
+
+  const [structure, setStructure] = useState<StructureView | null>(null);
+
+  // Segments in document order (depth/loop from the document tree) and HL trees, built in the parse worker
+  useEffect(() => {
+    if (!ediContent) {
+      setStructure(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      ediParseService.view(ediContent, 'STRUCTURE')
+        .then(result => { if (!cancelled) setStructure(result); })
+        .catch(e => {
+          console.error('Structure view failed', e);
+          if (!cancelled) setStructure(null);
+        });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
   }, [ediContent]);
 
+  const segments = structure?.segments || [];
+  const hierarchies = structure?.hierarchies || [];
+
+  const showHierarchy = view === 'hierarchy' && hierarchies.length > 0;
+
   if (!ediContent) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-slate-500 p-8 text-center">
@@ -31,16 +77,47 @@ const StructurePanel: React.FC<StructurePanelProps> = ({ ediContent }) => {
             <ListTree size={16} className="text-blue-400" />
             <h3 className="text-xs font-bold text-slate-200 uppercase tracking-wider">Element Inspector</h3>
         </div>
-        <span className="text-[10px] bg-blue-500/10 text-blue-400 px-2 py-0.5 rounded font-bold border border-blue-500/20">
-            {segments.length} Segments
-        </span>
+        <div className="flex items-center gap-2">
+          {hierarchies.length > 0 && (
+            <button
+              onClick={() => setView(showHierarchy ? 'segments' : 'hierarchy')}
+              className={`flex items-center gap-1 text-[10px] px-2 py-0.5 rounded font-bold border transition-colors ${showHierarchy ? 'bg-sky-500/20 text-sky-300 border-sky-500/30' : 'text-slate-400 border-white/10 hover:text-slate-200'}`}
+              title="Toggle HL hierarchy tree"
+            >
+              <GitBranch size={10} /> HL Tree
+            </button>
+          )}
+          <span className="text-[10px] bg-blue-500/10 text-blue-400 px-2 py-0.5 rounded font-bold border border-blue-500/20">
+              {segments.length} Segments
+          </span>
+        </div>
       </div>
 
+      {showHierarchy ? (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          <div className="space-y-4 pb-10">
+            {hierarchies.map(tx => (
+              <div key={tx.startLine} className="rounded-xl border border-white/5 bg-white/[0.02] overflow-hidden">
+                <div className="px-3 py-2 bg-white/[0.03] border-b border-white/5 flex items-center gap-2">
+                  <span className="font-mono font-bold text-blue-400 text-sm">{tx.type || 'Transaction'}</span>
+                  {tx.controlNumber && <span className="text-[10px] font-mono text-slate-500">#{tx.controlNumber}</span>}
+                </div>
+                <div className="p-1">
+                  {tx.roots.map(node => <HlTreeNode key={node.lineNumber} node={node} depth={0} />)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
       <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
         <div className="space-y-4 pb-10">
-          {segments.map((line) => (
+          {segments.map(({ line, depth, loopPath }) => {
+            const segmentSchema = (line.tokens[0] ? tokenSchema(line.tokens[0], line.dictionary, line.segmentId) : undefined) as SegmentSchema | undefined;
+            return (
             <div 
               key={line.lineNumber} 
+              style={{ marginLeft: `${Math.max(0, depth - 2) * 12}px` }}
               className="group rounded-xl border border-white/5 bg-white/[0.02] overflow-hidden hover:border-white/10 transition-all shadow-sm"
             >
               {/* Segment Header */}
@@ -48,18 +125,23 @@ const StructurePanel: React.FC<StructurePanelProps> = ({ ediContent }) => {
                 <div className="flex items-center gap-2">
                   <span className="text-[10px] font-mono text-slate-500 w-5">{line.lineNumber}</span>
                   <span className="font-mono font-bold text-blue-400 text-sm">{line.segmentId}</span>
-                  {line.tokens[0]?.schema && (
+                  {segmentSchema && (
                     <span className="text-[10px] text-slate-400 truncate max-w-[180px]">
-                      — {(line.tokens[0].schema as any).name}
+                      — {segmentSchema.name}
                     </span>
                   )}
                 </div>
+                {loopPath && (
+                  <span className="text-[9px] font-mono text-sky-400/70 bg-sky-500/5 border border-sky-500/10 px-1.5 rounded flex-none">
+                    {loopPath.split('/').join(' › ')}
+                  </span>
+                )}
               </div>
 
               {/* Elements List */}
               <div className="divide-y divide-white/[0.03]">
                 {line.tokens.filter(t => t.type === 'ELEMENT').map((token) => {
-                  const schema = token.schema as ElementSchema | undefined;
+                  const schema = tokenSchema(token, line.dictionary, line.segmentId) as ElementSchema | undefined;
                   const isId = schema?.type === 'ID';
                   const qualifierDesc = isId && schema?.qualifiers ? schema.qualifiers[token.value] : null;
 
@@ -91,15 +173,39 @@ const StructurePanel: React.FC<StructurePanelProps> = ({ ediContent }) => {
                                 </span>
                             )}
                          </div>
+
+                         {/* Composite / Repetition Components */}
+                         {token.subTokens && (
+                            <div className="mt-1.5 pl-2 border-l border-white/5 space-y-0.5">
+                                {token.subTokens.filter(t => t.type === 'COMPONENT').map((comp, cIdx) => {
+                                    const compSchema = tokenSchema(comp, line.dictionary, line.segmentId) as ElementSchema | undefined;
+                                    const compQualifier = compSchema?.type === 'ID' && compSchema.qualifiers ? compSchema.qualifiers[comp.value] : null;
+                                    return (
+                                        <div key={cIdx} className="flex items-center gap-2 text-[10px]">
+                                            <span className="font-mono text-slate-600 w-16 flex-none">
+                                                {comp.fullId}{comp.repetitionIndex ? ` [${comp.repetitionIndex + 1}]` : ''}
+                                            </span>
+                                            <span className="text-slate-500 truncate">{compSchema?.name || 'Component'}</span>
+                                            <span className={`font-mono ml-auto ${comp.value ? 'text-emerald-400' : 'text-slate-600 italic'}`}>
+                                                {comp.value || 'NULL'}
+                                            </span>
+                                            {compQualifier && <span className="text-blue-400/80 truncate">({compQualifier})</span>}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                         )}
                       </div>
                     </div>
                   );
                 })}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
+      )}
     </div>
   );
 };
@@ -1,20 +1,37 @@
-import React, { useState } from 'react';
-import { Truck, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Truck, ChevronDown, ChevronRight, Loader2, Database, Upload, AlertTriangle, FileCheck } from 'lucide-react';
 import { generateSampleEdi, generateRelatedTransaction } from '../services/geminiService';
+import { ediParseService } from '../services/ediParseService';
+import { schemaRegistry } from '../data/schemaRegistry';
+import { importOpenEdiFile } from '../utils/openEdiImporter';
+import { AckResult, generate997, generate999, generateTA1 } from '../utils/x12Acknowledgment';
+import { generateContrl } from '../utils/edifactContrl';
+import { storageService } from '../services/storageService';
+import { validationOrchestrator } from '../services/validationOrchestrator';
+import { SchemaBundle, TPRuleSet, TradingPartner } from '../types';
 
 interface ToolboxProps {
   ediContent: string;
   onUpdateContent: (content: string) => void;
+  onOpenFile?: (name: string, content: string) => void;
   onConvert: (result: string, format: string) => void;
   onSplitFiles?: (files: { name: string; content: string }[]) => void;
   onStediClick?: () => void;
+  ruleSets?: TPRuleSet[];
+  tradingPartners?: TradingPartner[];
 }
 
-const Toolbox: React.FC<ToolboxProps> = ({ ediContent, onUpdateContent }) => {
+type AckKind = '997' | '999' | 'TA1' | 'CONTRL';
+
+const Toolbox: React.FC<ToolboxProps> = ({ ediContent, onUpdateContent, onOpenFile, ruleSets = [], tradingPartners = [] }) => {
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
   const [openSections, setOpenSections] = useState<Record<string, boolean>>({
     'x12': true
   });
+  const [bundles, setBundles] = useState<SchemaBundle[]>(() => schemaRegistry.listBundles());
+  const [importError, setImportError] = useState<string | null>(null);
+  const [ackError, setAckError] = useState<string | null>(null);
+  const specInputRef = useRef<HTMLInputElement>(null);
 
   const toggleSection = (id: string) => {
     setOpenSections(prev => ({ ...prev, [id]: !prev[id] }));
@@ -37,6 +54,59 @@ const Toolbox: React.FC<ToolboxProps> = ({ ediContent, onUpdateContent }) => {
     }
   };
 
+  const handleImportSpec = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setLoadingAction('import-spec');
+    setImportError(null);
+    try {
+      const bundle = await importOpenEdiFile(file);
+      if (bundle.transactions.length === 0) {
+        setImportError(bundle.warnings[0] || `${file.name}: nothing to import`);
+        return;
+      }
+      ediParseService.registerSchemas(bundle);
+      setBundles(schemaRegistry.listBundles());
+    } catch (err: any) {
+      setImportError(`${file.name}: ${err?.message || 'import failed'}`);
+    } finally {
+      setLoadingAction(null);
+    }
+  };
+
+  const handleGenerateAck = async (kind: AckKind) => {
+    setLoadingAction(`ack-${kind}`);
+    setAckError(null);
+    try {
+      const { errors } = await ediParseService.validate(ediContent);
+      // Rejected by the same rule sets the validation panel reports, not only by syntax
+      const ruleIssues = validationOrchestrator.ruleIssues(ediContent, ruleSets, tradingPartners);
+      // One counter for all acknowledgment kinds, so their ISA13 / GS06 never repeat
+      const controlNumber = Number(await storageService.getSetting('ack_control_number')) || 1;
+      const result: AckResult = kind === 'CONTRL'
+        ? generateContrl(ediContent, errors, { controlNumber })
+        : kind === 'TA1'
+          ? generateTA1(ediContent, errors, { controlNumber })
+          : (kind === '999' ? generate999 : generate997)(ediContent, errors, ruleIssues, { controlNumber });
+      await storageService.saveSetting('ack_control_number', result.nextControlNumber);
+      if (onOpenFile) onOpenFile(`${kind}_${controlNumber}.edi`, result.content);
+      else onUpdateContent(result.content);
+    } catch (err: any) {
+      setAckError(err?.message || `${kind} generation failed`);
+    } finally {
+      setLoadingAction(null);
+    }
+  };
+
+  const acknowledgments: { kind: AckKind; label: string; desc: string }[] = [
+    { kind: '997', label: '997 Functional Ack', desc: 'Acknowledge each functional group from its validation results' },
+    { kind: '999', label: '999 Implementation Ack', desc: '5010 acknowledgment with IK3 / IK4 / CTX error detail' },
+    { kind: 'TA1', label: 'TA1 Interchange Ack', desc: 'Acknowledge the ISA / IEA envelope only' },
+    { kind: 'CONTRL', label: 'CONTRL Syntax Report', desc: 'EDIFACT syntax and service report for each UNB interchange' },
+  ];
+
   const supplyChainGenerators = [
     { label: '855 PO Ack', desc: 'PO Acknowledgment' },
     { label: '856 ASN', desc: 'Ship Notice' },
@@ -88,6 +158,67 @@ const Toolbox: React.FC<ToolboxProps> = ({ ediContent, onUpdateContent }) => {
         <SectionHeader id="x12" title="Supply Chain (X12)" icon={<Truck size={12} />} />
         {openSections['x12'] && renderGeneratorGrid(supplyChainGenerators)}
       </div>
+      <div>
+        <SectionHeader id="acks" title="Acknowledgments" icon={<FileCheck size={12} />} />
+        {openSections['acks'] && (
+          <div className="space-y-2 mt-2">
+            {acknowledgments.map(ack => (
+              <button
+                key={ack.kind}
+                onClick={() => handleGenerateAck(ack.kind)}
+                disabled={!!loadingAction || !ediContent.trim()}
+                className="w-full px-3 py-3 bg-white border border-slate-200 hover:border-blue-400 hover:text-blue-600 rounded text-sm font-medium text-slate-600 transition-all text-left flex justify-between items-center shadow-sm disabled:opacity-50"
+                title={ack.desc}
+              >
+                {ack.label}
+                {loadingAction === `ack-${ack.kind}` && <Loader2 size={14} className="animate-spin" />}
+              </button>
+            ))}
+            {ackError && (
+              <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 flex gap-2">
+                <AlertTriangle size={12} className="flex-none mt-0.5" />
+                <span>{ackError}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+      <div>
+        <SectionHeader id="schemas" title="Schema Specs (OpenEDI)" icon={<Database size={12} />} />
+        {openSections['schemas'] && (
+          <div className="space-y-2 mt-2">
+            <input ref={specInputRef} type="file" accept=".json,.zip" className="hidden" onChange={handleImportSpec} />
+            <button
+              onClick={() => specInputRef.current?.click()}
+              disabled={!!loadingAction}
+              className="w-full px-3 py-2 bg-white border border-slate-200 hover:border-blue-400 hover:text-blue-600 rounded text-sm font-medium text-slate-600 transition-all flex items-center gap-2 shadow-sm disabled:opacity-50"
+              title="Import an OpenEDI JSON spec or a zip bundle of specs"
+            >
+              {loadingAction === 'import-spec' ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+              Import spec (.json / .zip)
+            </button>
+            {importError && (
+              <div className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2 flex gap-2">
+                <AlertTriangle size={12} className="flex-none mt-0.5" />
+                <span>{importError}</span>
+              </div>
+            )}
+            {bundles.map(bundle => (
+              <div key={bundle.source} className="text-xs bg-slate-50 border border-slate-200 rounded p-2">
+                <div className="font-semibold text-slate-700 truncate" title={bundle.source}>{bundle.source}</div>
+                <div className="text-slate-500 font-mono mt-1">
+                  {bundle.transactions.map(t => `${t.definition.type}${t.version ? ` (${t.version})` : ''}`).join(', ')}
+                </div>
+                {bundle.warnings.length > 0 && (
+                  <div className="text-amber-600 mt-1" title={bundle.warnings.join('\n')}>
+                    {bundle.warnings.length} warning{bundle.warnings.length === 1 ? '' : 's'}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
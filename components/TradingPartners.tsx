@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, FileText, Mail, Pencil, Phone, Plus, Trash2, Users } from 'lucide-react';
+import { TPRuleSet, TradingPartner } from '../types';
+import { parseEdiDocument } from '../utils/ediParser';
+import { detectDelimiters } from '../utils/ediDetection';
+import { partnerFromInterchange } from '../utils/tradingPartners';
+
+interface TradingPartnersProps {
+  partners: TradingPartner[];
+  ruleSets: TPRuleSet[];
+  activeFileContent?: string;
+  onUpdatePartners: (partners: TradingPartner[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-white/10 rounded px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500';
+
+const emptyPartner = (): TradingPartner => ({
+  id: Date.now().toString(),
+  name: '',
+  standard: 'X12',
+  sender: { qualifier: '', id: '' },
+  receiver: { qualifier: '', id: '' },
+  ruleSets: {}
+});
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block space-y-1">
+    <span className="text-[10px] font-bold text-slate-500 uppercase">{label}</span>
+    {children}
+  </label>
+);
+
+// Rule set id -> transaction type, the way the editor shows assignments (one type per set)
+const assignments = (partner: TradingPartner): Record<string, string> => {
+  const bySet: Record<string, string> = {};
+  Object.entries(partner.ruleSets).forEach(([type, ids]) => ids.forEach(id => { if (!(id in bySet)) bySet[id] = type; }));
+  return bySet;
+};
+
+const identity = (qualifier: string | undefined, id: string) => `${qualifier ? `${qualifier}:` : ''}${id}`;
+
+/**
+ * Trading partner profiles: envelope IDs the partner is recognised by, the agreed version, usage
+ * and delimiters, and the rule sets validation applies to each transaction type.
+ */
+const TradingPartners: React.FC<TradingPartnersProps> = ({ partners, ruleSets, activeFileContent, onUpdatePartners }) => {
+  const [draft, setDraft] = useState<TradingPartner | null>(null);
+  const [draftAssignments, setDraftAssignments] = useState<Record<string, string>>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const edit = (partner: TradingPartner) => {
+    setDraft(partner);
+    setDraftAssignments(assignments(partner));
+    setFileError(null);
+  };
+
+  const fromOpenFile = () => {
+    const doc = parseEdiDocument(activeFileContent || '');
+    const interchange = doc.interchanges.find(ic => ic.header);
+    const partner = interchange && partnerFromInterchange(interchange, detectDelimiters(activeFileContent || ''));
+    if (!partner) {
+      setFileError('The open file has no ISA or UNB envelope');
+      return;
+    }
+    edit(partner);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const ruleSetsByType: Record<string, string[]> = {};
+    Object.entries(draftAssignments).forEach(([setId, type]) => {
+      const key = type.trim().toUpperCase() || '*';
+      (ruleSetsByType[key] = ruleSetsByType[key] || []).push(setId);
+    });
+    const partner: TradingPartner = { ...draft, name: draft.name.trim() || draft.sender.id, ruleSets: ruleSetsByType };
+    const exists = partners.some(p => p.id === partner.id);
+    onUpdatePartners(exists ? partners.map(p => p.id === partner.id ? partner : p) : [...partners, partner]);
+    setDraft(null);
+  };
+
+  const remove = (partner: TradingPartner) => {
+    if (confirm(`Delete trading partner "${partner.name}"?`)) onUpdatePartners(partners.filter(p => p.id !== partner.id));
+  };
+
+  if (draft) {
+    const set = (update: Partial<TradingPartner>) => setDraft({ ...draft, ...update });
+    const setDelimiter = (kind: keyof NonNullable<TradingPartner['delimiters']>, value: string) =>
+      set({ delimiters: { ...draft.delimiters, [kind]: value || undefined } });
+    const setContact = (field: keyof NonNullable<TradingPartner['contact']>, value: string) =>
+      set({ contact: { ...draft.contact, [field]: value || undefined } });
+    const x12 = draft.standard === 'X12';
+
+    return (
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 text-xs">
+        <div className="grid grid-cols-[1fr_6rem] gap-2">
+          <Field label="Name">
+            <input value={draft.name} onChange={e => set({ name: e.target.value })} className={inputClass} placeholder="e.g. Walmart" />
+          </Field>
+          <Field label="Standard">
+            <select value={draft.standard} onChange={e => set({ standard: e.target.value as TradingPartner['standard'] })} className={inputClass}>
+              <option value="X12">X12</option>
+              <option value="EDIFACT">EDIFACT</option>
+            </select>
+          </Field>
+        </div>
+
+        {(['sender', 'receiver'] as const).map(side => (
+          <div key={side} className="grid grid-cols-[4rem_1fr] gap-2">
+            <Field label="Qual.">
+              <input value={draft[side].qualifier || ''} onChange={e => set({ [side]: { ...draft[side], qualifier: e.target.value } })} className={`${inputClass} font-mono`} placeholder={x12 ? 'ZZ' : '14'} />
+            </Field>
+            <Field label={`${side === 'sender' ? 'Sender' : 'Receiver'} ID (${x12 ? (side === 'sender' ? 'ISA06' : 'ISA08') : (side === 'sender' ? 'UNB S002' : 'UNB S003')})`}>
+              <input value={draft[side].id} onChange={e => set({ [side]: { ...draft[side], id: e.target.value } })} className={`${inputClass} font-mono`} />
+            </Field>
+          </div>
+        ))}
+
+        {x12 && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="App sender (GS02)">
+              <input value={draft.applicationSender || ''} onChange={e => set({ applicationSender: e.target.value || undefined })} className={`${inputClass} font-mono`} placeholder="Any" />
+            </Field>
+            <Field label="App receiver (GS03)">
+              <input value={draft.applicationReceiver || ''} onChange={e => set({ applicationReceiver: e.target.value || undefined })} className={`${inputClass} font-mono`} placeholder="Any" />
+            </Field>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={x12 ? 'Version (GS08)' : 'Directory'}>
+            <input value={draft.version || ''} onChange={e => set({ version: e.target.value || undefined })} className={`${inputClass} font-mono`} placeholder={x12 ? '005010X222A1' : 'D96A'} />
+          </Field>
+          <Field label="Usage">
+            <select value={draft.usage || ''} onChange={e => set({ usage: (e.target.value || undefined) as TradingPartner['usage'] })} className={inputClass}>
+              <option value="">Any</option>
+              <option value="TEST">Test</option>
+              <option value="PRODUCTION">Production</option>
+            </select>
+          </Field>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {(['segment', 'element', 'component', 'repetition'] as const).map(kind => (
+            <Field key={kind} label={kind}>
+              <input
+                value={draft.delimiters?.[kind] === '\n' ? '\\n' : draft.delimiters?.[kind] || ''}
+                onChange={e => setDelimiter(kind, e.target.value === '\\n' ? '\n' : e.target.value.slice(-1))}
+                className={`${inputClass} font-mono text-center`}
+                placeholder="-"
+              />
+            </Field>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <span className="text-[10px] font-bold text-slate-500 uppercase">Rule sets by transaction type</span>
+          {ruleSets.length === 0 && <div className="text-slate-500">No rule sets yet</div>}
+          {ruleSets.map(ruleSet => {
+            const assigned = ruleSet.id in draftAssignments;
+            return (
+              <div key={ruleSet.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={assigned}
+                  onChange={e => setDraftAssignments(prev => {
+                    const { [ruleSet.id]: _, ...rest } = prev;
+                    return e.target.checked ? { ...rest, [ruleSet.id]: ruleSet.transactionType === 'Unknown' ? '*' : ruleSet.transactionType } : rest;
+                  })}
+                />
+                <span className="flex-1 truncate text-slate-300">{ruleSet.name}</span>
+                {assigned && (
+                  <input
+                    value={draftAssignments[ruleSet.id]}
+                    onChange={e => setDraftAssignments(prev => ({ ...prev, [ruleSet.id]: e.target.value }))}
+                    className="w-16 bg-slate-800 border border-white/10 rounded px-1 py-0.5 text-xs font-mono text-slate-200 outline-none focus:border-blue-500"
+                    title='Transaction type, or "*" for all'
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Contact">
+            <input value={draft.contact?.name || ''} onChange={e => setContact('name', e.target.value)} className={inputClass} />
+          </Field>
+          <Field label="Email">
+            <input value={draft.contact?.email || ''} onChange={e => setContact('email', e.target.value)} className={inputClass} />
+          </Field>
+          <Field label="Phone">
+            <input value={draft.contact?.phone || ''} onChange={e => setContact('phone', e.target.value)} className={inputClass} />
+          </Field>
+        </div>
+        <Field label="Notes">
+          <textarea value={draft.contact?.notes || ''} onChange={e => setContact('notes', e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+        </Field>
+
+        <div className="flex gap-2 pt-1">
+          <button onClick={() => setDraft(null)} className="flex-1 py-2 bg-slate-800 text-slate-400 rounded-lg font-bold hover:bg-slate-700">Cancel</button>
+          <button
+            onClick={save}
+            disabled={!draft.sender.id.trim() || !draft.receiver.id.trim()}
+            className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50"
+          >
+            Save Partner
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      {partners.length === 0 && (
+        <div className="text-center text-slate-500 py-8 text-sm px-4">
+          <Users size={32} className="mx-auto mb-3 opacity-20" />
+          No trading partners yet. <br /> Files from a partner are validated with its rule sets automatically.
+        </div>
+      )}
+
+      {partners.map(partner => {
+        const assigned = Object.entries(partner.ruleSets).flatMap(([type, ids]) =>
+          ids.map(id => ({ type, name: ruleSets.find(s => s.id === id)?.name })).filter(a => a.name));
+        return (
+          <div key={partner.id} className="group p-3 rounded-xl border border-white/5 bg-slate-800 text-xs space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-bold text-slate-200 truncate">{partner.name}</span>
+              <div className="flex items-center gap-1.5 flex-none">
+                {partner.usage && <span className={`text-[10px] px-1.5 rounded ${partner.usage === 'TEST' ? 'bg-amber-500/20 text-amber-300' : 'bg-emerald-500/20 text-emerald-300'}`}>{partner.usage === 'TEST' ? 'Test' : 'Production'}</span>}
+                <button onClick={() => edit(partner)} className="text-slate-500 hover:text-white opacity-0 group-hover:opacity-100"><Pencil size={12} /></button>
+                <button onClick={() => remove(partner)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100"><Trash2 size={12} /></button>
+              </div>
+            </div>
+            <div className="flex items-center gap-1.5 font-mono text-slate-400">
+              {identity(partner.sender.qualifier, partner.sender.id)} <ArrowLeftRight size={10} /> {identity(partner.receiver.qualifier, partner.receiver.id)}
+              <span className="ml-auto text-slate-500">{partner.standard}{partner.version ? ` ${partner.version}` : ''}</span>
+            </div>
+            {assigned.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {assigned.map(a => (
+                  <span key={`${a.type}-${a.name}`} className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-300">{a.type === '*' ? 'All' : a.type}: {a.name}</span>
+                ))}
+              </div>
+            )}
+            {(partner.contact?.email || partner.contact?.phone) && (
+              <div className="flex gap-3 text-[10px] text-slate-500">
+                {partner.contact?.name && <span>{partner.contact.name}</span>}
+                {partner.contact?.email && <a href={`mailto:${partner.contact.email}`} className="flex items-center gap-1 hover:text-white"><Mail size={10} />{partner.contact.email}</a>}
+                {partner.contact?.phone && <span className="flex items-center gap-1"><Phone size={10} />{partner.contact.phone}</span>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <button onClick={() => edit(emptyPartner())} className="flex-1 py-2 border border-dashed border-slate-600 rounded-xl text-slate-400 hover:text-white hover:border-slate-400 hover:bg-slate-800 transition-all flex items-center justify-center gap-2 text-xs font-bold">
+          <Plus size={14} /> New Partner
+        </button>
+        {activeFileContent && (
+          <button onClick={fromOpenFile} className="flex-1 py-2 border border-dashed border-slate-600 rounded-xl text-slate-400 hover:text-white hover:border-slate-400 hover:bg-slate-800 transition-all flex items-center justify-center gap-2 text-xs font-bold">
+            <FileText size={14} /> From Open File
+          </button>
+        )}
+      </div>
+      {fileError && <p className="text-[10px] text-red-400">{fileError}</p>}
+    </div>
+  );
+};
+
+export default TradingPartners;
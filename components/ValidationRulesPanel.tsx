@@ -1,23 +1,58 @@
 
 import React, { useState, useRef } from 'react';
-import { Book, Plus, Upload, Check, Trash2, Shield, Loader2, Play, FileText, X, AlertOctagon, AlertTriangle } from 'lucide-react';
-import { TPRuleSet } from '../types';
+import { Book, Plus, Upload, Check, Trash2, Shield, Loader2, Play, FileText, X, AlertOctagon, AlertTriangle, ChevronDown, ChevronRight, Pencil, Download, History, FileUp, FlaskConical } from 'lucide-react';
+import { TPRule, TPRuleSet, TradingPartner } from '../types';
 import { extractValidationRules, hasValidApiKey } from '../services/geminiService';
+import { RULE_TYPES } from '../data/ruleTypes';
+import RuleEditor from './RuleEditor';
+import { parseRulePath } from '../utils/rulePath';
+import { parseExpression } from '../utils/ruleExpression';
+import { exportRuleSet, importRuleSet, RuleSetFormat, ruleSetFileName } from '../utils/ruleSetLibrary';
+import { storageService } from '../services/storageService';
+import RuleSetHistory from './RuleSetHistory';
+import RuleSetTests from './RuleSetTests';
+import TradingPartners from './TradingPartners';
+
+// Why a rule can't run as written, e.g. an imported expression that doesn't parse
+const ruleProblem = (rule: TPRule): string | null => {
+  try {
+    if (rule.scopePath?.trim()) parseRulePath(rule.scopePath);
+    if (rule.type === 'CUSTOM_BUSINESS_LOGIC') parseExpression(rule.params?.expression ?? '');
+    return null;
+  } catch (e: any) {
+    return e.message;
+  }
+};
 
 interface ValidationRulesPanelProps {
   ruleSets: TPRuleSet[];
   onUpdateRuleSets: (sets: TPRuleSet[]) => void;
+  tradingPartners?: TradingPartner[];
+  onUpdateTradingPartners?: (partners: TradingPartner[]) => void;
+  activeFileContent?: string;
   onClose: () => void;
 }
 
-const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, onUpdateRuleSets, onClose }) => {
+const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, onUpdateRuleSets, tradingPartners = [], onUpdateTradingPartners, activeFileContent, onClose }) => {
+  const [view, setView] = useState<'RULES' | 'PARTNERS'>('RULES');
   const [isImporting, setIsImporting] = useState(false);
   const [importMode, setImportMode] = useState<'TEXT' | 'FILE'>('TEXT');
   const [specText, setSpecText] = useState('');
   const [specFile, setSpecFile] = useState<{ name: string, type: string, data: any } | null>(null);
   const [specName, setSpecName] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [expandedSet, setExpandedSet] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ setId: string; rule: TPRule } | null>(null);
+  const [historySet, setHistorySet] = useState<string | null>(null);
+  const [testsSet, setTestsSet] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const ruleSetInputRef = useRef<HTMLInputElement>(null);
+
+  // Edits to a set's rules or details mark it as changed since its last published version
+  const updateSet = (id: string, update: (set: TPRuleSet) => Partial<TPRuleSet>) => {
+    onUpdateRuleSets(ruleSets.map(set => set.id === id ? { ...set, ...update(set), updatedAt: new Date().toISOString() } : set));
+  };
 
   const handleToggle = (id: string) => {
     const updated = ruleSets.map(r => r.id === id ? { ...r, isActive: !r.isActive } : r);
@@ -30,6 +65,65 @@ const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, o
     }
   };
 
+  const handleNewSet = () => {
+    const newSet: TPRuleSet = { id: Date.now().toString(), name: 'New Rule Set', transactionType: 'Unknown', rules: [], isActive: true };
+    onUpdateRuleSets([...ruleSets, newSet]);
+    setExpandedSet(newSet.id);
+  };
+
+  const handleRenameSet = (id: string, changes: Partial<Pick<TPRuleSet, 'name' | 'transactionType'>>) => {
+    updateSet(id, () => changes);
+  };
+
+  const handleAddRule = (setId: string) => {
+    setEditing({ setId, rule: { id: Date.now().toString(), type: 'REQUIRED_SEGMENT', targetSegment: '', message: '', severity: 'ERROR', params: {} } });
+  };
+
+  const handleSaveRule = (rule: TPRule) => {
+    if (!editing) return;
+    updateSet(editing.setId, set => {
+      const exists = set.rules.some(r => r.id === rule.id);
+      return { rules: exists ? set.rules.map(r => r.id === rule.id ? rule : r) : [...set.rules, rule] };
+    });
+    setEditing(null);
+  };
+
+  const handleDeleteRule = (setId: string, ruleId: string) => {
+    updateSet(setId, set => ({ rules: set.rules.filter(r => r.id !== ruleId) }));
+  };
+
+  const handleExport = (set: TPRuleSet, format: RuleSetFormat) => {
+    const blob = new Blob([exportRuleSet(set, format)], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = ruleSetFileName(set, format);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportRuleSet = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLibraryError(null);
+    try {
+      const imported = importRuleSet(await file.text());
+      const existing = ruleSets.find(s => s.id === imported.id);
+      if (existing && !confirm(`Replace "${existing.name}"${existing.version ? ` v${existing.version}` : ''} with the imported ${imported.version ? `v${imported.version}` : 'copy'}?`)) {
+        return;
+      }
+      onUpdateRuleSets(existing ? ruleSets.map(s => s.id === imported.id ? { ...imported, isActive: existing.isActive } : s) : [...ruleSets, imported]);
+      // The imported version becomes the baseline later edits are compared with
+      if (imported.version) {
+        await storageService.saveRuleSetVersion({ setId: imported.id, version: imported.version, savedAt: new Date().toISOString(), ruleSet: imported });
+      }
+      setExpandedSet(imported.id);
+    } catch (err: any) {
+      setLibraryError(`${file.name}: ${err?.message || 'import failed'}`);
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -111,7 +205,26 @@ const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, o
          <button onClick={onClose} className="text-xs text-slate-500 hover:text-white">Close</button>
       </div>
 
-      {!isImporting ? (
+      {onUpdateTradingPartners && !isImporting && (
+        <div className="flex bg-slate-800 p-1 rounded-lg mx-4 mt-4">
+            <button
+              onClick={() => setView('RULES')}
+              className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-all ${view === 'RULES' ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+            >
+              Rule Sets
+            </button>
+            <button
+              onClick={() => setView('PARTNERS')}
+              className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-all ${view === 'PARTNERS' ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+            >
+              Trading Partners
+            </button>
+        </div>
+      )}
+
+      {view === 'PARTNERS' && onUpdateTradingPartners ? (
+        <TradingPartners partners={tradingPartners} ruleSets={ruleSets} activeFileContent={activeFileContent} onUpdatePartners={onUpdateTradingPartners} />
+      ) : !isImporting ? (
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
            {ruleSets.length === 0 && (
                <div className="text-center text-slate-500 py-8 text-sm px-4">
@@ -123,11 +236,16 @@ const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, o
            {ruleSets.map(set => {
                const errorCount = set.rules.filter(r => r.severity === 'ERROR').length;
                const warningCount = set.rules.filter(r => r.severity === 'WARNING').length;
+               const isExpanded = expandedSet === set.id;
 
                return (
                    <div key={set.id} className={`p-3 rounded-xl border transition-all ${set.isActive ? 'bg-emerald-900/10 border-emerald-500/30' : 'bg-slate-800 border-white/5 opacity-70'}`}>
                        <div className="flex items-center justify-between mb-2">
-                           <div className="font-bold text-sm text-slate-200 truncate pr-2">{set.name}</div>
+                           <button onClick={() => setExpandedSet(isExpanded ? null : set.id)} className="flex items-center gap-1.5 min-w-0 text-left">
+                               {isExpanded ? <ChevronDown size={14} className="text-slate-500 flex-none" /> : <ChevronRight size={14} className="text-slate-500 flex-none" />}
+                               <span className="font-bold text-sm text-slate-200 truncate pr-2">{set.name}</span>
+                               {set.version && <span className="font-mono text-[10px] text-slate-400 bg-slate-900/50 px-1.5 py-0.5 rounded flex-none">v{set.version}</span>}
+                           </button>
                            <button onClick={() => handleDelete(set.id)} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
                        </div>
                        
@@ -150,7 +268,68 @@ const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, o
                                {set.isActive ? <Check size={12} /> : null}
                                {set.isActive ? 'Active' : 'Enable'}
                            </button>
+                           <button onClick={() => handleExport(set, 'json')} className="px-2 py-1.5 text-[10px] font-bold rounded-lg bg-slate-700/50 text-slate-400 hover:text-white flex items-center gap-1" title="Export as JSON">
+                               <Download size={12} /> JSON
+                           </button>
+                           <button onClick={() => handleExport(set, 'yaml')} className="px-2 py-1.5 text-[10px] font-bold rounded-lg bg-slate-700/50 text-slate-400 hover:text-white flex items-center gap-1" title="Export as YAML">
+                               <Download size={12} /> YAML
+                           </button>
+                           <button
+                             onClick={() => setHistorySet(historySet === set.id ? null : set.id)}
+                             className={`px-2 py-1.5 rounded-lg transition-colors ${historySet === set.id ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:text-white'}`}
+                             title="Versions and changelog"
+                           >
+                               <History size={12} />
+                           </button>
+                           <button
+                             onClick={() => setTestsSet(testsSet === set.id ? null : set.id)}
+                             className={`px-2 py-1.5 rounded-lg transition-colors flex items-center gap-1 text-[10px] font-bold ${testsSet === set.id ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:text-white'}`}
+                             title="Sample documents and expected results"
+                           >
+                               <FlaskConical size={12} />{set.tests?.length ? set.tests.length : null}
+                           </button>
                        </div>
+
+                       {historySet === set.id && (
+                           <div className="mt-3 pt-3 border-t border-white/5">
+                               <RuleSetHistory ruleSet={set} onPublish={(published) => onUpdateRuleSets(ruleSets.map(s => s.id === published.id ? published : s))} />
+                           </div>
+                       )}
+
+                       {testsSet === set.id && (
+                           <div className="mt-3 pt-3 border-t border-white/5">
+                               <RuleSetTests ruleSet={set} activeFileContent={activeFileContent} onUpdateTests={(tests) => updateSet(set.id, () => ({ tests }))} />
+                           </div>
+                       )}
+
+                       {isExpanded && (
+                           <div className="mt-3 pt-3 border-t border-white/5 space-y-1.5">
+                               <div className="grid grid-cols-[1fr_5rem] gap-2 pb-1.5">
+                                   <input value={set.name} onChange={(e) => handleRenameSet(set.id, { name: e.target.value })} className="bg-slate-800 border border-white/10 rounded px-2 py-1 text-xs text-white outline-none focus:border-blue-500" placeholder="Rule set name" />
+                                   <input value={set.transactionType} onChange={(e) => handleRenameSet(set.id, { transactionType: e.target.value })} className="bg-slate-800 border border-white/10 rounded px-2 py-1 text-xs font-mono text-white outline-none focus:border-blue-500" placeholder="850" title="Transaction type" />
+                               </div>
+                               {set.rules.map(rule => editing?.setId === set.id && editing.rule.id === rule.id ? (
+                                   <RuleEditor key={rule.id} rule={rule} onSave={handleSaveRule} onCancel={() => setEditing(null)} />
+                               ) : (
+                                   <div key={rule.id} className="group flex items-center gap-2 px-2 py-1.5 rounded bg-slate-900/50 text-xs">
+                                       {rule.severity === 'ERROR' ? <AlertOctagon size={10} className="text-red-400 flex-none" /> : <AlertTriangle size={10} className="text-amber-400 flex-none" />}
+                                       <span className="font-mono text-slate-200">{rule.targetSegment}{rule.targetElement ? String(rule.targetElement).padStart(2, '0') : ''}</span>
+                                       <span className="text-slate-400 truncate" title={rule.message}>{RULE_TYPES[rule.type]?.label || rule.type}</span>
+                                       {rule.scopePath && <span className="font-mono text-[10px] text-blue-300 bg-blue-500/10 px-1 rounded truncate">{rule.scopePath}</span>}
+                                       {ruleProblem(rule) && <span className="text-[10px] font-bold text-red-400 flex-none" title={ruleProblem(rule)!}>Invalid</span>}
+                                       <button onClick={() => setEditing({ setId: set.id, rule })} className="ml-auto text-slate-500 hover:text-white opacity-0 group-hover:opacity-100"><Pencil size={12} /></button>
+                                       <button onClick={() => handleDeleteRule(set.id, rule.id)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100"><Trash2 size={12} /></button>
+                                   </div>
+                               ))}
+                               {editing?.setId === set.id && !set.rules.some(r => r.id === editing.rule.id) ? (
+                                   <RuleEditor rule={editing.rule} onSave={handleSaveRule} onCancel={() => setEditing(null)} />
+                               ) : (
+                                   <button onClick={() => handleAddRule(set.id)} className="w-full py-1.5 text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 rounded flex items-center justify-center gap-1.5">
+                                       <Plus size={12} /> Add Rule
+                                   </button>
+                               )}
+                           </div>
+                       )}
                    </div>
                );
            })}
@@ -161,6 +340,25 @@ const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ ruleSets, o
            >
              <Plus size={14} /> Import New Spec
            </button>
+           <button
+             onClick={() => ruleSetInputRef.current?.click()}
+             className="w-full py-2 rounded-xl text-slate-500 hover:text-white hover:bg-slate-800 transition-all text-xs font-bold flex items-center justify-center gap-2"
+           >
+             <FileUp size={14} /> Import Rule Set File (JSON / YAML)
+           </button>
+           <input ref={ruleSetInputRef} type="file" accept=".json,.yaml,.yml" className="hidden" onChange={handleImportRuleSet} />
+           {libraryError && (
+               <div className="flex items-start gap-2 p-2 rounded-lg bg-red-900/20 border border-red-500/20 text-[11px] text-red-300">
+                   <AlertTriangle size={12} className="mt-0.5 flex-none" />
+                   <span>{libraryError}</span>
+               </div>
+           )}
+           <button
+             onClick={handleNewSet}
+             className="w-full py-2 rounded-xl text-slate-500 hover:text-white hover:bg-slate-800 transition-all text-xs font-bold flex items-center justify-center gap-2"
+           >
+             <Plus size={14} /> New Empty Rule Set
+           </button>
         </div>
       ) : (
         <div className="flex-1 p-4 flex flex-col gap-4">
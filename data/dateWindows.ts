@@ -0,0 +1,50 @@
+import { DateRef, DateWindow } from '../types';
+
+/**
+ * Business Date Windows
+ * Date relationships checked when date checks are enabled in Settings. DOCUMENT_DATES are the
+ * dates the "max days in the past / future" limits apply to.
+ */
+
+const x12Dtm = (qualifier: string, label: string): DateRef => ({
+  label: `${label} (DTM*${qualifier})`,
+  segment: 'DTM',
+  element: 2,
+  qualifier: { element: 1, value: qualifier }
+});
+
+const edifactDtm = (qualifier: string, label: string): DateRef => ({
+  label: `${label} (DTM+${qualifier})`,
+  segment: 'DTM',
+  element: 1,
+  component: 2,
+  qualifier: { element: 1, component: 1, value: qualifier },
+  formatComponent: 3
+});
+
+const PO_DATE: DateRef = { label: 'PO date (BEG05)', segment: 'BEG', element: 5 };
+const INVOICE_DATE: DateRef = { label: 'Invoice date (BIG01)', segment: 'BIG', element: 1 };
+const INVOICE_PO_DATE: DateRef = { label: 'PO date (BIG03)', segment: 'BIG', element: 3 };
+const ASN_DATE: DateRef = { label: 'Ship notice date (BSN03)', segment: 'BSN', element: 3 };
+const ACK_DATE: DateRef = { label: 'Acknowledgment date (BAK04)', segment: 'BAK', element: 4 };
+const DOCUMENT_DATE = edifactDtm('137', 'Document date');
+
+export const DEFAULT_DATE_WINDOWS: DateWindow[] = [
+  { id: '850-ship-after-po', name: 'Ship date not before PO date', transactionTypes: ['850'], date: x12Dtm('010', 'Requested ship date'), notBefore: PO_DATE, severity: 'ERROR' },
+  { id: '850-delivery-after-po', name: 'Delivery date not before PO date', transactionTypes: ['850'], date: x12Dtm('002', 'Delivery requested'), notBefore: PO_DATE, severity: 'ERROR' },
+  { id: '810-invoice-after-po', name: 'Invoice date not before PO date', transactionTypes: ['810'], date: INVOICE_DATE, notBefore: INVOICE_PO_DATE, severity: 'WARNING' },
+  { id: '856-delivery-after-ship', name: 'Estimated delivery not before ship date', transactionTypes: ['856'], date: x12Dtm('017', 'Estimated delivery'), notBefore: x12Dtm('011', 'Shipped'), severity: 'ERROR' },
+  { id: 'orders-delivery-after-document', name: 'Delivery date not before order date', transactionTypes: ['ORDERS', 'ORDRSP'], date: edifactDtm('2', 'Delivery requested'), notBefore: DOCUMENT_DATE, severity: 'ERROR' },
+  { id: 'desadv-arrival-after-despatch', name: 'Arrival not before despatch', transactionTypes: ['DESADV'], date: edifactDtm('132', 'Estimated arrival'), notBefore: edifactDtm('11', 'Despatch date'), severity: 'ERROR' }
+];
+
+export const DOCUMENT_DATES: Record<string, DateRef> = {
+  '850': PO_DATE,
+  '810': INVOICE_DATE,
+  '856': ASN_DATE,
+  '855': ACK_DATE,
+  ORDERS: DOCUMENT_DATE,
+  ORDRSP: DOCUMENT_DATE,
+  INVOIC: DOCUMENT_DATE,
+  DESADV: DOCUMENT_DATE
+};
@@ -1,10 +1,99 @@
 
-import { SegmentSchema } from '../types';
+import { SegmentSchema, ElementSchema } from '../types';
+
+/**
+ * Composite Data Element Definitions
+ * Components are addressed by 1-based position (e.g. MEA04-1, SLN05-1).
+ */
+export const COMPOSITE_ELEMENTS: Record<string, ElementSchema[]> = {
+  // C001 Composite Unit of Measure
+  C001: [
+    { index: 1, id: 'C001-1', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2 },
+    { index: 2, id: 'C001-2', name: 'Exponent', type: 'R', min: 1, max: 15 },
+    { index: 3, id: 'C001-3', name: 'Multiplier', type: 'R', min: 1, max: 10 }
+  ],
+  // C030 Position in Segment (AK401, IK401)
+  C030: [
+    { index: 1, id: 'C030-1', name: 'Element Position in Segment', type: 'N0', min: 1, max: 2, requirement: 'M' },
+    { index: 2, id: 'C030-2', name: 'Component Data Element Position in Composite', type: 'N0', min: 1, max: 2 },
+    { index: 3, id: 'C030-3', name: 'Repeating Data Element Position', type: 'N0', min: 1, max: 4 }
+  ],
+  // C998 Context Identification (CTX01)
+  C998: [
+    { index: 1, id: 'C998-1', name: 'Context Name', type: 'AN', min: 1, max: 35, requirement: 'M' },
+    { index: 2, id: 'C998-2', name: 'Context Reference', type: 'AN', min: 1, max: 35 }
+  ],
+  // C999 Reference in Segment (CTX06)
+  C999: [
+    { index: 1, id: 'C999-1', name: 'Data Element Reference Number', type: 'N0', min: 1, max: 4, requirement: 'M' },
+    { index: 2, id: 'C999-2', name: 'Data Element Reference Number', type: 'N0', min: 1, max: 4 }
+  ],
+  // C040 Reference Identifier
+  C040: [
+    { index: 1, id: 'C040-1', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3 },
+    { index: 2, id: 'C040-2', name: 'Reference Identification', type: 'AN', min: 1, max: 50 },
+    { index: 3, id: 'C040-3', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3 },
+    { index: 4, id: 'C040-4', name: 'Reference Identification', type: 'AN', min: 1, max: 50 }
+  ]
+};
+
+// Acknowledgment error code lists (997 / 999 / TA1)
+const SEGMENT_SYNTAX_ERRORS: Record<string, string> = {
+  '1': 'Unrecognized segment ID', '2': 'Unexpected segment', '3': 'Mandatory segment missing', '4': 'Loop occurs over maximum times',
+  '5': 'Segment exceeds maximum use', '6': 'Segment not in defined transaction set', '7': 'Segment not in proper sequence', '8': 'Segment has data element errors'
+};
+const ELEMENT_SYNTAX_ERRORS: Record<string, string> = {
+  '1': 'Mandatory data element missing', '2': 'Conditional required data element missing', '3': 'Too many data elements',
+  '4': 'Data element too short', '5': 'Data element too long', '6': 'Invalid character in data element', '7': 'Invalid code value',
+  '8': 'Invalid date', '9': 'Invalid time', '10': 'Exclusion condition violated'
+};
+const TRANSACTION_SYNTAX_ERRORS: Record<string, string> = {
+  '1': 'Transaction set not supported', '2': 'Transaction set trailer missing', '3': 'Control number in header and trailer do not match',
+  '4': 'Number of included segments does not match actual count', '5': 'One or more segments in error', '6': 'Missing or invalid transaction set identifier',
+  '7': 'Missing or invalid transaction set control number', '23': 'Control number not unique within the functional group'
+};
+// 999 adds implementation guide codes to 720 / 723 / 718
+const IMPLEMENTATION_SEGMENT_ERRORS: Record<string, string> = {
+  ...SEGMENT_SYNTAX_ERRORS,
+  'I4': 'Implementation "Not Used" segment present', 'I6': 'Implementation dependent segment missing',
+  'I7': 'Implementation loop occurs under minimum times', 'I8': 'Implementation segment below minimum use',
+  'I9': 'Implementation dependent "Not Used" segment present'
+};
+const IMPLEMENTATION_ELEMENT_ERRORS: Record<string, string> = {
+  ...ELEMENT_SYNTAX_ERRORS,
+  '12': 'Too many repetitions', '13': 'Too many components', 'I6': 'Code value not used in implementation',
+  'I9': 'Implementation dependent data element missing', 'I10': 'Implementation "Not Used" data element present',
+  'I11': 'Implementation too few repetitions', 'I12': 'Implementation pattern match failure',
+  'I13': 'Implementation dependent "Not Used" data element present'
+};
+const IMPLEMENTATION_TRANSACTION_ERRORS: Record<string, string> = {
+  ...TRANSACTION_SYNTAX_ERRORS,
+  'I5': 'Implementation one or more segments in error', 'I6': 'Implementation convention not supported'
+};
+const GROUP_SYNTAX_ERRORS: Record<string, string> = {
+  '1': 'Functional group not supported', '2': 'Functional group version not supported', '3': 'Functional group trailer missing',
+  '4': 'Group control number in header and trailer do not agree', '5': 'Number of included transaction sets does not match actual count',
+  '6': 'Group control number violates syntax', '19': 'Functional group control number not unique within interchange'
+};
+const INTERCHANGE_NOTE_CODES: Record<string, string> = {
+  '000': 'No error', '001': 'Interchange control numbers in header and trailer do not match', '002': 'Standard not supported',
+  '003': 'Version of the controls not supported', '004': 'Segment terminator is invalid', '005': 'Invalid interchange ID qualifier for sender',
+  '006': 'Invalid interchange sender ID', '007': 'Invalid interchange ID qualifier for receiver', '008': 'Invalid interchange receiver ID',
+  '009': 'Unknown interchange receiver ID', '010': 'Invalid authorization information qualifier value', '011': 'Invalid authorization information value',
+  '012': 'Invalid security information qualifier value', '013': 'Invalid security information value', '014': 'Invalid interchange date value',
+  '015': 'Invalid interchange time value', '016': 'Invalid interchange standards identifier value', '017': 'Invalid interchange version ID value',
+  '018': 'Invalid interchange control number value', '019': 'Invalid acknowledgment requested value', '020': 'Invalid test indicator value',
+  '021': 'Invalid number of included groups value', '022': 'Invalid control structure', '023': 'Improper (premature) end-of-file',
+  '024': 'Invalid interchange content', '025': 'Duplicate interchange control number', '026': 'Invalid data element separator',
+  '027': 'Invalid component element separator'
+};
 
 /**
  * X12 & EDIFACT Segment Definitions
  * Comprehensive schema based on X12.NET and EdiFabric examples.
  * Includes Supply Chain, HIPAA, Transportation, and Global Standards.
+ * Requirement designators (M/X) and syntax notes follow the 004010 dictionary; elements without a
+ * designator are optional.
  */
 export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
   // --- X12 ENVELOPES ---
@@ -13,22 +102,22 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Interchange Control Header',
     purpose: 'Starts and identifies an interchange of zero or more functional groups and interchange-related control segments.',
     elements: [
-      { index: 1, id: 'ISA01', name: 'Authorization Info Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'No Authorization Info', '03': 'Additional Data ID' } },
-      { index: 2, id: 'ISA02', name: 'Authorization Information', type: 'AN', min: 10, max: 10 },
-      { index: 3, id: 'ISA03', name: 'Security Info Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'No Security Info', '01': 'Password' } },
-      { index: 4, id: 'ISA04', name: 'Security Information', type: 'AN', min: 10, max: 10 },
-      { index: 5, id: 'ISA05', name: 'Interchange ID Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { 'ZZ': 'Mutually Defined', '01': 'DUNS', '08': 'UCC EDI', '12': 'Phone', '14': 'DUNS+Suffix' } },
-      { index: 6, id: 'ISA06', name: 'Interchange Sender ID', type: 'AN', min: 15, max: 15 },
-      { index: 7, id: 'ISA07', name: 'Interchange ID Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { 'ZZ': 'Mutually Defined', '01': 'DUNS', '08': 'UCC EDI' } },
-      { index: 8, id: 'ISA08', name: 'Interchange Receiver ID', type: 'AN', min: 15, max: 15 },
-      { index: 9, id: 'ISA09', name: 'Interchange Date', type: 'DT', min: 6, max: 6 },
-      { index: 10, id: 'ISA10', name: 'Interchange Time', type: 'TM', min: 4, max: 4 },
-      { index: 11, id: 'ISA11', name: 'Repetition Separator', type: 'ID', min: 1, max: 1 },
-      { index: 12, id: 'ISA12', name: 'Interchange Control Version', type: 'ID', min: 5, max: 5 },
-      { index: 13, id: 'ISA13', name: 'Interchange Control Number', type: 'N0', min: 9, max: 9 },
-      { index: 14, id: 'ISA14', name: 'Acknowledgment Requested', type: 'ID', min: 1, max: 1, qualifiers: { '0': 'No Ack', '1': 'Ack Requested' } },
-      { index: 15, id: 'ISA15', name: 'Usage Indicator', type: 'ID', min: 1, max: 1, qualifiers: { 'P': 'Production', 'T': 'Test', 'I': 'Information' } },
-      { index: 16, id: 'ISA16', name: 'Component Element Separator', type: 'ID', min: 1, max: 1 },
+      { index: 1, id: 'ISA01', name: 'Authorization Info Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'No Authorization Info', '03': 'Additional Data ID' }, requirement: 'M' },
+      { index: 2, id: 'ISA02', name: 'Authorization Information', type: 'AN', min: 10, max: 10, requirement: 'M' },
+      { index: 3, id: 'ISA03', name: 'Security Info Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'No Security Info', '01': 'Password' }, requirement: 'M' },
+      { index: 4, id: 'ISA04', name: 'Security Information', type: 'AN', min: 10, max: 10, requirement: 'M' },
+      { index: 5, id: 'ISA05', name: 'Interchange ID Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { 'ZZ': 'Mutually Defined', '01': 'DUNS', '08': 'UCC EDI', '12': 'Phone', '14': 'DUNS+Suffix' }, requirement: 'M' },
+      { index: 6, id: 'ISA06', name: 'Interchange Sender ID', type: 'AN', min: 15, max: 15, requirement: 'M' },
+      { index: 7, id: 'ISA07', name: 'Interchange ID Qualifier', type: 'ID', min: 2, max: 2, qualifiers: { 'ZZ': 'Mutually Defined', '01': 'DUNS', '08': 'UCC EDI' }, requirement: 'M' },
+      { index: 8, id: 'ISA08', name: 'Interchange Receiver ID', type: 'AN', min: 15, max: 15, requirement: 'M' },
+      { index: 9, id: 'ISA09', name: 'Interchange Date', type: 'DT', min: 6, max: 6, requirement: 'M' },
+      { index: 10, id: 'ISA10', name: 'Interchange Time', type: 'TM', min: 4, max: 4, requirement: 'M' },
+      { index: 11, id: 'ISA11', name: 'Repetition Separator', type: 'ID', min: 1, max: 1, requirement: 'M' },
+      { index: 12, id: 'ISA12', name: 'Interchange Control Version', type: 'ID', min: 5, max: 5, requirement: 'M' },
+      { index: 13, id: 'ISA13', name: 'Interchange Control Number', type: 'N0', min: 9, max: 9, requirement: 'M' },
+      { index: 14, id: 'ISA14', name: 'Acknowledgment Requested', type: 'ID', min: 1, max: 1, qualifiers: { '0': 'No Ack', '1': 'Ack Requested' }, requirement: 'M' },
+      { index: 15, id: 'ISA15', name: 'Usage Indicator', type: 'ID', min: 1, max: 1, qualifiers: { 'P': 'Production', 'T': 'Test', 'I': 'Information' }, requirement: 'M' },
+      { index: 16, id: 'ISA16', name: 'Component Element Separator', type: 'ID', min: 1, max: 1, requirement: 'M' },
     ],
   },
   GS: {
@@ -36,14 +125,14 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Functional Group Header',
     purpose: 'Indicates the beginning of a functional group and provides control information.',
     elements: [
-      { index: 1, id: 'GS01', name: 'Functional Identifier Code', type: 'ID', min: 2, max: 2, qualifiers: { 'PO': 'Purchase Order (850)', 'IN': 'Invoice (810)', 'SH': 'Ship Notice (856)', 'FA': 'Functional Ack (997)', 'IB': 'Inventory Inquiry (846)', 'OW': 'Warehouse Order (940)', 'SW': 'Warehouse Advice (945)', 'QM': 'Transportation Status (214)', 'HC': 'Health Care Claim (837)', 'BE': 'Benefit Enrollment (834)', 'HP': 'Payment/Advice (835)', 'DX': 'Direct Exchange (894)', 'PS': 'Planning Schedule (830)', 'PC': 'Purchase Order Change (860)', 'RA': 'Payment Order/Remittance Advice (820)', 'TM': 'Motor Carrier Tender (204)', 'SM': 'Motor Carrier Shipping Manifest (215)' } },
-      { index: 2, id: 'GS02', name: 'Application Sender Code', type: 'AN', min: 2, max: 15 },
-      { index: 3, id: 'GS03', name: 'Application Receiver Code', type: 'AN', min: 2, max: 15 },
-      { index: 4, id: 'GS04', name: 'Date', type: 'DT', min: 8, max: 8 },
-      { index: 5, id: 'GS05', name: 'Time', type: 'TM', min: 4, max: 8 },
-      { index: 6, id: 'GS06', name: 'Group Control Number', type: 'N0', min: 1, max: 9 },
-      { index: 7, id: 'GS07', name: 'Responsible Agency Code', type: 'ID', min: 1, max: 2, qualifiers: { 'X': 'X12', 'T': 'TCS' } },
-      { index: 8, id: 'GS08', name: 'Version / Release / Industry ID', type: 'AN', min: 1, max: 12 },
+      { index: 1, id: 'GS01', name: 'Functional Identifier Code', type: 'ID', min: 2, max: 2, qualifiers: { 'PO': 'Purchase Order (850)', 'IN': 'Invoice (810)', 'SH': 'Ship Notice (856)', 'FA': 'Functional Ack (997)', 'IB': 'Inventory Inquiry (846)', 'OW': 'Warehouse Order (940)', 'SW': 'Warehouse Advice (945)', 'QM': 'Transportation Status (214)', 'HC': 'Health Care Claim (837)', 'BE': 'Benefit Enrollment (834)', 'HP': 'Payment/Advice (835)', 'DX': 'Direct Exchange (894)', 'PS': 'Planning Schedule (830)', 'PC': 'Purchase Order Change (860)', 'RA': 'Payment Order/Remittance Advice (820)', 'TM': 'Motor Carrier Tender (204)', 'SM': 'Motor Carrier Shipping Manifest (215)' }, requirement: 'M' },
+      { index: 2, id: 'GS02', name: 'Application Sender Code', type: 'AN', min: 2, max: 15, requirement: 'M' },
+      { index: 3, id: 'GS03', name: 'Application Receiver Code', type: 'AN', min: 2, max: 15, requirement: 'M' },
+      { index: 4, id: 'GS04', name: 'Date', type: 'DT', min: 8, max: 8, requirement: 'M' },
+      { index: 5, id: 'GS05', name: 'Time', type: 'TM', min: 4, max: 8, requirement: 'M' },
+      { index: 6, id: 'GS06', name: 'Group Control Number', type: 'N0', min: 1, max: 9, requirement: 'M' },
+      { index: 7, id: 'GS07', name: 'Responsible Agency Code', type: 'ID', min: 1, max: 2, qualifiers: { 'X': 'X12', 'T': 'TCS' }, requirement: 'M' },
+      { index: 8, id: 'GS08', name: 'Version / Release / Industry ID', type: 'AN', min: 1, max: 12, requirement: 'M' },
     ],
   },
   ST: {
@@ -51,8 +140,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Transaction Set Header',
     purpose: 'Indicates the start of a transaction set and assigns a control number.',
     elements: [
-      { index: 1, id: 'ST01', name: 'Transaction Set Identifier', type: 'ID', min: 3, max: 3 },
-      { index: 2, id: 'ST02', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9 },
+      { index: 1, id: 'ST01', name: 'Transaction Set Identifier', type: 'ID', min: 3, max: 3, requirement: 'M' },
+      { index: 2, id: 'ST02', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9, requirement: 'M' },
     ],
   },
   SE: {
@@ -60,8 +149,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Transaction Set Trailer',
     purpose: 'To indicate the end of the transaction set and provide the count of the transmitted segments.',
     elements: [
-      { index: 1, id: 'SE01', name: 'Number of Included Segments', type: 'N0', min: 1, max: 10 },
-      { index: 2, id: 'SE02', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9 },
+      { index: 1, id: 'SE01', name: 'Number of Included Segments', type: 'N0', min: 1, max: 10, requirement: 'M' },
+      { index: 2, id: 'SE02', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9, requirement: 'M' },
     ],
   },
   GE: {
@@ -69,8 +158,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Functional Group Trailer',
     purpose: 'To indicate the end of a functional group and provide control information.',
     elements: [
-      { index: 1, id: 'GE01', name: 'Number of Transaction Sets', type: 'N0', min: 1, max: 6 },
-      { index: 2, id: 'GE02', name: 'Group Control Number', type: 'N0', min: 1, max: 9 },
+      { index: 1, id: 'GE01', name: 'Number of Transaction Sets', type: 'N0', min: 1, max: 6, requirement: 'M' },
+      { index: 2, id: 'GE02', name: 'Group Control Number', type: 'N0', min: 1, max: 9, requirement: 'M' },
     ],
   },
   IEA: {
@@ -78,43 +167,58 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Interchange Control Trailer',
     purpose: 'To define the end of an interchange of one or more functional groups.',
     elements: [
-      { index: 1, id: 'IEA01', name: 'Number of Included Groups', type: 'N0', min: 1, max: 5 },
-      { index: 2, id: 'IEA02', name: 'Interchange Control Number', type: 'N0', min: 9, max: 9 },
+      { index: 1, id: 'IEA01', name: 'Number of Included Groups', type: 'N0', min: 1, max: 5, requirement: 'M' },
+      { index: 2, id: 'IEA02', name: 'Interchange Control Number', type: 'N0', min: 9, max: 9, requirement: 'M' },
     ],
   },
 
   // --- GENERAL / COMMON ---
+  HL: {
+    id: 'HL',
+    name: 'Hierarchical Level',
+    purpose: 'To identify dependencies among and the content of hierarchically related groups of data segments.',
+    elements: [
+      { index: 1, id: 'HL01', name: 'Hierarchical ID Number', type: 'AN', min: 1, max: 12, requirement: 'M' },
+      { index: 2, id: 'HL02', name: 'Hierarchical Parent ID Number', type: 'AN', min: 1, max: 12 },
+      { index: 3, id: 'HL03', name: 'Hierarchical Level Code', type: 'ID', min: 1, max: 2, requirement: 'M' },
+      { index: 4, id: 'HL04', name: 'Hierarchical Child Code', type: 'ID', min: 1, max: 1, qualifiers: { '0': 'No Subordinate HL Segment', '1': 'Additional Subordinate HL Data Segment' } }
+    ]
+  },
   REF: {
     id: 'REF',
     name: 'Reference Identification',
     purpose: 'To specify identifying information.',
     elements: [
-      { index: 1, id: 'REF01', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3 },
-      { index: 2, id: 'REF02', name: 'Reference Identification', type: 'AN', min: 1, max: 50 },
-      { index: 3, id: 'REF03', name: 'Description', type: 'AN', min: 1, max: 80 }
-    ]
+      { index: 1, id: 'REF01', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3, requirement: 'M' },
+      { index: 2, id: 'REF02', name: 'Reference Identification', type: 'AN', min: 1, max: 50, requirement: 'X' },
+      { index: 3, id: 'REF03', name: 'Description', type: 'AN', min: 1, max: 80, requirement: 'X' },
+      { index: 4, id: 'REF04', name: 'Reference Identifier', type: 'AN', min: 1, max: 50, compositeId: 'C040', components: COMPOSITE_ELEMENTS.C040 }
+    ],
+    syntax: ['R0203']
   },
   DTM: {
     id: 'DTM',
     name: 'Date/Time Reference',
     purpose: 'To specify pertinent dates and times.',
     elements: [
-      { index: 1, id: 'DTM01', name: 'Date/Time Qualifier', type: 'ID', min: 3, max: 3 },
-      { index: 2, id: 'DTM02', name: 'Date', type: 'DT', min: 8, max: 8 },
-      { index: 3, id: 'DTM03', name: 'Time', type: 'TM', min: 4, max: 8 },
-      { index: 4, id: 'DTM04', name: 'Time Code', type: 'ID', min: 2, max: 2 }
-    ]
+      { index: 1, id: 'DTM01', name: 'Date/Time Qualifier', type: 'ID', min: 3, max: 3, requirement: 'M' },
+      { index: 2, id: 'DTM02', name: 'Date', type: 'DT', min: 8, max: 8, requirement: 'X' },
+      { index: 3, id: 'DTM03', name: 'Time', type: 'TM', min: 4, max: 8, requirement: 'X' },
+      { index: 4, id: 'DTM04', name: 'Time Code', type: 'ID', min: 2, max: 2, requirement: 'X' }
+    ],
+    syntax: ['R020305', 'C0403', 'P0506']
   },
   PER: {
     id: 'PER',
     name: 'Administrative Communications Contact',
     purpose: 'To identify a person or office to whom administrative communications should be directed.',
     elements: [
-      { index: 1, id: 'PER01', name: 'Contact Function Code', type: 'ID', min: 2, max: 2 },
+      { index: 1, id: 'PER01', name: 'Contact Function Code', type: 'ID', min: 2, max: 2, requirement: 'M' },
       { index: 2, id: 'PER02', name: 'Name', type: 'AN', min: 1, max: 60 },
-      { index: 3, id: 'PER03', name: 'Communication Number Qualifier', type: 'ID', min: 2, max: 2 },
-      { index: 4, id: 'PER04', name: 'Communication Number', type: 'AN', min: 1, max: 256 }
-    ]
+      { index: 3, id: 'PER03', name: 'Communication Number Qualifier', type: 'ID', min: 2, max: 2, requirement: 'X' },
+      { index: 4, id: 'PER04', name: 'Communication Number', type: 'AN', min: 1, max: 256, requirement: 'X' }
+    ],
+    syntax: ['P0304', 'P0506', 'P0708']
   },
   MEA: {
     id: 'MEA',
@@ -123,39 +227,43 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     elements: [
       { index: 1, id: 'MEA01', name: 'Measurement Reference ID Code', type: 'ID', min: 2, max: 2 },
       { index: 2, id: 'MEA02', name: 'Measurement Qualifier', type: 'ID', min: 1, max: 3 },
-      { index: 3, id: 'MEA03', name: 'Measurement Value', type: 'R', min: 1, max: 20 },
-      { index: 4, id: 'MEA04', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15 } 
-    ]
+      { index: 3, id: 'MEA03', name: 'Measurement Value', type: 'R', min: 1, max: 20, requirement: 'X' },
+      { index: 4, id: 'MEA04', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15, compositeId: 'C001', components: COMPOSITE_ELEMENTS.C001, requirement: 'X' }
+    ],
+    syntax: ['R03050608', 'C0504', 'C0604', 'L07030506', 'E0803']
   },
   FOB: {
     id: 'FOB',
     name: 'F.O.B. Related Instructions',
     purpose: 'To specify transportation instructions relating to shipment.',
     elements: [
-      { index: 1, id: 'FOB01', name: 'Shipment Method of Payment', type: 'ID', min: 2, max: 2 },
-      { index: 2, id: 'FOB02', name: 'Location Qualifier', type: 'ID', min: 1, max: 2 },
-      { index: 3, id: 'FOB03', name: 'Description', type: 'AN', min: 1, max: 80 }
-    ]
+      { index: 1, id: 'FOB01', name: 'Shipment Method of Payment', type: 'ID', min: 2, max: 2, requirement: 'M' },
+      { index: 2, id: 'FOB02', name: 'Location Qualifier', type: 'ID', min: 1, max: 2, requirement: 'X' },
+      { index: 3, id: 'FOB03', name: 'Description', type: 'AN', min: 1, max: 80, requirement: 'X' }
+    ],
+    syntax: ['C0302']
   },
   PID: {
     id: 'PID',
     name: 'Product/Item Description',
     purpose: 'To describe a product or process in coded or free-form format.',
     elements: [
-      { index: 1, id: 'PID01', name: 'Item Description Type', type: 'ID', min: 1, max: 1 },
+      { index: 1, id: 'PID01', name: 'Item Description Type', type: 'ID', min: 1, max: 1, requirement: 'M' },
       { index: 2, id: 'PID02', name: 'Product/Process Characteristic Code', type: 'ID', min: 2, max: 3 },
-      { index: 5, id: 'PID05', name: 'Description', type: 'AN', min: 1, max: 80 }
-    ]
+      { index: 5, id: 'PID05', name: 'Description', type: 'AN', min: 1, max: 80, requirement: 'X' }
+    ],
+    syntax: ['C0403', 'R0405']
   },
   SAC: {
     id: 'SAC',
     name: 'Service, Promotion, Allowance, or Charge Information',
     purpose: 'To request or identify a service, promotion, allowance, or charge; to specify the amount or percentage for the service, promotion, allowance, or charge.',
     elements: [
-      { index: 1, id: 'SAC01', name: 'Allowance or Charge Indicator', type: 'ID', min: 1, max: 1 },
-      { index: 2, id: 'SAC02', name: 'Service, Promotion, Allowance, or Charge Code', type: 'ID', min: 4, max: 4 },
+      { index: 1, id: 'SAC01', name: 'Allowance or Charge Indicator', type: 'ID', min: 1, max: 1, requirement: 'M' },
+      { index: 2, id: 'SAC02', name: 'Service, Promotion, Allowance, or Charge Code', type: 'ID', min: 4, max: 4, requirement: 'X' },
       { index: 5, id: 'SAC05', name: 'Amount', type: 'N2', min: 1, max: 15 }
-    ]
+    ],
+    syntax: ['R0203', 'P0304']
   },
   CUR: {
     id: 'CUR',
@@ -185,8 +293,9 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     elements: [
         { index: 1, id: 'QTY01', name: 'Quantity Qualifier', type: 'ID', min: 2, max: 2 },
         { index: 2, id: 'QTY02', name: 'Quantity', type: 'R', min: 1, max: 15 },
-        { index: 3, id: 'QTY03', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2 }
-    ]
+        { index: 3, id: 'QTY03', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15, compositeId: 'C001', components: COMPOSITE_ELEMENTS.C001 }
+    ],
+    syntax: ['R0204']
   },
   AMT: {
     id: 'AMT',
@@ -202,18 +311,19 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Name',
     purpose: 'To identify a party by type of organization, name, and code.',
     elements: [
-      { index: 1, id: 'N101', name: 'Entity Identifier Code', type: 'ID', min: 2, max: 3 },
-      { index: 2, id: 'N102', name: 'Name', type: 'AN', min: 1, max: 60 },
-      { index: 3, id: 'N103', name: 'ID Code Qualifier', type: 'ID', min: 1, max: 2 },
-      { index: 4, id: 'N104', name: 'Identification Code', type: 'AN', min: 2, max: 80 },
+      { index: 1, id: 'N101', name: 'Entity Identifier Code', type: 'ID', min: 2, max: 3, requirement: 'M' },
+      { index: 2, id: 'N102', name: 'Name', type: 'AN', min: 1, max: 60, requirement: 'X' },
+      { index: 3, id: 'N103', name: 'ID Code Qualifier', type: 'ID', min: 1, max: 2, requirement: 'X' },
+      { index: 4, id: 'N104', name: 'Identification Code', type: 'AN', min: 2, max: 80, requirement: 'X' },
     ],
+    syntax: ['R0203', 'P0304'],
   },
   N2: {
     id: 'N2',
     name: 'Additional Name Information',
     purpose: 'To specify additional names or those longer than 35 characters in length.',
     elements: [
-      { index: 1, id: 'N201', name: 'Name', type: 'AN', min: 1, max: 60 },
+      { index: 1, id: 'N201', name: 'Name', type: 'AN', min: 1, max: 60, requirement: 'M' },
       { index: 2, id: 'N202', name: 'Name', type: 'AN', min: 1, max: 60 }
     ]
   },
@@ -222,7 +332,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Address Information',
     purpose: 'To specify the location of the named party.',
     elements: [
-      { index: 1, id: 'N301', name: 'Address Information', type: 'AN', min: 1, max: 55 },
+      { index: 1, id: 'N301', name: 'Address Information', type: 'AN', min: 1, max: 55, requirement: 'M' },
       { index: 2, id: 'N302', name: 'Address Information', type: 'AN', min: 1, max: 55 }
     ]
   },
@@ -235,7 +345,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
       { index: 2, id: 'N402', name: 'State or Province Code', type: 'ID', min: 2, max: 2 },
       { index: 3, id: 'N403', name: 'Postal Code', type: 'ID', min: 3, max: 15 },
       { index: 4, id: 'N404', name: 'Country Code', type: 'ID', min: 2, max: 3 }
-    ]
+    ],
+    syntax: ['C0605']
   },
   MSG: {
     id: 'MSG',
@@ -243,7 +354,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To provide a free-form format that allows the transmission of text information.',
     elements: [
         { index: 1, id: 'MSG01', name: 'Free-Form Message Text', type: 'AN', min: 1, max: 264 }
-    ]
+    ],
+    syntax: ['C0302']
   },
 
   // --- TRANSPORTATION SPECIFIC ---
@@ -254,7 +366,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     elements: [
         { index: 1, id: 'N901', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3 },
         { index: 2, id: 'N902', name: 'Reference Identification', type: 'AN', min: 1, max: 50 }
-    ]
+    ],
+    syntax: ['R0203', 'C0605']
   },
   L11: {
     id: 'L11',
@@ -276,7 +389,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
         { index: 4, id: 'AT704', name: 'Appointment Reason Code', type: 'ID', min: 2, max: 2 },
         { index: 5, id: 'AT705', name: 'Date', type: 'DT', min: 8, max: 8 },
         { index: 6, id: 'AT706', name: 'Time', type: 'TM', min: 4, max: 8 }
-    ]
+    ],
+    syntax: ['R0103', 'P0102', 'P0304', 'C0605']
   },
   MS1: {
     id: 'MS1',
@@ -320,7 +434,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Set Purpose',
     purpose: 'To allow for positive identification of transaction set purpose.',
     elements: [
-      { index: 1, id: 'B2A01', name: 'Transaction Set Purpose Code', type: 'ID', min: 2, max: 2 }
+      { index: 1, id: 'B2A01', name: 'Transaction Set Purpose Code', type: 'ID', min: 2, max: 2, requirement: 'M' }
     ]
   },
   L3: {
@@ -328,18 +442,19 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Total Weight and Charges',
     purpose: 'To specify the total shipment in terms of weight, volume, rates, charges, advances, and prepaid amounts applicable to one or more line items.',
     elements: [
-      { index: 1, id: 'L301', name: 'Weight', type: 'R', min: 1, max: 10 },
-      { index: 2, id: 'L302', name: 'Weight Qualifier', type: 'ID', min: 1, max: 2 },
+      { index: 1, id: 'L301', name: 'Weight', type: 'R', min: 1, max: 10, requirement: 'X' },
+      { index: 2, id: 'L302', name: 'Weight Qualifier', type: 'ID', min: 1, max: 2, requirement: 'X' },
       { index: 5, id: 'L305', name: 'Charge', type: 'N2', min: 1, max: 12 },
       { index: 11, id: 'L311', name: 'Quantity', type: 'N0', min: 1, max: 7 }
-    ]
+    ],
+    syntax: ['P0102']
   },
   LX: {
     id: 'LX',
     name: 'Assigned Number',
     purpose: 'To reference a line number in a transaction set.',
     elements: [
-      { index: 1, id: 'LX01', name: 'Assigned Number', type: 'N0', min: 1, max: 6 }
+      { index: 1, id: 'LX01', name: 'Assigned Number', type: 'N0', min: 1, max: 6, requirement: 'M' }
     ]
   },
   S5: {
@@ -347,8 +462,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Stop Off Details',
     purpose: 'To specify stop-off detail reference numbers and stop reason.',
     elements: [
-      { index: 1, id: 'S501', name: 'Stop Sequence Number', type: 'N0', min: 1, max: 3 },
-      { index: 2, id: 'S502', name: 'Stop Reason Code', type: 'ID', min: 2, max: 2 }
+      { index: 1, id: 'S501', name: 'Stop Sequence Number', type: 'N0', min: 1, max: 3, requirement: 'M' },
+      { index: 2, id: 'S502', name: 'Stop Reason Code', type: 'ID', min: 2, max: 2, requirement: 'M' }
     ]
   },
   G62: {
@@ -356,11 +471,12 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Date/Time',
     purpose: 'To specify pertinent dates and times.',
     elements: [
-      { index: 1, id: 'G6201', name: 'Date Qualifier', type: 'ID', min: 2, max: 2 },
-      { index: 2, id: 'G6202', name: 'Date', type: 'DT', min: 8, max: 8 },
-      { index: 3, id: 'G6203', name: 'Time Qualifier', type: 'ID', min: 1, max: 2 },
-      { index: 4, id: 'G6204', name: 'Time', type: 'TM', min: 4, max: 8 }
-    ]
+      { index: 1, id: 'G6201', name: 'Date Qualifier', type: 'ID', min: 2, max: 2, requirement: 'X' },
+      { index: 2, id: 'G6202', name: 'Date', type: 'DT', min: 8, max: 8, requirement: 'X' },
+      { index: 3, id: 'G6203', name: 'Time Qualifier', type: 'ID', min: 1, max: 2, requirement: 'X' },
+      { index: 4, id: 'G6204', name: 'Time', type: 'TM', min: 4, max: 8, requirement: 'X' }
+    ],
+    syntax: ['R0103', 'P0102', 'P0304']
   },
   N7: {
     id: 'N7',
@@ -368,7 +484,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To identify the equipment.',
     elements: [
       { index: 1, id: 'N701', name: 'Equipment Initial', type: 'AN', min: 1, max: 4 },
-      { index: 2, id: 'N702', name: 'Equipment Number', type: 'AN', min: 1, max: 10 },
+      { index: 2, id: 'N702', name: 'Equipment Number', type: 'AN', min: 1, max: 10, requirement: 'M' },
       { index: 11, id: 'N711', name: 'Equipment Description Code', type: 'ID', min: 2, max: 2 }
     ]
   },
@@ -377,9 +493,10 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Carrier Details (Quantity and Weight)',
     purpose: 'To specify the transportation details relative to commodity, weight, and quantity.',
     elements: [
-      { index: 1, id: 'TD101', name: 'Packaging Code', type: 'AN', min: 3, max: 5 },
-      { index: 2, id: 'TD102', name: 'Lading Quantity', type: 'N0', min: 1, max: 7 }
-    ]
+      { index: 1, id: 'TD101', name: 'Packaging Code', type: 'AN', min: 3, max: 5, requirement: 'X' },
+      { index: 2, id: 'TD102', name: 'Lading Quantity', type: 'N0', min: 1, max: 7, requirement: 'X' }
+    ],
+    syntax: ['C0102']
   },
   TD5: {
     id: 'TD5',
@@ -387,17 +504,18 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To specify the carrier and sequence of routing and provide transit time information.',
     elements: [
       { index: 1, id: 'TD501', name: 'Routing Sequence Code', type: 'ID', min: 1, max: 2 },
-      { index: 2, id: 'TD502', name: 'Identification Code Qualifier', type: 'ID', min: 1, max: 2 },
-      { index: 3, id: 'TD503', name: 'Identification Code', type: 'AN', min: 2, max: 80 },
-      { index: 4, id: 'TD504', name: 'Transportation Method/Type Code', type: 'ID', min: 1, max: 2 }
-    ]
+      { index: 2, id: 'TD502', name: 'Identification Code Qualifier', type: 'ID', min: 1, max: 2, requirement: 'X' },
+      { index: 3, id: 'TD503', name: 'Identification Code', type: 'AN', min: 2, max: 80, requirement: 'X' },
+      { index: 4, id: 'TD504', name: 'Transportation Method/Type Code', type: 'ID', min: 1, max: 2, requirement: 'X' }
+    ],
+    syntax: ['R0204050612', 'C0203']
   },
   W12: {
     id: 'W12',
     name: 'Warehouse Item Detail',
     purpose: 'To designate those line items that were shipped.',
     elements: [
-      { index: 1, id: 'W1201', name: 'Shipment Order Status Code', type: 'ID', min: 2, max: 2 },
+      { index: 1, id: 'W1201', name: 'Shipment Order Status Code', type: 'ID', min: 2, max: 2, requirement: 'M' },
       { index: 2, id: 'W1202', name: 'Quantity Ordered', type: 'R', min: 1, max: 15 },
       { index: 3, id: 'W1203', name: 'Number of Units Shipped', type: 'R', min: 1, max: 15 },
       { index: 7, id: 'W1207', name: 'Product/Service ID Qualifier', type: 'ID', min: 2, max: 2 },
@@ -411,8 +529,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Beginning Segment for Invoice',
     purpose: 'To indicate the beginning of an Invoice Transaction Set and transmit identifying numbers and dates.',
     elements: [
-      { index: 1, id: 'BIG01', name: 'Date', type: 'DT', min: 8, max: 8 },
-      { index: 2, id: 'BIG02', name: 'Invoice Number', type: 'AN', min: 1, max: 22 },
+      { index: 1, id: 'BIG01', name: 'Date', type: 'DT', min: 8, max: 8, requirement: 'M' },
+      { index: 2, id: 'BIG02', name: 'Invoice Number', type: 'AN', min: 1, max: 22, requirement: 'M' },
       { index: 3, id: 'BIG03', name: 'Date', type: 'DT', min: 8, max: 8 },
       { index: 4, id: 'BIG04', name: 'Purchase Order Number', type: 'AN', min: 1, max: 22 }
     ]
@@ -423,17 +541,18 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To specify the basic and most frequently used line item data for the invoice and related transactions.',
     elements: [
       { index: 1, id: 'IT101', name: 'Assigned Identification', type: 'AN', min: 1, max: 20 },
-      { index: 2, id: 'IT102', name: 'Quantity Invoiced', type: 'R', min: 1, max: 10 },
-      { index: 3, id: 'IT103', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2 },
-      { index: 4, id: 'IT104', name: 'Unit Price', type: 'R', min: 1, max: 17 }
-    ]
+      { index: 2, id: 'IT102', name: 'Quantity Invoiced', type: 'R', min: 1, max: 10, requirement: 'X' },
+      { index: 3, id: 'IT103', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2, requirement: 'X' },
+      { index: 4, id: 'IT104', name: 'Unit Price', type: 'R', min: 1, max: 17, requirement: 'X' }
+    ],
+    syntax: ['P020304', 'P0607', 'P0809']
   },
   TDS: {
     id: 'TDS',
     name: 'Total Monetary Value Summary',
     purpose: 'To specify the total invoice discounts and amounts.',
     elements: [
-      { index: 1, id: 'TDS01', name: 'Total Invoice Amount', type: 'N2', min: 1, max: 15 }
+      { index: 1, id: 'TDS01', name: 'Total Invoice Amount', type: 'N2', min: 1, max: 15, requirement: 'M' }
     ]
   },
   CTT: {
@@ -441,7 +560,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Transaction Totals',
     purpose: 'To transmit a hash total for a specific element in the transaction set.',
     elements: [
-      { index: 1, id: 'CTT01', name: 'Number of Line Items', type: 'N0', min: 1, max: 6 },
+      { index: 1, id: 'CTT01', name: 'Number of Line Items', type: 'N0', min: 1, max: 6, requirement: 'M' },
       { index: 2, id: 'CTT02', name: 'Hash Total', type: 'R', min: 1, max: 10 }
     ]
   },
@@ -452,10 +571,10 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Beginning Segment for Payment Order/Remittance Advice',
     purpose: 'To indicate the beginning of a Payment Order/Remittance Advice Transaction Set.',
     elements: [
-      { index: 1, id: 'BPR01', name: 'Transaction Handling Code', type: 'ID', min: 1, max: 1 },
-      { index: 2, id: 'BPR02', name: 'Monetary Amount', type: 'R', min: 1, max: 18 },
-      { index: 3, id: 'BPR03', name: 'Credit/Debit Flag Code', type: 'ID', min: 1, max: 1 },
-      { index: 4, id: 'BPR04', name: 'Payment Method Code', type: 'ID', min: 3, max: 3 }
+      { index: 1, id: 'BPR01', name: 'Transaction Handling Code', type: 'ID', min: 1, max: 1, requirement: 'M' },
+      { index: 2, id: 'BPR02', name: 'Monetary Amount', type: 'R', min: 1, max: 18, requirement: 'M' },
+      { index: 3, id: 'BPR03', name: 'Credit/Debit Flag Code', type: 'ID', min: 1, max: 1, requirement: 'M' },
+      { index: 4, id: 'BPR04', name: 'Payment Method Code', type: 'ID', min: 3, max: 3, requirement: 'M' }
     ]
   },
   TRN: {
@@ -463,8 +582,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Trace',
     purpose: 'To uniquely identify a transaction to an application.',
     elements: [
-      { index: 1, id: 'TRN01', name: 'Trace Type Code', type: 'ID', min: 1, max: 2 },
-      { index: 2, id: 'TRN02', name: 'Reference Identification', type: 'AN', min: 1, max: 30 }
+      { index: 1, id: 'TRN01', name: 'Trace Type Code', type: 'ID', min: 1, max: 2, requirement: 'M' },
+      { index: 2, id: 'TRN02', name: 'Reference Identification', type: 'AN', min: 1, max: 30, requirement: 'M' }
     ]
   },
   RMR: {
@@ -472,10 +591,11 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Remittance Advice Accounts Receivable Open Item Reference',
     purpose: 'To specify the accounts receivable open item(s) to be included in the cash application.',
     elements: [
-      { index: 1, id: 'RMR01', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3 },
-      { index: 2, id: 'RMR02', name: 'Reference Identification', type: 'AN', min: 1, max: 50 },
+      { index: 1, id: 'RMR01', name: 'Reference Identification Qualifier', type: 'ID', min: 2, max: 3, requirement: 'X' },
+      { index: 2, id: 'RMR02', name: 'Reference Identification', type: 'AN', min: 1, max: 50, requirement: 'X' },
       { index: 4, id: 'RMR04', name: 'Monetary Amount', type: 'R', min: 1, max: 18 }
-    ]
+    ],
+    syntax: ['P0102']
   },
 
   // --- PLANNING & MAINTENANCE ---
@@ -485,8 +605,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To specify line-item detail relative to shipment.',
     elements: [
       { index: 1, id: 'SN101', name: 'Assigned Identification', type: 'AN', min: 1, max: 20 },
-      { index: 2, id: 'SN102', name: 'Number of Units Shipped', type: 'R', min: 1, max: 15 },
-      { index: 3, id: 'SN103', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2 }
+      { index: 2, id: 'SN102', name: 'Number of Units Shipped', type: 'R', min: 1, max: 15, requirement: 'M' },
+      { index: 3, id: 'SN103', name: 'Unit or Basis for Measurement Code', type: 'ID', min: 2, max: 2, requirement: 'M' }
     ]
   },
   UIT: {
@@ -494,7 +614,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Unit Detail',
     purpose: 'To specify item unit data.',
     elements: [
-      { index: 1, id: 'UIT01', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15 }
+      { index: 1, id: 'UIT01', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15, requirement: 'M' }
     ]
   },
   MAN: {
@@ -512,7 +632,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To start acknowledgment of a functional group.',
     elements: [
         { index: 1, id: 'AK101', name: 'Functional Identifier Code', type: 'ID', min: 2, max: 2 },
-        { index: 2, id: 'AK102', name: 'Group Control Number', type: 'N0', min: 1, max: 9 }
+        { index: 2, id: 'AK102', name: 'Group Control Number', type: 'N0', min: 1, max: 9 },
+        { index: 3, id: 'AK103', name: 'Version / Release / Industry Identifier Code', type: 'AN', min: 1, max: 12 }
     ]
   },
   AK2: {
@@ -521,7 +642,30 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To start acknowledgment of a single transaction set.',
     elements: [
         { index: 1, id: 'AK201', name: 'Transaction Set Identifier Code', type: 'ID', min: 3, max: 3 },
-        { index: 2, id: 'AK202', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9 }
+        { index: 2, id: 'AK202', name: 'Transaction Set Control Number', type: 'AN', min: 4, max: 9 },
+        { index: 3, id: 'AK203', name: 'Implementation Convention Reference', type: 'AN', min: 1, max: 35 }
+    ]
+  },
+  AK3: {
+    id: 'AK3',
+    name: 'Data Segment Note',
+    purpose: 'To report errors in a data segment and identify the location of the data segment.',
+    elements: [
+        { index: 1, id: 'AK301', name: 'Segment ID Code', type: 'ID', min: 2, max: 3, requirement: 'M' },
+        { index: 2, id: 'AK302', name: 'Segment Position in Transaction Set', type: 'N0', min: 1, max: 6, requirement: 'M' },
+        { index: 3, id: 'AK303', name: 'Loop Identifier Code', type: 'AN', min: 1, max: 6 },
+        { index: 4, id: 'AK304', name: 'Segment Syntax Error Code', type: 'ID', min: 1, max: 3, qualifiers: SEGMENT_SYNTAX_ERRORS }
+    ]
+  },
+  AK4: {
+    id: 'AK4',
+    name: 'Data Element Note',
+    purpose: 'To report errors in a data element or composite data structure and identify the location of the data element.',
+    elements: [
+        { index: 1, id: 'AK401', name: 'Position in Segment', type: 'AN', min: 1, max: 8, compositeId: 'C030', components: COMPOSITE_ELEMENTS.C030, requirement: 'M' },
+        { index: 2, id: 'AK402', name: 'Data Element Reference Number', type: 'N0', min: 1, max: 4 },
+        { index: 3, id: 'AK403', name: 'Data Element Syntax Error Code', type: 'ID', min: 1, max: 3, qualifiers: ELEMENT_SYNTAX_ERRORS, requirement: 'M' },
+        { index: 4, id: 'AK404', name: 'Copy of Bad Data Element', type: 'AN', min: 1, max: 99 }
     ]
   },
   AK5: {
@@ -529,7 +673,8 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Transaction Set Response Trailer',
     purpose: 'To acknowledge acceptance or rejection and report errors in a transaction set.',
     elements: [
-        { index: 1, id: 'AK501', name: 'Transaction Set Acknowledgment Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Accepted', 'E': 'Accepted with Errors', 'R': 'Rejected' } }
+        { index: 1, id: 'AK501', name: 'Transaction Set Acknowledgment Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Accepted', 'E': 'Accepted with Errors', 'R': 'Rejected' } },
+        ...[2, 3, 4, 5, 6].map(index => ({ index, id: `AK50${index}`, name: 'Transaction Set Syntax Error Code', type: 'ID' as const, min: 1, max: 3, qualifiers: TRANSACTION_SYNTAX_ERRORS }))
     ]
   },
   AK9: {
@@ -537,10 +682,67 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Functional Group Response Trailer',
     purpose: 'To acknowledge acceptance or rejection of a functional group and report the number of included transaction sets.',
     elements: [
-        { index: 1, id: 'AK901', name: 'Functional Group Acknowledge Code', type: 'ID', min: 1, max: 1 },
+        { index: 1, id: 'AK901', name: 'Functional Group Acknowledge Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Accepted', 'E': 'Accepted, But Errors Were Noted', 'P': 'Partially Accepted', 'R': 'Rejected' } },
         { index: 2, id: 'AK902', name: 'Number of Transaction Sets Included', type: 'N0', min: 1, max: 6 },
         { index: 3, id: 'AK903', name: 'Number of Received Transaction Sets', type: 'N0', min: 1, max: 6 },
-        { index: 4, id: 'AK904', name: 'Number of Accepted Transaction Sets', type: 'N0', min: 1, max: 6 }
+        { index: 4, id: 'AK904', name: 'Number of Accepted Transaction Sets', type: 'N0', min: 1, max: 6 },
+        ...[5, 6, 7, 8, 9].map(index => ({ index, id: `AK90${index}`, name: 'Functional Group Syntax Error Code', type: 'ID' as const, min: 1, max: 3, qualifiers: GROUP_SYNTAX_ERRORS }))
+    ]
+  },
+  IK3: {
+    id: 'IK3',
+    name: 'Implementation Data Segment Note',
+    purpose: 'To report segment errors and identify the location of the segment in error.',
+    elements: [
+        { index: 1, id: 'IK301', name: 'Segment ID Code', type: 'ID', min: 2, max: 3, requirement: 'M' },
+        { index: 2, id: 'IK302', name: 'Segment Position in Transaction Set', type: 'N0', min: 1, max: 10, requirement: 'M' },
+        { index: 3, id: 'IK303', name: 'Loop Identifier Code', type: 'AN', min: 1, max: 4 },
+        { index: 4, id: 'IK304', name: 'Implementation Segment Syntax Error Code', type: 'ID', min: 1, max: 3, qualifiers: IMPLEMENTATION_SEGMENT_ERRORS, requirement: 'M' }
+    ]
+  },
+  CTX: {
+    id: 'CTX',
+    name: 'Context',
+    purpose: 'To describe the context of an error: the business unit it occurred in, or the situational trigger that made an element or segment required.',
+    elements: [
+        { index: 1, id: 'CTX01', name: 'Context Identification', type: 'AN', min: 1, max: 71, compositeId: 'C998', components: COMPOSITE_ELEMENTS.C998, requirement: 'M' },
+        { index: 2, id: 'CTX02', name: 'Segment ID Code', type: 'ID', min: 2, max: 3 },
+        { index: 3, id: 'CTX03', name: 'Segment Position in Transaction Set', type: 'N0', min: 1, max: 10 },
+        { index: 4, id: 'CTX04', name: 'Loop Identifier Code', type: 'AN', min: 1, max: 4 },
+        { index: 5, id: 'CTX05', name: 'Position in Segment', type: 'AN', min: 1, max: 8, compositeId: 'C030', components: COMPOSITE_ELEMENTS.C030 },
+        { index: 6, id: 'CTX06', name: 'Reference in Segment', type: 'AN', min: 1, max: 9, compositeId: 'C999', components: COMPOSITE_ELEMENTS.C999 }
+    ]
+  },
+  IK4: {
+    id: 'IK4',
+    name: 'Implementation Data Element Note',
+    purpose: 'To report errors in a data element or composite data structure and identify the location of the data element.',
+    elements: [
+        { index: 1, id: 'IK401', name: 'Position in Segment', type: 'AN', min: 1, max: 8, compositeId: 'C030', components: COMPOSITE_ELEMENTS.C030, requirement: 'M' },
+        { index: 2, id: 'IK402', name: 'Data Element Reference Number', type: 'N0', min: 1, max: 4 },
+        { index: 3, id: 'IK403', name: 'Implementation Data Element Syntax Error Code', type: 'ID', min: 1, max: 3, qualifiers: IMPLEMENTATION_ELEMENT_ERRORS, requirement: 'M' },
+        { index: 4, id: 'IK404', name: 'Copy of Bad Data Element', type: 'AN', min: 1, max: 99 }
+    ]
+  },
+  IK5: {
+    id: 'IK5',
+    name: 'Implementation Transaction Set Response Trailer',
+    purpose: 'To acknowledge acceptance or rejection and report implementation errors in a transaction set.',
+    elements: [
+        { index: 1, id: 'IK501', name: 'Transaction Set Acknowledgment Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Accepted', 'E': 'Accepted But Errors Were Noted', 'M': 'Rejected, Message Authentication Code (MAC) Failed', 'R': 'Rejected', 'W': 'Rejected, Assurance Failed Validity Tests', 'X': 'Rejected, Content After Decryption Could Not Be Analyzed' }, requirement: 'M' },
+        ...[2, 3, 4, 5, 6].map(index => ({ index, id: `IK50${index}`, name: 'Implementation Transaction Set Syntax Error Code', type: 'ID' as const, min: 1, max: 3, qualifiers: IMPLEMENTATION_TRANSACTION_ERRORS }))
+    ]
+  },
+  TA1: {
+    id: 'TA1',
+    name: 'Interchange Acknowledgment',
+    purpose: 'To report the status of processing a received interchange header and trailer or the non-delivery by a network provider.',
+    elements: [
+        { index: 1, id: 'TA101', name: 'Interchange Control Number', type: 'N0', min: 9, max: 9, requirement: 'M' },
+        { index: 2, id: 'TA102', name: 'Interchange Date', type: 'DT', min: 6, max: 6, requirement: 'M' },
+        { index: 3, id: 'TA103', name: 'Interchange Time', type: 'TM', min: 4, max: 4, requirement: 'M' },
+        { index: 4, id: 'TA104', name: 'Interchange Acknowledgment Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Interchange accepted with no errors', 'E': 'Interchange accepted, but errors are noted', 'R': 'Interchange rejected because of errors' }, requirement: 'M' },
+        { index: 5, id: 'TA105', name: 'Interchange Note Code', type: 'ID', min: 3, max: 3, qualifiers: INTERCHANGE_NOTE_CODES, requirement: 'M' }
     ]
   },
 
@@ -550,11 +752,11 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Beginning Segment for Purchase Order',
     purpose: 'To indicate the beginning of the Purchase Order Transaction Set (850).',
     elements: [
-      { index: 1, id: 'BEG01', name: 'Transaction Set Purpose', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'Original', '01': 'Cancellation', '06': 'Confirmation', '07': 'Duplicate' } },
-      { index: 2, id: 'BEG02', name: 'Purchase Order Type', type: 'ID', min: 2, max: 2 },
-      { index: 3, id: 'BEG03', name: 'Purchase Order Number', type: 'AN', min: 1, max: 22 },
+      { index: 1, id: 'BEG01', name: 'Transaction Set Purpose', type: 'ID', min: 2, max: 2, qualifiers: { '00': 'Original', '01': 'Cancellation', '06': 'Confirmation', '07': 'Duplicate' }, requirement: 'M' },
+      { index: 2, id: 'BEG02', name: 'Purchase Order Type', type: 'ID', min: 2, max: 2, requirement: 'M' },
+      { index: 3, id: 'BEG03', name: 'Purchase Order Number', type: 'AN', min: 1, max: 22, requirement: 'M' },
       { index: 4, id: 'BEG04', name: 'Release Number', type: 'AN', min: 1, max: 30 },
-      { index: 5, id: 'BEG05', name: 'Date', type: 'DT', min: 8, max: 8 },
+      { index: 5, id: 'BEG05', name: 'Date', type: 'DT', min: 8, max: 8, requirement: 'M' },
     ],
   },
   PRF: {
@@ -562,7 +764,7 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     name: 'Purchase Order Reference',
     purpose: 'To provide reference to a specific purchase order.',
     elements: [
-      { index: 1, id: 'PRF01', name: 'Purchase Order Number', type: 'AN', min: 1, max: 22 },
+      { index: 1, id: 'PRF01', name: 'Purchase Order Number', type: 'AN', min: 1, max: 22, requirement: 'M' },
       { index: 4, id: 'PRF04', name: 'Date', type: 'DT', min: 8, max: 8 }
     ]
   },
@@ -572,10 +774,25 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To specify basic and most frequently used line item data.',
     elements: [
       { index: 1, id: 'PO101', name: 'Assigned Identification', type: 'AN', min: 1, max: 20 },
-      { index: 2, id: 'PO102', name: 'Quantity Ordered', type: 'R', min: 1, max: 15 },
-      { index: 3, id: 'PO103', name: 'UOM Code', type: 'ID', min: 2, max: 2 },
-      { index: 4, id: 'PO104', name: 'Unit Price', type: 'R', min: 1, max: 17 },
+      { index: 2, id: 'PO102', name: 'Quantity Ordered', type: 'R', min: 1, max: 15, requirement: 'X' },
+      { index: 3, id: 'PO103', name: 'UOM Code', type: 'ID', min: 2, max: 2, requirement: 'X' },
+      { index: 4, id: 'PO104', name: 'Unit Price', type: 'R', min: 1, max: 17, requirement: 'X' },
+    ],
+    syntax: ['C0302', 'C0504', 'P0607', 'P0809'],
+  },
+  SLN: {
+    id: 'SLN',
+    name: 'Subline Item Detail',
+    purpose: 'To specify product subline detail item data.',
+    elements: [
+      { index: 1, id: 'SLN01', name: 'Assigned Identification', type: 'AN', min: 1, max: 20, requirement: 'M' },
+      { index: 2, id: 'SLN02', name: 'Assigned Identification', type: 'AN', min: 1, max: 20 },
+      { index: 3, id: 'SLN03', name: 'Relationship Code', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Add', 'D': 'Delete', 'I': 'Included' }, requirement: 'M' },
+      { index: 4, id: 'SLN04', name: 'Quantity', type: 'R', min: 1, max: 15, requirement: 'X' },
+      { index: 5, id: 'SLN05', name: 'Composite Unit of Measure', type: 'AN', min: 1, max: 15, compositeId: 'C001', components: COMPOSITE_ELEMENTS.C001, requirement: 'X' },
+      { index: 6, id: 'SLN06', name: 'Unit Price', type: 'R', min: 1, max: 17 }
     ],
+    syntax: ['P0405']
   },
   LIN: {
     id: 'LIN',
@@ -583,8 +800,9 @@ export const STANDARD_SEGMENTS: Record<string, SegmentSchema> = {
     purpose: 'To specify basic item identification data.',
     elements: [
       { index: 1, id: 'LIN01', name: 'Assigned Identification', type: 'AN', min: 1, max: 20 },
-      { index: 2, id: 'LIN02', name: 'Product/Service ID Qualifier', type: 'ID', min: 2, max: 2 },
-      { index: 3, id: 'LIN03', name: 'Product/Service ID', type: 'AN', min: 1, max: 48 },
+      { index: 2, id: 'LIN02', name: 'Product/Service ID Qualifier', type: 'ID', min: 2, max: 2, requirement: 'M' },
+      { index: 3, id: 'LIN03', name: 'Product/Service ID', type: 'AN', min: 1, max: 48, requirement: 'M' },
     ],
+    syntax: ['P0405', 'P0607'],
   }
 };
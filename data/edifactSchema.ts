@@ -0,0 +1,246 @@
+import { SegmentSchema, ElementSchema } from '../types';
+
+/**
+ * EDIFACT Service Composites (ISO 9735)
+ * Components are addressed by 1-based position (e.g. UNB01-1 for the syntax identifier).
+ * Mandatory (M) components are marked; the rest are conditional.
+ */
+export const EDIFACT_COMPOSITES: Record<string, ElementSchema[]> = {
+  // S001 Syntax identifier
+  S001: [
+    { index: 1, id: 'S001-1', name: 'Syntax identifier (0001)', type: 'ID', min: 4, max: 4, qualifiers: { 'UNOA': 'Level A', 'UNOB': 'Level B', 'UNOC': 'Level C (ISO 8859-1)', 'UNOD': 'Level D (ISO 8859-2)', 'UNOE': 'Level E (ISO 8859-5)', 'UNOF': 'Level F (ISO 8859-7)', 'UNOG': 'Level G (ISO 8859-3)', 'UNOH': 'Level H (ISO 8859-4)', 'UNOI': 'Level I (ISO 8859-6)', 'UNOJ': 'Level J (ISO 8859-8)', 'UNOK': 'Level K (ISO 8859-9)', 'UNOX': 'Level X (ISO 2022)', 'UNOW': 'Level W (UTF-8)', 'UNOY': 'Level Y (ISO 10646-1)' }, requirement: 'M' },
+    { index: 2, id: 'S001-2', name: 'Syntax version number (0002)', type: 'ID', min: 1, max: 1, qualifiers: { '1': 'Version 1', '2': 'Version 2', '3': 'Version 3', '4': 'Version 4' }, requirement: 'M' },
+    { index: 3, id: 'S001-3', name: 'Service code list directory version number (0080)', type: 'AN', min: 1, max: 6 },
+    { index: 4, id: 'S001-4', name: 'Character encoding, coded (0133)', type: 'AN', min: 1, max: 3 }
+  ],
+  // S002 Interchange sender
+  S002: [
+    { index: 1, id: 'S002-1', name: 'Interchange sender identification (0004)', type: 'AN', min: 1, max: 35, requirement: 'M' },
+    { index: 2, id: 'S002-2', name: 'Identification code qualifier (0007)', type: 'AN', min: 1, max: 4 },
+    { index: 3, id: 'S002-3', name: 'Interchange sender internal identification (0008)', type: 'AN', min: 1, max: 35 }
+  ],
+  // S003 Interchange recipient
+  S003: [
+    { index: 1, id: 'S003-1', name: 'Interchange recipient identification (0010)', type: 'AN', min: 1, max: 35, requirement: 'M' },
+    { index: 2, id: 'S003-2', name: 'Identification code qualifier (0007)', type: 'AN', min: 1, max: 4 },
+    { index: 3, id: 'S003-3', name: 'Interchange recipient internal identification (0014)', type: 'AN', min: 1, max: 35 }
+  ],
+  // S004 Date and time of preparation
+  S004: [
+    { index: 1, id: 'S004-1', name: 'Date (0017)', type: 'DT', min: 6, max: 8, requirement: 'M' },
+    { index: 2, id: 'S004-2', name: 'Time (0019)', type: 'TM', min: 4, max: 4, requirement: 'M' }
+  ],
+  // S005 Recipient reference/password details
+  S005: [
+    { index: 1, id: 'S005-1', name: 'Recipient reference/password (0022)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+    { index: 2, id: 'S005-2', name: 'Recipient reference/password qualifier (0025)', type: 'ID', min: 2, max: 2 }
+  ],
+  // S006 Application sender identification
+  S006: [
+    { index: 1, id: 'S006-1', name: 'Application sender identification (0040)', type: 'AN', min: 1, max: 35, requirement: 'M' },
+    { index: 2, id: 'S006-2', name: 'Identification code qualifier (0007)', type: 'AN', min: 1, max: 4 }
+  ],
+  // S007 Application recipient identification
+  S007: [
+    { index: 1, id: 'S007-1', name: 'Application recipient identification (0044)', type: 'AN', min: 1, max: 35, requirement: 'M' },
+    { index: 2, id: 'S007-2', name: 'Identification code qualifier (0007)', type: 'AN', min: 1, max: 4 }
+  ],
+  // S008 Message version
+  S008: [
+    { index: 1, id: 'S008-1', name: 'Message version number (0052)', type: 'AN', min: 1, max: 3, requirement: 'M' },
+    { index: 2, id: 'S008-2', name: 'Message release number (0054)', type: 'AN', min: 1, max: 3, requirement: 'M' },
+    { index: 3, id: 'S008-3', name: 'Association assigned code (0057)', type: 'AN', min: 1, max: 6 }
+  ],
+  // S009 Message identifier
+  S009: [
+    { index: 1, id: 'S009-1', name: 'Message type (0065)', type: 'AN', min: 1, max: 6, requirement: 'M' },
+    { index: 2, id: 'S009-2', name: 'Message version number (0052)', type: 'AN', min: 1, max: 3, requirement: 'M' },
+    { index: 3, id: 'S009-3', name: 'Message release number (0054)', type: 'AN', min: 1, max: 3, requirement: 'M' },
+    { index: 4, id: 'S009-4', name: 'Controlling agency (0051)', type: 'AN', min: 1, max: 2, requirement: 'M' },
+    { index: 5, id: 'S009-5', name: 'Association assigned code (0057)', type: 'AN', min: 1, max: 6 }
+  ],
+  // S011 Data element identification (CONTRL)
+  S011: [
+    { index: 1, id: 'S011-1', name: 'Erroneous data element position in segment (0098)', type: 'N0', min: 1, max: 3, requirement: 'M' },
+    { index: 2, id: 'S011-2', name: 'Erroneous component data element position (0104)', type: 'N0', min: 1, max: 3 }
+  ],
+  // S010 Status of the transfer
+  S010: [
+    { index: 1, id: 'S010-1', name: 'Sequence of transfers (0070)', type: 'N0', min: 1, max: 2, requirement: 'M' },
+    { index: 2, id: 'S010-2', name: 'First and last transfer (0073)', type: 'ID', min: 1, max: 1, qualifiers: { 'C': 'Creation', 'F': 'Final' } }
+  ]
+};
+
+// 0083 Action, coded
+const ACTION_CODES: Record<string, string> = {
+  '4': 'This level and all lower levels rejected',
+  '7': 'This level acknowledged, next lower level acknowledged if not explicitly rejected',
+  '8': 'Interchange received'
+};
+
+// 0085 Syntax error, coded
+const SYNTAX_ERROR_CODES: Record<string, string> = {
+  '2': 'Syntax version or level not supported', '7': 'Interchange recipient not actual recipient', '12': 'Invalid value',
+  '13': 'Missing', '14': 'Value not supported in this position', '15': 'Not supported in this position',
+  '16': 'Too many constituents', '17': 'No agreement', '18': 'Unspecified error', '19': 'Invalid decimal notation',
+  '20': 'Character invalid as service character', '21': 'Invalid character(s)', '22': 'Invalid service character(s)',
+  '23': 'Unknown interchange sender', '24': 'Too old', '25': 'Test indicator not supported', '26': 'Duplicate detected',
+  '28': 'References do not match', '29': 'Control count does not match number of instances received',
+  '30': 'Functional groups and messages mixed', '32': 'Lower level empty', '33': 'Invalid occurrence outside message, package or group',
+  '35': 'Too many repetitions', '36': 'Too many segment group repetitions', '37': 'Invalid type of character(s)',
+  '38': 'Missing digit in front of decimal sign', '39': 'Data element too long', '40': 'Data element too short'
+};
+
+/**
+ * EDIFACT Service Segment Definitions
+ * Envelope segments are defined by the syntax rules, not the message directory, so they are
+ * the same for every directory release. Message segments (BGM, NAD, LIN...) come from the
+ * directory packs (e.g. /dictionaries/edifact-d96a.json) through the schema registry.
+ */
+export const EDIFACT_SEGMENTS: Record<string, SegmentSchema> = {
+  UNA: {
+    id: 'UNA',
+    name: 'Service String Advice',
+    purpose: 'To define the characters selected for use as delimiters and indicators in the rest of the interchange.',
+    elements: []
+  },
+  UNB: {
+    id: 'UNB',
+    name: 'Interchange Header',
+    purpose: 'To start, identify and specify an interchange.',
+    elements: [
+      { index: 1, id: 'UNB01', name: 'Syntax Identifier', type: 'AN', min: 1, max: 15, compositeId: 'S001', components: EDIFACT_COMPOSITES.S001, requirement: 'M' },
+      { index: 2, id: 'UNB02', name: 'Interchange Sender', type: 'AN', min: 1, max: 80, compositeId: 'S002', components: EDIFACT_COMPOSITES.S002, requirement: 'M' },
+      { index: 3, id: 'UNB03', name: 'Interchange Recipient', type: 'AN', min: 1, max: 80, compositeId: 'S003', components: EDIFACT_COMPOSITES.S003, requirement: 'M' },
+      { index: 4, id: 'UNB04', name: 'Date and Time of Preparation', type: 'AN', min: 1, max: 13, compositeId: 'S004', components: EDIFACT_COMPOSITES.S004, requirement: 'M' },
+      { index: 5, id: 'UNB05', name: 'Interchange Control Reference (0020)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 6, id: 'UNB06', name: 'Recipient Reference/Password Details', type: 'AN', min: 1, max: 17, compositeId: 'S005', components: EDIFACT_COMPOSITES.S005 },
+      { index: 7, id: 'UNB07', name: 'Application Reference (0026)', type: 'AN', min: 1, max: 14 },
+      { index: 8, id: 'UNB08', name: 'Processing Priority Code (0029)', type: 'ID', min: 1, max: 1, qualifiers: { 'A': 'Highest priority' } },
+      { index: 9, id: 'UNB09', name: 'Acknowledgement Request (0031)', type: 'ID', min: 1, max: 1, qualifiers: { '1': 'Acknowledgement requested', '2': 'Indication of receipt' } },
+      { index: 10, id: 'UNB10', name: 'Interchange Agreement Identifier (0032)', type: 'AN', min: 1, max: 35 },
+      { index: 11, id: 'UNB11', name: 'Test Indicator (0035)', type: 'ID', min: 1, max: 1, qualifiers: { '1': 'Interchange is a test' } }
+    ]
+  },
+  UNG: {
+    id: 'UNG',
+    name: 'Functional Group Header',
+    purpose: 'To head, identify and specify a functional group.',
+    // Only the group reference is mandatory in both syntax versions 3 and 4
+    elements: [
+      { index: 1, id: 'UNG01', name: 'Message Group Identification (0038)', type: 'AN', min: 1, max: 6 },
+      { index: 2, id: 'UNG02', name: 'Application Sender Identification', type: 'AN', min: 1, max: 40, compositeId: 'S006', components: EDIFACT_COMPOSITES.S006 },
+      { index: 3, id: 'UNG03', name: 'Application Recipient Identification', type: 'AN', min: 1, max: 40, compositeId: 'S007', components: EDIFACT_COMPOSITES.S007 },
+      { index: 4, id: 'UNG04', name: 'Date and Time of Preparation', type: 'AN', min: 1, max: 13, compositeId: 'S004', components: EDIFACT_COMPOSITES.S004 },
+      { index: 5, id: 'UNG05', name: 'Group Reference Number (0048)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 6, id: 'UNG06', name: 'Controlling Agency (0051)', type: 'AN', min: 1, max: 2 },
+      { index: 7, id: 'UNG07', name: 'Message Version', type: 'AN', min: 1, max: 14, compositeId: 'S008', components: EDIFACT_COMPOSITES.S008 },
+      { index: 8, id: 'UNG08', name: 'Application Password (0058)', type: 'AN', min: 1, max: 14 }
+    ]
+  },
+  UNH: {
+    id: 'UNH',
+    name: 'Message Header',
+    purpose: 'To head, identify and specify a message.',
+    elements: [
+      { index: 1, id: 'UNH01', name: 'Message Reference Number (0062)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 2, id: 'UNH02', name: 'Message Identifier', type: 'AN', min: 1, max: 25, compositeId: 'S009', components: EDIFACT_COMPOSITES.S009, requirement: 'M' },
+      { index: 3, id: 'UNH03', name: 'Common Access Reference (0068)', type: 'AN', min: 1, max: 35 },
+      { index: 4, id: 'UNH04', name: 'Status of the Transfer', type: 'AN', min: 1, max: 4, compositeId: 'S010', components: EDIFACT_COMPOSITES.S010 }
+    ]
+  },
+  UNT: {
+    id: 'UNT',
+    name: 'Message Trailer',
+    purpose: 'To end and check the completeness of a message.',
+    elements: [
+      { index: 1, id: 'UNT01', name: 'Number of Segments in the Message (0074)', type: 'N0', min: 1, max: 6, requirement: 'M' },
+      { index: 2, id: 'UNT02', name: 'Message Reference Number (0062)', type: 'AN', min: 1, max: 14, requirement: 'M' }
+    ]
+  },
+  UNE: {
+    id: 'UNE',
+    name: 'Functional Group Trailer',
+    purpose: 'To end and check the completeness of a functional group.',
+    elements: [
+      { index: 1, id: 'UNE01', name: 'Number of Messages (0060)', type: 'N0', min: 1, max: 6, requirement: 'M' },
+      { index: 2, id: 'UNE02', name: 'Group Reference Number (0048)', type: 'AN', min: 1, max: 14, requirement: 'M' }
+    ]
+  },
+  UNZ: {
+    id: 'UNZ',
+    name: 'Interchange Trailer',
+    purpose: 'To end and check the completeness of an interchange.',
+    elements: [
+      { index: 1, id: 'UNZ01', name: 'Interchange Control Count (0036)', type: 'N0', min: 1, max: 6, requirement: 'M' },
+      { index: 2, id: 'UNZ02', name: 'Interchange Control Reference (0020)', type: 'AN', min: 1, max: 14, requirement: 'M' }
+    ]
+  },
+  UCI: {
+    id: 'UCI',
+    name: 'Interchange Response',
+    purpose: 'To identify the subject interchange, to indicate acknowledgement or rejection (action taken) of the UNA, UNB and UNZ segments, and to identify any error related to these segments.',
+    elements: [
+      { index: 1, id: 'UCI01', name: 'Interchange Control Reference (0020)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 2, id: 'UCI02', name: 'Interchange Sender', type: 'AN', min: 1, max: 80, compositeId: 'S002', components: EDIFACT_COMPOSITES.S002, requirement: 'M' },
+      { index: 3, id: 'UCI03', name: 'Interchange Recipient', type: 'AN', min: 1, max: 80, compositeId: 'S003', components: EDIFACT_COMPOSITES.S003, requirement: 'M' },
+      { index: 4, id: 'UCI04', name: 'Action, Coded (0083)', type: 'ID', min: 1, max: 3, qualifiers: ACTION_CODES, requirement: 'M' },
+      { index: 5, id: 'UCI05', name: 'Syntax Error, Coded (0085)', type: 'ID', min: 1, max: 3, qualifiers: SYNTAX_ERROR_CODES },
+      { index: 6, id: 'UCI06', name: 'Service Segment Tag, Coded (0013)', type: 'ID', min: 1, max: 3 },
+      { index: 7, id: 'UCI07', name: 'Data Element Identification', type: 'AN', min: 1, max: 7, compositeId: 'S011', components: EDIFACT_COMPOSITES.S011 }
+    ]
+  },
+  UCF: {
+    id: 'UCF',
+    name: 'Functional Group Response',
+    purpose: 'To identify a functional group in the subject interchange and to indicate acknowledgement or rejection of the UNG and UNE segments.',
+    elements: [
+      { index: 1, id: 'UCF01', name: 'Functional Group Reference Number (0048)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 2, id: 'UCF02', name: 'Application Sender Identification', type: 'AN', min: 1, max: 40, compositeId: 'S006', components: EDIFACT_COMPOSITES.S006 },
+      { index: 3, id: 'UCF03', name: 'Application Recipient Identification', type: 'AN', min: 1, max: 40, compositeId: 'S007', components: EDIFACT_COMPOSITES.S007 },
+      { index: 4, id: 'UCF04', name: 'Action, Coded (0083)', type: 'ID', min: 1, max: 3, qualifiers: ACTION_CODES, requirement: 'M' },
+      { index: 5, id: 'UCF05', name: 'Syntax Error, Coded (0085)', type: 'ID', min: 1, max: 3, qualifiers: SYNTAX_ERROR_CODES },
+      { index: 6, id: 'UCF06', name: 'Service Segment Tag, Coded (0013)', type: 'ID', min: 1, max: 3 },
+      { index: 7, id: 'UCF07', name: 'Data Element Identification', type: 'AN', min: 1, max: 7, compositeId: 'S011', components: EDIFACT_COMPOSITES.S011 }
+    ]
+  },
+  UCM: {
+    id: 'UCM',
+    name: 'Message Response',
+    purpose: 'To identify a message in the subject interchange and to indicate that message\'s acknowledgement or rejection, and any error in its UNH or UNT segments.',
+    elements: [
+      { index: 1, id: 'UCM01', name: 'Message Reference Number (0062)', type: 'AN', min: 1, max: 14, requirement: 'M' },
+      { index: 2, id: 'UCM02', name: 'Message Identifier', type: 'AN', min: 1, max: 25, compositeId: 'S009', components: EDIFACT_COMPOSITES.S009, requirement: 'M' },
+      { index: 3, id: 'UCM03', name: 'Action, Coded (0083)', type: 'ID', min: 1, max: 3, qualifiers: ACTION_CODES, requirement: 'M' },
+      { index: 4, id: 'UCM04', name: 'Syntax Error, Coded (0085)', type: 'ID', min: 1, max: 3, qualifiers: SYNTAX_ERROR_CODES },
+      { index: 5, id: 'UCM05', name: 'Service Segment Tag, Coded (0013)', type: 'ID', min: 1, max: 3 },
+      { index: 6, id: 'UCM06', name: 'Data Element Identification', type: 'AN', min: 1, max: 7, compositeId: 'S011', components: EDIFACT_COMPOSITES.S011 }
+    ]
+  },
+  UCS: {
+    id: 'UCS',
+    name: 'Segment Error Indication',
+    purpose: 'To identify a segment containing an error, or a missing segment, and the error.',
+    elements: [
+      { index: 1, id: 'UCS01', name: 'Segment Position in Message Body (0096)', type: 'N0', min: 1, max: 6, requirement: 'M' },
+      { index: 2, id: 'UCS02', name: 'Syntax Error, Coded (0085)', type: 'ID', min: 1, max: 3, qualifiers: SYNTAX_ERROR_CODES }
+    ]
+  },
+  UCD: {
+    id: 'UCD',
+    name: 'Data Element Error Indication',
+    purpose: 'To identify an erroneous stand-alone, composite or component data element, and the error.',
+    elements: [
+      { index: 1, id: 'UCD01', name: 'Syntax Error, Coded (0085)', type: 'ID', min: 1, max: 3, qualifiers: SYNTAX_ERROR_CODES, requirement: 'M' },
+      { index: 2, id: 'UCD02', name: 'Data Element Identification', type: 'AN', min: 1, max: 7, compositeId: 'S011', components: EDIFACT_COMPOSITES.S011, requirement: 'M' }
+    ]
+  },
+  UNS: {
+    id: 'UNS',
+    name: 'Section Control',
+    purpose: 'To separate header, detail and summary sections of a message.',
+    elements: [
+      { index: 1, id: 'UNS01', name: 'Section Identification (0081)', type: 'ID', min: 1, max: 1, qualifiers: { 'D': 'Header/detail section separation', 'S': 'Detail/summary section separation' }, requirement: 'M' }
+    ]
+  }
+};
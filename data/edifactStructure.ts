@@ -0,0 +1,1257 @@
+import { TransactionDef } from '../types';
+
+/**
+ * EDIFACT Message Structures
+ * Segment groups follow the UN/EDIFACT D.96A message directory and are used for every
+ * directory release of the message. Groups are loops whose first child is the trigger segment;
+ * `name` carries the group number so loop paths read SG25/SG29 rather than LIN/RFF.
+ * Repeating segments and groups are left unbounded (Infinity): directory max counts are not enforced yet.
+ */
+export const EDIFACT_STRUCTURES: Record<string, TransactionDef> = {
+  // Purchase Order
+  ORDERS: {
+    type: 'ORDERS',
+    structure: [
+      { id: 'UNH', req: true },
+      { id: 'BGM', req: true },
+      { id: 'DTM', req: true, maxUse: Infinity },
+      { id: 'PAI', req: false },
+      { id: 'ALI', req: false, maxUse: Infinity },
+      { id: 'IMD', req: false, maxUse: Infinity },
+      { id: 'FTX', req: false, maxUse: Infinity },
+      {
+        id: 'RFF', name: 'SG1', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'RFF', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'NAD', name: 'SG2', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'NAD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          { id: 'FII', req: false, maxUse: Infinity },
+          {
+            id: 'RFF', name: 'SG3', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'DOC', name: 'SG4', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'DOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'CTA', name: 'SG5', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTA', req: true },
+              { id: 'COM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TAX', name: 'SG6', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TAX', req: true },
+          { id: 'MOA', req: false },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'CUX', name: 'SG7', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'CUX', req: true },
+          { id: 'PCD', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAT', name: 'SG8', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAT', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false },
+          { id: 'MOA', req: false }
+        ]
+      },
+      {
+        id: 'TDT', name: 'SG9', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TDT', req: true },
+          {
+            id: 'LOC', name: 'SG10', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TOD', name: 'SG11', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TOD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAC', name: 'SG12', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAC', req: true },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          {
+            id: 'PCI', name: 'SG13', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCI', req: true },
+              { id: 'RFF', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'GIN', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'ALC', name: 'SG18', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ALC', req: true },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          {
+            id: 'QTY', name: 'SG19', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'QTY', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'PCD', name: 'SG20', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCD', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'MOA', name: 'SG21', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'MOA', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'RTE', name: 'SG22', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RTE', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG23', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'LIN', name: 'SG25', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'LIN', req: true },
+          { id: 'PIA', req: false, maxUse: Infinity },
+          { id: 'IMD', req: false, maxUse: Infinity },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          { id: 'QTY', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false, maxUse: Infinity },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'MOA', req: false, maxUse: Infinity },
+          { id: 'GIN', req: false, maxUse: Infinity },
+          { id: 'GIR', req: false, maxUse: Infinity },
+          { id: 'QVR', req: false },
+          { id: 'DOC', req: false, maxUse: Infinity },
+          { id: 'PAI', req: false },
+          { id: 'FTX', req: false, maxUse: Infinity },
+          {
+            id: 'PAT', name: 'SG26', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAT', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'PCD', req: false },
+              { id: 'MOA', req: false }
+            ]
+          },
+          {
+            id: 'PRI', name: 'SG28', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PRI', req: true },
+              { id: 'CUX', req: false },
+              { id: 'APR', req: false },
+              { id: 'RNG', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'RFF', name: 'SG29', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'PAC', name: 'SG30', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAC', req: true },
+              { id: 'MEA', req: false, maxUse: Infinity },
+              { id: 'QTY', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              {
+                id: 'PCI', name: 'SG32', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCI', req: true },
+                  { id: 'RFF', req: false },
+                  { id: 'DTM', req: false, maxUse: Infinity },
+                  { id: 'GIN', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'LOC', name: 'SG33', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'QTY', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG34', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'NAD', name: 'SG35', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'NAD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity },
+              {
+                id: 'RFF', name: 'SG36', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RFF', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'DOC', name: 'SG37', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'DOC', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'CTA', name: 'SG38', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'CTA', req: true },
+                  { id: 'COM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'ALC', name: 'SG39', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'ALC', req: true },
+              { id: 'ALI', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              {
+                id: 'QTY', name: 'SG40', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'QTY', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'PCD', name: 'SG41', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCD', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'MOA', name: 'SG42', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'MOA', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'RTE', name: 'SG43', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RTE', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'TAX', name: 'SG44', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'TAX', req: true },
+                  { id: 'MOA', req: false }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TDT', name: 'SG45', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TDT', req: true },
+              {
+                id: 'LOC', name: 'SG46', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'LOC', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TOD', name: 'SG47', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TOD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      { id: 'UNS', req: true },
+      { id: 'MOA', req: false, maxUse: Infinity },
+      { id: 'CNT', req: false, maxUse: Infinity },
+      {
+        id: 'ALC', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ALC', req: true },
+          { id: 'ALI', req: false },
+          { id: 'MOA', req: false, maxUse: Infinity }
+        ]
+      },
+      { id: 'UNT', req: true }
+    ]
+  },
+  // Purchase Order Response
+  ORDRSP: {
+    type: 'ORDRSP',
+    structure: [
+      { id: 'UNH', req: true },
+      { id: 'BGM', req: true },
+      { id: 'DTM', req: true, maxUse: Infinity },
+      { id: 'PAI', req: false },
+      { id: 'ALI', req: false, maxUse: Infinity },
+      { id: 'IMD', req: false, maxUse: Infinity },
+      { id: 'FTX', req: false, maxUse: Infinity },
+      {
+        id: 'RFF', name: 'SG1', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'RFF', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'NAD', name: 'SG3', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'NAD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          { id: 'FII', req: false, maxUse: Infinity },
+          {
+            id: 'RFF', name: 'SG4', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'DOC', name: 'SG5', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'DOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'CTA', name: 'SG6', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTA', req: true },
+              { id: 'COM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TAX', name: 'SG7', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TAX', req: true },
+          { id: 'MOA', req: false },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'CUX', name: 'SG8', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'CUX', req: true },
+          { id: 'PCD', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAT', name: 'SG9', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAT', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false },
+          { id: 'MOA', req: false }
+        ]
+      },
+      {
+        id: 'TDT', name: 'SG10', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TDT', req: true },
+          {
+            id: 'LOC', name: 'SG11', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TOD', name: 'SG12', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TOD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAC', name: 'SG13', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAC', req: true },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          {
+            id: 'PCI', name: 'SG14', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCI', req: true },
+              { id: 'RFF', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'GIN', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'ALC', name: 'SG19', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ALC', req: true },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          {
+            id: 'QTY', name: 'SG20', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'QTY', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'PCD', name: 'SG21', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCD', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'MOA', name: 'SG22', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'MOA', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'RTE', name: 'SG23', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RTE', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG24', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'LIN', name: 'SG26', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'LIN', req: true },
+          { id: 'PIA', req: false, maxUse: Infinity },
+          { id: 'IMD', req: false, maxUse: Infinity },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          { id: 'QTY', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false, maxUse: Infinity },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'MOA', req: false, maxUse: Infinity },
+          { id: 'GIN', req: false, maxUse: Infinity },
+          { id: 'QVR', req: false },
+          { id: 'FTX', req: false, maxUse: Infinity },
+          {
+            id: 'PAT', name: 'SG27', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAT', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'PCD', req: false },
+              { id: 'MOA', req: false }
+            ]
+          },
+          {
+            id: 'PRI', name: 'SG30', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PRI', req: true },
+              { id: 'CUX', req: false },
+              { id: 'APR', req: false },
+              { id: 'RNG', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'RFF', name: 'SG31', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'PAC', name: 'SG32', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAC', req: true },
+              { id: 'MEA', req: false, maxUse: Infinity },
+              { id: 'QTY', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              {
+                id: 'PCI', name: 'SG33', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCI', req: true },
+                  { id: 'RFF', req: false },
+                  { id: 'DTM', req: false, maxUse: Infinity },
+                  { id: 'GIN', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'LOC', name: 'SG34', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'QTY', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG35', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'NAD', name: 'SG36', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'NAD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity },
+              {
+                id: 'RFF', name: 'SG37', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RFF', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'CTA', name: 'SG39', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'CTA', req: true },
+                  { id: 'COM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'ALC', name: 'SG41', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'ALC', req: true },
+              { id: 'ALI', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              {
+                id: 'QTY', name: 'SG42', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'QTY', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'PCD', name: 'SG43', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCD', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'MOA', name: 'SG44', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'MOA', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'RTE', name: 'SG45', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RTE', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'TAX', name: 'SG46', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'TAX', req: true },
+                  { id: 'MOA', req: false }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TDT', name: 'SG47', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TDT', req: true },
+              {
+                id: 'LOC', name: 'SG48', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'LOC', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TOD', name: 'SG49', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TOD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      { id: 'UNS', req: true },
+      { id: 'MOA', req: false, maxUse: Infinity },
+      { id: 'CNT', req: false, maxUse: Infinity },
+      { id: 'UNT', req: true }
+    ]
+  },
+  // Invoice
+  INVOIC: {
+    type: 'INVOIC',
+    structure: [
+      { id: 'UNH', req: true },
+      { id: 'BGM', req: true },
+      { id: 'DTM', req: true, maxUse: Infinity },
+      { id: 'PAI', req: false },
+      { id: 'ALI', req: false, maxUse: Infinity },
+      { id: 'IMD', req: false },
+      { id: 'FTX', req: false, maxUse: Infinity },
+      { id: 'LOC', req: false, maxUse: Infinity },
+      {
+        id: 'RFF', name: 'SG1', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'RFF', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'GIR', req: false, maxUse: Infinity },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          { id: 'QTY', req: false, maxUse: Infinity },
+          { id: 'FTX', req: false, maxUse: Infinity },
+          { id: 'MOA', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'NAD', name: 'SG2', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'NAD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          { id: 'FII', req: false, maxUse: Infinity },
+          {
+            id: 'RFF', name: 'SG3', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'DOC', name: 'SG4', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'DOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'CTA', name: 'SG5', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTA', req: true },
+              { id: 'COM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TAX', name: 'SG6', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TAX', req: true },
+          { id: 'MOA', req: false },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'CUX', name: 'SG7', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'CUX', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAT', name: 'SG8', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAT', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false },
+          { id: 'MOA', req: false },
+          { id: 'PAI', req: false },
+          { id: 'FII', req: false }
+        ]
+      },
+      {
+        id: 'TDT', name: 'SG9', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TDT', req: true },
+          {
+            id: 'LOC', name: 'SG10', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'RFF', name: 'SG11', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TOD', name: 'SG12', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TOD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'PAC', name: 'SG13', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'PAC', req: true },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          {
+            id: 'PCI', name: 'SG14', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCI', req: true },
+              { id: 'RFF', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'GIN', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'ALC', name: 'SG15', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ALC', req: true },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          {
+            id: 'RFF', name: 'SG16', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          {
+            id: 'QTY', name: 'SG17', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'QTY', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'PCD', name: 'SG18', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PCD', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'MOA', name: 'SG19', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'MOA', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'RTE', name: 'SG20', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RTE', req: true },
+              { id: 'RNG', req: false }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG21', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'RCS', name: 'SG22', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'RCS', req: true },
+          { id: 'RFF', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'FTX', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'AJT', name: 'SG23', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'AJT', req: true },
+          { id: 'FTX', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'INP', name: 'SG24', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'INP', req: true },
+          { id: 'FTX', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'LIN', name: 'SG25', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'LIN', req: true },
+          { id: 'PIA', req: false, maxUse: Infinity },
+          { id: 'IMD', req: false, maxUse: Infinity },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          { id: 'QTY', req: false, maxUse: Infinity },
+          { id: 'PCD', req: false },
+          { id: 'ALI', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: Infinity },
+          { id: 'GIN', req: false, maxUse: Infinity },
+          { id: 'GIR', req: false, maxUse: Infinity },
+          { id: 'QVR', req: false },
+          { id: 'EQD', req: false },
+          { id: 'FTX', req: false, maxUse: Infinity },
+          {
+            id: 'MOA', name: 'SG26', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'MOA', req: true },
+              { id: 'CUX', req: false }
+            ]
+          },
+          {
+            id: 'PAT', name: 'SG27', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAT', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'PCD', req: false },
+              { id: 'MOA', req: false }
+            ]
+          },
+          {
+            id: 'PRI', name: 'SG28', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PRI', req: true },
+              { id: 'CUX', req: false },
+              { id: 'APR', req: false },
+              { id: 'RNG', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'RFF', name: 'SG29', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'PAC', name: 'SG30', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAC', req: true },
+              { id: 'MEA', req: false, maxUse: Infinity },
+              {
+                id: 'PCI', name: 'SG31', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCI', req: true },
+                  { id: 'RFF', req: false },
+                  { id: 'DTM', req: false, maxUse: Infinity },
+                  { id: 'GIN', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'LOC', name: 'SG32', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'QTY', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'TAX', name: 'SG33', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TAX', req: true },
+              { id: 'MOA', req: false },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'NAD', name: 'SG34', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'NAD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity },
+              {
+                id: 'RFF', name: 'SG35', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RFF', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'DOC', name: 'SG36', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'DOC', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'CTA', name: 'SG37', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'CTA', req: true },
+                  { id: 'COM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'ALC', name: 'SG38', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'ALC', req: true },
+              { id: 'ALI', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              {
+                id: 'QTY', name: 'SG39', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'QTY', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'PCD', name: 'SG40', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCD', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'MOA', name: 'SG41', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'MOA', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'RTE', name: 'SG42', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RTE', req: true },
+                  { id: 'RNG', req: false }
+                ]
+              },
+              {
+                id: 'TAX', name: 'SG43', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'TAX', req: true },
+                  { id: 'MOA', req: false }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TDT', name: 'SG44', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TDT', req: true },
+              {
+                id: 'LOC', name: 'SG45', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'LOC', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'TOD', name: 'SG46', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'TOD', req: true },
+              { id: 'LOC', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      { id: 'UNS', req: true },
+      { id: 'CNT', req: false, maxUse: Infinity },
+      {
+        id: 'MOA', name: 'SG48', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'MOA', req: true },
+          {
+            id: 'RFF', name: 'SG49', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TAX', name: 'SG50', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TAX', req: true },
+          { id: 'MOA', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'ALC', name: 'SG51', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ALC', req: true },
+          { id: 'ALI', req: false },
+          { id: 'MOA', req: false, maxUse: Infinity }
+        ]
+      },
+      { id: 'UNT', req: true }
+    ]
+  },
+  // Despatch Advice
+  DESADV: {
+    type: 'DESADV',
+    structure: [
+      { id: 'UNH', req: true },
+      { id: 'BGM', req: true },
+      { id: 'DTM', req: false, maxUse: Infinity },
+      { id: 'ALI', req: false, maxUse: Infinity },
+      { id: 'MEA', req: false, maxUse: Infinity },
+      { id: 'MOA', req: false, maxUse: Infinity },
+      {
+        id: 'RFF', name: 'SG1', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'RFF', req: true },
+          { id: 'DTM', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'NAD', name: 'SG2', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'NAD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          {
+            id: 'RFF', name: 'SG3', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RFF', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          {
+            id: 'CTA', name: 'SG4', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTA', req: true },
+              { id: 'COM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'TOD', name: 'SG5', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TOD', req: true },
+          { id: 'LOC', req: false, maxUse: Infinity },
+          { id: 'FTX', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'TDT', name: 'SG6', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'TDT', req: true },
+          { id: 'PCD', req: false },
+          {
+            id: 'LOC', name: 'SG7', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LOC', req: true },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'EQD', name: 'SG8', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'EQD', req: true },
+          { id: 'MEA', req: false, maxUse: Infinity },
+          { id: 'SEL', req: false, maxUse: Infinity },
+          { id: 'EQA', req: false, maxUse: Infinity },
+          { id: 'HAN', req: false, maxUse: Infinity }
+        ]
+      },
+      {
+        id: 'CPS', name: 'SG10', req: true, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'CPS', req: true },
+          { id: 'FTX', req: false, maxUse: Infinity },
+          {
+            id: 'PAC', name: 'SG11', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'PAC', req: true },
+              { id: 'MEA', req: false, maxUse: Infinity },
+              { id: 'QTY', req: false, maxUse: Infinity },
+              {
+                id: 'HAN', name: 'SG12', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'HAN', req: true },
+                  { id: 'FTX', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'PCI', name: 'SG13', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCI', req: true },
+                  { id: 'RFF', req: false },
+                  { id: 'DTM', req: false, maxUse: Infinity },
+                  { id: 'GIN', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'LIN', name: 'SG15', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'LIN', req: true },
+              { id: 'PIA', req: false, maxUse: Infinity },
+              { id: 'IMD', req: false, maxUse: Infinity },
+              { id: 'MEA', req: false, maxUse: Infinity },
+              { id: 'QTY', req: false, maxUse: Infinity },
+              { id: 'ALI', req: false, maxUse: Infinity },
+              { id: 'GIN', req: false, maxUse: Infinity },
+              { id: 'GIR', req: false, maxUse: Infinity },
+              { id: 'DLM', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'FTX', req: false, maxUse: Infinity },
+              { id: 'MOA', req: false, maxUse: Infinity },
+              {
+                id: 'RFF', name: 'SG16', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'RFF', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'LOC', name: 'SG18', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'LOC', req: true },
+                  { id: 'NAD', req: false },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              {
+                id: 'PCI', name: 'SG20', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'PCI', req: true },
+                  { id: 'DTM', req: false, maxUse: Infinity },
+                  { id: 'MEA', req: false, maxUse: Infinity },
+                  { id: 'QTY', req: false, maxUse: Infinity },
+                  { id: 'GIN', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { id: 'CNT', req: false, maxUse: Infinity },
+      { id: 'UNT', req: true }
+    ]
+  },
+  // Syntax and Service Report (ISO 9735 service message, version D:3). Messages in UNG groups
+  // are reported under UCF (SG3/SG4); the directory's max counts (999999 / 999 / 99) are not enforced.
+  CONTRL: {
+    type: 'CONTRL',
+    structure: [
+      { id: 'UNH', req: true },
+      { id: 'UCI', req: true },
+      {
+        id: 'UCM', name: 'SG1', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'UCM', req: true },
+          {
+            id: 'UCS', name: 'SG2', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'UCS', req: true },
+              { id: 'UCD', req: false, maxUse: 99 }
+            ]
+          }
+        ]
+      },
+      {
+        id: 'UCF', name: 'SG3', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'UCF', req: true },
+          {
+            id: 'UCM', name: 'SG4', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'UCM', req: true },
+              {
+                id: 'UCS', name: 'SG5', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'UCS', req: true },
+                  { id: 'UCD', req: false, maxUse: 99 }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { id: 'UNT', req: true }
+    ]
+  }
+};
@@ -0,0 +1,34 @@
+import { HlGrammar } from '../types';
+
+/**
+ * HL Level Grammars
+ * Which HL03 levels may follow which in hierarchical transaction sets. A transaction definition
+ * can carry its own grammar (TransactionDef.hierarchy), e.g. for a partner that only accepts
+ * Shipment-Order-Pack-Item; these are the defaults per transaction type.
+ */
+export const HL_GRAMMARS: Record<string, HlGrammar> = {
+  // 856 Ship Notice: standard pack (S-O-P-I), pick and pack (S-O-T-P-I) and shipment-level items
+  '856': {
+    name: '856 Ship Notice (S-O-T-P-I)',
+    levels: { S: 'Shipment', O: 'Order', T: 'Shipping Tare', P: 'Pack', I: 'Item' },
+    roots: ['S'],
+    children: {
+      S: ['O', 'T', 'P', 'I'],
+      O: ['T', 'P', 'I'],
+      T: ['P', 'I'],
+      P: ['I'],
+      I: []
+    }
+  },
+  // 837 Health Care Claim: billing provider -> subscriber -> patient
+  '837': {
+    name: '837 Health Care Claim',
+    levels: { '20': 'Information Source (Billing Provider)', '22': 'Subscriber', '23': 'Dependent (Patient)' },
+    roots: ['20'],
+    children: {
+      '20': ['22'],
+      '22': ['23'],
+      '23': []
+    }
+  }
+};
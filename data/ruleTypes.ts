@@ -0,0 +1,30 @@
+import { RuleParamsMap, RuleType } from '../types';
+
+/**
+ * Trading Partner Rule Types
+ * Labels for the rule editor, whether a rule targets an element as well as a segment, and the
+ * params a new rule of each type starts with.
+ */
+
+export interface RuleTypeInfo<T extends RuleType = RuleType> {
+  label: string;
+  description: string;
+  needsElement: boolean;
+  defaultParams: RuleParamsMap[T];
+}
+
+export const RULE_TYPES: { [T in RuleType]: RuleTypeInfo<T> } = {
+  REQUIRED_SEGMENT: { label: 'Required segment', description: 'The segment must be present', needsElement: false, defaultParams: {} },
+  PROHIBITED_SEGMENT: { label: 'Prohibited segment', description: 'The segment must not be sent', needsElement: false, defaultParams: {} },
+  ELEMENT_REQUIRED: { label: 'Required element', description: 'The element must have a value wherever the segment occurs', needsElement: true, defaultParams: {} },
+  MAX_LENGTH: { label: 'Max length', description: 'The value must not be longer than this', needsElement: true, defaultParams: { length: 10 } },
+  MIN_LENGTH: { label: 'Min length', description: 'The value must not be shorter than this', needsElement: true, defaultParams: { length: 1 } },
+  ALLOWED_CODES: { label: 'Allowed codes', description: 'The value must be one of these codes', needsElement: true, defaultParams: { codes: [] } },
+  REGEX: { label: 'Pattern', description: 'The whole value must match the regular expression', needsElement: true, defaultParams: { pattern: '' } },
+  VALUE_RANGE: { label: 'Value range', description: 'The value must be a number within the range', needsElement: true, defaultParams: { min: 0 } },
+  SEGMENT_COUNT: { label: 'Segment count', description: 'How often the segment may occur', needsElement: false, defaultParams: { min: 1, scope: 'TRANSACTION' } },
+  UNIQUE_VALUES: { label: 'Unique values', description: 'The value must not repeat, e.g. PO101 line numbers', needsElement: true, defaultParams: { scope: 'TRANSACTION' } },
+  DATE_WINDOW: { label: 'Date window', description: 'The date must be within days of today, or not before another date', needsElement: true, defaultParams: { maxPastDays: 30 } },
+  CONDITIONAL_EXISTS: { label: 'Conditional segment', description: 'If the segment is present, another one must be too', needsElement: false, defaultParams: { dependentSegment: '' } },
+  CUSTOM_BUSINESS_LOGIC: { label: 'Custom logic', description: 'A business rule expression', needsElement: false, defaultParams: { expression: '' } }
+};
@@ -0,0 +1,290 @@
+import { SegmentSchema, ElementSchema, DictionaryPack, DictionaryElement, SchemaBundle, TransactionDef } from '../types';
+import { STANDARD_SEGMENTS, COMPOSITE_ELEMENTS } from './ediSchema';
+import { EDIFACT_SEGMENTS, EDIFACT_COMPOSITES } from './edifactSchema';
+
+/**
+ * Schema Registry
+ * Resolves segment and element definitions for a specific standard and version.
+ * Dictionaries are layered: exact version (005010X222A1) -> release (005010) -> packs it extends
+ * (D01B -> D96A) -> base definitions for the standard, so an unknown or not-yet-loaded version
+ * still gets the version-less definitions.
+ *
+ * Packs are fetched lazily from /dictionaries/ (listed in /dictionaries/index.json) or registered at runtime.
+ * Imported spec bundles are kept as overlays on top of each layer, so importing e.g. an 855 spec for
+ * 004010 doesn't stop the shipped 004010 pack from loading, and also provide transaction structures.
+ */
+
+const PACK_BASE_URL = '/dictionaries/';
+
+// Version-less definitions per standard. Keys without a version (e.g. "EDIFACT") resolve here directly.
+const BASE_DICTIONARIES: Record<string, Record<string, SegmentSchema>> = {
+  X12: STANDARD_SEGMENTS,
+  EDIFACT: EDIFACT_SEGMENTS
+};
+
+const BASE_COMPOSITES: Record<string, Record<string, ElementSchema[]>> = {
+  X12: COMPOSITE_ELEMENTS,
+  EDIFACT: EDIFACT_COMPOSITES
+};
+
+interface PackManifestEntry {
+  standard: 'X12' | 'EDIFACT';
+  version: string;
+  file: string;
+}
+
+/**
+ * Registry key for a standard + version, e.g. "X12/004010" or "EDIFACT/D96A".
+ */
+export const dictionaryKey = (standard: string, version?: string): string | undefined => {
+  const v = version?.trim().toUpperCase();
+  return v ? `${standard}/${v}` : undefined;
+};
+
+/**
+ * X12 ISA12 carries the interchange control version ("00401"); GS08 carries the full version ("004010").
+ */
+export const x12InterchangeVersion = (isa12?: string): string | undefined => {
+  const v = isa12?.trim();
+  return v && /^\d{5}$/.test(v) ? `${v}0` : undefined;
+};
+
+/**
+ * EDIFACT UNH S009 "ORDERS:D:96A:UN" -> "D96A"; UNG S008 "D:96A" -> "D96A".
+ */
+export const edifactDirectory = (version?: string, release?: string): string | undefined => {
+  const v = version?.trim();
+  const r = release?.trim();
+  return v && r ? `${v}${r}` : undefined;
+};
+
+const standardOf = (key: string): string => key.split('/')[0];
+
+// "X12/005010X222A1" -> ["X12/005010X222A1", "X12/005010"]
+const versionKeys = (key: string): string[] => {
+  const [standard, version] = key.split('/');
+  if (!version) return [];
+  const keys = [key];
+  if (standard === 'X12' && version.length > 6) keys.push(`${standard}/${version.substring(0, 6)}`);
+  return keys;
+};
+
+const mergeElements = (
+  base: ElementSchema[],
+  overrides: DictionaryElement[],
+  composites: Record<string, ElementSchema[]>,
+  baseComposites: Record<string, ElementSchema[]>
+): ElementSchema[] => {
+  const merged = new Map<number, ElementSchema>();
+  base.forEach(e => merged.set(e.index, e));
+
+  overrides.forEach(o => {
+    const existing = merged.get(o.index);
+    const element = { ...existing, ...o } as ElementSchema;
+    // Composite references are resolved against the pack first, then the standard's shared composites.
+    // An override without a compositeId turns a base composite back into a simple element.
+    if (o.compositeId && !o.components) {
+      element.components = composites[o.compositeId] || baseComposites[o.compositeId];
+    } else if (!o.compositeId && existing?.compositeId && 'type' in o) {
+      delete element.compositeId;
+      delete element.components;
+    }
+    merged.set(o.index, element);
+  });
+
+  return Array.from(merged.values()).sort((a, b) => a.index - b.index);
+};
+
+class SchemaRegistry {
+  private packs = new Map<string, DictionaryPack>();
+  private loading = new Map<string, Promise<boolean>>();
+  private resolved = new Map<string, SegmentSchema | null>();
+  private manifest: Promise<PackManifestEntry[]> | null = null;
+  private overlays = new Map<string, DictionaryPack>();
+  private transactions = new Map<string, TransactionDef>();
+  private bundles: SchemaBundle[] = [];
+  private listeners = new Set<() => void>();
+
+  /** Bumped whenever a pack is added, so caches keyed on parsed output can be invalidated */
+  revision = 0;
+
+  /**
+   * Adds (or replaces) a dictionary pack. Used by the lazy loader and by runtime importers.
+   */
+  register(pack: DictionaryPack) {
+    const key = dictionaryKey(pack.standard, pack.version);
+    if (!key) return;
+    this.packs.set(key, pack);
+    this.changed();
+  }
+
+  /**
+   * Registers an imported spec bundle. Segments and composites are merged into the overlay for
+   * their version; transaction structures replace the built-in ones for the same standard and type.
+   * Re-importing a bundle from the same source replaces its listing.
+   */
+  registerBundle(bundle: SchemaBundle) {
+    bundle.packs.forEach(pack => {
+      const key = dictionaryKey(pack.standard, pack.version);
+      if (!key) return;
+      const existing = this.overlays.get(key);
+      this.overlays.set(key, existing ? {
+        ...existing,
+        composites: { ...existing.composites, ...pack.composites },
+        segments: { ...existing.segments, ...pack.segments }
+      } : pack);
+    });
+    bundle.transactions.forEach(t => this.transactions.set(`${t.standard}|${t.definition.type}`, t.definition));
+    this.bundles = [...this.bundles.filter(b => b.source !== bundle.source), bundle];
+    this.changed();
+  }
+
+  listBundles(): SchemaBundle[] {
+    return this.bundles;
+  }
+
+  /**
+   * Structure imported for a transaction type, if any. Built-in structures are looked up by the caller.
+   */
+  resolveTransaction(standard: string, type: string): TransactionDef | undefined {
+    return this.transactions.get(`${standard}|${type}`);
+  }
+
+  /**
+   * Notifies on every revision change. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private changed() {
+    this.resolved.clear();
+    this.revision++;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Pack keys that apply to a dictionary key, most specific first: exact version,
+   * X12 release, then whatever those packs extend.
+   */
+  private layerKeys(key: string): string[] {
+    const layers: string[] = [];
+    const queue = versionKeys(key);
+    while (queue.length > 0) {
+      const k = queue.shift()!;
+      if (layers.includes(k)) continue;
+      layers.push(k);
+      const parent = this.packs.get(k)?.extends;
+      if (parent) queue.push(dictionaryKey(standardOf(k), parent)!);
+    }
+    return layers;
+  }
+
+  /**
+   * True if a pack for the key (or its release) is loaded, i.e. resolution is not just the base dictionary.
+   */
+  has(key: string): boolean {
+    return this.layerKeys(key).some(k => this.packs.has(k));
+  }
+
+  listVersions(): string[] {
+    return Array.from(this.packs.keys());
+  }
+
+  /**
+   * Segment definition for the given dictionary key ("X12/004010", "EDIFACT/D96A", or just a standard).
+   * Falls back to the base definition when no loaded pack covers the segment.
+   */
+  resolveSegment(key: string | undefined, segmentId: string): SegmentSchema | undefined {
+    const standard = key ? standardOf(key) : 'X12';
+    const baseSegments = BASE_DICTIONARIES[standard] || {};
+    if (!key) return baseSegments[segmentId];
+
+    const cacheKey = `${key}|${segmentId}`;
+    const cached = this.resolved.get(cacheKey);
+    if (cached !== undefined) return cached || undefined;
+
+    // Apply the most general layer first so the exact version wins
+    let segment: SegmentSchema | undefined = baseSegments[segmentId];
+    this.layerKeys(key).reverse().forEach(k => {
+      [this.packs.get(k), this.overlays.get(k)].forEach(pack => {
+        const override = pack?.segments[segmentId];
+        if (!override) return;
+        segment = {
+          id: segmentId,
+          name: override.name || segment?.name || segmentId,
+          purpose: override.purpose || segment?.purpose || '',
+          elements: mergeElements(segment?.elements || [], override.elements || [], this.packComposites(k), BASE_COMPOSITES[standard] || {}),
+          syntax: override.syntax || segment?.syntax
+        };
+      });
+    });
+
+    this.resolved.set(cacheKey, segment || null);
+    return segment;
+  }
+
+  // Composites visible to a pack: its own (imported ones first), then those of the packs it extends
+  private packComposites(key: string): Record<string, ElementSchema[]> {
+    const composites: Record<string, ElementSchema[]> = {};
+    this.layerKeys(key).reverse().forEach(k => Object.assign(composites, this.packs.get(k)?.composites, this.overlays.get(k)?.composites));
+    return composites;
+  }
+
+  resolveElement(key: string | undefined, segmentId: string, index: number): ElementSchema | undefined {
+    return this.resolveSegment(key, segmentId)?.elements.find(e => e.index === index);
+  }
+
+  private loadManifest(): Promise<PackManifestEntry[]> {
+    if (!this.manifest) {
+      this.manifest = fetch(`${PACK_BASE_URL}index.json`)
+        .then(res => res.ok ? res.json() : [])
+        .then(data => Array.isArray(data) ? data : [])
+        .catch(() => []);
+    }
+    return this.manifest;
+  }
+
+  private load(key: string): Promise<boolean> {
+    const existing = this.loading.get(key);
+    if (existing) return existing;
+
+    const promise = this.loadManifest().then(async entries => {
+      const entry = entries.find(e => dictionaryKey(e.standard, e.version) === key);
+      if (!entry) return false;
+      try {
+        const res = await fetch(`${PACK_BASE_URL}${entry.file}`);
+        if (!res.ok) return false;
+        this.register(await res.json() as DictionaryPack);
+        return true;
+      } catch (e) {
+        console.warn(`Dictionary pack ${key} could not be loaded, using base definitions`, e);
+        return false;
+      }
+    });
+
+    this.loading.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Loads every pack needed for the given keys (including release-level fallbacks and the
+   * packs they extend). Resolves to true if anything new was registered, meaning content should be re-parsed.
+   */
+  async ensureLoaded(keys: (string | undefined)[]): Promise<boolean> {
+    const needed = new Set<string>();
+    keys.forEach(key => {
+      if (key) this.layerKeys(key).forEach(k => { if (!this.packs.has(k)) needed.add(k); });
+    });
+    if (needed.size === 0) return false;
+
+    const results = await Promise.all(Array.from(needed).map(k => this.load(k)));
+    const loaded = results.some(Boolean);
+    // A freshly loaded pack may extend one that isn't loaded yet
+    if (loaded) await this.ensureLoaded(Array.from(needed));
+    return loaded;
+  }
+}
+
+export const schemaRegistry = new SchemaRegistry();
@@ -1,177 +1,1676 @@
-
 import { TransactionDef } from '../types';
 
+/**
+ * X12 Transaction Set Structures
+ * Segment order, mandatory flags, max use and loop repeat per the 004010 tables (999, 835 and 837
+ * follow the 005010 standard; their implementation guides only narrow it). Infinity stands for ">1".
+ * Loops are keyed by their starter segment; levels of HL-structured sets share one loop definition.
+ */
 export const X12_STRUCTURES: Record<string, TransactionDef> = {
+  // 850 Purchase Order
   '850': {
     type: '850',
     structure: [
       { id: 'ST', req: true },
       { id: 'BEG', req: true },
       { id: 'CUR', req: false },
-      { id: 'REF', req: false, repeat: true },
-      { id: 'PER', req: false, repeat: true },
-      { id: 'TAX', req: false, repeat: true },
-      { id: 'FOB', req: false },
-      { id: 'CTP', req: false, repeat: true },
-      { id: 'PAM', req: false, repeat: true },
-      { id: 'CSH', req: false },
-      { id: 'SAC', req: false, repeat: true },
-      { id: 'ITD', req: false, repeat: true },
-      { id: 'DTM', req: false, repeat: true },
-      { id: 'TD5', req: false, repeat: true },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'PER', req: false, maxUse: 3 },
+      { id: 'TAX', req: false, maxUse: Infinity },
+      { id: 'FOB', req: false, maxUse: Infinity },
+      { id: 'CTP', req: false, maxUse: Infinity },
+      { id: 'PAM', req: false, maxUse: 10 },
+      { id: 'CSH', req: false, maxUse: 5 },
+      { id: 'TC2', req: false, maxUse: Infinity },
+      // SAC Loop
+      {
+        id: 'SAC', req: false, loop: true, loopRepeat: 25,
+        children: [
+          { id: 'SAC', req: true },
+          { id: 'CUR', req: false }
+        ]
+      },
+      { id: 'ITD', req: false, maxUse: Infinity },
+      { id: 'DIS', req: false, maxUse: 20 },
+      { id: 'INC', req: false },
+      { id: 'DTM', req: false, maxUse: 10 },
+      { id: 'LDT', req: false, maxUse: 12 },
+      { id: 'SI', req: false, maxUse: Infinity },
+      { id: 'PID', req: false, maxUse: 200 },
+      { id: 'MEA', req: false, maxUse: 40 },
+      { id: 'PWK', req: false, maxUse: 25 },
+      { id: 'PKG', req: false, maxUse: 200 },
+      { id: 'TD1', req: false, maxUse: 2 },
+      { id: 'TD5', req: false, maxUse: 12 },
+      { id: 'TD3', req: false, maxUse: 12 },
+      { id: 'TD4', req: false, maxUse: 5 },
+      { id: 'MAN', req: false, maxUse: 10 },
+      { id: 'PCT', req: false, maxUse: Infinity },
+      { id: 'CTB', req: false, maxUse: 5 },
+      { id: 'TXI', req: false, maxUse: Infinity },
       // N9 Loop
-      { 
-        id: 'N9', req: false, repeat: true, loop: true,
+      {
+        id: 'N9', req: false, loop: true, loopRepeat: 1000,
         children: [
-           { id: 'N9', req: true },
-           { id: 'DTM', req: false, repeat: true },
-           { id: 'MSG', req: false, repeat: true }
+          { id: 'N9', req: true },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'MSG', req: false, maxUse: 1000 }
         ]
       },
       // N1 Loop (Header)
-      { 
-        id: 'N1', req: false, repeat: true, loop: true, 
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
         children: [
           { id: 'N1', req: true },
-          { id: 'N2', req: false, repeat: true },
-          { id: 'N3', req: false, repeat: true },
-          { id: 'N4', req: false },
-          { id: 'REF', req: false, repeat: true },
-          { id: 'PER', req: false, repeat: true }
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false, maxUse: Infinity },
+          { id: 'NX2', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: 12 },
+          { id: 'PER', req: false, maxUse: Infinity },
+          { id: 'SI', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false },
+          { id: 'TD1', req: false, maxUse: 2 },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'PKG', req: false, maxUse: 200 }
         ]
       },
       // PO1 Loop (Details)
       {
-        id: 'PO1', req: true, repeat: true, loop: true,
+        id: 'PO1', req: true, loop: true, loopRepeat: 100000,
         children: [
           { id: 'PO1', req: true },
-          { id: 'LIN', req: false, repeat: true },
-          { id: 'SI', req: false, repeat: true },
+          { id: 'LIN', req: false, maxUse: Infinity },
+          { id: 'SI', req: false, maxUse: Infinity },
           { id: 'CUR', req: false },
-          { id: 'PID', req: false, repeat: true },
-          { id: 'MEA', req: false, repeat: true },
-          { id: 'PWK', req: false, repeat: true },
-          { id: 'PKG', req: false, repeat: true },
-          { id: 'PO4', req: false },
-          { id: 'REF', req: false, repeat: true },
-          { id: 'PER', req: false, repeat: true },
-          { id: 'SAC', req: false, repeat: true },
+          { id: 'CN1', req: false },
+          { id: 'PO3', req: false, maxUse: 25 },
+          // CTP Loop
+          {
+            id: 'CTP', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTP', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
+          { id: 'PAM', req: false, maxUse: 10 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          // PID Loop
+          {
+            id: 'PID', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'PID', req: true },
+              { id: 'MEA', req: false, maxUse: 10 }
+            ]
+          },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PO4', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: 3 },
+          // SAC Loop
+          {
+            id: 'SAC', req: false, loop: true, loopRepeat: 25,
+            children: [
+              { id: 'SAC', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
           { id: 'IT8', req: false },
-          { id: 'ITD', req: false, repeat: true },
-          { id: 'DIS', req: false, repeat: true },
-          { id: 'INC', req: false, repeat: true },
-          { id: 'TAX', req: false, repeat: true },
-          { id: 'FOB', req: false, repeat: true },
-          { id: 'SDQ', req: false, repeat: true },
-          { id: 'DTM', req: false, repeat: true },
-          { id: 'TD5', req: false, repeat: true },
-          // PID Loop inside PO1? Simplified for now
-          // SLN Loop inside PO1
-          { 
-             id: 'SLN', req: false, repeat: true, loop: true,
-             children: [
-                { id: 'SLN', req: true },
-                { id: 'DTM', req: false },
-                { id: 'REF', req: false, repeat: true },
-                { id: 'PID', req: false, repeat: true }
-             ]
+          { id: 'CSH', req: false, maxUse: Infinity },
+          { id: 'ITD', req: false, maxUse: 2 },
+          { id: 'DIS', req: false, maxUse: 20 },
+          { id: 'INC', req: false },
+          { id: 'TAX', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false, maxUse: Infinity },
+          { id: 'SDQ', req: false, maxUse: 500 },
+          { id: 'IT3', req: false, maxUse: 5 },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'TC2', req: false, maxUse: Infinity },
+          { id: 'TD1', req: false },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'PCT', req: false, maxUse: Infinity },
+          { id: 'MAN', req: false, maxUse: 10 },
+          { id: 'MSG', req: false, maxUse: Infinity },
+          { id: 'SPI', req: false, maxUse: Infinity },
+          { id: 'TXI', req: false, maxUse: Infinity },
+          { id: 'CTB', req: false, maxUse: Infinity },
+          // QTY Loop
+          {
+            id: 'QTY', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'QTY', req: true },
+              { id: 'SI', req: false, maxUse: Infinity }
+            ]
+          },
+          // SCH Loop
+          {
+            id: 'SCH', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'SCH', req: true },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'REF', req: false, maxUse: Infinity }
+            ]
+          },
+          // N9 Loop
+          {
+            id: 'N9', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'N9', req: true },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'MEA', req: false, maxUse: 40 },
+              { id: 'MSG', req: false, maxUse: 1000 }
+            ]
+          },
+          // N1 Loop (Item)
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'QTY', req: false, maxUse: Infinity },
+              { id: 'NX2', req: false, maxUse: Infinity },
+              { id: 'REF', req: false, maxUse: 12 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'SI', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false },
+              { id: 'FOB', req: false },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'PKG', req: false, maxUse: 200 }
+            ]
+          },
+          // SLN Loop
+          {
+            id: 'SLN', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'SLN', req: true },
+              { id: 'MSG', req: false, maxUse: Infinity },
+              { id: 'SI', req: false, maxUse: Infinity },
+              { id: 'PID', req: false, maxUse: 1000 },
+              { id: 'PO3', req: false, maxUse: 104 },
+              { id: 'TC2', req: false, maxUse: Infinity },
+              { id: 'ADV', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'CTP', req: false, maxUse: 25 },
+              { id: 'PAM', req: false, maxUse: 10 },
+              { id: 'PO4', req: false },
+              { id: 'TAX', req: false, maxUse: 3 },
+              // N9 Loop
+              {
+                id: 'N9', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'N9', req: true },
+                  { id: 'DTM', req: false, maxUse: 10 },
+                  { id: 'MSG', req: false, maxUse: 10 }
+                ]
+              },
+              // SAC Loop
+              {
+                id: 'SAC', req: false, loop: true, loopRepeat: 25,
+                children: [
+                  { id: 'SAC', req: true },
+                  { id: 'CUR', req: false }
+                ]
+              },
+              // N1 Loop
+              {
+                id: 'N1', req: false, loop: true, loopRepeat: 10,
+                children: [
+                  { id: 'N1', req: true },
+                  { id: 'N2', req: false, maxUse: 2 },
+                  { id: 'N3', req: false, maxUse: 2 },
+                  { id: 'N4', req: false },
+                  { id: 'NX2', req: false, maxUse: Infinity },
+                  { id: 'REF', req: false, maxUse: 12 },
+                  { id: 'PER', req: false, maxUse: 3 },
+                  { id: 'SI', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          },
+          // AMT Loop
+          {
+            id: 'AMT', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'AMT', req: true },
+              { id: 'REF', req: false },
+              { id: 'PCT', req: false, maxUse: Infinity }
+            ]
           }
         ]
       },
-      { id: 'CTT', req: false },
-      { id: 'AMT', req: false },
+      // CTT Loop (Summary)
+      {
+        id: 'CTT', req: false, loop: true,
+        children: [
+          { id: 'CTT', req: true },
+          { id: 'AMT', req: false }
+        ]
+      },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 855 Purchase Order Acknowledgment
+  '855': {
+    type: '855',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BAK', req: true },
+      { id: 'CUR', req: false },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'PER', req: false, maxUse: 3 },
+      { id: 'TAX', req: false, maxUse: Infinity },
+      { id: 'FOB', req: false, maxUse: Infinity },
+      { id: 'CTP', req: false, maxUse: Infinity },
+      { id: 'PAM', req: false, maxUse: 10 },
+      { id: 'CSH', req: false, maxUse: 5 },
+      // SAC Loop
+      {
+        id: 'SAC', req: false, loop: true, loopRepeat: 25,
+        children: [
+          { id: 'SAC', req: true },
+          { id: 'CUR', req: false }
+        ]
+      },
+      { id: 'ITD', req: false, maxUse: Infinity },
+      { id: 'DIS', req: false, maxUse: 20 },
+      { id: 'INC', req: false },
+      { id: 'DTM', req: false, maxUse: 10 },
+      { id: 'LDT', req: false, maxUse: 12 },
+      { id: 'SI', req: false, maxUse: Infinity },
+      { id: 'PID', req: false, maxUse: 200 },
+      { id: 'MEA', req: false, maxUse: 40 },
+      { id: 'PWK', req: false, maxUse: 25 },
+      { id: 'PKG', req: false, maxUse: 200 },
+      { id: 'TD1', req: false, maxUse: 2 },
+      { id: 'TD5', req: false, maxUse: 12 },
+      { id: 'TD3', req: false, maxUse: 12 },
+      { id: 'TD4', req: false, maxUse: 5 },
+      { id: 'MAN', req: false, maxUse: 10 },
+      { id: 'TXI', req: false, maxUse: Infinity },
+      { id: 'CTB', req: false, maxUse: Infinity },
+      // N9 Loop
+      {
+        id: 'N9', req: false, loop: true, loopRepeat: 1000,
+        children: [
+          { id: 'N9', req: true },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'MSG', req: false, maxUse: 1000 }
+        ]
+      },
+      // N1 Loop (Header)
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false, maxUse: Infinity },
+          { id: 'NX2', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: 12 },
+          { id: 'PER', req: false, maxUse: Infinity },
+          { id: 'SI', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false },
+          { id: 'TD1', req: false, maxUse: 2 },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'PKG', req: false, maxUse: 200 }
+        ]
+      },
+      // PO1 Loop (Details)
+      {
+        id: 'PO1', req: false, loop: true, loopRepeat: 100000,
+        children: [
+          { id: 'PO1', req: true },
+          { id: 'LIN', req: false, maxUse: Infinity },
+          { id: 'SI', req: false, maxUse: Infinity },
+          { id: 'CUR', req: false },
+          { id: 'PO3', req: false, maxUse: 25 },
+          // CTP Loop
+          {
+            id: 'CTP', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CTP', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
+          { id: 'PAM', req: false, maxUse: 10 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          // PID Loop
+          {
+            id: 'PID', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'PID', req: true },
+              { id: 'MEA', req: false, maxUse: 10 }
+            ]
+          },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PO4', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: 3 },
+          // SAC Loop
+          {
+            id: 'SAC', req: false, loop: true, loopRepeat: 25,
+            children: [
+              { id: 'SAC', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
+          { id: 'IT8', req: false },
+          { id: 'ITD', req: false, maxUse: 2 },
+          { id: 'DIS', req: false, maxUse: 20 },
+          { id: 'INC', req: false },
+          { id: 'TAX', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false, maxUse: Infinity },
+          { id: 'SDQ', req: false, maxUse: 500 },
+          { id: 'IT3', req: false, maxUse: 5 },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'TD1', req: false },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'MAN', req: false, maxUse: 10 },
+          { id: 'MSG', req: false, maxUse: Infinity },
+          { id: 'TXI', req: false, maxUse: Infinity },
+          { id: 'CTB', req: false, maxUse: Infinity },
+          // ACK Loop
+          {
+            id: 'ACK', req: false, loop: true, loopRepeat: 104,
+            children: [
+              { id: 'ACK', req: true },
+              { id: 'DTM', req: false, maxUse: 10 }
+            ]
+          },
+          // SCH Loop
+          {
+            id: 'SCH', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'SCH', req: true },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'REF', req: false, maxUse: Infinity }
+            ]
+          },
+          // N9 Loop
+          {
+            id: 'N9', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'N9', req: true },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'MSG', req: false, maxUse: 1000 }
+            ]
+          },
+          // N1 Loop (Item)
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'NX2', req: false, maxUse: Infinity },
+              { id: 'REF', req: false, maxUse: 12 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'SI', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false },
+              { id: 'FOB', req: false },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'PKG', req: false, maxUse: 200 }
+            ]
+          },
+          // SLN Loop
+          {
+            id: 'SLN', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'SLN', req: true },
+              { id: 'MSG', req: false, maxUse: Infinity },
+              { id: 'SI', req: false, maxUse: Infinity },
+              { id: 'PID', req: false, maxUse: 1000 },
+              { id: 'PO3', req: false, maxUse: 104 },
+              { id: 'ADV', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'CTP', req: false, maxUse: 25 },
+              { id: 'PAM', req: false, maxUse: 10 },
+              { id: 'PO4', req: false },
+              { id: 'TAX', req: false, maxUse: 3 },
+              // SAC Loop
+              {
+                id: 'SAC', req: false, loop: true, loopRepeat: 25,
+                children: [
+                  { id: 'SAC', req: true },
+                  { id: 'CUR', req: false }
+                ]
+              },
+              // ACK Loop
+              {
+                id: 'ACK', req: false, loop: true, loopRepeat: 104,
+                children: [
+                  { id: 'ACK', req: true },
+                  { id: 'DTM', req: false, maxUse: 10 }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      // CTT Loop (Summary)
+      {
+        id: 'CTT', req: false, loop: true,
+        children: [
+          { id: 'CTT', req: true },
+          { id: 'AMT', req: false }
+        ]
+      },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 860 Purchase Order Change Request - Buyer Initiated
+  '860': {
+    type: '860',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BCH', req: true },
+      { id: 'CUR', req: false },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'PER', req: false, maxUse: 3 },
+      { id: 'TAX', req: false, maxUse: 3 },
+      { id: 'FOB', req: false, maxUse: Infinity },
+      { id: 'CTP', req: false, maxUse: Infinity },
+      { id: 'CSH', req: false },
+      // SAC Loop
+      {
+        id: 'SAC', req: false, loop: true, loopRepeat: 25,
+        children: [
+          { id: 'SAC', req: true },
+          { id: 'CUR', req: false }
+        ]
+      },
+      { id: 'ITD', req: false, maxUse: Infinity },
+      { id: 'DIS', req: false, maxUse: 20 },
+      { id: 'INC', req: false },
+      { id: 'DTM', req: false, maxUse: 10 },
+      { id: 'PID', req: false, maxUse: 200 },
+      { id: 'MEA', req: false, maxUse: 40 },
+      { id: 'PWK', req: false, maxUse: 25 },
+      { id: 'PKG', req: false, maxUse: 200 },
+      { id: 'TD1', req: false, maxUse: 2 },
+      { id: 'TD5', req: false, maxUse: 12 },
+      { id: 'TD3', req: false, maxUse: 12 },
+      { id: 'TD4', req: false, maxUse: 5 },
+      { id: 'MAN', req: false, maxUse: 10 },
+      { id: 'TXI', req: false, maxUse: Infinity },
+      { id: 'CTB', req: false, maxUse: 5 },
+      // N9 Loop
+      {
+        id: 'N9', req: false, loop: true, loopRepeat: 1000,
+        children: [
+          { id: 'N9', req: true },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'MSG', req: false, maxUse: 1000 }
+        ]
+      },
+      // N1 Loop (Header)
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: 12 },
+          { id: 'PER', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false },
+          { id: 'TD1', req: false, maxUse: 2 },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'PKG', req: false, maxUse: 200 }
+        ]
+      },
+      // POC Loop (Line Item Changes)
+      {
+        id: 'POC', req: false, loop: true, loopRepeat: 100000,
+        children: [
+          { id: 'POC', req: true },
+          { id: 'LIN', req: false, maxUse: Infinity },
+          { id: 'SI', req: false, maxUse: Infinity },
+          { id: 'CUR', req: false },
+          { id: 'PO3', req: false, maxUse: 25 },
+          { id: 'CTP', req: false, maxUse: Infinity },
+          { id: 'PAM', req: false, maxUse: 10 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          // PID Loop
+          {
+            id: 'PID', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'PID', req: true },
+              { id: 'MEA', req: false, maxUse: 10 }
+            ]
+          },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PO4', req: false, maxUse: Infinity },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: 3 },
+          // SAC Loop
+          {
+            id: 'SAC', req: false, loop: true, loopRepeat: 25,
+            children: [
+              { id: 'SAC', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
+          { id: 'IT8', req: false },
+          { id: 'ITD', req: false, maxUse: 2 },
+          { id: 'DIS', req: false, maxUse: 20 },
+          { id: 'INC', req: false },
+          { id: 'TAX', req: false, maxUse: Infinity },
+          { id: 'FOB', req: false, maxUse: Infinity },
+          { id: 'SDQ', req: false, maxUse: 500 },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'TD1', req: false },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'MAN', req: false, maxUse: 10 },
+          { id: 'TXI', req: false, maxUse: Infinity },
+          { id: 'CTB', req: false, maxUse: Infinity },
+          // SCH Loop
+          {
+            id: 'SCH', req: false, loop: true, loopRepeat: 104,
+            children: [
+              { id: 'SCH', req: true },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'REF', req: false, maxUse: Infinity }
+            ]
+          },
+          // N9 Loop
+          {
+            id: 'N9', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'N9', req: true },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'MSG', req: false, maxUse: 1000 }
+            ]
+          },
+          // N1 Loop (Item)
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'REF', req: false, maxUse: 12 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'DTM', req: false },
+              { id: 'FOB', req: false },
+              { id: 'TD1', req: false, maxUse: 2 },
+              { id: 'TD5', req: false, maxUse: 12 },
+              { id: 'TD3', req: false, maxUse: 12 },
+              { id: 'TD4', req: false, maxUse: 5 },
+              { id: 'PKG', req: false, maxUse: 200 }
+            ]
+          },
+          // SLN Loop
+          {
+            id: 'SLN', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'SLN', req: true },
+              { id: 'MSG', req: false, maxUse: Infinity },
+              { id: 'SI', req: false, maxUse: Infinity },
+              { id: 'PID', req: false, maxUse: 1000 },
+              { id: 'PO3', req: false, maxUse: 104 },
+              { id: 'DTM', req: false, maxUse: 10 },
+              { id: 'CTP', req: false, maxUse: 25 },
+              { id: 'PAM', req: false, maxUse: 10 },
+              { id: 'PO4', req: false },
+              { id: 'TAX', req: false, maxUse: 3 },
+              // SAC Loop
+              {
+                id: 'SAC', req: false, loop: true, loopRepeat: 25,
+                children: [
+                  { id: 'SAC', req: true },
+                  { id: 'CUR', req: false }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      // CTT Loop (Summary)
+      {
+        id: 'CTT', req: false, loop: true,
+        children: [
+          { id: 'CTT', req: true },
+          { id: 'AMT', req: false }
+        ]
+      },
       { id: 'SE', req: true }
     ]
   },
+  // 810 Invoice
   '810': {
     type: '810',
     structure: [
       { id: 'ST', req: true },
       { id: 'BIG', req: true },
-      { id: 'NTE', req: false, repeat: true },
+      { id: 'NTE', req: false, maxUse: 100 },
       { id: 'CUR', req: false },
-      { id: 'REF', req: false, repeat: true },
+      { id: 'REF', req: false, maxUse: 12 },
+      { id: 'YNQ', req: false, maxUse: 10 },
+      { id: 'PER', req: false, maxUse: 3 },
       // N1 Loop
-      { 
-        id: 'N1', req: false, repeat: true, loop: true, 
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
         children: [
           { id: 'N1', req: true },
-          { id: 'N2', req: false, repeat: true },
-          { id: 'N3', req: false, repeat: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
           { id: 'N4', req: false },
-          { id: 'REF', req: false, repeat: true },
-          { id: 'PER', req: false, repeat: true }
+          { id: 'REF', req: false, maxUse: 12 },
+          { id: 'PER', req: false, maxUse: 3 },
+          { id: 'DMG', req: false }
         ]
       },
-      { id: 'ITD', req: false, repeat: true },
-      { id: 'DTM', req: false, repeat: true },
+      { id: 'ITD', req: false, maxUse: Infinity },
+      { id: 'DTM', req: false, maxUse: 10 },
       { id: 'FOB', req: false },
-      // IT1 Loop
+      { id: 'PID', req: false, maxUse: 200 },
+      { id: 'MEA', req: false, maxUse: 40 },
+      { id: 'PWK', req: false, maxUse: 25 },
+      { id: 'PKG', req: false, maxUse: 25 },
+      { id: 'L7', req: false },
+      { id: 'BAL', req: false, maxUse: Infinity },
+      { id: 'INC', req: false },
+      { id: 'PAM', req: false, maxUse: Infinity },
+      { id: 'CRC', req: false },
+      // LM Loop
+      {
+        id: 'LM', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'LM', req: true },
+          { id: 'LQ', req: true, maxUse: 100 }
+        ]
+      },
+      // N9 Loop
       {
-        id: 'IT1', req: true, repeat: true, loop: true,
+        id: 'N9', req: false, loop: true,
+        children: [
+          { id: 'N9', req: true },
+          { id: 'MSG', req: false, maxUse: 10 }
+        ]
+      },
+      // IT1 Loop (Details)
+      {
+        id: 'IT1', req: false, loop: true, loopRepeat: 200000,
         children: [
           { id: 'IT1', req: true },
-          { id: 'CRC', req: false, repeat: true },
-          { id: 'QTY', req: false, repeat: true },
+          { id: 'CRC', req: false },
+          { id: 'QTY', req: false, maxUse: 5 },
           { id: 'CUR', req: false },
-          { id: 'REF', req: false, repeat: true },
-          { id: 'ITD', req: false, repeat: true },
-          { id: 'DTM', req: false, repeat: true },
-          { id: 'TAX', req: false, repeat: true },
-          { id: 'PID', req: false, repeat: true },
-          { id: 'SAC', req: false, repeat: true },
-          { id: 'PO4', req: false }
+          { id: 'IT3', req: false, maxUse: 5 },
+          { id: 'TXI', req: false, maxUse: 10 },
+          { id: 'CTP', req: false, maxUse: 25 },
+          { id: 'PAM', req: false, maxUse: 10 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          // PID Loop
+          {
+            id: 'PID', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'PID', req: true },
+              { id: 'MEA', req: false, maxUse: 10 }
+            ]
+          },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PKG', req: false, maxUse: 25 },
+          { id: 'PO4', req: false },
+          { id: 'ITD', req: false, maxUse: 2 },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'YNQ', req: false, maxUse: 10 },
+          { id: 'PER', req: false, maxUse: 5 },
+          { id: 'SDQ', req: false, maxUse: 500 },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'CAD', req: false, maxUse: Infinity },
+          { id: 'L7', req: false, maxUse: Infinity },
+          { id: 'SR', req: false },
+          // SAC Loop
+          {
+            id: 'SAC', req: false, loop: true, loopRepeat: 25,
+            children: [
+              { id: 'SAC', req: true },
+              { id: 'TXI', req: false, maxUse: 10 }
+            ]
+          },
+          // SLN Loop
+          {
+            id: 'SLN', req: false, loop: true, loopRepeat: 1000,
+            children: [
+              { id: 'SLN', req: true },
+              { id: 'DTM', req: false },
+              { id: 'REF', req: false, maxUse: Infinity },
+              { id: 'PID', req: false, maxUse: 1000 },
+              { id: 'SAC', req: false, maxUse: 25 },
+              { id: 'TC2', req: false, maxUse: 2 },
+              { id: 'TXI', req: false, maxUse: 10 }
+            ]
+          },
+          // N1 Loop (Item)
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'REF', req: false, maxUse: 12 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'DMG', req: false }
+            ]
+          },
+          // LM Loop
+          {
+            id: 'LM', req: false, loop: true, loopRepeat: 10,
+            children: [
+              { id: 'LM', req: true },
+              { id: 'LQ', req: true, maxUse: 100 }
+            ]
+          }
         ]
       },
       { id: 'TDS', req: true },
-      { id: 'TXI', req: false, repeat: true },
+      { id: 'TXI', req: false, maxUse: 10 },
       { id: 'CAD', req: false },
-      { id: 'AMT', req: false, repeat: true },
-      { id: 'SAC', req: false, repeat: true },
-      { id: 'ISS', req: false, repeat: true },
+      { id: 'AMT', req: false, maxUse: Infinity },
+      // SAC Loop (Summary)
+      {
+        id: 'SAC', req: false, loop: true, loopRepeat: 25,
+        children: [
+          { id: 'SAC', req: true },
+          { id: 'TXI', req: false, maxUse: 10 }
+        ]
+      },
+      // ISS Loop
+      {
+        id: 'ISS', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ISS', req: true },
+          { id: 'PID', req: false }
+        ]
+      },
       { id: 'CTT', req: false },
       { id: 'SE', req: true }
     ]
   },
+  // 856 Ship Notice/Manifest
   '856': {
     type: '856',
     structure: [
-        { id: 'ST', req: true },
-        { id: 'BSN', req: true },
-        { id: 'DTM', req: false, repeat: true },
-        // Hierarchical Loop
-        { 
-            id: 'HL', req: true, repeat: true, loop: true,
-            children: [
-                { id: 'HL', req: true },
-                { id: 'LIN', req: false },
-                { id: 'SN1', req: false },
-                { id: 'SLN', req: false },
-                { id: 'PRF', req: false },
-                { id: 'PO4', req: false },
-                { id: 'PID', req: false },
-                { id: 'MEA', req: false },
-                { id: 'PWK', req: false },
-                { id: 'PKG', req: false },
-                { id: 'TD1', req: false },
-                { id: 'TD5', req: false },
-                { id: 'TD3', req: false },
-                { id: 'TD4', req: false },
-                { id: 'REF', req: false, repeat: true },
-                { id: 'PER', req: false },
-                { id: 'CLD', req: false },
-                { id: 'MAN', req: false, repeat: true },
-                { id: 'DTM', req: false },
-                { id: 'N1', req: false, repeat: true, loop: true, children: [
-                    { id: 'N1', req: true },
-                    { id: 'N2', req: false },
-                    { id: 'N3', req: false },
-                    { id: 'N4', req: false }
-                ]}
-            ]
-        },
-        { id: 'CTT', req: false },
-        { id: 'SE', req: true }
+      { id: 'ST', req: true },
+      { id: 'BSN', req: true },
+      { id: 'DTM', req: false, maxUse: 10 },
+      // Hierarchical Loop (shipment, order, tare, pack and item levels share one definition)
+      {
+        id: 'HL', req: true, loop: true, loopRepeat: 200000,
+        children: [
+          { id: 'HL', req: true },
+          { id: 'LIN', req: false },
+          { id: 'SN1', req: false },
+          { id: 'SLN', req: false, maxUse: 1000 },
+          { id: 'PRF', req: false },
+          { id: 'PO4', req: false },
+          { id: 'PID', req: false, maxUse: 200 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PKG', req: false, maxUse: 25 },
+          { id: 'TD1', req: false, maxUse: 20 },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'TSD', req: false },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: 3 },
+          // LH1 Loop (Hazardous Material)
+          {
+            id: 'LH1', req: false, loop: true, loopRepeat: 100,
+            children: [
+              { id: 'LH1', req: true },
+              { id: 'LH2', req: false, maxUse: 4 },
+              { id: 'LH3', req: false, maxUse: 10 },
+              { id: 'LFH', req: false, maxUse: 20 },
+              { id: 'LEP', req: false, maxUse: 3 },
+              { id: 'LH4', req: false, maxUse: 4 },
+              { id: 'LHT', req: false, maxUse: 3 },
+              { id: 'LHR', req: false, maxUse: 10 },
+              { id: 'PER', req: false, maxUse: 5 }
+            ]
+          },
+          // CLD Loop
+          {
+            id: 'CLD', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'CLD', req: true },
+              { id: 'REF', req: false, maxUse: 200 },
+              { id: 'DTM', req: false }
+            ]
+          },
+          { id: 'MAN', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: 10 },
+          { id: 'FOB', req: false },
+          { id: 'PAL', req: false },
+          // N1 Loop
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: 200,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'REF', req: false, maxUse: 12 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'FOB', req: false }
+            ]
+          },
+          { id: 'SDQ', req: false, maxUse: 50 },
+          { id: 'ETD', req: false },
+          { id: 'CUR', req: false },
+          // SAC Loop
+          {
+            id: 'SAC', req: false, loop: true, loopRepeat: 25,
+            children: [
+              { id: 'SAC', req: true },
+              { id: 'CUR', req: false }
+            ]
+          },
+          { id: 'GF', req: false },
+          { id: 'YNQ', req: false, maxUse: 10 }
+        ]
+      },
+      { id: 'CTT', req: false },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 997 Functional Acknowledgment
+  '997': {
+    type: '997',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'AK1', req: true },
+      // AK2 Loop (Transaction Set Response)
+      {
+        id: 'AK2', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'AK2', req: true },
+          // AK3 Loop (Data Segment Note)
+          {
+            id: 'AK3', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'AK3', req: true },
+              { id: 'AK4', req: false, maxUse: 99 }
+            ]
+          },
+          { id: 'AK5', req: true }
+        ]
+      },
+      { id: 'AK9', req: true },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 999 Implementation Acknowledgment (005010X231A1)
+  '999': {
+    type: '999',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'AK1', req: true },
+      // AK2 Loop (Transaction Set Response)
+      {
+        id: 'AK2', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'AK2', req: true },
+          // IK3 Loop (Error Identification)
+          {
+            id: 'IK3', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'IK3', req: true },
+              { id: 'CTX', req: false, maxUse: 10 },
+              // IK4 Loop (Implementation Data Element Note)
+              {
+                id: 'IK4', req: false, loop: true, loopRepeat: 99,
+                children: [
+                  { id: 'IK4', req: true },
+                  { id: 'CTX', req: false, maxUse: 10 }
+                ]
+              }
+            ]
+          },
+          { id: 'IK5', req: true }
+        ]
+      },
+      { id: 'AK9', req: true },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 820 Payment Order/Remittance Advice
+  '820': {
+    type: '820',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BPR', req: true },
+      { id: 'NTE', req: false, maxUse: Infinity },
+      { id: 'TRN', req: false },
+      { id: 'CUR', req: false },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'DTM', req: false, maxUse: Infinity },
+      // N1 Loop
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: Infinity },
+          { id: 'N3', req: false, maxUse: Infinity },
+          { id: 'N4', req: false },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: Infinity },
+          { id: 'RDM', req: false },
+          { id: 'DTM', req: false }
+        ]
+      },
+      // ENT Loop (Remittance Detail)
+      {
+        id: 'ENT', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'ENT', req: true },
+          // NM1 Loop
+          {
+            id: 'NM1', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'NM1', req: true },
+              { id: 'N2', req: false, maxUse: Infinity },
+              { id: 'N3', req: false, maxUse: Infinity },
+              { id: 'N4', req: false },
+              { id: 'REF', req: false, maxUse: Infinity },
+              { id: 'PER', req: false, maxUse: Infinity }
+            ]
+          },
+          // ADX Loop
+          {
+            id: 'ADX', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'ADX', req: true },
+              { id: 'NTE', req: false, maxUse: Infinity },
+              { id: 'PER', req: false, maxUse: Infinity },
+              { id: 'REF', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity }
+            ]
+          },
+          // RMR Loop
+          {
+            id: 'RMR', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'RMR', req: true },
+              { id: 'NTE', req: false, maxUse: Infinity },
+              { id: 'REF', req: false, maxUse: Infinity },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              // IT1 Loop
+              {
+                id: 'IT1', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'IT1', req: true },
+                  { id: 'REF', req: false, maxUse: Infinity },
+                  { id: 'DTM', req: false, maxUse: Infinity }
+                ]
+              },
+              // ADX Loop
+              {
+                id: 'ADX', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'ADX', req: true },
+                  { id: 'NTE', req: false, maxUse: Infinity },
+                  { id: 'PER', req: false, maxUse: Infinity }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 846 Inventory Inquiry/Advice
+  '846': {
+    type: '846',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BIA', req: true },
+      { id: 'CUR', req: false },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'PER', req: false, maxUse: 3 },
+      { id: 'MSG', req: false, maxUse: Infinity },
+      { id: 'DTM', req: false, maxUse: 10 },
+      // N1 Loop (Header)
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'PER', req: false, maxUse: 3 }
+        ]
+      },
+      // LIN Loop (Item Detail)
+      {
+        id: 'LIN', req: false, loop: true, loopRepeat: 10000,
+        children: [
+          { id: 'LIN', req: true },
+          { id: 'SU', req: false },
+          { id: 'SLN', req: false, maxUse: Infinity },
+          { id: 'PID', req: false, maxUse: 200 },
+          { id: 'MEA', req: false, maxUse: 40 },
+          { id: 'PWK', req: false, maxUse: 25 },
+          { id: 'PKG', req: false, maxUse: 25 },
+          { id: 'TD1', req: false },
+          { id: 'TD5', req: false, maxUse: 12 },
+          { id: 'TD3', req: false, maxUse: 12 },
+          { id: 'TD4', req: false, maxUse: 5 },
+          { id: 'MAN', req: false, maxUse: 10 },
+          { id: 'CTP', req: false, maxUse: 25 },
+          { id: 'PO4', req: false },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: 3 },
+          { id: 'SAC', req: false, maxUse: 10 },
+          { id: 'FOB', req: false, maxUse: Infinity },
+          { id: 'LDT', req: false, maxUse: Infinity },
+          { id: 'DTM', req: false, maxUse: 10 },
+          // QTY Loop
+          {
+            id: 'QTY', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'QTY', req: true },
+              { id: 'UIT', req: false },
+              { id: 'DTM', req: false, maxUse: Infinity },
+              { id: 'SCH', req: false, maxUse: Infinity }
+            ]
+          },
+          // N1 Loop (Item)
+          {
+            id: 'N1', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'QTY', req: false, maxUse: Infinity }
+            ]
+          }
+        ]
+      },
+      { id: 'CTT', req: false },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 940 Warehouse Shipping Order
+  '940': {
+    type: '940',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'W05', req: true },
+      // N1 Loop
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'G61', req: false, maxUse: 3 },
+          { id: 'PER', req: false, maxUse: 3 }
+        ]
+      },
+      { id: 'N9', req: false, maxUse: 10 },
+      { id: 'G62', req: false, maxUse: 10 },
+      { id: 'NTE', req: false, maxUse: 10 },
+      { id: 'W66', req: false },
+      // LM Loop
+      {
+        id: 'LM', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'LM', req: true },
+          { id: 'LQ', req: true, maxUse: 100 }
+        ]
+      },
+      // LX Loop (Details)
+      {
+        id: 'LX', req: false, loop: true, loopRepeat: 9999,
+        children: [
+          { id: 'LX', req: true },
+          // W01 Loop
+          {
+            id: 'W01', req: false, loop: true, loopRepeat: 9999,
+            children: [
+              { id: 'W01', req: true },
+              { id: 'G69', req: false, maxUse: 5 },
+              { id: 'N9', req: false, maxUse: 200 },
+              { id: 'W20', req: false },
+              { id: 'G62', req: false, maxUse: 10 },
+              { id: 'NTE', req: false, maxUse: 10 },
+              { id: 'AMT', req: false, maxUse: 10 },
+              { id: 'QTY', req: false, maxUse: 10 }
+            ]
+          }
+        ]
+      },
+      { id: 'W76', req: false },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 945 Warehouse Shipping Advice
+  '945': {
+    type: '945',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'W06', req: true },
+      // N1 Loop
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'PER', req: false, maxUse: 3 }
+        ]
+      },
+      { id: 'N9', req: false, maxUse: 30 },
+      { id: 'G62', req: false, maxUse: 10 },
+      { id: 'W27', req: false },
+      { id: 'W10', req: false, maxUse: 10 },
+      // LX Loop (Details)
+      {
+        id: 'LX', req: false, loop: true, loopRepeat: 9999,
+        children: [
+          { id: 'LX', req: true },
+          { id: 'MAN', req: false, maxUse: 10 },
+          { id: 'PAL', req: false },
+          // W12 Loop
+          {
+            id: 'W12', req: false, loop: true, loopRepeat: 9999,
+            children: [
+              { id: 'W12', req: true },
+              { id: 'G69', req: false, maxUse: 5 },
+              { id: 'N9', req: false, maxUse: 20 },
+              { id: 'W10', req: false, maxUse: 3 },
+              { id: 'G62', req: false, maxUse: 10 },
+              { id: 'QTY', req: false, maxUse: 5 },
+              { id: 'MAN', req: false, maxUse: 10 }
+            ]
+          }
+        ]
+      },
+      { id: 'W03', req: true },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 204 Motor Carrier Load Tender
+  '204': {
+    type: '204',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'B2', req: true },
+      { id: 'B2A', req: true },
+      { id: 'L11', req: false, maxUse: 50 },
+      { id: 'G62', req: false },
+      { id: 'MS3', req: false },
+      { id: 'AT5', req: false, maxUse: 6 },
+      { id: 'PLD', req: false },
+      { id: 'LH6', req: false, maxUse: 6 },
+      { id: 'NTE', req: false, maxUse: 10 },
+      // N1 Loop (Header)
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 5,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'G61', req: false, maxUse: 3 }
+        ]
+      },
+      // N7 Loop (Equipment)
+      {
+        id: 'N7', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N7', req: true },
+          { id: 'N7A', req: false },
+          { id: 'N7B', req: false },
+          { id: 'MEA', req: false, maxUse: 10 },
+          { id: 'M7', req: false, maxUse: 2 }
+        ]
+      },
+      // S5 Loop (Stop Off Details)
+      {
+        id: 'S5', req: true, loop: true, loopRepeat: 999,
+        children: [
+          { id: 'S5', req: true },
+          { id: 'L11', req: false, maxUse: 50 },
+          { id: 'G62', req: false, maxUse: 2 },
+          { id: 'AT8', req: false },
+          { id: 'LAD', req: false, maxUse: 999 },
+          { id: 'AT5', req: false, maxUse: 6 },
+          { id: 'PLD', req: false },
+          { id: 'NTE', req: false, maxUse: 20 },
+          // N1 Loop (Stop)
+          {
+            id: 'N1', req: false, loop: true,
+            children: [
+              { id: 'N1', req: true },
+              { id: 'N2', req: false },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'G61', req: false, maxUse: 3 }
+            ]
+          },
+          // L5 Loop
+          {
+            id: 'L5', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'L5', req: true },
+              { id: 'AT8', req: false, maxUse: Infinity },
+              { id: 'G61', req: false },
+              { id: 'L4', req: false }
+            ]
+          },
+          // OID Loop
+          {
+            id: 'OID', req: false, loop: true, loopRepeat: 999,
+            children: [
+              { id: 'OID', req: true },
+              { id: 'G62', req: false, maxUse: 2 },
+              { id: 'LAD', req: false, maxUse: 999 }
+            ]
+          }
+        ]
+      },
+      { id: 'L3', req: false },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 210 Motor Carrier Freight Details and Invoice
+  '210': {
+    type: '210',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'B3', req: true },
+      { id: 'C2', req: false },
+      { id: 'C3', req: false },
+      { id: 'ITD', req: false },
+      { id: 'N9', req: false, maxUse: 300 },
+      { id: 'G62', req: false, maxUse: 6 },
+      { id: 'R3', req: false, maxUse: 12 },
+      { id: 'H3', req: false, maxUse: 6 },
+      { id: 'K1', req: false, maxUse: 10 },
+      // N1 Loop
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'N9', req: false, maxUse: 5 }
+        ]
+      },
+      // N7 Loop (Equipment)
+      {
+        id: 'N7', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N7', req: true },
+          { id: 'M7', req: false, maxUse: 5 }
+        ]
+      },
+      // LX Loop (Line Items)
+      {
+        id: 'LX', req: false, loop: true, loopRepeat: 9999,
+        children: [
+          { id: 'LX', req: true },
+          { id: 'N9', req: false, maxUse: 5 },
+          { id: 'POD', req: false },
+          { id: 'L5', req: false, maxUse: 30 },
+          { id: 'H1', req: false, maxUse: 3 },
+          { id: 'H2', req: false, maxUse: 2 },
+          { id: 'L0', req: false, maxUse: 10 },
+          { id: 'L1', req: false, maxUse: 10 },
+          { id: 'L4', req: false, maxUse: 10 },
+          { id: 'L7', req: false, maxUse: 10 },
+          { id: 'K1', req: false, maxUse: 10 }
+        ]
+      },
+      { id: 'L3', req: true },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 214 Transportation Carrier Shipment Status Message
+  '214': {
+    type: '214',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'B10', req: true },
+      { id: 'L11', req: false, maxUse: 300 },
+      { id: 'MAN', req: false, maxUse: 9999 },
+      { id: 'K1', req: false, maxUse: 10 },
+      // N1 Loop
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'G61', req: false, maxUse: 5 },
+          { id: 'L11', req: false, maxUse: 10 }
+        ]
+      },
+      { id: 'MS3', req: false, maxUse: 5 },
+      // LX Loop (Status Details)
+      {
+        id: 'LX', req: false, loop: true, loopRepeat: 999999,
+        children: [
+          { id: 'LX', req: true },
+          // AT7 Loop (Shipment Status)
+          {
+            id: 'AT7', req: false, loop: true, loopRepeat: 10,
+            children: [
+              { id: 'AT7', req: true },
+              { id: 'MS1', req: false },
+              { id: 'MS2', req: false, maxUse: 2 }
+            ]
+          },
+          { id: 'L11', req: false, maxUse: 10 },
+          { id: 'MAN', req: false, maxUse: 9999 },
+          { id: 'Q7', req: false, maxUse: 10 },
+          { id: 'K1', req: false, maxUse: 10 },
+          { id: 'AT5', req: false, maxUse: 10 },
+          { id: 'AT8', req: false, maxUse: 10 }
+        ]
+      },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 835 Health Care Claim Payment/Advice
+  '835': {
+    type: '835',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BPR', req: true },
+      { id: 'NTE', req: false, maxUse: Infinity },
+      { id: 'TRN', req: true },
+      { id: 'CUR', req: false },
+      { id: 'REF', req: false, maxUse: Infinity },
+      { id: 'DTM', req: false, maxUse: Infinity },
+      // N1 Loop (Payer / Payee)
+      {
+        id: 'N1', req: false, loop: true, loopRepeat: 200,
+        children: [
+          { id: 'N1', req: true },
+          { id: 'N2', req: false, maxUse: Infinity },
+          { id: 'N3', req: false, maxUse: Infinity },
+          { id: 'N4', req: false },
+          { id: 'REF', req: false, maxUse: Infinity },
+          { id: 'PER', req: false, maxUse: Infinity },
+          { id: 'RDM', req: false },
+          { id: 'DTM', req: false }
+        ]
+      },
+      // LX Loop (Header Number)
+      {
+        id: 'LX', req: false, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'LX', req: true },
+          { id: 'TS3', req: false },
+          { id: 'TS2', req: false },
+          // CLP Loop (Claim Payment)
+          {
+            id: 'CLP', req: false, loop: true, loopRepeat: Infinity,
+            children: [
+              { id: 'CLP', req: true },
+              { id: 'CAS', req: false, maxUse: 99 },
+              { id: 'NM1', req: false, maxUse: 9 },
+              { id: 'MIA', req: false },
+              { id: 'MOA', req: false },
+              { id: 'REF', req: false, maxUse: 99 },
+              { id: 'DTM', req: false, maxUse: 9 },
+              { id: 'PER', req: false, maxUse: 3 },
+              { id: 'AMT', req: false, maxUse: 20 },
+              { id: 'QTY', req: false, maxUse: 20 },
+              // SVC Loop (Service Payment)
+              {
+                id: 'SVC', req: false, loop: true, loopRepeat: 999,
+                children: [
+                  { id: 'SVC', req: true },
+                  { id: 'DTM', req: false, maxUse: 9 },
+                  { id: 'CAS', req: false, maxUse: 99 },
+                  { id: 'REF', req: false, maxUse: 99 },
+                  { id: 'AMT', req: false, maxUse: 20 },
+                  { id: 'QTY', req: false, maxUse: 20 },
+                  { id: 'LQ', req: false, maxUse: 99 }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { id: 'PLB', req: false, maxUse: Infinity },
+      { id: 'SE', req: true }
+    ]
+  },
+  // 837 Health Care Claim
+  '837': {
+    type: '837',
+    structure: [
+      { id: 'ST', req: true },
+      { id: 'BHT', req: true },
+      { id: 'REF', req: false, maxUse: 3 },
+      // NM1 Loop (Submitter / Receiver)
+      {
+        id: 'NM1', req: false, loop: true, loopRepeat: 10,
+        children: [
+          { id: 'NM1', req: true },
+          { id: 'N2', req: false, maxUse: 2 },
+          { id: 'N3', req: false, maxUse: 2 },
+          { id: 'N4', req: false },
+          { id: 'REF', req: false, maxUse: 2 },
+          { id: 'PER', req: false, maxUse: 2 }
+        ]
+      },
+      // Hierarchical Loop (billing provider, subscriber and patient levels share one definition)
+      {
+        id: 'HL', req: true, loop: true, loopRepeat: Infinity,
+        children: [
+          { id: 'HL', req: true },
+          { id: 'PRV', req: false },
+          { id: 'SBR', req: false },
+          { id: 'PAT', req: false },
+          { id: 'DTP', req: false, maxUse: 5 },
+          { id: 'CUR', req: false },
+          // NM1 Loop (Names)
+          {
+            id: 'NM1', req: false, loop: true, loopRepeat: 10,
+            children: [
+              { id: 'NM1', req: true },
+              { id: 'N2', req: false, maxUse: 2 },
+              { id: 'N3', req: false, maxUse: 2 },
+              { id: 'N4', req: false },
+              { id: 'DMG', req: false },
+              { id: 'REF', req: false, maxUse: 20 },
+              { id: 'PER', req: false, maxUse: 2 }
+            ]
+          },
+          // CLM Loop (Claim Information)
+          {
+            id: 'CLM', req: false, loop: true, loopRepeat: 100,
+            children: [
+              { id: 'CLM', req: true },
+              { id: 'DTP', req: false, maxUse: 150 },
+              { id: 'CL1', req: false },
+              { id: 'DN1', req: false },
+              { id: 'DN2', req: false, maxUse: 35 },
+              { id: 'PWK', req: false, maxUse: 10 },
+              { id: 'CN1', req: false },
+              { id: 'DSB', req: false },
+              { id: 'UR', req: false },
+              { id: 'AMT', req: false, maxUse: 40 },
+              { id: 'REF', req: false, maxUse: 30 },
+              { id: 'K3', req: false, maxUse: 10 },
+              { id: 'NTE', req: false, maxUse: 20 },
+              { id: 'CR1', req: false },
+              { id: 'CR2', req: false },
+              { id: 'CR3', req: false },
+              { id: 'CR4', req: false, maxUse: 3 },
+              { id: 'CR5', req: false },
+              { id: 'CR6', req: false },
+              { id: 'CR8', req: false },
+              { id: 'CRC', req: false, maxUse: 100 },
+              { id: 'HI', req: false, maxUse: 25 },
+              { id: 'QTY', req: false, maxUse: 10 },
+              { id: 'HCP', req: false },
+              // NM1 Loop (Claim Providers)
+              {
+                id: 'NM1', req: false, loop: true, loopRepeat: 9,
+                children: [
+                  { id: 'NM1', req: true },
+                  { id: 'PRV', req: false },
+                  { id: 'N2', req: false, maxUse: 2 },
+                  { id: 'N3', req: false, maxUse: 2 },
+                  { id: 'N4', req: false },
+                  { id: 'REF', req: false, maxUse: 20 },
+                  { id: 'PER', req: false, maxUse: 2 }
+                ]
+              },
+              // SBR Loop (Other Subscriber Information)
+              {
+                id: 'SBR', req: false, loop: true, loopRepeat: 10,
+                children: [
+                  { id: 'SBR', req: true },
+                  { id: 'CAS', req: false, maxUse: 99 },
+                  { id: 'AMT', req: false, maxUse: 15 },
+                  { id: 'DMG', req: false },
+                  { id: 'OI', req: false },
+                  { id: 'MIA', req: false },
+                  { id: 'MOA', req: false },
+                  // NM1 Loop (Other Payer)
+                  {
+                    id: 'NM1', req: false, loop: true, loopRepeat: 10,
+                    children: [
+                      { id: 'NM1', req: true },
+                      { id: 'N2', req: false, maxUse: 2 },
+                      { id: 'N3', req: false, maxUse: 2 },
+                      { id: 'N4', req: false },
+                      { id: 'PER', req: false, maxUse: 2 },
+                      { id: 'DTP', req: false, maxUse: 9 },
+                      { id: 'REF', req: false, maxUse: Infinity }
+                    ]
+                  }
+                ]
+              },
+              // LX Loop (Service Line)
+              {
+                id: 'LX', req: false, loop: true, loopRepeat: Infinity,
+                children: [
+                  { id: 'LX', req: true },
+                  { id: 'SV1', req: false },
+                  { id: 'SV2', req: false },
+                  { id: 'SV3', req: false },
+                  { id: 'TOO', req: false, maxUse: 32 },
+                  { id: 'SV4', req: false },
+                  { id: 'SV5', req: false },
+                  { id: 'SV6', req: false },
+                  { id: 'SV7', req: false },
+                  { id: 'HI', req: false, maxUse: 25 },
+                  { id: 'PWK', req: false, maxUse: 10 },
+                  { id: 'CR1', req: false },
+                  { id: 'CR2', req: false, maxUse: 5 },
+                  { id: 'CR3', req: false },
+                  { id: 'CR4', req: false, maxUse: 3 },
+                  { id: 'CR5', req: false },
+                  { id: 'CRC', req: false, maxUse: 3 },
+                  { id: 'DTP', req: false, maxUse: 15 },
+                  { id: 'QTY', req: false, maxUse: 5 },
+                  { id: 'MEA', req: false, maxUse: 20 },
+                  { id: 'CN1', req: false },
+                  { id: 'REF', req: false, maxUse: 30 },
+                  { id: 'AMT', req: false, maxUse: 15 },
+                  { id: 'K3', req: false, maxUse: 10 },
+                  { id: 'NTE', req: false, maxUse: 10 },
+                  { id: 'PS1', req: false },
+                  { id: 'HSD', req: false },
+                  { id: 'HCP', req: false },
+                  // LIN Loop (Drug Identification)
+                  {
+                    id: 'LIN', req: false, loop: true, loopRepeat: Infinity,
+                    children: [
+                      { id: 'LIN', req: true },
+                      { id: 'CTP', req: false },
+                      { id: 'REF', req: false }
+                    ]
+                  },
+                  // NM1 Loop (Line Providers)
+                  {
+                    id: 'NM1', req: false, loop: true, loopRepeat: 10,
+                    children: [
+                      { id: 'NM1', req: true },
+                      { id: 'PRV', req: false },
+                      { id: 'N2', req: false, maxUse: 2 },
+                      { id: 'N3', req: false, maxUse: 2 },
+                      { id: 'N4', req: false },
+                      { id: 'REF', req: false, maxUse: 20 },
+                      { id: 'PER', req: false, maxUse: 2 }
+                    ]
+                  },
+                  // SVD Loop (Line Adjudication)
+                  {
+                    id: 'SVD', req: false, loop: true, loopRepeat: Infinity,
+                    children: [
+                      { id: 'SVD', req: true },
+                      { id: 'CAS', req: false, maxUse: 99 },
+                      { id: 'DTP', req: false, maxUse: 9 },
+                      { id: 'AMT', req: false, maxUse: 20 }
+                    ]
+                  },
+                  // LQ Loop (Form Identification)
+                  {
+                    id: 'LQ', req: false, loop: true, loopRepeat: Infinity,
+                    children: [
+                      { id: 'LQ', req: true },
+                      { id: 'FRM', req: true, maxUse: 99 }
+                    ]
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { id: 'SE', req: true }
     ]
   }
 };
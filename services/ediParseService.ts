@@ -0,0 +1,205 @@
+import { ControlNumberUse, DateCheckSettings, DocumentViewKind, DocumentViews, DateWindow, EdiFile, LineError, ParsedValidationResult, ReconciledTransaction, ParseWorkerRequest, ParseWorkerResponse, SchemaBundle, ValidationProgress } from '../types';
+import { parseEdiDocument, documentDictionaries } from '../utils/ediParser';
+import { validateDocument } from '../utils/ediValidator';
+import { detectDelimiters } from '../utils/ediDetection';
+import { collectControlNumbers } from '../utils/controlNumbers';
+import { reconcileAcknowledgments } from '../utils/ackReconciliation';
+import { buildDocumentView } from '../utils/documentViews';
+import { resolveDateWindows } from '../utils/dateWindows';
+import { schemaRegistry } from '../data/schemaRegistry';
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ValidationProgress) => void;
+}
+
+/**
+ * EDI Parse Service
+ * Main-thread client for the parse worker. Requests for the content that is already being
+ * (or was last) validated share one result, so the editor and side panels don't trigger
+ * duplicate work. Falls back to validating in-process where Workers are unavailable.
+ */
+class EdiParseService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private last: { content: string; promise: Promise<ParsedValidationResult> } | null = null;
+  private fallbackCache = new Map<string, LineError[]>();
+  private dateWindows: DateWindow[] | undefined;
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('./ediWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Parse worker crashed, validating on the main thread', event.message);
+        this.failWorker(new Error(event.message || 'Parse worker crashed'));
+      };
+      // The worker has its own registry; bring it up to date with anything imported so far
+      schemaRegistry.listBundles().forEach(bundle => this.post({ id: 0, type: 'REGISTER_SCHEMAS', bundle }));
+      if (this.dateWindows) this.post({ id: 0, type: 'CONFIGURE', dateWindows: this.dateWindows });
+    } catch (e) {
+      console.warn('Parse worker unavailable, validating on the main thread', e);
+      this.workerFailed = true;
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private post(request: ParseWorkerRequest) {
+    this.worker?.postMessage(request);
+  }
+
+  // Sends a request that the worker answers with a T (see handleMessage)
+  private request<T>(request: ParseWorkerRequest, onProgress?: (progress: ValidationProgress) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(request.id, { resolve: result => resolve(result as T), reject, onProgress });
+      this.post(request);
+    });
+  }
+
+  private handleMessage(message: ParseWorkerResponse) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    switch (message.type) {
+      case 'PROGRESS':
+        request.onProgress?.(message.progress);
+        break;
+      case 'RESULT':
+        this.pending.delete(message.id);
+        request.resolve(message.result);
+        break;
+      case 'CONTROL_NUMBERS':
+        this.pending.delete(message.id);
+        request.resolve(message.uses);
+        break;
+      case 'VIEW':
+        this.pending.delete(message.id);
+        request.resolve(message.view);
+        break;
+      case 'RECONCILED':
+        this.pending.delete(message.id);
+        request.resolve(message.results);
+        break;
+      case 'ERROR':
+        this.pending.delete(message.id);
+        request.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private failWorker(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    this.last = null;
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  private async validateInProcess(content: string, onProgress?: (progress: ValidationProgress) => void): Promise<ParsedValidationResult> {
+    onProgress?.({ phase: 'PARSE', done: 0, total: 0 });
+    const { release } = detectDelimiters(content);
+    await schemaRegistry.ensureLoaded(documentDictionaries(parseEdiDocument(content)));
+    const doc = parseEdiDocument(content);
+    const { result, cache } = validateDocument(doc, release, {
+      previous: this.fallbackCache,
+      onProgress: (done, total) => onProgress?.({ phase: 'VALIDATE', done, total }),
+      dateWindows: this.dateWindows
+    });
+    this.fallbackCache = cache;
+    return { ...result, lines: doc.lines, dictionaries: documentDictionaries(doc), controlNumbers: collectControlNumbers(doc) };
+  }
+
+  /**
+   * Parses and validates content, resolving with every error in the file and its tokenized lines.
+   * Only transaction sets changed since the previous call are revalidated.
+   */
+  validate(content: string, onProgress?: (progress: ValidationProgress) => void): Promise<ParsedValidationResult> {
+    if (this.last && this.last.content === content) return this.last.promise;
+
+    const worker = this.getWorker();
+    let promise: Promise<ParsedValidationResult>;
+
+    if (!worker) {
+      promise = this.validateInProcess(content, onProgress);
+    } else {
+      promise = this.request<ParsedValidationResult>({ id: this.nextId++, type: 'VALIDATE', content }, onProgress);
+    }
+
+    this.last = { content, promise };
+    promise.catch(() => {
+      if (this.last?.promise === promise) this.last = null;
+    });
+    return promise;
+  }
+
+  /**
+   * Interchange and group control numbers of the content, parsed in the worker. Content the
+   * editor has just validated is answered from that result without parsing again.
+   */
+  async controlNumbers(content: string): Promise<ControlNumberUse[]> {
+    if (this.last && this.last.content === content) {
+      const result = await this.last.promise.catch(() => null);
+      if (result) return result.controlNumbers;
+    }
+
+    const worker = this.getWorker();
+    if (!worker) return collectControlNumbers(parseEdiDocument(content));
+    return this.request<ControlNumberUse[]>({ id: this.nextId++, type: 'CONTROL_NUMBERS', content });
+  }
+
+  /**
+   * Acknowledgment status of every sent transaction in the files (see reconcileAcknowledgments),
+   * worked out in the worker. Only what reconciliation reads of each file is sent over.
+   */
+  reconcile(files: EdiFile[], options: { now?: Date; overdueHours: number }): Promise<ReconciledTransaction[]> {
+    const now = options.now || new Date();
+    const worker = this.getWorker();
+    if (!worker) return Promise.resolve(reconcileAcknowledgments(files, { now, overdueHours: options.overdueHours }));
+    const slim = files.map(({ id, name, content, lastModified, mimeType }) => ({ id, name, content, lastModified, mimeType }));
+    return this.request<ReconciledTransaction[]>({ id: this.nextId++, type: 'RECONCILE', files: slim, now, overdueHours: options.overdueHours });
+  }
+
+  /**
+   * A read-only view of the content for a side panel (see documentViews), built in the worker.
+   */
+  async view<K extends DocumentViewKind>(content: string, kind: K): Promise<DocumentViews[K]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      await schemaRegistry.ensureLoaded(documentDictionaries(parseEdiDocument(content)));
+      return buildDocumentView(parseEdiDocument(content), kind);
+    }
+    return this.request<DocumentViews[K]>({ id: this.nextId++, type: 'VIEW', kind, content });
+  }
+
+  /**
+   * Registers imported schemas on the main thread and in the worker. The next validate()
+   * call re-parses even unchanged content, since definitions may have changed.
+   */
+  registerSchemas(bundle: SchemaBundle) {
+    schemaRegistry.registerBundle(bundle);
+    this.post({ id: 0, type: 'REGISTER_SCHEMAS', bundle });
+    this.last = null;
+  }
+
+  /**
+   * Applies the date check settings to subsequent validations, here and in the worker.
+   */
+  setDateChecks(settings?: DateCheckSettings) {
+    this.dateWindows = resolveDateWindows(settings);
+    this.post({ id: 0, type: 'CONFIGURE', dateWindows: this.dateWindows });
+    this.last = null;
+  }
+}
+
+export const ediParseService = new EdiParseService();
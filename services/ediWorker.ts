@@ -0,0 +1,95 @@
+import { DateWindow, LineError, ParseWorkerRequest, ParseWorkerResponse, ValidationProgress } from '../types';
+import { parseEdiDocument, documentDictionaries } from '../utils/ediParser';
+import { validateDocument } from '../utils/ediValidator';
+import { detectDelimiters } from '../utils/ediDetection';
+import { collectControlNumbers } from '../utils/controlNumbers';
+import { reconcileAcknowledgments } from '../utils/ackReconciliation';
+import { buildDocumentView, detachSchemas } from '../utils/documentViews';
+import { schemaRegistry } from '../data/schemaRegistry';
+
+/**
+ * EDI Parse Worker
+ * Parses and validates off the main thread so multi-megabyte batches don't freeze the editor.
+ * The tokenized lines (without their schemas, which the main thread looks up by dictionary)
+ * and envelope details go back with the errors, for the editor to display.
+ * Keeps the per-transaction results of the previous run so that an edit only revalidates
+ * the transaction sets whose text actually changed.
+ */
+
+// The project compiles against the DOM lib; Worker has the same postMessage/onmessage surface
+const ctx = self as unknown as Worker;
+
+let transactionCache = new Map<string, LineError[]>();
+let dateWindows: DateWindow[] | undefined;
+
+const post = (message: ParseWorkerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  if (event.data.type === 'REGISTER_SCHEMAS') {
+    schemaRegistry.registerBundle(event.data.bundle);
+    return;
+  }
+  if (event.data.type === 'CONFIGURE') {
+    dateWindows = event.data.dateWindows;
+    return;
+  }
+  if (event.data.type === 'CONTROL_NUMBERS') {
+    // Envelope segments only, for the storage index; the parse is shared with the next validation
+    const { id, content } = event.data;
+    try {
+      post({ id, type: 'CONTROL_NUMBERS', uses: collectControlNumbers(parseEdiDocument(content)) });
+    } catch (e: any) {
+      post({ id, type: 'ERROR', message: e?.message || 'Parsing failed' });
+    }
+    return;
+  }
+  if (event.data.type === 'VIEW') {
+    const { id, kind, content } = event.data;
+    try {
+      let doc = parseEdiDocument(content);
+      if (await schemaRegistry.ensureLoaded(documentDictionaries(doc))) doc = parseEdiDocument(content);
+      post({ id, type: 'VIEW', view: buildDocumentView(doc, kind) });
+    } catch (e: any) {
+      post({ id, type: 'ERROR', message: e?.message || 'Parsing failed' });
+    }
+    return;
+  }
+  if (event.data.type === 'RECONCILE') {
+    const { id, files, now, overdueHours } = event.data;
+    try {
+      post({ id, type: 'RECONCILED', results: reconcileAcknowledgments(files, { now, overdueHours }) });
+    } catch (e: any) {
+      post({ id, type: 'ERROR', message: e?.message || 'Reconciliation failed' });
+    }
+    return;
+  }
+  const { id, content } = event.data;
+
+  try {
+    post({ id, type: 'PROGRESS', progress: { phase: 'PARSE', done: 0, total: 0 } });
+    let doc = parseEdiDocument(content);
+
+    // Versions are only known after parsing; re-parse if that pulled in new dictionary packs
+    if (await schemaRegistry.ensureLoaded(documentDictionaries(doc))) {
+      doc = parseEdiDocument(content);
+    }
+    const { release } = detectDelimiters(content);
+
+    // Report at most ~100 progress steps regardless of batch size
+    let lastPercent = -1;
+    const onProgress = (done: number, total: number) => {
+      const percent = Math.floor((done / total) * 100);
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      const progress: ValidationProgress = { phase: 'VALIDATE', done, total };
+      post({ id, type: 'PROGRESS', progress });
+    };
+
+    const { result, cache } = validateDocument(doc, release, { previous: transactionCache, onProgress, dateWindows });
+    transactionCache = cache;
+
+    post({ id, type: 'RESULT', result: { ...result, lines: detachSchemas(doc.lines), dictionaries: documentDictionaries(doc), controlNumbers: collectControlNumbers(doc) } });
+  } catch (e: any) {
+    post({ id, type: 'ERROR', message: e?.message || 'Validation failed' });
+  }
+};
@@ -0,0 +1,68 @@
+import { ExpectedIssue, RuleSetTestCase, RuleSetTestResult, TPRuleSet, ValidationIssue } from '../types';
+import { validateDocument } from '../utils/ediValidator';
+import { documentDictionaries, parseEdiDocument } from '../utils/ediParser';
+import { detectDelimiters } from '../utils/ediDetection';
+import { schemaRegistry } from '../data/schemaRegistry';
+import { rulesEngine } from './rulesEngine';
+
+const formatExpected = (expected: ExpectedIssue) => expected.line !== undefined ? `${expected.code}@${expected.line}` : expected.code;
+
+/**
+ * Expected issues as written in the test editor: "TP_INVALID_CODE@4, TP_MISSING_SEG".
+ */
+export const parseExpectedIssues = (text: string): ExpectedIssue[] =>
+  text.split(/[,\s]+/).map(t => t.trim()).filter(Boolean).map(token => {
+    const [code, line] = token.split('@');
+    return { code: code.toUpperCase(), line: line && /^\d+$/.test(line) ? Number(line) : undefined };
+  });
+
+export const formatExpectedIssues = (issues: ExpectedIssue[]): string => issues.map(formatExpected).join(', ');
+
+/**
+ * Rule Set Test Runner
+ * Validates a rule set's sample documents the way the Analysis panel does (local syntax checks
+ * plus the set's rules, whether or not it's active) and compares the issues with the expected ones.
+ * The dictionaries a sample's envelopes name are loaded first, so results don't depend on which
+ * files happened to be open before.
+ */
+export const ruleSetTestRunner = {
+
+  async run(set: TPRuleSet, testCase: RuleSetTestCase, today: Date = new Date()): Promise<RuleSetTestResult> {
+    let issues: ValidationIssue[];
+    try {
+      await schemaRegistry.ensureLoaded(documentDictionaries(parseEdiDocument(testCase.content)));
+      const { release } = detectDelimiters(testCase.content);
+      const { result } = validateDocument(parseEdiDocument(testCase.content), release, { today });
+      const local: ValidationIssue[] = result.errors.map(err => ({
+        code: err.code,
+        message: err.message,
+        severity: err.severity,
+        line: err.line,
+        source: 'LOCAL'
+      }));
+      issues = [...local, ...rulesEngine.validate(testCase.content, set.rules, today)]
+        .filter(i => i.severity === 'ERROR' || i.severity === 'WARNING');
+    } catch (e: any) {
+      return { testId: testCase.id, passed: false, issues: [], missing: [], unexpected: [], error: e?.message || 'Validation failed' };
+    }
+
+    const expected = testCase.expect === 'CLEAN' ? [] : testCase.expectedIssues;
+    // Each reported issue satisfies at most one expectation
+    const unmatched = [...issues];
+    const missing = expected.filter(e => {
+      const index = unmatched.findIndex(i => i.code === e.code && (e.line === undefined || i.line === e.line));
+      if (index === -1) return true;
+      unmatched.splice(index, 1);
+      return false;
+    });
+    const unexpected = testCase.expect === 'ISSUES' && testCase.allowOtherIssues ? [] : unmatched;
+
+    return { testId: testCase.id, passed: missing.length === 0 && unexpected.length === 0, issues, missing, unexpected };
+  },
+
+  async runAll(set: TPRuleSet, today: Date = new Date()): Promise<RuleSetTestResult[]> {
+    const results: RuleSetTestResult[] = [];
+    for (const testCase of set.tests || []) results.push(await this.run(set, testCase, today));
+    return results;
+  }
+};
@@ -1,107 +1,302 @@
+import { TPRule, ValidationIssue, ParsedLine, RuleScope, DateWindow, EdiTransactionNode } from '../types';
+import { parseEdiDocument } from '../utils/ediParser';
+import { getTransactions, transactionSegments } from '../utils/ediDocument';
+import { validateDateWindows } from '../utils/dateWindows';
+import { parseRulePath, selectRuleContexts } from '../utils/rulePath';
+import { compilePattern, evaluateExpression, parseExpression, RuleExpression } from '../utils/ruleExpression';
 
-import { TPRule, ValidationIssue, ParsedLine } from '../types';
-import { parseEdiToLines } from '../utils/ediParser';
+/**
+ * The lines a rule is checked against: the whole file, a transaction set, or one loop instance /
+ * segment selected by the rule's scope path. `anchor` is where findings about something missing
+ * from the context are reported.
+ */
+interface RuleContext {
+  lines: ParsedLine[];
+  anchor?: ParsedLine;
+  trailer?: ParsedLine;
+  transaction?: EdiTransactionNode;
+}
+
+// Value of a simple element, or the whole text of a composite
+const elementValue = (line: ParsedLine, element?: number): string =>
+  line.tokens.find(t => t.type === 'ELEMENT' && t.index === element)?.value.trim() || '';
+
+// e.g. BEG03, as the other validators name elements
+const elementId = (rule: TPRule): string | undefined =>
+  rule.targetElement ? `${rule.targetSegment}${String(rule.targetElement).padStart(2, '0')}` : undefined;
+
+const transactionLines = (transaction: EdiTransactionNode): ParsedLine[] => [
+  ...(transaction.header ? [transaction.header.line] : []),
+  ...transactionSegments(transaction).map(s => s.line),
+  ...(transaction.trailer ? [transaction.trailer.line] : [])
+];
+
+const issue = (rule: TPRule, code: string, message: string, line?: ParsedLine): ValidationIssue => ({
+  code,
+  message: rule.message || message,
+  severity: rule.severity,
+  line: line?.lineNumber,
+  source: 'TP_RULE',
+  segmentId: rule.targetSegment,
+  elementId: elementId(rule)
+});
+
+/**
+ * Checks one rule within one context. `expression` is the parsed CUSTOM_BUSINESS_LOGIC expression.
+ */
+const checkRule = (rule: TPRule, context: RuleContext, today: Date, expression?: RuleExpression): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const targets = context.lines.filter(l => l.segmentId === rule.targetSegment);
+  const label = elementId(rule) || rule.targetSegment;
+  const where = rule.scopePath && context.anchor ? ` in ${rule.scopePath} at line ${context.anchor.lineNumber}` : '';
+
+  switch (rule.type) {
+    case 'REQUIRED_SEGMENT':
+      if (targets.length === 0) {
+        issues.push({ ...issue(rule, 'TP_MISSING_SEG', `Missing required segment: ${rule.targetSegment}${where}`, context.anchor), elementId: undefined });
+      }
+      break;
+
+    case 'PROHIBITED_SEGMENT':
+      targets.forEach(line => {
+        issues.push({ ...issue(rule, 'TP_FORBIDDEN_SEG', `Segment ${rule.targetSegment} is prohibited by TP rules${where}.`, line), elementId: undefined });
+      });
+      break;
+
+    case 'MAX_LENGTH': {
+      const length = rule.params?.length;
+      if (rule.targetElement && length) {
+        targets.forEach(line => {
+          const value = elementValue(line, rule.targetElement);
+          if (value.length > length) {
+            issues.push(issue(rule, 'TP_LEN_ERR', `${label} exceeds max length of ${length}`, line));
+          }
+        });
+      }
+      break;
+    }
+
+    case 'MIN_LENGTH': {
+      const length = rule.params?.length;
+      if (rule.targetElement && length) {
+        targets.forEach(line => {
+          const value = elementValue(line, rule.targetElement);
+          // Empty values are left to ELEMENT_REQUIRED
+          if (value && value.length < length) {
+            issues.push(issue(rule, 'TP_MIN_LEN', `${label} '${value}' is shorter than the minimum length of ${length}`, line));
+          }
+        });
+      }
+      break;
+    }
+
+    case 'ALLOWED_CODES': {
+      const codes = rule.params?.codes;
+      if (rule.targetElement && codes) {
+        const allowed = new Set(codes);
+        targets.forEach(line => {
+          const value = elementValue(line, rule.targetElement);
+          if (value && !allowed.has(value)) {
+            issues.push(issue(rule, 'TP_INVALID_CODE', `Invalid code '${value}' in ${label}. Allowed: ${codes.join(', ')}`, line));
+          }
+        });
+      }
+      break;
+    }
+
+    case 'CONDITIONAL_EXISTS': {
+      // If Target Exists, Param Segment Must Exist
+      const dependent = rule.params?.dependentSegment;
+      if (targets.length > 0 && dependent && !context.lines.some(l => l.segmentId === dependent)) {
+        issues.push({
+          ...issue(rule, 'TP_CONDITIONAL', `If ${rule.targetSegment} exists, ${dependent} is required${where}.`, rule.scopePath ? context.anchor : undefined),
+          elementId: undefined
+        });
+      }
+      break;
+    }
+
+    case 'ELEMENT_REQUIRED':
+      if (rule.targetElement) {
+        targets.forEach(line => {
+          if (!elementValue(line, rule.targetElement)) {
+            issues.push(issue(rule, 'TP_MISSING_ELEMENT', `${label} is required by TP rules.`, line));
+          }
+        });
+      }
+      break;
+
+    case 'REGEX': {
+      if (!rule.targetElement || !rule.params?.pattern) break;
+      // The whole value has to match. Invalid patterns are reported once by validate()
+      const pattern = compilePattern(rule.params.pattern, rule.params.flags);
+      targets.forEach(line => {
+        const value = elementValue(line, rule.targetElement);
+        if (value && !pattern.test(value)) {
+          issues.push(issue(rule, 'TP_PATTERN', `${label} '${value}' does not match the pattern ${rule.params!.pattern}`, line));
+        }
+      });
+      break;
+    }
+
+    case 'VALUE_RANGE': {
+      const { min, max } = rule.params || {};
+      if (!rule.targetElement || (min === undefined && max === undefined)) break;
+      targets.forEach(line => {
+        const value = elementValue(line, rule.targetElement);
+        if (!value) return;
+        const number = Number(value);
+        if (isNaN(number)) {
+          issues.push(issue(rule, 'TP_RANGE', `${label} '${value}' is not a number`, line));
+        } else if (min !== undefined && number < min) {
+          issues.push(issue(rule, 'TP_RANGE', `${label} ${value} is below the minimum of ${min}`, line));
+        } else if (max !== undefined && number > max) {
+          issues.push(issue(rule, 'TP_RANGE', `${label} ${value} is above the maximum of ${max}`, line));
+        }
+      });
+      break;
+    }
+
+    case 'SEGMENT_COUNT': {
+      const { min, max } = rule.params || {};
+      if (max !== undefined && targets.length > max) {
+        // Reported on the first occurrence over the limit
+        issues.push(issue(rule, 'TP_MAX_USE', `${rule.targetSegment} occurs ${targets.length} times${where} (max ${max})`, targets[max]));
+      }
+      if (min !== undefined && targets.length < min) {
+        issues.push(issue(rule, 'TP_MIN_USE', `${rule.targetSegment} occurs ${targets.length} times${where} (min ${min})`, context.trailer || context.anchor));
+      }
+      break;
+    }
+
+    case 'UNIQUE_VALUES': {
+      if (!rule.targetElement) break;
+      const seen = new Map<string, ParsedLine>();
+      targets.forEach(line => {
+        const value = elementValue(line, rule.targetElement);
+        if (!value) return;
+        const first = seen.get(value);
+        if (first) {
+          issues.push(issue(rule, 'TP_DUPLICATE_VALUE', `${label} '${value}' duplicates line ${first.lineNumber}`, line));
+        } else {
+          seen.set(value, line);
+        }
+      });
+      break;
+    }
+
+    case 'DATE_WINDOW': {
+      if (!rule.targetElement || !context.transaction) break;
+      const { qualifier, maxPastDays, maxFutureDays, notBefore } = rule.params || {};
+      const window: DateWindow = {
+        id: rule.id,
+        name: rule.message,
+        transactionTypes: [context.transaction.type],
+        date: { label, segment: rule.targetSegment, element: rule.targetElement, qualifier },
+        notBefore: notBefore && {
+          label: `${notBefore.segment}${String(notBefore.element).padStart(2, '0')}`,
+          segment: notBefore.segment,
+          element: notBefore.element,
+          qualifier: notBefore.qualifier
+        },
+        maxPastDays,
+        maxFutureDays,
+        severity: rule.severity
+      };
+      // The reference date may be outside the scope; the dates checked are those inside it
+      const inScope = new Set(context.lines.map(l => l.lineNumber));
+      validateDateWindows(context.transaction, [window], today)
+        .filter(e => inScope.has(e.line))
+        .forEach(e => issues.push({ ...issue(rule, 'TP_DATE_WINDOW', e.message), line: e.line }));
+      break;
+    }
+
+    case 'CUSTOM_BUSINESS_LOGIC':
+      if (expression && !evaluateExpression(expression, context.lines, today)) {
+        // Reported on the target segment when the scope has one
+        issues.push(issue(rule, 'TP_BUSINESS_RULE', `Business rule failed${where}: ${rule.params!.expression}`, targets[0] || context.anchor));
+      }
+      break;
+  }
+
+  return issues;
+};
 
 /**
  * Rules Engine
  * Executes configured Trading Partner Rules against parsed EDI content.
  */
 export const rulesEngine = {
-  
-  validate(content: string, rules: TPRule[]): ValidationIssue[] {
+
+  validate(content: string, rules: TPRule[], today: Date = new Date(), include?: (transaction: EdiTransactionNode) => boolean): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
-    const lines = parseEdiToLines(content);
-    
-    // Map lines for easy lookup
-    const segmentsById: Record<string, ParsedLine[]> = {};
-    lines.forEach(line => {
-        if (!segmentsById[line.segmentId]) segmentsById[line.segmentId] = [];
-        segmentsById[line.segmentId].push(line);
+    const doc = parseEdiDocument(content);
+    const transactions = getTransactions(doc).filter(t => t.header && (!include || include(t)));
+    if (include && transactions.length === 0) return issues;
+    // Limited to some transaction sets, file-wide rules only see those
+    const fileLines = include ? transactions.flatMap(transactionLines) : doc.lines;
+
+    const invalidRule = (rule: TPRule, message: string) => issues.push({
+      code: 'TP_RULE_INVALID',
+      message,
+      severity: 'WARNING',
+      source: 'TP_RULE',
+      segmentId: rule.targetSegment
     });
 
+    // Each transaction set, or the whole file when it has none (fragments)
+    const transactionContexts = (scope: RuleScope = 'TRANSACTION'): RuleContext[] =>
+      scope === 'TRANSACTION' && transactions.length > 0
+        ? transactions.map(t => ({ lines: transactionLines(t), anchor: t.header?.line, trailer: t.trailer?.line, transaction: t }))
+        : [{ lines: fileLines }];
+
     rules.forEach(rule => {
-        switch (rule.type) {
-            case 'REQUIRED_SEGMENT':
-                if (!segmentsById[rule.targetSegment]) {
-                    issues.push({
-                        code: 'TP_MISSING_SEG',
-                        message: rule.message || `Missing required segment: ${rule.targetSegment}`,
-                        severity: rule.severity,
-                        source: 'TP_RULE',
-                        segmentId: rule.targetSegment
-                    });
-                }
-                break;
-
-            case 'PROHIBITED_SEGMENT':
-                if (segmentsById[rule.targetSegment]) {
-                    segmentsById[rule.targetSegment].forEach(line => {
-                        issues.push({
-                            code: 'TP_FORBIDDEN_SEG',
-                            message: rule.message || `Segment ${rule.targetSegment} is prohibited by TP rules.`,
-                            severity: rule.severity,
-                            line: line.lineNumber,
-                            source: 'TP_RULE',
-                            segmentId: rule.targetSegment
-                        });
-                    });
-                }
-                break;
-
-            case 'MAX_LENGTH':
-                if (segmentsById[rule.targetSegment] && rule.targetElement && rule.params?.length) {
-                    segmentsById[rule.targetSegment].forEach(line => {
-                        const token = line.tokens.find(t => t.index === rule.targetElement);
-                        if (token && token.value.length > rule.params.length) {
-                            issues.push({
-                                code: 'TP_LEN_ERR',
-                                message: rule.message || `${rule.targetSegment}${rule.targetElement} exceeds max length of ${rule.params.length}`,
-                                severity: rule.severity,
-                                line: line.lineNumber,
-                                source: 'TP_RULE',
-                                segmentId: rule.targetSegment,
-                                elementId: `${rule.targetSegment}${rule.targetElement}`
-                            });
-                        }
-                    });
-                }
-                break;
-
-            case 'ALLOWED_CODES':
-                if (segmentsById[rule.targetSegment] && rule.targetElement && rule.params?.codes) {
-                    const allowed = new Set(rule.params.codes);
-                    segmentsById[rule.targetSegment].forEach(line => {
-                        const token = line.tokens.find(t => t.index === rule.targetElement);
-                        if (token && !allowed.has(token.value)) {
-                            issues.push({
-                                code: 'TP_INVALID_CODE',
-                                message: rule.message || `Invalid code '${token.value}' in ${rule.targetSegment}${rule.targetElement}. Allowed: ${rule.params.codes.join(', ')}`,
-                                severity: rule.severity,
-                                line: line.lineNumber,
-                                source: 'TP_RULE',
-                                segmentId: rule.targetSegment,
-                                elementId: `${rule.targetSegment}${rule.targetElement}`
-                            });
-                        }
-                    });
-                }
-                break;
-
-            case 'CONDITIONAL_EXISTS':
-                // If Target Exists, Param Segment Must Exist
-                if (segmentsById[rule.targetSegment] && rule.params?.dependentSegment) {
-                    if (!segmentsById[rule.params.dependentSegment]) {
-                        issues.push({
-                            code: 'TP_CONDITIONAL',
-                            message: rule.message || `If ${rule.targetSegment} exists, ${rule.params.dependentSegment} is required.`,
-                            severity: rule.severity,
-                            source: 'TP_RULE',
-                            segmentId: rule.targetSegment
-                        });
-                    }
-                }
-                break;
+      if (rule.type === 'REGEX' && rule.params?.pattern) {
+        try {
+          compilePattern(rule.params.pattern, rule.params.flags);
+        } catch (e: any) {
+          invalidRule(rule, `Rule for ${elementId(rule) || rule.targetSegment}: ${e.message}`);
+          return;
         }
+      }
+
+      let expression: RuleExpression | undefined;
+      if (rule.type === 'CUSTOM_BUSINESS_LOGIC') {
+        if (!rule.params?.expression?.trim()) return;
+        try {
+          expression = parseExpression(rule.params.expression);
+        } catch (e: any) {
+          invalidRule(rule, `Business rule expression: ${e.message}`);
+          return;
+        }
+      }
+
+      let contexts: RuleContext[];
+      if (rule.scopePath?.trim()) {
+        try {
+          const path = parseRulePath(rule.scopePath);
+          contexts = transactions.flatMap(transaction => selectRuleContexts(transaction, path).map(c => ({
+            lines: c.segments.map(s => s.line),
+            anchor: c.start.line,
+            transaction
+          })));
+        } catch (e: any) {
+          invalidRule(rule, `Rule for ${elementId(rule) || rule.targetSegment}: ${e.message}`);
+          return;
+        }
+      } else if (rule.type === 'SEGMENT_COUNT' || rule.type === 'UNIQUE_VALUES') {
+        contexts = transactionContexts(rule.params?.scope);
+      } else if (rule.type === 'DATE_WINDOW' || rule.type === 'CUSTOM_BUSINESS_LOGIC') {
+        contexts = transactionContexts();
+      } else {
+        contexts = [{ lines: fileLines }];
+      }
+
+      try {
+        contexts.forEach(context => issues.push(...checkRule(rule, context, today, expression)));
+      } catch (e: any) {
+        invalidRule(rule, `Rule for ${elementId(rule) || rule.targetSegment}: ${e.message}`);
+      }
     });
 
     return issues;
@@ -1,6 +1,8 @@
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { EdiFile } from '../types';
+import { EdiFile, RuleSetVersion, StoredControlNumbers, TPRuleSet, TradingPartner } from '../types';
+import { detectEdiStandard } from '../utils/ediDetection';
+import { ediParseService } from './ediParseService';
 
 interface EdiStudioDB extends DBSchema {
   files: {
@@ -11,13 +13,43 @@ interface EdiStudioDB extends DBSchema {
     key: string;
     value: any;
   };
+  controlNumbers: {
+    key: string;
+    value: StoredControlNumbers;
+  };
+  ruleSets: {
+    key: string;
+    value: TPRuleSet;
+  };
+  ruleSetVersions: {
+    key: [string, string];
+    value: RuleSetVersion;
+    indexes: { 'by-set': string };
+  };
+  tradingPartners: {
+    key: string;
+    value: TradingPartner;
+  };
 }
 
 const DB_NAME = 'edi_studio_db';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
+
+// Saves come with every keystroke; control numbers are indexed once a file has been left alone this long
+const INDEX_DELAY_MS = 1000;
+
+// Parsed in the worker, or taken from the editor's last validation of the same content
+const indexEntry = async (file: EdiFile): Promise<StoredControlNumbers> => ({
+  fileId: file.id,
+  fileName: file.name,
+  uses: detectEdiStandard(file.content || '') === 'UNKNOWN' ? [] : await ediParseService.controlNumbers(file.content)
+});
 
 class StorageService {
   private dbPromise: Promise<IDBPDatabase<EdiStudioDB>>;
+  private controlNumberIndex: Promise<Map<string, StoredControlNumbers>> | null = null;
+  private unindexed = new Map<string, EdiFile>();
+  private indexTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.dbPromise = openDB<EdiStudioDB>(DB_NAME, DB_VERSION, {
@@ -28,6 +60,22 @@ class StorageService {
         if (!db.objectStoreNames.contains('settings')) {
           db.createObjectStore('settings', { keyPath: 'key' });
         }
+        // v2: ISA13 / GS06 (UNB05 / UNG05) of each file, for duplicate detection across files
+        if (!db.objectStoreNames.contains('controlNumbers')) {
+          db.createObjectStore('controlNumbers', { keyPath: 'fileId' });
+        }
+        // v3: trading partner rule sets and their published versions
+        if (!db.objectStoreNames.contains('ruleSets')) {
+          db.createObjectStore('ruleSets', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('ruleSetVersions')) {
+          const versions = db.createObjectStore('ruleSetVersions', { keyPath: ['setId', 'version'] });
+          versions.createIndex('by-set', 'setId');
+        }
+        // v4: trading partner profiles
+        if (!db.objectStoreNames.contains('tradingPartners')) {
+          db.createObjectStore('tradingPartners', { keyPath: 'id' });
+        }
       },
     });
   }
@@ -39,6 +87,7 @@ class StorageService {
     // Ensure we don't save ephemeral UI state if we can avoid it, 
     // but saving the whole object is easiest for now.
     await db.put('files', file);
+    this.scheduleIndex([file]);
   }
 
   async saveAllFiles(files: EdiFile[]): Promise<void> {
@@ -47,6 +96,7 @@ class StorageService {
     const store = tx.objectStore('files');
     await Promise.all(files.map(file => store.put(file)));
     await tx.done;
+    this.scheduleIndex(files);
   }
 
   async getAllFiles(): Promise<EdiFile[]> {
@@ -56,12 +106,128 @@ class StorageService {
 
   async deleteFile(id: string): Promise<void> {
     const db = await this.dbPromise;
+    this.unindexed.delete(id);
     await db.delete('files', id);
+    await db.delete('controlNumbers', id);
+    (await this.loadControlNumberIndex()).delete(id);
   }
 
   async clearAllFiles(): Promise<void> {
     const db = await this.dbPromise;
     await db.clear('files');
+    await db.clear('controlNumbers');
+    this.unindexed.clear();
+    this.controlNumberIndex = null;
+  }
+
+  // --- Control Number Index ---
+
+  /**
+   * Interchange and group control numbers of every stored file. Files saved before the
+   * index existed are indexed on first use; the latest saves may not be in it yet.
+   */
+  async getControlNumberIndex(): Promise<StoredControlNumbers[]> {
+    return [...(await this.loadControlNumberIndex()).values()];
+  }
+
+  private loadControlNumberIndex(): Promise<Map<string, StoredControlNumbers>> {
+    if (!this.controlNumberIndex) {
+      this.controlNumberIndex = (async () => {
+        const db = await this.dbPromise;
+        const index = new Map((await db.getAll('controlNumbers')).map(entry => [entry.fileId, entry]));
+        const missing = (await db.getAll('files')).filter(file => !index.has(file.id));
+        for (const file of missing) {
+          const entry = await indexEntry(file);
+          await db.put('controlNumbers', entry);
+          index.set(file.id, entry);
+        }
+        return index;
+      })();
+      this.controlNumberIndex.catch(() => { this.controlNumberIndex = null; });
+    }
+    return this.controlNumberIndex;
+  }
+
+  private scheduleIndex(files: EdiFile[]) {
+    files.forEach(file => this.unindexed.set(file.id, file));
+    if (this.indexTimer) clearTimeout(this.indexTimer);
+    this.indexTimer = setTimeout(() => {
+      this.indexTimer = null;
+      const pending = [...this.unindexed.values()];
+      this.unindexed.clear();
+      this.indexControlNumbers(pending).catch(err => console.error('Failed to index control numbers', err));
+    }, INDEX_DELAY_MS);
+  }
+
+  private async indexControlNumbers(files: EdiFile[]): Promise<void> {
+    const db = await this.dbPromise;
+    const index = await this.loadControlNumberIndex();
+    for (const file of files) {
+      const entry = await indexEntry(file);
+      // Deleted while it was being parsed
+      if (!(await db.getKey('files', file.id))) continue;
+      await db.put('controlNumbers', entry);
+      index.set(file.id, entry);
+    }
+  }
+
+  // --- Rule Set Library ---
+
+  async getAllRuleSets(): Promise<TPRuleSet[]> {
+    const db = await this.dbPromise;
+    return await db.getAll('ruleSets');
+  }
+
+  /**
+   * Stores the current rule sets. Sets no longer in the list are deleted with their versions.
+   */
+  async saveRuleSets(sets: TPRuleSet[]): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['ruleSets', 'ruleSetVersions'], 'readwrite');
+    const store = tx.objectStore('ruleSets');
+    const versions = tx.objectStore('ruleSetVersions');
+    const keep = new Set(sets.map(set => set.id));
+    const removed = (await store.getAllKeys()).filter(id => !keep.has(id));
+    for (const id of removed) {
+      await store.delete(id);
+      for (const key of await versions.index('by-set').getAllKeys(id)) await versions.delete(key);
+    }
+    await Promise.all(sets.map(set => store.put(set)));
+    await tx.done;
+  }
+
+  async saveRuleSetVersion(version: RuleSetVersion): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('ruleSetVersions', version);
+  }
+
+  /**
+   * Published versions of a rule set, newest first.
+   */
+  async getRuleSetVersions(setId: string): Promise<RuleSetVersion[]> {
+    const db = await this.dbPromise;
+    const versions = await db.getAllFromIndex('ruleSetVersions', 'by-set', setId);
+    return versions.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  // --- Trading Partners ---
+
+  async getAllTradingPartners(): Promise<TradingPartner[]> {
+    const db = await this.dbPromise;
+    return await db.getAll('tradingPartners');
+  }
+
+  /**
+   * Stores the current partner profiles, deleting the ones no longer in the list.
+   */
+  async saveTradingPartners(partners: TradingPartner[]): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('tradingPartners', 'readwrite');
+    const keep = new Set(partners.map(p => p.id));
+    const removed = (await tx.store.getAllKeys()).filter(id => !keep.has(id));
+    for (const id of removed) await tx.store.delete(id);
+    await Promise.all(partners.map(p => tx.store.put(p)));
+    await tx.done;
   }
 
   // --- Settings Operations ---
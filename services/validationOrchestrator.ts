@@ -1,15 +1,63 @@
 
-import { OrchestratedResult, ValidationIssue, TPRuleSet } from '../types';
+import { OrchestratedResult, ValidationIssue, TPRuleSet, TradingPartner, PartnerMatch, EdiDocument, EdiInterchangeNode } from '../types';
 import { validateRealTime } from '../utils/ediValidator';
+import { documentDictionaries, parseEdiDocument } from '../utils/ediParser';
+import { detectDelimiters } from '../utils/ediDetection';
+import { checkPartnerAgreement, findPartner, partnerRuleSets } from '../utils/tradingPartners';
+import { dictionaryKey, schemaRegistry } from '../data/schemaRegistry';
 import { validateEdiContent } from './geminiService';
 import { StediValidationService } from './stediValidationService';
 import { rulesEngine } from './rulesEngine';
 
+interface PartnerInterchange {
+  match: PartnerMatch;
+  interchange: EdiInterchangeNode;
+}
+
+// Interchanges sent by or to a known trading partner
+const matchPartners = (doc: EdiDocument, tradingPartners: TradingPartner[] = []): PartnerInterchange[] =>
+  doc.interchanges.flatMap(interchange => {
+    const match = tradingPartners.length > 0 ? findPartner(tradingPartners, interchange) : undefined;
+    return match ? [{ match, interchange }] : [];
+  });
+
+// Active rule sets run on the whole file; a partner's sets only see the transactions of the
+// partner's interchanges, by type. Sets that are already active aren't run twice.
+const runRuleSets = (ediContent: string, ruleSets: TPRuleSet[], matched: PartnerInterchange[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  ruleSets.forEach(set => {
+    if (!set.isActive) return;
+    issues.push(...rulesEngine.validate(ediContent, set.rules));
+  });
+  matched.forEach(({ match: { partner }, interchange }) => {
+    const types = new Set(interchange.groups.flatMap(g => g.transactions.map(t => t.type)));
+    types.forEach(type => {
+      partnerRuleSets(partner, ruleSets, type).forEach(set => {
+        if (set.isActive) return;
+        issues.push(...rulesEngine.validate(ediContent, set.rules, new Date(), t =>
+          t.type === type && t.startLine >= interchange.startLine && t.startLine <= interchange.endLine));
+      });
+    });
+  });
+  return issues;
+};
+
 /**
  * Validation Orchestrator
  * Combines Local Regex, AI Logic, External API, and Trading Partner Rules.
+ * Interchanges from a known trading partner get the partner's rule sets for each transaction
+ * type, whether or not those sets are switched on by hand, and are validated against the
+ * dictionary of the partner's version instead of the one their envelopes declare.
  */
 export const validationOrchestrator = {
+
+  /**
+   * The trading partner rule issues validate() reports for the file, without the other sources.
+   * Acknowledgments use them, so a transaction the rules reject is rejected in the 997 / 999 too.
+   */
+  ruleIssues(ediContent: string, ruleSets: TPRuleSet[], tradingPartners?: TradingPartner[]): ValidationIssue[] {
+    return runRuleSets(ediContent, ruleSets, matchPartners(parseEdiDocument(ediContent), tradingPartners));
+  },
   
   async validate(
     ediContent: string, 
@@ -18,15 +66,34 @@ export const validationOrchestrator = {
       useStedi?: boolean; 
       stediConfig?: any;
       activeRuleSets?: TPRuleSet[];
+      tradingPartners?: TradingPartner[];
       aiProvider?: 'gemini' | 'deepseek';
     }
   ): Promise<OrchestratedResult> {
     
     const issues: ValidationIssue[] = [];
     const provider = options.aiProvider || 'gemini';
-    
+    const ruleSets = options.activeRuleSets || [];
+
+    // 0. Trading Partner Lookup (by envelope IDs)
+    const doc = parseEdiDocument(ediContent);
+    const matched = matchPartners(doc, options.tradingPartners);
+    matched.forEach(({ match, interchange }) => {
+        issues.push(...checkPartnerAgreement(match, interchange, detectDelimiters(ediContent)));
+    });
+    // A partner's interchanges are checked against the agreed version's dictionary, whatever
+    // GS08 / UNH declares (checkPartnerAgreement warns about the difference)
+    const dictionaryOverrides: Record<number, string> = {};
+    matched.forEach(({ match }) => {
+        const key = dictionaryKey(match.partner.standard, match.partner.version);
+        if (key) dictionaryOverrides[match.interchangeLine] = key;
+    });
+    // The dictionaries the envelopes declare (and the agreed ones) before checking elements,
+    // so results don't depend on what the registry happened to hold already
+    await schemaRegistry.ensureLoaded([...documentDictionaries(doc), ...Object.values(dictionaryOverrides)]);
+
     // 1. Local Syntax Validation (Fast, Deterministic)
-    const localResult = validateRealTime(ediContent);
+    const localResult = validateRealTime(ediContent, matched.length > 0 ? { dictionaryOverrides } : undefined);
     localResult.errors.forEach(err => {
       issues.push({
         code: err.code,
@@ -38,13 +105,7 @@ export const validationOrchestrator = {
     });
 
     // 2. Trading Partner Rules
-    if (options.activeRuleSets && options.activeRuleSets.length > 0) {
-        options.activeRuleSets.forEach(set => {
-            if (!set.isActive) return;
-            const ruleIssues = rulesEngine.validate(ediContent, set.rules);
-            issues.push(...ruleIssues);
-        });
-    }
+    issues.push(...runRuleSets(ediContent, ruleSets, matched));
 
     // 3. AI Logic Validation (Context Aware)
     if (options.useAi) {
@@ -94,6 +155,7 @@ export const validationOrchestrator = {
       isValid: errorCount === 0,
       score,
       issues,
+      partners: matched.map(m => m.match),
       metrics: {
         segmentCount: ediContent.split("'").length + ediContent.split("~").length,
         errorCount,
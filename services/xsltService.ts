@@ -42,12 +42,14 @@ export const generateXslt = (schema: ErpSchema, rules: MappingRule[]): string =>
       // Leaf Node (Field)
       if (rule) {
         // We have a mapping!
-        // Source Path format assumed: SEGMENT/INDEX e.g. "BEG/03"
+        // Source Path format assumed: SEGMENT/INDEX[/COMPONENT] e.g. "BEG/03" or "SLN/05/1"
         // Convert "BEG/03" to XSLT path "BEG/BEG03" assuming simple XML parser
         const parts = rule.sourcePath.split('/');
         const segment = parts[0];
         const element = parts[1];
-        const xpath = `//${segment}/${segment}${element}`; // Simple heuristic
+        const component = parts[2];
+        let xpath = `//${segment}/${segment}${element}`; // Simple heuristic
+        if (component) xpath += `/${segment}${element}-${component}`;
 
         xslt += `${indent}<${node.name}>\n`;
         xslt += `${indent}  <xsl:value-of select="${xpath}"/>\n`;
@@ -47,6 +47,7 @@ export interface OrchestratedResult {
   isValid: boolean;
   score: number;
   issues: ValidationIssue[];
+  partners?: PartnerMatch[]; // Trading partners found from the envelopes
   metrics: {
     segmentCount: number;
     errorCount: number;
@@ -111,7 +112,7 @@ export enum AppMode {
   AI_STUDIO = 'AI_STUDIO',
 }
 
-export type PanelTab = 'chat' | 'validate' | 'tools' | 'json' | 'rules' | 'structure';
+export type PanelTab = 'chat' | 'validate' | 'tools' | 'json' | 'rules' | 'structure' | 'acks';
 
 export interface ComparisonResult {
   diffAnalysis: string;
@@ -124,6 +125,13 @@ export interface AppSettings {
   theme: 'light' | 'dark'; 
   aiModel: 'balanced' | 'speed' | 'power';
   aiProvider: 'gemini' | 'deepseek';
+  dateChecks?: DateCheckSettings;
+}
+
+export interface DateCheckSettings {
+  enabled: boolean; // Business date windows (ship date not before PO date...)
+  maxPastDays?: number; // Document dates older than this are flagged
+  maxFutureDays?: number; // Document dates further ahead than this are flagged
 }
 
 // --- SMART EDITOR TYPES ---
@@ -133,6 +141,7 @@ export interface SegmentSchema {
   name: string;
   purpose: string;
   elements: ElementSchema[];
+  syntax?: string[]; // X12 syntax notes, e.g. "P0304", "R0203", "C0403" (see utils/syntaxNotes)
 }
 
 export interface ElementSchema {
@@ -143,13 +152,20 @@ export interface ElementSchema {
   min: number;
   max: number;
   qualifiers?: Record<string, string>; // Map of code -> meaning
+  compositeId?: string; // e.g., C001, C507 (composite data elements only)
+  components?: ElementSchema[]; // Component elements; index is the 1-based position in the composite
+  requirement?: 'M' | 'O' | 'X'; // Mandatory, optional, or relational (governed by a syntax note). Defaults to O
 }
 
 export interface EdiToken {
-  type: 'SEGMENT_ID' | 'ELEMENT' | 'DELIMITER' | 'TERMINATOR';
+  type: 'SEGMENT_ID' | 'ELEMENT' | 'COMPONENT' | 'DELIMITER' | 'TERMINATOR';
   value: string;
-  index: number; // Index in the segment array (0=ID, 1=Elem1)
-  fullId?: string; // e.g., ISA06
+  index: number; // Index in the segment array (0=ID, 1=Elem1). COMPONENT tokens keep their element's index
+  offset?: number; // Character offset within ParsedLine.raw (release characters included)
+  fullId?: string; // e.g., ISA06, or SLN05-1 / C507-1 for components
+  componentIndex?: number; // 1-based position within a composite (COMPONENT only)
+  repetitionIndex?: number; // 0-based occurrence within a repeating element (COMPONENT only)
+  subTokens?: EdiToken[]; // COMPONENT and DELIMITER tokens of a composite or repeated element
   schema?: ElementSchema | SegmentSchema;
   hasError?: boolean;
   errorMessage?: string;
@@ -164,6 +180,7 @@ export interface ParsedLine {
   isLoopStart: boolean;
   tokens: EdiToken[];
   loopEndLine?: number; // If this is a start, where does it end?
+  dictionary?: string; // Schema registry key the line was resolved against, e.g. "X12/004010"
   errors?: LineError[];
 }
 
@@ -173,6 +190,8 @@ export interface LineError {
   message: string;
   severity: 'ERROR' | 'WARNING';
   tokenIndex?: number; // Which element caused it (-1 for whole line)
+  componentIndex?: number; // Component within the element, for composite values
+  elementError?: ElementErrorKind; // Set on VAL_ERR / VAL_WARN; drives acknowledgment error codes
   
   // AI Fix Extensions
   fix?: string;
@@ -181,17 +200,162 @@ export interface LineError {
   range?: { start: number; end: number };
 }
 
+export type ElementErrorKind = 'TOO_SHORT' | 'TOO_LONG' | 'INVALID_DATE' | 'INVALID_TIME' | 'INVALID_NUMBER' | 'INVALID_CODE';
+
 export interface EditorValidationResult {
   isValid: boolean;
   errors: LineError[];
 }
 
+// --- PARSE PIPELINE TYPES ---
+
+export interface ParseOptions {
+  dictionaryOverrides?: Record<number, string>; // Interchange header line number -> dictionary key to use instead of GS08 / UNG / UNH
+}
+
+export interface ValidationProgress {
+  phase: 'PARSE' | 'VALIDATE';
+  done: number; // Transaction sets validated so far
+  total: number;
+}
+
+export interface DocumentValidationResult extends EditorValidationResult {
+  revalidated: number; // Transaction sets validated in this run
+  reused: number; // Transaction sets whose results came from the previous run
+}
+
+// A validation run together with what the editor shows from the same parse, so the main thread doesn't parse again
+export interface ParsedValidationResult extends DocumentValidationResult {
+  lines: ParsedLine[];
+  dictionaries: string[]; // Schema registry keys the lines were resolved against
+  controlNumbers: ControlNumberUse[];
+}
+
+// Envelope outline for the interchange navigator; line numbers are 1-based
+export interface TransactionOutline {
+  type: string;
+  controlNumber?: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface GroupOutline {
+  headerId?: string; // GS / UNG (absent for implicit groups)
+  functionalId?: string;
+  controlNumber?: string;
+  version?: string;
+  startLine: number;
+  transactions: TransactionOutline[];
+}
+
+export interface InterchangeOutline {
+  headerId?: string; // ISA / UNB (absent for implicit interchanges)
+  controlNumber?: string;
+  sender?: string;
+  receiver?: string;
+  startLine: number;
+  groups: GroupOutline[];
+}
+
+// HL tree with segment references reduced to line numbers and ids
+export interface HlOutline {
+  id: string;
+  parentId?: string;
+  level: string;
+  levelName?: string;
+  orphan?: boolean;
+  lineNumber: number;
+  segmentIds: string[];
+  children: HlOutline[];
+}
+
+export interface StructureView {
+  segments: { line: ParsedLine; depth: number; loopPath: string }[];
+  hierarchies: { type: string; controlNumber?: string; startLine: number; roots: HlOutline[] }[];
+}
+
+export interface SourceTreeView {
+  transactionSet: string; // First ST01 / UNH S009-1, 'Unknown' if none
+  segments: { id: string; loopPath: string; elements: { id: string; value: string; path: string }[] }[];
+}
+
+// Read-only views of a document that side panels request from the parse worker
+export interface DocumentViews {
+  OUTLINE: InterchangeOutline[];
+  STRUCTURE: StructureView;
+  SOURCE_TREE: SourceTreeView;
+  JSON: any;
+}
+
+export type DocumentViewKind = keyof DocumentViews;
+
+export type ParseWorkerRequest =
+  | { id: number; type: 'VALIDATE'; content: string }
+  | { id: number; type: 'VIEW'; kind: DocumentViewKind; content: string }
+  | { id: number; type: 'CONTROL_NUMBERS'; content: string }
+  | { id: number; type: 'RECONCILE'; files: ReconciliationFile[]; now: Date; overdueHours: number }
+  | { id: number; type: 'REGISTER_SCHEMAS'; bundle: SchemaBundle }
+  | { id: number; type: 'CONFIGURE'; dateWindows: DateWindow[] };
+
+export type ParseWorkerResponse =
+  | { id: number; type: 'PROGRESS'; progress: ValidationProgress }
+  | { id: number; type: 'RESULT'; result: ParsedValidationResult }
+  | { id: number; type: 'CONTROL_NUMBERS'; uses: ControlNumberUse[] }
+  | { id: number; type: 'VIEW'; view: DocumentViews[DocumentViewKind] }
+  | { id: number; type: 'RECONCILED'; results: ReconciledTransaction[] }
+  | { id: number; type: 'ERROR'; message: string };
+
+// --- SCHEMA REGISTRY TYPES ---
+
+// Element override inside a dictionary pack; merged by index onto the base definition
+export type DictionaryElement = Partial<ElementSchema> & { index: number };
+
+export interface DictionarySegment {
+  name?: string;
+  purpose?: string;
+  elements?: DictionaryElement[];
+  syntax?: string[]; // Replaces the base segment's syntax notes when given
+}
+
+/**
+ * Version-specific dictionary loaded from /dictionaries/*.json (or registered at runtime).
+ * Segments only list what differs from the base STANDARD_SEGMENTS definitions;
+ * segments missing from the base must be given in full.
+ */
+export interface DictionaryPack {
+  standard: 'X12' | 'EDIFACT';
+  version: string; // "004010", "005010X222A1", "D96A"
+  extends?: string; // Version whose pack this one layers on, e.g. D01B extends D96A
+  description?: string;
+  composites?: Record<string, ElementSchema[]>;
+  segments: Record<string, DictionarySegment>;
+}
+
+export interface RegisteredTransaction {
+  standard: 'X12' | 'EDIFACT';
+  version?: string;
+  definition: TransactionDef;
+}
+
+/**
+ * Dictionaries and transaction structures imported from an external spec (e.g. an OpenEDI bundle).
+ * Imported segments are complete definitions and take precedence over shipped packs.
+ */
+export interface SchemaBundle {
+  source: string; // File the spec was imported from
+  packs: DictionaryPack[];
+  transactions: RegisteredTransaction[];
+  warnings: string[];
+}
+
 // --- STRUCTURE VALIDATION TYPES ---
 
 export interface SegmentRule {
   id: string;
+  name?: string; // Loop / segment group name used in paths, e.g. "SG2" (defaults to id)
   req: boolean; // Mandatory
-  repeat?: boolean; // Can repeat
+  maxUse?: number; // Max consecutive occurrences of a segment (default 1, Infinity for ">1")
+  loopRepeat?: number; // Max iterations of a loop (default 1, Infinity for ">1")
   loop?: boolean; // Is this a loop starter?
   children?: SegmentRule[]; // If loop, what's inside?
 }
@@ -199,6 +363,179 @@ export interface SegmentRule {
 export interface TransactionDef {
   type: string; // "850", "810"
   structure: SegmentRule[];
+  hierarchy?: HlGrammar; // HL level grammar; defaults to HL_GRAMMARS[type]
+}
+
+/**
+ * Allowed HL level transitions for a hierarchical transaction set, keyed by HL03 level code.
+ */
+export interface HlGrammar {
+  name: string; // e.g. "856 Ship Notice (S-O-T-P-I)"
+  levels: Record<string, string>; // HL03 code -> level name, e.g. S -> Shipment
+  roots: string[]; // Levels allowed without a parent (HL02 empty)
+  children: Record<string, string[]>; // Levels allowed directly under each level
+}
+
+export interface HlNode {
+  id: string; // HL01
+  parentId?: string; // HL02
+  level: string; // HL03
+  levelName?: string;
+  segment: EdiSegmentNode; // The HL segment itself
+  segments: EdiSegmentNode[]; // Segments following the HL, up to the next one
+  children: HlNode[];
+  orphan?: boolean; // HL02 refers to no preceding HL; shown at the top level
+}
+
+/**
+ * Where a date lives in a transaction: an element (or component) of a segment, optionally only
+ * on occurrences whose qualifier matches, e.g. DTM with DTM01 = 010 or EDIFACT DTM with C507-1 = 137.
+ */
+export interface DateRef {
+  label: string; // e.g. "Requested ship date (DTM*010)"
+  segment: string;
+  element: number;
+  component?: number;
+  qualifier?: { element: number; component?: number; value: string };
+  formatComponent?: number; // EDIFACT: component of the same element holding the 2379 format code
+}
+
+/**
+ * A business rule on dates: a date must not precede another one in the same transaction,
+ * and/or must lie within a number of days of the validation date.
+ */
+export interface DateWindow {
+  id: string;
+  name: string;
+  transactionTypes: string[];
+  date: DateRef;
+  notBefore?: DateRef;
+  maxPastDays?: number;
+  maxFutureDays?: number;
+  severity: 'ERROR' | 'WARNING';
+}
+
+// --- DOCUMENT MODEL TYPES ---
+// Hierarchical view of a parsed file: Interchange -> Group -> Transaction -> Loop -> Segment -> Element
+
+export interface EdiSegmentNode {
+  kind: 'SEGMENT';
+  id: string;
+  lineIndex: number; // 0-based index into EdiDocument.lines
+  line: ParsedLine;
+  elements: EdiToken[]; // ELEMENT tokens of the line
+  unexpected?: boolean; // Not placed by the transaction definition
+}
+
+export interface EdiLoopNode {
+  kind: 'LOOP';
+  id: string; // Loop starter segment, e.g. N1
+  path: string; // e.g. PO1/SLN
+  startLine: number;
+  endLine: number;
+  children: EdiBodyNode[];
+}
+
+export type EdiBodyNode = EdiSegmentNode | EdiLoopNode;
+
+export interface EdiTransactionNode {
+  kind: 'TRANSACTION';
+  type: string; // ST01 or UNH S009-1, '' if unknown
+  controlNumber?: string;
+  header?: EdiSegmentNode; // ST / UNH
+  trailer?: EdiSegmentNode; // SE / UNT
+  definition?: TransactionDef;
+  children: EdiBodyNode[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface EdiGroupNode {
+  kind: 'GROUP';
+  functionalId?: string; // GS01
+  controlNumber?: string;
+  version?: string; // GS08
+  header?: EdiSegmentNode; // GS / UNG (absent for implicit groups)
+  trailer?: EdiSegmentNode; // GE / UNE
+  transactions: EdiTransactionNode[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface EdiInterchangeNode {
+  kind: 'INTERCHANGE';
+  controlNumber?: string;
+  sender?: string;
+  receiver?: string;
+  serviceAdvice?: EdiSegmentNode; // UNA
+  header?: EdiSegmentNode; // ISA / UNB (absent for implicit interchanges)
+  trailer?: EdiSegmentNode; // IEA / UNZ
+  groups: EdiGroupNode[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface EdiDocument {
+  standard: 'X12' | 'EDIFACT' | 'UNKNOWN';
+  lines: ParsedLine[];
+  interchanges: EdiInterchangeNode[];
+}
+
+/**
+ * An interchange or group control number as used in a file. Uniqueness is per sender/receiver pair.
+ */
+export interface ControlNumberUse {
+  element: 'ISA13' | 'GS06' | 'UNB05' | 'UNG05';
+  controlNumber: string;
+  sender?: string;
+  receiver?: string;
+  line: number;
+}
+
+// Control numbers of one stored file (storageService index)
+export interface StoredControlNumbers {
+  fileId: string;
+  fileName: string;
+  uses: ControlNumberUse[];
+}
+
+// --- ACKNOWLEDGMENT RECONCILIATION TYPES ---
+export type AckStatus = 'ACCEPTED' | 'PARTIAL' | 'REJECTED' | 'MISSING';
+
+// What reconciliation reads of a stored file (all that is sent to the parse worker)
+export type ReconciliationFile = Pick<EdiFile, 'id' | 'name' | 'content' | 'lastModified' | 'mimeType'>;
+
+/**
+ * An error reported back by a 997 / 999 (AK3/AK4, IK3/IK4), CONTRL (UCS/UCD) or TA1,
+ * located in the sent file where the position allows it.
+ */
+export interface AckErrorPosition {
+  segmentId?: string;
+  position?: number; // Segment position in the transaction set / message, header = 1
+  element?: number;
+  component?: number;
+  code: string; // Syntax error or TA1 note code as received
+  line?: number; // Line in the sent file
+}
+
+/**
+ * A sent transaction set / message and what its acknowledgment said about it.
+ */
+export interface ReconciledTransaction {
+  fileId: string;
+  fileName: string;
+  type: string; // ST01 / UNH message type
+  interchangeControl: string; // ISA13 / UNB05
+  groupControl?: string; // GS06 / UNG05
+  transactionControl: string; // ST02 / UNH01
+  sender?: string;
+  receiver?: string;
+  line: number; // ST / UNH line
+  sentAt?: Date; // Interchange date and time, else the file's last modification
+  status: AckStatus;
+  overdue: boolean; // MISSING for longer than the allowed turnaround
+  ack?: { fileId: string; fileName: string; type: '997' | '999' | 'TA1' | 'CONTRL'; code: string };
+  errors: AckErrorPosition[];
 }
 
 // --- DIFF ENGINE TYPES ---
@@ -256,24 +593,47 @@ export interface StediConfig {
 
 // --- TRADING PARTNER RULES ---
 
-export type RuleType = 
-  | 'REQUIRED_SEGMENT' 
-  | 'PROHIBITED_SEGMENT' 
-  | 'MAX_LENGTH' 
-  | 'ALLOWED_CODES' 
-  | 'CONDITIONAL_EXISTS'
-  | 'CUSTOM_BUSINESS_LOGIC';
+// Where count and uniqueness rules look: each transaction set / message, or the whole file
+export type RuleScope = 'TRANSACTION' | 'FILE';
+
+/**
+ * Parameters of each rule type. Rules without parameters only use the target segment / element.
+ */
+export interface RuleParamsMap {
+  REQUIRED_SEGMENT: Record<string, never>;
+  PROHIBITED_SEGMENT: Record<string, never>;
+  MAX_LENGTH: { length: number };
+  ALLOWED_CODES: { codes: string[] };
+  CONDITIONAL_EXISTS: { dependentSegment: string };
+  CUSTOM_BUSINESS_LOGIC: { expression: string };
+  REGEX: { pattern: string; flags?: string };
+  ELEMENT_REQUIRED: Record<string, never>;
+  MIN_LENGTH: { length: number };
+  VALUE_RANGE: { min?: number; max?: number };
+  SEGMENT_COUNT: { min?: number; max?: number; scope?: RuleScope };
+  UNIQUE_VALUES: { scope?: RuleScope };
+  DATE_WINDOW: {
+    qualifier?: { element: number; value: string }; // e.g. DTM01 = 002
+    maxPastDays?: number;
+    maxFutureDays?: number;
+    notBefore?: { segment: string; element: number; qualifier?: { element: number; value: string } };
+  };
+}
 
-export interface TPRule {
+export type RuleType = keyof RuleParamsMap;
+
+interface TPRuleBase {
   id: string;
-  type: RuleType;
   targetSegment: string;
   targetElement?: number; // 1-based index
-  params?: any; // e.g. { length: 10 } or { codes: ['A','B'] }
+  scopePath?: string; // Checked within each loop / segment it selects, e.g. "N1[01=ST]" (see utils/rulePath)
   message: string;
   severity: 'ERROR' | 'WARNING';
 }
 
+// Discriminated on `type`, so `params` is typed for each rule type
+export type TPRule = { [T in RuleType]: TPRuleBase & { type: T; params?: RuleParamsMap[T] } }[RuleType];
+
 export interface TPRuleSet {
   id: string;
   name: string; // e.g. "Walmart 850 Specs"
@@ -281,4 +641,105 @@ export interface TPRuleSet {
   rules: TPRule[];
   rawSpecText?: string; // Original text for reference
   isActive: boolean;
+  version?: string; // Semantic version of the last published snapshot, e.g. "1.2.0"
+  changelog?: RuleSetChangelogEntry[]; // Newest first
+  updatedAt?: string; // ISO timestamp of the last edit
+  tests?: RuleSetTestCase[]; // Sample documents the set is checked against
+}
+
+export interface ExpectedIssue {
+  code: string; // e.g. TP_INVALID_CODE
+  line?: number; // Any line when unset
+}
+
+/**
+ * A sample document with the outcome the rule set should produce: no issues at all, or the
+ * listed issues (and, unless allowOtherIssues is set, nothing else).
+ */
+export interface RuleSetTestCase {
+  id: string;
+  name: string;
+  content: string;
+  expect: 'CLEAN' | 'ISSUES';
+  expectedIssues: ExpectedIssue[];
+  allowOtherIssues?: boolean;
+}
+
+export interface RuleSetTestResult {
+  testId: string;
+  passed: boolean;
+  issues: ValidationIssue[]; // ERROR and WARNING issues reported for the sample
+  missing: ExpectedIssue[]; // Expected but not reported
+  unexpected: ValidationIssue[]; // Reported but not expected
+  error?: string; // The sample couldn't be validated
+}
+
+export interface RuleSetChangelogEntry {
+  version: string;
+  date: string; // ISO timestamp
+  summary: string;
+}
+
+// Snapshot of a rule set taken when a version is published
+export interface RuleSetVersion {
+  setId: string;
+  version: string;
+  savedAt: string;
+  ruleSet: TPRuleSet;
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface RuleChange {
+  before: TPRule;
+  after: TPRule;
+  fields: string[]; // e.g. ['severity', 'params.codes']
+}
+
+export interface RuleSetDiff {
+  added: TPRule[];
+  removed: TPRule[];
+  changed: RuleChange[];
+  metadata: { field: string; before: string; after: string }[];
+  suggestedBump: VersionBump | null; // null when nothing changed
+}
+
+// --- TRADING PARTNER PROFILES ---
+
+// ISA05/06 or ISA07/08 (X12), UNB S002 / S003 id and qualifier (EDIFACT)
+export interface PartnerIdentity {
+  qualifier?: string; // Any qualifier when unset
+  id: string;
+}
+
+export interface PartnerContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+/**
+ * A trading partner agreement. Documents are matched to a partner by their envelope IDs, in
+ * either direction, and validated with the partner's rule sets and version.
+ */
+export interface TradingPartner {
+  id: string;
+  name: string;
+  standard: 'X12' | 'EDIFACT';
+  sender: PartnerIdentity; // As on documents the partner sends
+  receiver: PartnerIdentity;
+  applicationSender?: string; // GS02; any when unset
+  applicationReceiver?: string; // GS03
+  version?: string; // GS08 "005010X222A1" or EDIFACT directory "D96A"
+  delimiters?: { segment?: string; element?: string; component?: string; repetition?: string };
+  usage?: 'TEST' | 'PRODUCTION'; // ISA15 T / P, UNB11 1 for test
+  ruleSets: Record<string, string[]>; // Transaction type ("850", "ORDERS", "*" for any) -> rule set ids
+  contact?: PartnerContact;
+}
+
+export interface PartnerMatch {
+  partner: TradingPartner;
+  direction: 'INBOUND' | 'OUTBOUND'; // INBOUND when the partner is the sender
+  interchangeLine: number; // 1-based line of the ISA / UNB
 }
@@ -0,0 +1,331 @@
+import { AckErrorPosition, AckStatus, EdiDocument, EdiTransactionNode, ParsedLine, ReconciledTransaction, ReconciliationFile } from '../types';
+import { parseEdiDocumentUncached } from './ediParser';
+import { parseFormattedDate } from './dateTime';
+
+/**
+ * Acknowledgment Reconciliation
+ * Matches received 997 / 999 / TA1 / CONTRL files to the transactions of the other stored files.
+ * Sent transactions are indexed by interchange (ISA13 / UNB05), group (GS06) and transaction
+ * (ST02 / UNH01) control numbers together with the sender / receiver pair, which the
+ * acknowledgment reverses. When several acknowledgments cover the same transaction, the most
+ * recently modified file wins. Runs in the parse worker (ediParseService.reconcile), since it
+ * parses every stored file.
+ */
+
+const ACK_TYPES = new Set(['997', '999', 'CONTRL']);
+
+export const DEFAULT_ACK_OVERDUE_HOURS = 24;
+
+interface SentEntry {
+  result: ReconciledTransaction;
+  transaction: EdiTransactionNode;
+  doc: EdiDocument;
+}
+
+interface SentIndex {
+  interchanges: Map<string, SentEntry[]>; // ISA|13|sender|receiver, UNB|05|sender|receiver
+  groups: Map<string, SentEntry[]>; // GS|06|sender|receiver
+}
+
+const key = (...parts: (string | undefined)[]) => parts.map(p => (p || '').trim()).join('|');
+
+const elementValue = (line: ParsedLine, index: number, component?: number): string => {
+  const token = line.tokens.find(t => t.type === 'ELEMENT' && t.index === index);
+  if (!token) return '';
+  if (component && token.subTokens) {
+    return (token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value || '').trim();
+  }
+  return token.value.trim();
+};
+
+// "3:2" (C030 / S011) -> element 3, component 2; the component separator is whatever split the token
+const elementReference = (line: ParsedLine, index: number): { element?: number; component?: number } => {
+  const element = parseInt(elementValue(line, index, 1), 10);
+  const component = parseInt(elementValue(line, index, 2), 10);
+  return { element: element || undefined, component: component || undefined };
+};
+
+// ISA09 / ISA10 and UNB S004 carry no time zone; they are read as local time, like the overdue window
+const interchangeDate = (date: string, time: string): Date | undefined => {
+  const parsed = parseFormattedDate(`${date}${time.substring(0, 4)}`, date.length === 8 ? 'CCYYMMDDHHMI' : 'YYMMDDHHMI');
+  if (typeof parsed === 'string') return undefined;
+  const { year, month, day, hour, minute } = parsed.start;
+  return new Date(year, month - 1, day, hour ?? 0, minute ?? 0);
+};
+
+const isEdi = (file: ReconciliationFile) => !file.mimeType || file.mimeType.startsWith('text');
+
+/**
+ * Every non-acknowledgment transaction of the stored files, indexed by the references an
+ * acknowledgment uses to point back at it.
+ */
+const indexSentTransactions = (files: { file: ReconciliationFile; doc: EdiDocument }[]): { entries: SentEntry[]; index: SentIndex } => {
+  const entries: SentEntry[] = [];
+  const index: SentIndex = { interchanges: new Map(), groups: new Map() };
+  const add = (map: Map<string, SentEntry[]>, k: string, entry: SentEntry) => {
+    if (!map.has(k)) map.set(k, []);
+    map.get(k)!.push(entry);
+  };
+
+  files.forEach(({ file, doc }) => {
+    doc.interchanges.forEach(interchange => {
+      const header = interchange.header;
+      if (!header || !interchange.controlNumber) return;
+      const isX12 = header.id === 'ISA';
+      const sentAt = (isX12
+        ? interchangeDate(elementValue(header.line, 9), elementValue(header.line, 10))
+        : interchangeDate(elementValue(header.line, 4, 1), elementValue(header.line, 4, 2))) || new Date(file.lastModified);
+      const interchangeKey = key(header.id, interchange.controlNumber, interchange.sender, interchange.receiver);
+
+      interchange.groups.forEach(group => {
+        const groupKey = group.header?.id === 'GS'
+          ? key('GS', group.controlNumber, elementValue(group.header.line, 2), elementValue(group.header.line, 3))
+          : undefined;
+
+        group.transactions.forEach(transaction => {
+          if (!transaction.header || ACK_TYPES.has(transaction.type)) return;
+          const entry: SentEntry = {
+            transaction,
+            doc,
+            result: {
+              fileId: file.id,
+              fileName: file.name,
+              type: transaction.type,
+              interchangeControl: interchange.controlNumber!.trim(),
+              groupControl: group.controlNumber?.trim(),
+              transactionControl: (transaction.controlNumber || '').trim(),
+              sender: interchange.sender,
+              receiver: interchange.receiver,
+              line: transaction.header.line.lineNumber,
+              sentAt,
+              status: 'MISSING',
+              overdue: false,
+              errors: []
+            }
+          };
+          entries.push(entry);
+          add(index.interchanges, interchangeKey, entry);
+          if (groupKey) add(index.groups, groupKey, entry);
+        });
+      });
+    });
+  });
+
+  return { entries, index };
+};
+
+// The sent file's line for a segment position (header = 1) in the transaction
+const lineAt = (entry: SentEntry, position?: number): number | undefined => {
+  if (!position || !entry.transaction.header) return undefined;
+  return entry.doc.lines[entry.transaction.header.lineIndex + position - 1]?.lineNumber;
+};
+
+const X12_TRANSACTION_STATUS: Record<string, AckStatus> = { A: 'ACCEPTED', E: 'PARTIAL', W: 'REJECTED', M: 'REJECTED', R: 'REJECTED', X: 'REJECTED' };
+const X12_GROUP_STATUS: Record<string, AckStatus> = { A: 'ACCEPTED', E: 'PARTIAL', P: 'PARTIAL', R: 'REJECTED', M: 'REJECTED', W: 'REJECTED', X: 'REJECTED' };
+
+/**
+ * Applies one acknowledgment file to the index. Returns nothing: entries are updated in place.
+ */
+const applyAcknowledgment = (file: ReconciliationFile, doc: EdiDocument, index: SentIndex) => {
+  const lines = doc.lines;
+
+  const settle = (entry: SentEntry, type: NonNullable<ReconciledTransaction['ack']>['type'], status: AckStatus, code: string, errors: AckErrorPosition[]) => {
+    entry.result.status = status;
+    entry.result.ack = { fileId: file.id, fileName: file.name, type, code };
+    entry.result.errors = errors;
+  };
+
+  // Envelope of the acknowledgment: its sender is the original receiver
+  let isa: ParsedLine | undefined;
+  let gs: ParsedLine | undefined;
+
+  // 997 / 999 state
+  let ackType: '997' | '999' | undefined;
+  let groupEntries: SentEntry[] = [];
+  let answered = new Set<SentEntry>();
+  let current: SentEntry | undefined;
+  let currentErrors: AckErrorPosition[] = [];
+  let segmentNote: AckErrorPosition | undefined;
+
+  // CONTRL state
+  let contrlEntries: SentEntry[] = [];
+  let contrlAction = '';
+
+  lines.forEach(line => {
+    switch (line.segmentId) {
+      case 'ISA': isa = line; break;
+      case 'GS': gs = line; break;
+
+      case 'TA1': {
+        if (!isa) break;
+        const entries = index.interchanges.get(key('ISA', elementValue(line, 1), elementValue(isa, 8), elementValue(isa, 6))) || [];
+        const note = elementValue(line, 5);
+        // TA1 acknowledges the envelope only: a rejection covers every transaction, an acceptance none of them
+        if (elementValue(line, 4) !== 'R') break;
+        entries.forEach(entry => settle(entry, 'TA1', 'REJECTED', note, [{ segmentId: 'ISA', code: note, line: lineOfInterchange(entry) }]));
+        break;
+      }
+
+      case 'ST': {
+        const type = elementValue(line, 1);
+        ackType = type === '997' || type === '999' ? type : undefined;
+        break;
+      }
+      case 'AK1': {
+        if (!ackType || !gs) break;
+        groupEntries = index.groups.get(key('GS', elementValue(line, 2), elementValue(gs, 3), elementValue(gs, 2))) || [];
+        answered = new Set();
+        break;
+      }
+      case 'AK2': {
+        if (!ackType) break;
+        current = groupEntries.find(e => e.result.transactionControl === elementValue(line, 2) && e.result.type === elementValue(line, 1));
+        currentErrors = [];
+        segmentNote = undefined;
+        break;
+      }
+      case 'AK3':
+      case 'IK3': {
+        if (!current) break;
+        const position = parseInt(elementValue(line, 2), 10) || undefined;
+        segmentNote = { segmentId: elementValue(line, 1), position, code: elementValue(line, 4), line: lineAt(current, position) };
+        currentErrors.push(segmentNote);
+        break;
+      }
+      case 'AK4':
+      case 'IK4': {
+        if (!current) break;
+        currentErrors.push({
+          segmentId: segmentNote?.segmentId,
+          position: segmentNote?.position,
+          ...elementReference(line, 1),
+          code: elementValue(line, 3),
+          line: segmentNote?.line
+        });
+        break;
+      }
+      case 'AK5':
+      case 'IK5': {
+        if (!current || !ackType) break;
+        const code = elementValue(line, 1);
+        // Element-level notes carry the detail; drop the "has data element errors" segment note they hang off
+        const errors = currentErrors.filter(e => !(e.element === undefined && e.code === '8' && currentErrors.some(o => o !== e && o.position === e.position && o.element !== undefined)));
+        settle(current, ackType, X12_TRANSACTION_STATUS[code] || 'REJECTED', code, errors);
+        answered.add(current);
+        current = undefined;
+        break;
+      }
+      case 'AK9': {
+        if (!ackType) break;
+        const code = elementValue(line, 1);
+        // Transactions without an AK2 take the group's status (AK2 is often left out when all are accepted)
+        groupEntries.filter(e => !answered.has(e)).forEach(entry => settle(entry, ackType!, X12_GROUP_STATUS[code] || 'REJECTED', code, []));
+        groupEntries = [];
+        break;
+      }
+
+      case 'UNH':
+        contrlEntries = [];
+        contrlAction = '';
+        current = undefined;
+        break;
+      case 'UCI': {
+        contrlEntries = index.interchanges.get(key('UNB', elementValue(line, 1), elementValue(line, 2, 1), elementValue(line, 3, 1))) || [];
+        contrlAction = elementValue(line, 4);
+        answered = new Set();
+        if (contrlAction === '4') {
+          const error = { segmentId: elementValue(line, 6) || 'UNB', code: elementValue(line, 5) };
+          contrlEntries.forEach(entry => {
+            settle(entry, 'CONTRL', 'REJECTED', contrlAction, error.code ? [{ ...error, line: lineOfInterchange(entry) }] : []);
+            answered.add(entry);
+          });
+        }
+        break;
+      }
+      case 'UCF': {
+        // Messages are matched within the interchange; a rejected group rejects those it doesn't list
+        if (elementValue(line, 4) !== '4') break;
+        const error = { segmentId: elementValue(line, 6) || 'UNG', code: elementValue(line, 5) };
+        contrlEntries.filter(e => e.result.groupControl === elementValue(line, 1)).forEach(entry => {
+          settle(entry, 'CONTRL', 'REJECTED', '4', error.code ? [error] : []);
+          answered.add(entry);
+        });
+        break;
+      }
+      case 'UCM': {
+        current = contrlEntries.find(e => e.result.transactionControl === elementValue(line, 1));
+        if (!current) break;
+        const action = elementValue(line, 3);
+        const error = elementValue(line, 4) ? [{ segmentId: elementValue(line, 5), code: elementValue(line, 4), line: current.result.line }] : [];
+        settle(current, 'CONTRL', action === '4' ? 'REJECTED' : 'ACCEPTED', action, error);
+        answered.add(current);
+        segmentNote = undefined;
+        break;
+      }
+      case 'UCS': {
+        if (!current) break;
+        const position = parseInt(elementValue(line, 1), 10) || undefined;
+        segmentNote = { position, code: elementValue(line, 2), line: lineAt(current, position) };
+        // Without a code the UCS only locates the UCD data element errors that follow
+        if (segmentNote.code) current.result.errors.push(segmentNote);
+        break;
+      }
+      case 'UCD': {
+        if (!current) break;
+        current.result.errors.push({ position: segmentNote?.position, ...elementReference(line, 2), code: elementValue(line, 1), line: segmentNote?.line });
+        break;
+      }
+      case 'UNT': {
+        // Action 7 on UCI accepts every message it doesn't list; 8 (received) says nothing about them
+        if (contrlAction === '7') {
+          contrlEntries.filter(e => !answered.has(e)).forEach(entry => settle(entry, 'CONTRL', 'ACCEPTED', contrlAction, []));
+        }
+        contrlEntries = [];
+        break;
+      }
+    }
+  });
+};
+
+const lineOfInterchange = (entry: SentEntry): number | undefined => {
+  const header = entry.transaction.header;
+  if (!header) return undefined;
+  for (let i = header.lineIndex; i >= 0; i--) {
+    const line = entry.doc.lines[i];
+    if (line?.segmentId === 'ISA' || line?.segmentId === 'UNB') return line.lineNumber;
+  }
+  return undefined;
+};
+
+// Holds acknowledgments: 997, 999, CONTRL or a TA1
+const isAcknowledgment = (doc: EdiDocument): boolean =>
+  doc.lines.some(l => l.segmentId === 'TA1') ||
+  doc.interchanges.some(ic => ic.groups.some(g => g.transactions.some(t => ACK_TYPES.has(t.type))));
+
+/**
+ * Status of every sent transaction in the stored files. Transactions without an acknowledgment
+ * are MISSING, and overdue once they were sent more than `overdueHours` before `now`.
+ */
+export const reconcileAcknowledgments = (
+  files: ReconciliationFile[],
+  options: { now?: Date; overdueHours?: number } = {}
+): ReconciledTransaction[] => {
+  const parsed = files
+    .filter(isEdi)
+    // Uncached: one pass over every file would evict the documents open in the editor
+    .map(file => ({ file, doc: parseEdiDocumentUncached(file.content) }))
+    .filter(({ doc }) => doc.standard !== 'UNKNOWN');
+  const acks = parsed.filter(({ doc }) => isAcknowledgment(doc));
+  const { entries, index } = indexSentTransactions(parsed.filter(p => !acks.includes(p)));
+
+  acks
+    .sort((a, b) => new Date(a.file.lastModified).getTime() - new Date(b.file.lastModified).getTime())
+    .forEach(({ file, doc }) => applyAcknowledgment(file, doc, index));
+
+  const now = (options.now || new Date()).getTime();
+  const limit = (options.overdueHours ?? DEFAULT_ACK_OVERDUE_HOURS) * 3600_000;
+  return entries.map(({ result }) => ({
+    ...result,
+    overdue: result.status === 'MISSING' && !!result.sentAt && now - result.sentAt.getTime() > limit
+  }));
+};
@@ -0,0 +1,27 @@
+/**
+ * Content Hashing
+ * Fast non-cryptographic FNV-1a hash used to key parse and validation caches.
+ * The length is folded into the key so that collisions also need equal sizes.
+ */
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * FNV-1a over the UTF-16 code units of `text`. Pass a previous result as `seed`
+ * to hash several strings as one stream without concatenating them.
+ */
+export const fnv1a = (text: string, seed: number = FNV_OFFSET): number => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Cache key for a whole document, e.g. "1f4a-3k9x2c".
+ */
+export const hashContent = (text: string): string =>
+  `${text.length.toString(36)}-${fnv1a(text).toString(36)}`;
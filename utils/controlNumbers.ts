@@ -0,0 +1,133 @@
+import { ControlNumberUse, EdiDocument, EdiSegmentNode, LineError, StoredControlNumbers } from '../types';
+
+/**
+ * Control Numbers
+ * Duplicate interchange (ISA13 / UNB05), group (GS06 / UNG05) and transaction set (ST02 / UNH01)
+ * control numbers. A re-sent interchange that reuses its control number is usually rejected or,
+ * worse, silently dropped as a duplicate by the receiver.
+ */
+
+const componentValue = (segment: EdiSegmentNode, index: number, component?: number): string | undefined => {
+  const token = segment.elements.find(t => t.index === index);
+  if (!token) return undefined;
+  const value = component && token.subTokens
+    ? token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value
+    : token.value;
+  return value?.trim() || undefined;
+};
+
+const useKey = (use: ControlNumberUse) => `${use.element}|${use.sender || ''}|${use.receiver || ''}|${use.controlNumber}`;
+
+const tokenIndex = (use: ControlNumberUse) => parseInt(use.element.slice(-2), 10);
+
+const describe = (use: ControlNumberUse) =>
+  `${use.element} ${use.controlNumber}${use.sender || use.receiver ? ` (${use.sender || '?'} → ${use.receiver || '?'})` : ''}`;
+
+/**
+ * Interchange and group control numbers of a document, with the sender / receiver they are unique for.
+ */
+export const collectControlNumbers = (doc: EdiDocument): ControlNumberUse[] => {
+  const uses: ControlNumberUse[] = [];
+
+  doc.interchanges.forEach(interchange => {
+    const isa = interchange.header;
+    if (isa && interchange.controlNumber?.trim()) {
+      uses.push({
+        element: isa.id === 'ISA' ? 'ISA13' : 'UNB05',
+        controlNumber: interchange.controlNumber.trim(),
+        sender: interchange.sender,
+        receiver: interchange.receiver,
+        line: isa.line.lineNumber
+      });
+    }
+
+    interchange.groups.forEach(group => {
+      const gs = group.header;
+      if (!gs || !group.controlNumber?.trim()) return;
+      const isX12 = gs.id === 'GS';
+      uses.push({
+        element: isX12 ? 'GS06' : 'UNG05',
+        controlNumber: group.controlNumber.trim(),
+        sender: isX12 ? componentValue(gs, 2) : componentValue(gs, 2, 1),
+        receiver: isX12 ? componentValue(gs, 3) : componentValue(gs, 3, 1),
+        line: gs.line.lineNumber
+      });
+    });
+  });
+
+  return uses;
+};
+
+/**
+ * Control numbers used more than once within the document: interchanges and groups per
+ * sender / receiver, transaction sets within their group.
+ */
+export const validateControlNumberUniqueness = (doc: EdiDocument): LineError[] => {
+  const errors: LineError[] = [];
+
+  const seen = new Map<string, ControlNumberUse>();
+  collectControlNumbers(doc).forEach(use => {
+    const first = seen.get(useKey(use));
+    if (!first) {
+      seen.set(useKey(use), use);
+      return;
+    }
+    errors.push({
+      line: use.line,
+      code: 'DUPLICATE_CONTROL',
+      message: `${describe(use)} is already used on line ${first.line}.`,
+      severity: 'ERROR',
+      tokenIndex: tokenIndex(use)
+    });
+  });
+
+  doc.interchanges.forEach(interchange => interchange.groups.forEach(group => {
+    const transactions = new Map<string, number>();
+    group.transactions.forEach(transaction => {
+      const header = transaction.header;
+      const control = transaction.controlNumber?.trim();
+      if (!header || !control) return;
+      const firstLine = transactions.get(control);
+      if (firstLine === undefined) {
+        transactions.set(control, header.line.lineNumber);
+        return;
+      }
+      const element = header.id === 'UNH' ? 'UNH01' : 'ST02';
+      errors.push({
+        line: header.line.lineNumber,
+        code: 'DUPLICATE_CONTROL',
+        message: `${element} ${control} is already used by the ${header.id === 'UNH' ? 'message' : 'transaction set'} on line ${firstLine} in this ${group.header ? 'group' : 'interchange'}.`,
+        severity: 'ERROR',
+        tokenIndex: header.id === 'UNH' ? 1 : 2
+      });
+    });
+  }));
+
+  return errors;
+};
+
+/**
+ * Interchange and group control numbers of a document (collectControlNumbers) that other stored files already use.
+ */
+export const findStoredDuplicates = (uses: ControlNumberUse[], fileId: string, stored: StoredControlNumbers[]): LineError[] => {
+  const used = new Map<string, { file: StoredControlNumbers; use: ControlNumberUse }>();
+  stored.forEach(file => {
+    if (file.fileId === fileId) return;
+    file.uses.forEach(use => {
+      if (!used.has(useKey(use))) used.set(useKey(use), { file, use });
+    });
+  });
+  if (used.size === 0) return [];
+
+  return uses.flatMap(use => {
+    const match = used.get(useKey(use));
+    if (!match) return [];
+    return [{
+      line: use.line,
+      code: 'DUPLICATE_CONTROL',
+      message: `${describe(use)} is already used in '${match.file.fileName}' (line ${match.use.line}).`,
+      severity: 'WARNING' as const,
+      tokenIndex: tokenIndex(use)
+    }];
+  });
+};
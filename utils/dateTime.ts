@@ -0,0 +1,197 @@
+/**
+ * EDI Dates and Times
+ * Calendar-correct parsing for DT / TM elements and for values whose layout is given by a
+ * format qualifier: EDIFACT C507 DTM format codes (2379) and X12 date/time period qualifiers (1250).
+ * Two-digit years are expanded with a sliding window around the reference year, so "000229" is
+ * 29 Feb 2000 (a leap day) and "991231" is 1999.
+ */
+
+export interface EdiDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+export interface DateFormat {
+  pattern: string; // Fields: CCYY, YY, MM (month), DD, HH, MI (minute), SS, WW (week), ZZZ (time zone), N (count)
+  description: string;
+}
+
+// UN/EDIFACT 2379 date or time or period format codes
+export const EDIFACT_DATE_FORMATS: Record<string, DateFormat> = {
+  '2': { pattern: 'DDMMYY', description: 'DDMMYY' },
+  '3': { pattern: 'MMDDYY', description: 'MMDDYY' },
+  '4': { pattern: 'DDMMCCYY', description: 'DDMMCCYY' },
+  '101': { pattern: 'YYMMDD', description: 'YYMMDD' },
+  '102': { pattern: 'CCYYMMDD', description: 'CCYYMMDD' },
+  '106': { pattern: 'MMDD', description: 'MMDD' },
+  '201': { pattern: 'YYMMDDHHMI', description: 'YYMMDDHHMM' },
+  '202': { pattern: 'YYMMDDHHMISS', description: 'YYMMDDHHMMSS' },
+  '203': { pattern: 'CCYYMMDDHHMI', description: 'CCYYMMDDHHMM' },
+  '204': { pattern: 'CCYYMMDDHHMISS', description: 'CCYYMMDDHHMMSS' },
+  '303': { pattern: 'CCYYMMDDHHMIZZZ', description: 'CCYYMMDDHHMMZZZ' },
+  '401': { pattern: 'HHMI', description: 'HHMM' },
+  '402': { pattern: 'HHMISS', description: 'HHMMSS' },
+  '602': { pattern: 'CCYY', description: 'CCYY' },
+  '609': { pattern: 'YYMM', description: 'YYMM' },
+  '610': { pattern: 'CCYYMM', description: 'CCYYMM' },
+  '615': { pattern: 'YYWW', description: 'YYWW' },
+  '616': { pattern: 'CCYYWW', description: 'CCYYWW' },
+  '717': { pattern: 'YYMMDD-YYMMDD', description: 'YYMMDD-YYMMDD' },
+  '718': { pattern: 'CCYYMMDD-CCYYMMDD', description: 'CCYYMMDD-CCYYMMDD' },
+  '719': { pattern: 'CCYYMMDDHHMI-CCYYMMDDHHMI', description: 'CCYYMMDDHHMM-CCYYMMDDHHMM' },
+  '801': { pattern: 'N', description: 'Number of years' },
+  '802': { pattern: 'N', description: 'Number of months' },
+  '803': { pattern: 'N', description: 'Number of weeks' },
+  '804': { pattern: 'N', description: 'Number of days' },
+  '805': { pattern: 'N', description: 'Number of hours' },
+  '806': { pattern: 'N', description: 'Number of minutes' }
+};
+
+// X12 1250 Date Time Period Format Qualifier (DTM05, DTP02)
+export const X12_DATE_FORMATS: Record<string, DateFormat> = {
+  D6: { pattern: 'YYMMDD', description: 'YYMMDD' },
+  D8: { pattern: 'CCYYMMDD', description: 'CCYYMMDD' },
+  DB: { pattern: 'MMDDCCYY', description: 'MMDDCCYY' },
+  DT: { pattern: 'CCYYMMDDHHMI', description: 'CCYYMMDDHHMM' },
+  RD8: { pattern: 'CCYYMMDD-CCYYMMDD', description: 'CCYYMMDD-CCYYMMDD' },
+  RDT: { pattern: 'CCYYMMDDHHMI-CCYYMMDDHHMI', description: 'CCYYMMDDHHMM-CCYYMMDDHHMM' },
+  TM: { pattern: 'HHMI', description: 'HHMM' }
+};
+
+const FIELDS = ['CCYY', 'ZZZ', 'YY', 'MM', 'DD', 'HH', 'MI', 'SS', 'WW', 'N'];
+
+/**
+ * Four-digit year for a two-digit one: the year within 50 years either side of the reference year.
+ */
+export const expandYear = (yy: number, reference: Date = new Date()): number => {
+  const referenceYear = reference.getFullYear();
+  let year = Math.floor(referenceYear / 100) * 100 + yy;
+  if (year > referenceYear + 50) year -= 100;
+  else if (year <= referenceYear - 50) year += 100;
+  return year;
+};
+
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+export const daysInMonth = (year: number, month: number): number =>
+  [31, isLeapYear(year) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const checkTimeParts = (hour: number, minute: number, second?: number): string | null => {
+  if (hour > 23) return `hour ${pad(hour)} is out of range (00-23)`;
+  if (minute > 59) return `minute ${pad(minute)} is out of range (00-59)`;
+  if (second !== undefined && second > 59) return `second ${pad(second)} is out of range (00-59)`;
+  return null;
+};
+
+const checkDateParts = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12) return `month ${pad(month)} is out of range (01-12)`;
+  if (day < 1 || day > daysInMonth(year, month)) return `day ${pad(day)} does not exist in ${year}-${pad(month)}`;
+  return null;
+};
+
+/**
+ * Parses a value against a pattern. Returns the parsed parts, or an error message.
+ * Ranges ("A-A") return the start and end.
+ */
+export const parseFormattedDate = (
+  value: string,
+  pattern: string,
+  reference?: Date
+): { start: EdiDateParts; end?: EdiDateParts } | string => {
+  const halves = pattern.split('-');
+  if (halves.length === 2) {
+    // The separator is commonly left out: 2002080120020831 for 20020801-20020831
+    const startWidth = halves[0].replace('MI', 'MM').length;
+    const parts = value.includes('-') || value.length !== startWidth + halves[1].length
+      ? value.split('-')
+      : [value.substring(0, startWidth), value.substring(startWidth)];
+    if (parts.length !== 2) return `expected a range ${pattern.replace(/MI/g, 'MM')}`;
+    const start = parseFormattedDate(parts[0], halves[0], reference);
+    if (typeof start === 'string') return start;
+    const end = parseFormattedDate(parts[1], halves[1], reference);
+    if (typeof end === 'string') return end;
+    return { start: start.start, end: end.start };
+  }
+
+  if (pattern === 'N') {
+    return /^\d+$/.test(value) ? { start: { year: 0, month: 1, day: 1 } } : 'expected a number';
+  }
+
+  const fields: string[] = [];
+  let width = 0;
+  for (let i = 0; i < pattern.length;) {
+    const field = FIELDS.find(f => pattern.startsWith(f, i));
+    if (!field) return `unsupported format ${pattern}`;
+    fields.push(field);
+    width += field.length;
+    i += field.length;
+  }
+
+  if (!/^\d+$/.test(value) || value.length !== width) {
+    return `expected ${width} digits (${pattern.replace(/MI/g, 'MM')})`;
+  }
+
+  const values: Record<string, number> = {};
+  let offset = 0;
+  fields.forEach(f => {
+    values[f] = parseInt(value.substr(offset, f.length), 10);
+    offset += f.length;
+  });
+
+  const year = values.CCYY ?? (values.YY !== undefined ? expandYear(values.YY, reference) : 2000);
+  const parts: EdiDateParts = { year, month: values.MM ?? 1, day: values.DD ?? 1 };
+
+  if (values.WW !== undefined && (values.WW < 1 || values.WW > 53)) return `week ${pad(values.WW)} is out of range (01-53)`;
+  const dateError = checkDateParts(parts.year, parts.month, parts.day);
+  if (dateError) return dateError;
+
+  if (values.HH !== undefined) {
+    const timeError = checkTimeParts(values.HH, values.MI ?? 0, values.SS);
+    if (timeError) return timeError;
+    parts.hour = values.HH;
+    parts.minute = values.MI ?? 0;
+    if (values.SS !== undefined) parts.second = values.SS;
+  }
+
+  return { start: parts };
+};
+
+/**
+ * X12 / EDIFACT DT element: YYMMDD or CCYYMMDD. Returns an error message, or null if valid.
+ */
+export const checkEdiDate = (value: string, reference?: Date): string | null => {
+  if (!/^\d{6}$|^\d{8}$/.test(value)) return 'Invalid Date (Expect YYMMDD or CCYYMMDD)';
+  const result = parseFormattedDate(value, value.length === 6 ? 'YYMMDD' : 'CCYYMMDD', reference);
+  return typeof result === 'string' ? `Invalid Date '${value}': ${result}` : null;
+};
+
+/**
+ * TM element: HHMM, HHMMSS, HHMMSSD or HHMMSSDD (decimal seconds). Returns an error message, or null if valid.
+ */
+export const checkEdiTime = (value: string): string | null => {
+  if (!/^\d{4}$|^\d{6,8}$/.test(value)) return 'Invalid Time (Expect HHMM, HHMMSS...)';
+  const error = checkTimeParts(
+    parseInt(value.substring(0, 2), 10),
+    parseInt(value.substring(2, 4), 10),
+    value.length >= 6 ? parseInt(value.substring(4, 6), 10) : undefined
+  );
+  return error ? `Invalid Time '${value}': ${error}` : null;
+};
+
+/**
+ * Parses a date value in the given layout; null if it isn't a valid date.
+ */
+export const toDate = (value: string, format: DateFormat | undefined, reference?: Date): Date | null => {
+  const pattern = format?.pattern || (value.length === 6 ? 'YYMMDD' : 'CCYYMMDD');
+  if (pattern === 'N') return null;
+  const result = parseFormattedDate(value, pattern, reference);
+  if (typeof result === 'string') return null;
+  const { year, month, day, hour, minute, second } = result.start;
+  return new Date(Date.UTC(year, month - 1, day, hour ?? 0, minute ?? 0, second ?? 0));
+};
@@ -0,0 +1,113 @@
+import { EdiTransactionNode, EdiSegmentNode, LineError, DateRef, DateWindow, DateCheckSettings } from '../types';
+import { DEFAULT_DATE_WINDOWS, DOCUMENT_DATES } from '../data/dateWindows';
+import { transactionSegments } from './ediDocument';
+import { toDate, EDIFACT_DATE_FORMATS } from './dateTime';
+
+/**
+ * Date Windows
+ * Business checks on the dates of a transaction set: one date must not precede another
+ * (ship date before PO date), and document dates must not be too far in the past or future.
+ * Values that aren't valid dates are left to the format checks and skipped here.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ResolvedDate {
+  segment: EdiSegmentNode;
+  value: string;
+  date: Date;
+}
+
+const componentValue = (segment: EdiSegmentNode, element: number, component?: number): string => {
+  const token = segment.elements.find(t => t.index === element);
+  if (!token) return '';
+  if (component) {
+    if (!token.subTokens) return component === 1 ? token.value.trim() : '';
+    return token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value.trim() || '';
+  }
+  return token.value.trim();
+};
+
+/**
+ * Every occurrence of a date in the transaction that matches the reference's qualifier and parses.
+ */
+const resolveDates = (segments: EdiSegmentNode[], ref: DateRef, today: Date): ResolvedDate[] => {
+  const dates: ResolvedDate[] = [];
+  segments.forEach(segment => {
+    if (segment.id !== ref.segment) return;
+    if (ref.qualifier && componentValue(segment, ref.qualifier.element, ref.qualifier.component) !== ref.qualifier.value) return;
+    const value = componentValue(segment, ref.element, ref.component);
+    if (!value) return;
+    const formatCode = ref.formatComponent ? componentValue(segment, ref.element, ref.formatComponent) : '';
+    const date = toDate(value, formatCode ? EDIFACT_DATE_FORMATS[formatCode] : undefined, today);
+    if (date) dates.push({ segment, value, date });
+  });
+  return dates;
+};
+
+// Whole calendar days from b to a, ignoring time of day
+const daysBetween = (a: Date, b: Date): number =>
+  Math.round((Date.UTC(a.getUTCFullYear(), a.getUTCMonth(), a.getUTCDate()) - Date.UTC(b.getUTCFullYear(), b.getUTCMonth(), b.getUTCDate())) / DAY_MS);
+
+/**
+ * The windows to check for the given settings: the default date relationships, plus an age
+ * limit on each transaction type's document date when max past / future days are set.
+ */
+export const resolveDateWindows = (settings?: DateCheckSettings): DateWindow[] => {
+  if (settings && !settings.enabled) return [];
+  const windows = [...DEFAULT_DATE_WINDOWS];
+  const { maxPastDays, maxFutureDays } = settings || {};
+  if (maxPastDays === undefined && maxFutureDays === undefined) return windows;
+
+  Object.entries(DOCUMENT_DATES).forEach(([type, date]) => {
+    windows.push({ id: `${type}-document-age`, name: 'Document date within limits', transactionTypes: [type], date, maxPastDays, maxFutureDays, severity: 'WARNING' });
+  });
+  return windows;
+};
+
+/**
+ * Checks the windows that apply to the transaction's type. `today` is the validation date
+ * the past / future limits are measured from.
+ */
+export const validateDateWindows = (transaction: EdiTransactionNode, windows: DateWindow[], today: Date = new Date()): LineError[] => {
+  const applicable = windows.filter(w => w.transactionTypes.includes(transaction.type));
+  if (applicable.length === 0) return [];
+
+  const segments = transactionSegments(transaction);
+  // Today's calendar date, as the dates parsed from the document are
+  const todayUtc = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+  const errors: LineError[] = [];
+
+  applicable.forEach(window => {
+    const dates = resolveDates(segments, window.date, today);
+    const error = (d: ResolvedDate, message: string) => errors.push({
+      line: d.segment.line.lineNumber,
+      code: 'DATE_WINDOW',
+      message,
+      severity: window.severity,
+      tokenIndex: window.date.element
+    });
+
+    if (window.notBefore) {
+      const reference = resolveDates(segments, window.notBefore, today)[0];
+      if (reference) {
+        dates.forEach(d => {
+          if (daysBetween(d.date, reference.date) < 0) {
+            error(d, `${window.date.label} ${d.value} is before ${window.notBefore!.label} ${reference.value} (line ${reference.segment.line.lineNumber})`);
+          }
+        });
+      }
+    }
+
+    dates.forEach(d => {
+      const age = daysBetween(todayUtc, d.date);
+      if (window.maxPastDays !== undefined && age > window.maxPastDays) {
+        error(d, `${window.date.label} ${d.value} is ${age} days in the past (limit ${window.maxPastDays})`);
+      } else if (window.maxFutureDays !== undefined && -age > window.maxFutureDays) {
+        error(d, `${window.date.label} ${d.value} is ${-age} days in the future (limit ${window.maxFutureDays})`);
+      }
+    });
+  });
+
+  return errors;
+};
@@ -0,0 +1,136 @@
+import { DocumentViewKind, DocumentViews, EdiDocument, EdiToken, ElementSchema, HlNode, HlOutline, InterchangeOutline, ParsedLine, SegmentSchema, SourceTreeView, StructureView } from '../types';
+import { flattenDocument, getTransactions, documentToJson } from './ediDocument';
+import { buildHlTree } from './hlHierarchy';
+import { schemaRegistry } from '../data/schemaRegistry';
+
+/**
+ * Document Views
+ * Plain-data views of a parsed document for the side panels, built in the parse worker so the
+ * panels never parse on the main thread. Lines cross the worker boundary without their schemas;
+ * tokenSchema() looks them up again in this thread's registry.
+ */
+
+/**
+ * Copies of the lines without the schema objects attached to their tokens.
+ */
+export const detachSchemas = (lines: ParsedLine[]): ParsedLine[] => {
+  const detach = ({ schema, ...token }: EdiToken): EdiToken =>
+    token.subTokens ? { ...token, subTokens: token.subTokens.map(detach) } : token;
+  return lines.map(line => ({ ...line, tokens: line.tokens.map(detach) }));
+};
+
+/**
+ * Schema of a token: the one attached by the parser, else resolved from its line's dictionary
+ * (ParsedLine.dictionary) and segment.
+ */
+export const tokenSchema = (token: EdiToken, dictionary: string | undefined, segmentId: string): ElementSchema | SegmentSchema | undefined => {
+  if (token.schema) return token.schema;
+  if (token.type === 'SEGMENT_ID') return schemaRegistry.resolveSegment(dictionary, segmentId);
+  if (token.type !== 'ELEMENT' && token.type !== 'COMPONENT') return undefined;
+
+  const element = schemaRegistry.resolveElement(dictionary, segmentId, token.index);
+  if (token.type === 'ELEMENT') return element;
+  // Same rule as the tokenizer: a component of a simple element only has a schema when it stands alone
+  if (element?.components?.length) return element.components.find(c => c.index === token.componentIndex);
+  return token.fullId?.includes('-') ? undefined : element;
+};
+
+const lineNumberOf = (doc: EdiDocument, lineIndex: number) => doc.lines[lineIndex]?.lineNumber ?? lineIndex + 1;
+
+/**
+ * Interchanges, groups and transaction sets of the document with their line numbers.
+ */
+export const documentOutline = (doc: EdiDocument): InterchangeOutline[] =>
+  doc.interchanges.map(ic => ({
+    headerId: ic.header?.id,
+    controlNumber: ic.controlNumber,
+    sender: ic.sender,
+    receiver: ic.receiver,
+    startLine: lineNumberOf(doc, ic.startLine),
+    groups: ic.groups.map(group => ({
+      headerId: group.header?.id,
+      functionalId: group.functionalId,
+      controlNumber: group.controlNumber,
+      version: group.version,
+      startLine: lineNumberOf(doc, group.startLine),
+      transactions: group.transactions.map(tx => ({
+        type: tx.type,
+        controlNumber: tx.controlNumber,
+        startLine: lineNumberOf(doc, tx.startLine),
+        endLine: lineNumberOf(doc, tx.endLine)
+      }))
+    }))
+  }));
+
+const hlOutline = (node: HlNode): HlOutline => ({
+  id: node.id,
+  parentId: node.parentId,
+  level: node.level,
+  levelName: node.levelName,
+  orphan: node.orphan,
+  lineNumber: node.segment.line.lineNumber,
+  segmentIds: node.segments.map(s => s.id),
+  children: node.children.map(hlOutline)
+});
+
+/**
+ * Segments in document order with their depth and loop, and the HL trees of hierarchical
+ * transaction sets (856, 837...).
+ */
+export const structureView = (doc: EdiDocument): StructureView => {
+  const flat = flattenDocument(doc);
+  const lines = detachSchemas(flat.map(({ segment }) => segment.line));
+  return {
+    segments: flat.map(({ depth, loopPath }, i) => ({ line: lines[i], depth, loopPath })),
+    hierarchies: getTransactions(doc)
+      .map(tx => ({
+        type: tx.type,
+        controlNumber: tx.controlNumber,
+        startLine: lineNumberOf(doc, tx.startLine),
+        roots: buildHlTree(tx).map(hlOutline)
+      }))
+      .filter(h => h.roots.length > 0)
+  };
+};
+
+/**
+ * Mapper source tree: segments with their element values, composites expanded into their
+ * components (path SEG/05/1).
+ */
+export const sourceTreeView = (doc: EdiDocument): SourceTreeView => ({
+  // ST01 for X12, the UNH S009 message type (e.g. ORDERS) for EDIFACT
+  transactionSet: getTransactions(doc).find(t => t.type)?.type || 'Unknown',
+  segments: flattenDocument(doc).map(({ segment, loopPath }) => ({
+    id: segment.id,
+    loopPath,
+    elements: segment.elements.flatMap((t, i) => {
+      const elementPath = `${t.index < 10 ? '0' + t.index : t.index}`;
+      const components = t.subTokens?.filter(c => c.type === 'COMPONENT' && !c.repetitionIndex);
+      if (components && components.length > 1) {
+        return components.map(c => ({
+          id: c.fullId || `${segment.id}${elementPath}-${c.componentIndex}`,
+          value: c.value,
+          path: `${elementPath}/${c.componentIndex}`
+        }));
+      }
+      return [{
+        id: t.fullId || `${segment.id}${i + 1}`,
+        value: t.value,
+        path: elementPath
+      }];
+    })
+  }))
+});
+
+/**
+ * Builds the requested view of the document.
+ */
+export const buildDocumentView = <K extends DocumentViewKind>(doc: EdiDocument, kind: K): DocumentViews[K] => {
+  const builders: { [V in DocumentViewKind]: (doc: EdiDocument) => DocumentViews[V] } = {
+    OUTLINE: documentOutline,
+    STRUCTURE: structureView,
+    SOURCE_TREE: sourceTreeView,
+    JSON: documentToJson
+  };
+  return builders[kind](doc);
+};
@@ -11,6 +11,7 @@ export interface EdiDelimiters {
   segment: string;
   element: string;
   component: string;
+  repetition?: string; // X12 ISA11 (005010+) or EDIFACT UNA5 (syntax version 4)
   release?: string; // Specific to EDIFACT
   standard: EdiStandard;
 }
@@ -56,11 +57,21 @@ export const detectDelimiters = (content: string): EdiDelimiters => {
     
     // Strict check if ISA is full length
     if (trimmed.startsWith('ISA') && trimmed.length >= 106) {
+        // ISA11 became the Repetition Separator in 005010; before that it was
+        // the Interchange Control Standards Identifier (usually 'U').
+        const isaElements = trimmed.substring(0, 105).split(trimmed[3]);
+        const isa11 = isaElements[11];
+        const isa12 = isaElements[12] || '';
+        const repetition = isa12 >= '00501' && isa11?.length === 1 && !/[A-Za-z0-9 ]/.test(isa11)
+            ? isa11
+            : undefined;
+
         return { 
             standard: 'X12', 
             segment: trimmed[105], 
             element: trimmed[3], 
-            component: trimmed[104] 
+            component: trimmed[104],
+            repetition
         };
     }
     
@@ -89,13 +100,15 @@ export const detectDelimiters = (content: string): EdiDelimiters => {
     // Check for UNA Service String Advice
     // Format: UNA:+.? '
     // Indices based on UNA prefix (3 chars)
+    // Index 7 is reserved (space) in syntax version 3 and the repetition separator in version 4
     
     if (trimmed.startsWith('UNA') && trimmed.length >= 9) {
       return {
         standard: 'EDIFACT',
         component: trimmed[3],
         element: trimmed[4],
-        release: trimmed[6],
+        release: trimmed[6] === ' ' ? undefined : trimmed[6],
+        repetition: trimmed[7] === ' ' ? undefined : trimmed[7],
         segment: trimmed[8]
       };
     }
@@ -0,0 +1,410 @@
+import {
+  ParsedLine, SegmentRule, TransactionDef, EdiDocument, EdiInterchangeNode, EdiGroupNode,
+  EdiTransactionNode, EdiBodyNode, EdiSegmentNode, EdiLoopNode
+} from '../types';
+import { X12_STRUCTURES } from '../data/x12Structure';
+import { EDIFACT_STRUCTURES } from '../data/edifactStructure';
+import { schemaRegistry } from '../data/schemaRegistry';
+
+/**
+ * EDI Document Model
+ * Builds the Interchange -> Group -> Transaction -> Loop -> Segment tree from parsed lines.
+ * Loops are placed using the transaction definitions (X12_STRUCTURES, EDIFACT_STRUCTURES), so nested
+ * loops (e.g. SLN inside PO1, SG29 RFF inside SG25 LIN) end up where the standard puts them.
+ */
+
+// Used only for transactions without a definition: each starter opens a single-level loop.
+const GENERIC_LOOP_STARTERS = ['N1', 'NM1', 'ENT', 'NAD', 'PO1', 'IT1', 'LIN', 'HL', 'LX', 'CLM'];
+
+const INTERCHANGE_HEADERS = ['ISA', 'UNB'];
+const INTERCHANGE_TRAILERS = ['IEA', 'UNZ'];
+const GROUP_HEADERS = ['GS', 'UNG'];
+const GROUP_TRAILERS = ['GE', 'UNE'];
+const TRANSACTION_HEADERS = ['ST', 'UNH'];
+const TRANSACTION_TRAILERS = ['SE', 'UNT'];
+
+const elementValue = (line: ParsedLine, index: number, component?: number): string | undefined => {
+  const token = line.tokens.find(t => t.type === 'ELEMENT' && t.index === index);
+  if (!token) return undefined;
+  if (component && token.subTokens) {
+    return token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value;
+  }
+  return token.value;
+};
+
+const toSegmentNode = (line: ParsedLine, lineIndex: number): EdiSegmentNode => ({
+  kind: 'SEGMENT',
+  id: line.segmentId,
+  lineIndex,
+  line,
+  elements: line.tokens.filter(t => t.type === 'ELEMENT')
+});
+
+/**
+ * Looks up the structure definition for a transaction type. Structures imported into the
+ * schema registry (e.g. from an OpenEDI spec) win over the built-in ones.
+ */
+export const findTransactionDef = (standard: EdiDocument['standard'], type: string): TransactionDef | undefined => {
+  if (!type) return undefined;
+  const imported = schemaRegistry.resolveTransaction(standard, type);
+  if (imported) return imported;
+  if (standard === 'X12') return X12_STRUCTURES[type];
+  if (standard === 'EDIFACT') return EDIFACT_STRUCTURES[type];
+  return undefined;
+};
+
+/**
+ * How many times a rule may occur in a row: loop repeat for loops, max use for segments.
+ */
+export const ruleMaxOccurs = (rule: SegmentRule): number =>
+  (rule.loop ? rule.loopRepeat : rule.maxUse) ?? 1;
+
+/**
+ * Places segments into loops following the definition. Lenient by design: segments out of
+ * order are still placed in the matching loop, and anything unknown is kept (flagged) so the
+ * tree always covers every line. Reporting order/mandatory problems is the validator's job.
+ */
+const placeSegments = (
+  rules: SegmentRule[],
+  segs: EdiSegmentNode[],
+  start: number,
+  path: string,
+  isLoopBody: boolean
+): { nodes: EdiBodyNode[]; pos: number } => {
+  const nodes: EdiBodyNode[] = [];
+  let pos = start;
+  let structIdx = 0;
+
+  while (pos < segs.length) {
+    const seg = segs[pos];
+
+    // In a loop body the starter (rule 0) only matches once; seeing it again ends the iteration.
+    if (isLoopBody && pos > start && seg.id === rules[0]?.id) break;
+
+    let ruleIdx = rules.findIndex((r, i) => i >= structIdx && r.id === seg.id);
+    let inOrder = true;
+    if (ruleIdx === -1) {
+      ruleIdx = rules.findIndex((r, i) => (!isLoopBody || i > 0) && r.id === seg.id);
+      inOrder = false;
+    }
+
+    if (ruleIdx === -1) {
+      if (isLoopBody) break; // Let the enclosing level place it
+      nodes.push({ ...seg, unexpected: true });
+      pos++;
+      continue;
+    }
+
+    const rule = rules[ruleIdx];
+    if (rule.loop && rule.children) {
+      const loopName = rule.name || rule.id;
+      const loopPath = path ? `${path}/${loopName}` : loopName;
+      const inner = placeSegments(rule.children, segs, pos, loopPath, true);
+      const loop: EdiLoopNode = {
+        kind: 'LOOP',
+        id: rule.id,
+        path: loopPath,
+        startLine: seg.lineIndex,
+        endLine: segs[inner.pos - 1].lineIndex,
+        children: inner.nodes
+      };
+      nodes.push(loop);
+      pos = inner.pos;
+    } else {
+      nodes.push(seg);
+      pos++;
+    }
+
+    if (inOrder) structIdx = ruleMaxOccurs(rule) > 1 ? ruleIdx : ruleIdx + 1;
+  }
+
+  return { nodes, pos };
+};
+
+const placeGeneric = (segs: EdiSegmentNode[]): EdiBodyNode[] => {
+  const nodes: EdiBodyNode[] = [];
+  let current: EdiLoopNode | null = null;
+
+  segs.forEach(seg => {
+    if (GENERIC_LOOP_STARTERS.includes(seg.id)) {
+      current = { kind: 'LOOP', id: seg.id, path: seg.id, startLine: seg.lineIndex, endLine: seg.lineIndex, children: [seg] };
+      nodes.push(current);
+    } else if (current) {
+      current.children.push(seg);
+      current.endLine = seg.lineIndex;
+    } else {
+      nodes.push(seg);
+    }
+  });
+
+  return nodes;
+};
+
+/**
+ * Builds the document tree. Missing envelopes (snippets starting at GS, ST or a body
+ * segment) produce implicit interchange/group/transaction nodes without a header.
+ */
+export const buildEdiDocument = (lines: ParsedLine[], standard: EdiDocument['standard']): EdiDocument => {
+  const doc: EdiDocument = { standard, lines, interchanges: [] };
+  if (standard === 'UNKNOWN') return doc;
+
+  let interchange: EdiInterchangeNode | null = null;
+  let group: EdiGroupNode | null = null;
+  let transaction: EdiTransactionNode | null = null;
+  let body: EdiSegmentNode[] = [];
+  let pendingServiceAdvice: EdiSegmentNode | undefined;
+
+  const closeTransaction = () => {
+    if (!transaction) return;
+    transaction.children = transaction.definition
+      ? placeSegments(transaction.definition.structure, body, 0, '', false).nodes
+      : placeGeneric(body);
+    transaction = null;
+    body = [];
+  };
+
+  const closeGroup = () => {
+    closeTransaction();
+    group = null;
+  };
+
+  const closeInterchange = () => {
+    closeGroup();
+    interchange = null;
+  };
+
+  const openInterchange = (lineIndex: number, header?: EdiSegmentNode): EdiInterchangeNode => {
+    closeInterchange();
+    const created: EdiInterchangeNode = {
+      kind: 'INTERCHANGE',
+      header,
+      serviceAdvice: pendingServiceAdvice,
+      groups: [],
+      startLine: pendingServiceAdvice ? pendingServiceAdvice.lineIndex : lineIndex,
+      endLine: lineIndex
+    };
+    pendingServiceAdvice = undefined;
+    if (header) {
+      if (header.id === 'ISA') {
+        created.controlNumber = elementValue(header.line, 13);
+        created.sender = elementValue(header.line, 6)?.trim();
+        created.receiver = elementValue(header.line, 8)?.trim();
+      } else {
+        created.controlNumber = elementValue(header.line, 5);
+        created.sender = elementValue(header.line, 2, 1);
+        created.receiver = elementValue(header.line, 3, 1);
+      }
+    }
+    doc.interchanges.push(created);
+    interchange = created;
+    return created;
+  };
+
+  const openGroup = (lineIndex: number, header?: EdiSegmentNode): EdiGroupNode => {
+    closeGroup();
+    const owner = interchange || openInterchange(lineIndex);
+    const created: EdiGroupNode = {
+      kind: 'GROUP',
+      header,
+      transactions: [],
+      startLine: lineIndex,
+      endLine: lineIndex
+    };
+    if (header) {
+      created.functionalId = elementValue(header.line, 1);
+      created.controlNumber = header.id === 'GS' ? elementValue(header.line, 6) : elementValue(header.line, 5);
+      created.version = header.id === 'GS' ? elementValue(header.line, 8) : undefined;
+    }
+    owner.groups.push(created);
+    group = created;
+    return created;
+  };
+
+  const openTransaction = (lineIndex: number, header?: EdiSegmentNode): EdiTransactionNode => {
+    closeTransaction();
+    const owner = group || openGroup(lineIndex);
+    let type = '';
+    if (header) {
+      type = (header.id === 'UNH' ? elementValue(header.line, 2, 1) : elementValue(header.line, 1)) || '';
+    }
+    const created: EdiTransactionNode = {
+      kind: 'TRANSACTION',
+      type,
+      controlNumber: header ? (header.id === 'UNH' ? elementValue(header.line, 1) : elementValue(header.line, 2)) : undefined,
+      header,
+      definition: findTransactionDef(standard, type),
+      children: [],
+      startLine: lineIndex,
+      endLine: lineIndex
+    };
+    owner.transactions.push(created);
+    transaction = created;
+    return created;
+  };
+
+  // Extends the end line of every open container
+  const touch = (lineIndex: number) => {
+    if (interchange) interchange.endLine = lineIndex;
+    if (group) group.endLine = lineIndex;
+    if (transaction) transaction.endLine = lineIndex;
+  };
+
+  lines.forEach((line, lineIndex) => {
+    const seg = toSegmentNode(line, lineIndex);
+    const id = line.segmentId;
+
+    if (id === 'UNA') {
+      pendingServiceAdvice = seg;
+      return;
+    }
+
+    if (INTERCHANGE_HEADERS.includes(id)) {
+      openInterchange(lineIndex, seg);
+    } else if (INTERCHANGE_TRAILERS.includes(id)) {
+      closeGroup();
+      const owner = interchange || openInterchange(lineIndex);
+      owner.trailer = seg;
+      owner.endLine = lineIndex;
+      interchange = null;
+    } else if (GROUP_HEADERS.includes(id)) {
+      openGroup(lineIndex, seg);
+      touch(lineIndex);
+    } else if (GROUP_TRAILERS.includes(id)) {
+      closeTransaction();
+      const owner = group || openGroup(lineIndex);
+      owner.trailer = seg;
+      touch(lineIndex);
+      group = null;
+    } else if (TRANSACTION_HEADERS.includes(id)) {
+      openTransaction(lineIndex, seg);
+      touch(lineIndex);
+    } else if (TRANSACTION_TRAILERS.includes(id)) {
+      const owner = transaction || openTransaction(lineIndex);
+      owner.trailer = seg;
+      touch(lineIndex);
+      closeTransaction();
+    } else {
+      if (!transaction) openTransaction(lineIndex);
+      body.push(seg);
+      touch(lineIndex);
+    }
+  });
+
+  closeInterchange();
+  return doc;
+};
+
+/**
+ * All transactions in document order.
+ */
+export const getTransactions = (doc: EdiDocument): EdiTransactionNode[] =>
+  doc.interchanges.flatMap(i => i.groups.flatMap(g => g.transactions));
+
+/**
+ * Depth-first walk over body nodes. Depth 0 is the transaction level.
+ */
+export const walkBody = (
+  nodes: EdiBodyNode[],
+  visit: (node: EdiBodyNode, depth: number, loopPath: string) => void,
+  depth: number = 0,
+  loopPath: string = ''
+) => {
+  nodes.forEach(node => {
+    visit(node, depth, loopPath);
+    if (node.kind === 'LOOP') walkBody(node.children, visit, depth + 1, node.path);
+  });
+};
+
+/**
+ * Body segments of a transaction in document order, without loop nodes.
+ */
+export const transactionSegments = (transaction: EdiTransactionNode): EdiSegmentNode[] => {
+  const segments: EdiSegmentNode[] = [];
+  walkBody(transaction.children, node => { if (node.kind === 'SEGMENT') segments.push(node); });
+  return segments;
+};
+
+export interface FlatSegment {
+  segment: EdiSegmentNode;
+  depth: number; // 0 = interchange envelope ... 3 = transaction body, +1 per loop
+  loopPath: string;
+  isLoopStart: boolean;
+  endLine?: number; // Last line covered when this segment opens a loop or envelope
+}
+
+/**
+ * Flattens the tree back into line order with depth information, for list-style views.
+ */
+export const flattenDocument = (doc: EdiDocument): FlatSegment[] => {
+  const out: FlatSegment[] = [];
+  const push = (segment: EdiSegmentNode | undefined, depth: number, endLine?: number) => {
+    if (segment) out.push({ segment, depth, loopPath: '', isLoopStart: endLine !== undefined && endLine > segment.lineIndex, endLine });
+  };
+
+  doc.interchanges.forEach(ic => {
+    push(ic.serviceAdvice, 0);
+    push(ic.header, 0, ic.endLine);
+    ic.groups.forEach(g => {
+      push(g.header, 1, g.endLine);
+      g.transactions.forEach(tx => {
+        push(tx.header, 2, tx.endLine);
+        walkBody(tx.children, (node, depth, loopPath) => {
+          if (node.kind === 'LOOP') {
+            // The loop starter is the first child; it sits at the loop's own depth
+            const starter = node.children[0] as EdiSegmentNode;
+            out.push({ segment: starter, depth: 3 + depth, loopPath: node.path, isLoopStart: node.endLine > node.startLine, endLine: node.endLine });
+          } else if (!out.length || out[out.length - 1].segment !== node) {
+            out.push({ segment: node, depth: 3 + depth, loopPath, isLoopStart: false });
+          }
+        });
+        push(tx.trailer, 2);
+      });
+      push(g.trailer, 1);
+    });
+    push(ic.trailer, 0);
+  });
+
+  return out;
+};
+
+/**
+ * Deterministic JSON rendering of the tree (no AI involved). Element keys use their
+ * position ids (BEG03), composites become arrays of component values.
+ */
+export const documentToJson = (doc: EdiDocument): any => {
+  const segmentToJson = (seg: EdiSegmentNode) => {
+    const out: Record<string, any> = { segment: seg.id };
+    seg.elements.forEach(el => {
+      const key = el.fullId || `${seg.id}${el.index}`;
+      out[key] = el.subTokens
+        ? el.subTokens.filter(t => t.type === 'COMPONENT').map(t => t.value)
+        : el.value;
+    });
+    return out;
+  };
+
+  const bodyToJson = (nodes: EdiBodyNode[]): any[] => nodes.map(node =>
+    node.kind === 'LOOP'
+      ? { loop: node.id, path: node.path, children: bodyToJson(node.children) }
+      : segmentToJson(node)
+  );
+
+  return {
+    standard: doc.standard,
+    interchanges: doc.interchanges.map(ic => ({
+      controlNumber: ic.controlNumber,
+      sender: ic.sender,
+      receiver: ic.receiver,
+      groups: ic.groups.map(g => ({
+        functionalId: g.functionalId,
+        controlNumber: g.controlNumber,
+        version: g.version,
+        transactions: g.transactions.map(tx => ({
+          type: tx.type,
+          controlNumber: tx.controlNumber,
+          body: bodyToJson(tx.children)
+        }))
+      }))
+    }))
+  };
+};
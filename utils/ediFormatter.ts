@@ -1,5 +1,6 @@
 
 import { detectDelimiters } from './ediDetection';
+import { splitSegments } from './ediTokenizer';
 
 /**
  * EDI Formatting Utilities
@@ -30,7 +31,8 @@ export const warpEdi = (text: string): string => {
 export const unwarpEdi = (text: string): string => {
   if (!text) return "";
 
-  const { segment } = detectDelimiters(text);
+  const delimiters = detectDelimiters(text);
+  const { segment } = delimiters;
   
   // Special Case: If terminator is already newline, just format cleanly
   if (segment === '\n' || segment === '\r\n') {
@@ -44,14 +46,12 @@ export const unwarpEdi = (text: string): string => {
   // 1. Warp first to ensure we have a clean stream (remove random newlines)
   const cleanStream = text.replace(/[\r\n]+/g, '');
   
-  // 2. Split by terminator
+  // 2. Split by terminator (escaped terminators like "?'" stay inside the segment)
   // Note: split consumes the terminator, so we must add it back
-  const segments = cleanStream.split(segment);
+  const segments = splitSegments(cleanStream, delimiters);
   
   // 3. Reconstruct
   return segments
-    .map(s => s.trim()) 
-    .filter(s => s.length > 0) 
     .map(s => s + segment) // Add terminator back
     .join('\n'); // Add newline
 };
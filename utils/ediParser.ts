@@ -1,24 +1,146 @@
 
-import { ParsedLine, EdiToken } from '../types';
-import { STANDARD_SEGMENTS } from '../data/ediSchema';
-import { detectDelimiters, escapeRegExp } from './ediDetection';
+import { ParsedLine, EdiToken, ElementSchema, EdiDocument, ParseOptions } from '../types';
+import { schemaRegistry, dictionaryKey, x12InterchangeVersion, edifactDirectory } from '../data/schemaRegistry';
+import { detectDelimiters, escapeRegExp, EdiDelimiters } from './ediDetection';
+import { splitEscaped, splitSegments, endsWithTerminator } from './ediTokenizer';
+import { buildEdiDocument, flattenDocument } from './ediDocument';
+import { hashContent } from './contentHash';
 
-export const parseEdiToLines = (content: string): ParsedLine[] => {
-  if (!content) return [];
+// Parsed documents are shared by the editor, structure panel, mapper, validator and rules engine,
+// so the same content is only tokenized once. Small LRU keyed by content hash and registry revision
+// (loading a dictionary pack changes the schemas attached to tokens). Entries keep their content,
+// so a hash collision re-parses instead of returning another document.
+const PARSE_CACHE_SIZE = 4;
+const parseCache = new Map<string, { content: string; doc: EdiDocument }>();
+let lastParsed: { content: string; revision: number; overrides: string; doc: EdiDocument } | null = null;
+
+/**
+ * Breaks an element value into COMPONENT sub-tokens (and the delimiters between them)
+ * when it is a composite or carries repetitions. Simple elements get no sub-tokens.
+ */
+const tokenizeComposite = (
+  value: string,
+  offset: number,
+  elementIndex: number,
+  elementId: string,
+  schema: ElementSchema | undefined,
+  delimiters: EdiDelimiters
+): EdiToken[] | undefined => {
+  const { component, repetition, release } = delimiters;
+  const repetitions = repetition ? splitEscaped(value, repetition, release) : [{ value, offset: 0 }];
+  const isComposite = !!schema?.components?.length;
+
+  const subTokens: EdiToken[] = [];
+  let hasParts = repetitions.length > 1;
+
+  repetitions.forEach((rep, repIdx) => {
+    if (repIdx > 0) {
+      subTokens.push({ type: 'DELIMITER', value: repetition!, index: -1, offset: offset + rep.offset - repetition!.length });
+    }
+    const parts = component ? splitEscaped(rep.value, component, release) : [{ value: rep.value, offset: 0 }];
+    if (parts.length > 1) hasParts = true;
+
+    parts.forEach((part, partIdx) => {
+      if (partIdx > 0) {
+        subTokens.push({ type: 'DELIMITER', value: component, index: -1, offset: offset + rep.offset + part.offset - component.length });
+      }
+      const componentIndex = partIdx + 1;
+      const componentSchema = isComposite
+        ? schema!.components!.find(c => c.index === componentIndex)
+        : (parts.length === 1 ? schema : undefined);
+
+      subTokens.push({
+        type: 'COMPONENT',
+        value: part.value,
+        index: elementIndex,
+        offset: offset + rep.offset + part.offset,
+        fullId: isComposite || parts.length > 1 ? `${elementId}-${componentIndex}` : elementId,
+        componentIndex,
+        repetitionIndex: repIdx,
+        schema: componentSchema
+      });
+    });
+  });
+
+  return hasParts || isComposite ? subTokens : undefined;
+};
+
+/**
+ * Returns the value at an element/component position, e.g. (line, 5, 1) for SLN05-1.
+ * Works for simple elements too (component 1 is the whole value).
+ */
+export const getComponentValue = (
+  line: ParsedLine,
+  elementIndex: number,
+  componentIndex: number = 1,
+  repetitionIndex: number = 0
+): string | undefined => {
+  const element = line.tokens.find(t => t.type === 'ELEMENT' && t.index === elementIndex);
+  if (!element) return undefined;
+  if (!element.subTokens) {
+    return componentIndex === 1 && repetitionIndex === 0 ? element.value : undefined;
+  }
+  return element.subTokens.find(t =>
+    t.type === 'COMPONENT' &&
+    t.componentIndex === componentIndex &&
+    t.repetitionIndex === repetitionIndex
+  )?.value;
+};
+
+/**
+ * Parses content into tokenized lines plus the hierarchical document tree
+ * (Interchange -> Group -> Transaction -> Loop -> Segment).
+ * Results are cached by content hash; treat the returned document as read-only.
+ */
+export const parseEdiDocument = (content: string, options: ParseOptions = {}): EdiDocument => {
+  // Same string as the last call (the common case while rendering) skips hashing entirely
+  const revision = schemaRegistry.revision;
+  const overrides = options.dictionaryOverrides ? JSON.stringify(options.dictionaryOverrides) : '';
+  if (lastParsed && lastParsed.revision === revision && lastParsed.overrides === overrides && lastParsed.content === content) return lastParsed.doc;
+
+  const key = `${revision}:${overrides}:${hashContent(content)}`;
+  const cached = parseCache.get(key);
+  let doc: EdiDocument;
+  if (cached && cached.content === content) {
+    doc = cached.doc;
+    parseCache.delete(key); // Re-insert to mark as most recently used
+  } else {
+    doc = buildParsedDocument(content, options);
+    parseCache.delete(key);
+    if (parseCache.size >= PARSE_CACHE_SIZE) {
+      parseCache.delete(parseCache.keys().next().value as string);
+    }
+  }
+  parseCache.set(key, { content, doc });
+  lastParsed = { content, revision, overrides, doc };
+  return doc;
+};
+
+/**
+ * Parses without reading or filling the cache, for passes over many files that would
+ * otherwise evict the documents in use.
+ */
+export const parseEdiDocumentUncached = (content: string, options: ParseOptions = {}): EdiDocument =>
+  buildParsedDocument(content, options);
+
+const buildParsedDocument = (content: string, options: ParseOptions): EdiDocument => {
+  if (!content) return { standard: 'UNKNOWN', lines: [], interchanges: [] };
 
   // 1. Detect Delimiters dynamically
-  const { segment: terminator, element: separator, component, standard } = detectDelimiters(content);
+  const delimiters = detectDelimiters(content);
+  const { segment: terminator, element: separator, component, release, standard } = delimiters;
 
   // If text file (unknown standard), treat as plain lines
   if (standard === 'UNKNOWN') {
-      return content.split(/\r?\n/).map((raw, i) => ({
+      const plainLines = content.split(/\r?\n/).map((raw, i) => ({
         lineNumber: i + 1,
         raw,
         segmentId: '',
         indent: 0,
         isLoopStart: false,
-        tokens: [{ type: 'ELEMENT', value: raw, index: 0 }] as EdiToken[]
+        tokens: [{ type: 'ELEMENT', value: raw, index: 0, offset: 0 }] as EdiToken[]
       }));
+      return buildEdiDocument(plainLines, standard);
   }
 
   // 2. Split Content
@@ -43,10 +165,9 @@ export const parseEdiToLines = (content: string): ParsedLine[] => {
       // This is for files that come in as a single long string.
       // We clean up newlines that might be artifacts if they aren't the terminator.
       if (terminator !== '\n' && terminator !== '\r\n') {
+          // Escape-aware: "?'" inside EDIFACT data does not end the segment.
           const cleanStream = content.replace(/[\r\n]+/g, ''); 
-          rawSegments = cleanStream.split(terminator)
-            .map(s => s.trim())
-            .filter(s => s.length > 0)
+          rawSegments = splitSegments(cleanStream, delimiters)
             .map(s => s + terminator); // Add terminator back for visual consistency
       } else {
           rawSegments = content.split(/\r?\n/).filter(s => s.trim().length > 0);
@@ -54,44 +175,88 @@ export const parseEdiToLines = (content: string): ParsedLine[] => {
   }
 
   const lines: ParsedLine[] = [];
-  const loopStack: { id: string; startLine: number }[] = [];
+
+  // Dictionary in effect: GS08 / UNH S009 inside a group or message, else the interchange header's
+  let interchangeDictionary: string | undefined;
+  let groupDictionary: string | undefined;
+  let dictionary: string | undefined;
+  // Set from the options for the current interchange; takes the place of GS08 / UNG / UNH
+  let override: string | undefined;
 
   rawSegments.forEach((raw, idx) => {
     // Clean up terminator for tokenization, but keep 'raw' intact for display if needed?
     // Actually, 'raw' in ParsedLine is used for display. 
     // If we split by newline, 'raw' is the line content.
     
+    // Offsets in tokens are relative to 'raw', so account for leading whitespace.
+    const leading = raw.length - raw.trimStart().length;
     let cleanRaw = raw.trim();
-    if (cleanRaw.endsWith(terminator) && terminator !== '\n' && terminator !== '\r\n') {
-        cleanRaw = cleanRaw.substring(0, cleanRaw.length - terminator.length).trim();
+    const hasTerminator = endsWithTerminator(cleanRaw, terminator, release);
+    if (hasTerminator) {
+        cleanRaw = cleanRaw.substring(0, cleanRaw.length - terminator.length);
     }
     
-    // Split by Element Separator
-    const parts = cleanRaw.split(separator);
-    const segmentId = parts[0];
-    const definition = STANDARD_SEGMENTS[segmentId];
-
     // --- Tokenize ---
     const tokens: EdiToken[] = [];
+
+    // UNA carries the delimiters themselves, so it cannot be split by them.
+    const isServiceAdvice = standard === 'EDIFACT' && cleanRaw.startsWith('UNA');
+
+    // Split by Element Separator (release-character aware)
+    const parts = isServiceAdvice
+        ? [{ value: 'UNA', offset: 0 }, { value: cleanRaw.substring(3), offset: 3 }]
+        : splitEscaped(cleanRaw, separator, release);
+    const segmentId = parts[0].value;
+    const elementAt = (i: number) => parts[i]?.value.trim();
+
+    if (standard === 'X12') {
+      if (segmentId === 'ISA') {
+        interchangeDictionary = groupDictionary = dictionary = dictionaryKey('X12', x12InterchangeVersion(elementAt(12)));
+        override = options.dictionaryOverrides?.[idx + 1];
+      } else if (segmentId === 'GS') {
+        groupDictionary = dictionary = override || dictionaryKey('X12', elementAt(8)) || interchangeDictionary;
+      }
+    } else if (standard === 'EDIFACT') {
+      const components = (i: number) => splitEscaped(elementAt(i) || '', component, release).map(c => c.value);
+      if (segmentId === 'UNB') {
+        // UNB S001 only names the syntax level, which selects the service segment dictionary
+        const syntax = components(1)[1];
+        interchangeDictionary = groupDictionary = dictionary = dictionaryKey('EDIFACT', syntax ? `SYNTAX${syntax}` : undefined);
+        override = options.dictionaryOverrides?.[idx + 1];
+      } else if (segmentId === 'UNG') {
+        const [version, rel] = components(7);
+        groupDictionary = dictionary = override || dictionaryKey('EDIFACT', edifactDirectory(version, rel)) || interchangeDictionary;
+      } else if (segmentId === 'UNH') {
+        const [, version, rel] = components(2);
+        dictionary = override || dictionaryKey('EDIFACT', edifactDirectory(version, rel)) || groupDictionary;
+      }
+    }
+    // Without a version the standard's base dictionary applies (keeps EDIFACT DTM off the X12 DTM definition)
+    const lineDictionary = dictionary || standard;
+    const definition = schemaRegistry.resolveSegment(lineDictionary, segmentId);
     
     // Segment ID Token
     tokens.push({
       type: 'SEGMENT_ID',
       value: segmentId,
       index: 0,
+      offset: leading,
       fullId: segmentId,
       schema: definition
     });
 
     // Element Tokens
     for (let i = 1; i < parts.length; i++) {
-      tokens.push({
-        type: 'DELIMITER',
-        value: separator,
-        index: -1
-      });
+      if (!isServiceAdvice) {
+        tokens.push({
+          type: 'DELIMITER',
+          value: separator,
+          index: -1,
+          offset: leading + parts[i].offset - separator.length
+        });
+      }
       
-      const val = parts[i];
+      const val = parts[i].value;
       const elementIndex = i;
       const elementId = `${segmentId}${elementIndex < 10 ? '0' + elementIndex : elementIndex}`;
       const elemSchema = definition?.elements.find(e => e.index === elementIndex);
@@ -100,76 +265,62 @@ export const parseEdiToLines = (content: string): ParsedLine[] => {
         type: 'ELEMENT',
         value: val,
         index: elementIndex,
+        offset: leading + parts[i].offset,
         fullId: elementId,
-        schema: elemSchema
+        schema: elemSchema,
+        subTokens: isServiceAdvice || segmentId === 'ISA'
+          ? undefined
+          : tokenizeComposite(val, leading + parts[i].offset, elementIndex, elementId, elemSchema, delimiters)
       });
     }
 
     // Add Terminator Token (Visual)
     // Only add if it was present in the original split or inferred
-    if (raw.trim().endsWith(terminator) && terminator !== '\n' && terminator !== '\r\n') {
+    if (hasTerminator) {
         tokens.push({
             type: 'TERMINATOR',
             value: terminator,
-            index: -1
+            index: -1,
+            offset: leading + cleanRaw.length
         });
     }
 
-    // --- Hierarchy & Folding Logic ---
-    let indent = 0;
-    let isLoopStart = false;
-
-    if (segmentId === 'IEA' || segmentId === 'UNZ') {
-        indent = 0;
-    } else if (segmentId === 'GE' || segmentId === 'UNE' || segmentId === 'UNT') {
-        indent = 1;
-    } else if (segmentId === 'SE') {
-        indent = 2;
-        while (loopStack.length > 0 && loopStack[loopStack.length - 1].id !== 'ST' && loopStack[loopStack.length - 1].id !== 'UNH') {
-           const closed = loopStack.pop();
-           if (closed && lines[closed.startLine]) lines[closed.startLine].loopEndLine = idx;
-        }
-    } else if (segmentId === 'ISA' || segmentId === 'UNB' || segmentId === 'UNA') {
-        indent = 0;
-    } else if (segmentId === 'GS' || segmentId === 'UNG') {
-        indent = 1;
-    } else if (segmentId === 'ST' || segmentId === 'UNH') {
-        indent = 2;
-    } else {
-        indent = 3; 
-        const loopStarters = ['N1', 'NM1', 'ENT', 'NAD', 'PO1', 'IT1', 'LIN', 'HL', 'LX', 'CLM'];
-        
-        if (loopStarters.includes(segmentId)) {
-             if (loopStack.length > 0 && loopStack[loopStack.length - 1].id === segmentId) {
-                const closed = loopStack.pop();
-                 if (closed && lines[closed.startLine]) lines[closed.startLine].loopEndLine = idx - 1;
-             }
-             if (segmentId === 'HL' && loopStack.length > 0 && loopStack[loopStack.length - 1].id === 'HL') {
-                const closed = loopStack.pop();
-                 if (closed && lines[closed.startLine]) lines[closed.startLine].loopEndLine = idx - 1;
-             }
-             isLoopStart = true;
-             loopStack.push({ id: segmentId, startLine: idx });
-        }
-        if (loopStack.length > 0 && !isLoopStart) {
-            indent = 4;
-        }
-    }
-
     lines.push({
       lineNumber: idx + 1,
       raw: raw, // Use original raw including visual terminator
       segmentId,
-      indent,
-      isLoopStart,
-      tokens
+      indent: 0,
+      isLoopStart: false,
+      tokens,
+      dictionary: lineDictionary
     });
+
+    // Trailers close the message / group scope
+    if (segmentId === 'UNT') dictionary = groupDictionary;
+    else if (segmentId === 'GE' || segmentId === 'UNE') groupDictionary = dictionary = interchangeDictionary;
   });
 
-  while (loopStack.length > 0) {
-      const closed = loopStack.pop();
-      if (closed && lines[closed.startLine]) lines[closed.startLine].loopEndLine = lines.length - 1;
-  }
+  // --- Hierarchy & Folding Logic ---
+  // Indentation and fold ranges come from the schema-driven document tree
+  const doc = buildEdiDocument(lines, standard);
+  flattenDocument(doc).forEach(({ segment, depth, isLoopStart, endLine }) => {
+    segment.line.indent = depth;
+    segment.line.isLoopStart = isLoopStart;
+    if (isLoopStart) segment.line.loopEndLine = endLine;
+  });
+
+  return doc;
+};
+
+/**
+ * Distinct schema registry keys referenced by the document's lines.
+ */
+export const documentDictionaries = (doc: EdiDocument): string[] => {
+  const keys = new Set<string>();
+  doc.lines.forEach(line => { if (line.dictionary) keys.add(line.dictionary); });
+  return Array.from(keys);
+};
 
-  return lines;
+export const parseEdiToLines = (content: string, options?: ParseOptions): ParsedLine[] => {
+  return parseEdiDocument(content, options).lines;
 };
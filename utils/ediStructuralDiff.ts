@@ -1,5 +1,6 @@
 
 import { detectDelimiters } from './ediDetection';
+import { splitEscaped, splitSegments } from './ediTokenizer';
 
 export interface EdiSegment {
   id: string;
@@ -35,7 +36,8 @@ export interface StructuralResult {
 
 const parseSegments = (content: string): EdiSegment[] => {
   if (!content) return [];
-  const { segment: terminator, element: separator } = detectDelimiters(content);
+  const delimiters = detectDelimiters(content);
+  const { segment: terminator, element: separator, release } = delimiters;
   
   // Normalize newlines to avoid splitting issues if terminator isn't newline
   let cleanContent = content;
@@ -43,10 +45,12 @@ const parseSegments = (content: string): EdiSegment[] => {
       cleanContent = content.replace(/[\r\n]+/g, '');
   }
 
-  const chunks = cleanContent.split(terminator).map(s => s.trim()).filter(s => s.length > 0);
+  const chunks = splitSegments(cleanContent, delimiters);
   
   return chunks.map((raw, idx) => {
-    const parts = raw.split(separator);
+    const parts = raw.startsWith('UNA')
+      ? ['UNA', raw.substring(3)]
+      : splitEscaped(raw, separator, release).map(p => p.value);
     return {
       id: parts[0],
       elements: parts.slice(1),
@@ -0,0 +1,113 @@
+import { EdiDelimiters } from './ediDetection';
+
+/**
+ * EDI Tokenizer
+ * Escape-aware splitting shared by the parser, validator, structural diff and formatter.
+ * EDIFACT uses a release character (default '?') so that delimiters can appear as data,
+ * e.g. "FTX+AAI+++SMITH?'S?+CO" carries the literal text "SMITH'S+CO".
+ */
+
+export interface RawPart {
+  value: string;  // Raw text of the part, release characters kept
+  offset: number; // Start offset of the part within the text that was split
+}
+
+/**
+ * True if the character at `index` is preceded by an odd number of release characters,
+ * meaning it is escaped data rather than a delimiter.
+ */
+export const isEscapedAt = (text: string, index: number, release?: string): boolean => {
+  if (!release) return false;
+  let count = 0;
+  for (let i = index - 1; i >= 0 && text[i] === release; i--) count++;
+  return count % 2 === 1;
+};
+
+/**
+ * Splits text on a single-character delimiter, skipping escaped occurrences.
+ * Offsets always point into the original text so tokens can be mapped back to it.
+ */
+export const splitEscaped = (text: string, delimiter: string, release?: string): RawPart[] => {
+  if (!delimiter) return [{ value: text, offset: 0 }];
+
+  const parts: RawPart[] = [];
+  let start = 0;
+  let idx = text.indexOf(delimiter);
+
+  while (idx !== -1) {
+    if (!isEscapedAt(text, idx, release)) {
+      parts.push({ value: text.substring(start, idx), offset: start });
+      start = idx + delimiter.length;
+    }
+    idx = text.indexOf(delimiter, idx + delimiter.length);
+  }
+  parts.push({ value: text.substring(start), offset: start });
+  return parts;
+};
+
+/**
+ * True if the text ends with an unescaped segment terminator.
+ */
+export const endsWithTerminator = (text: string, terminator: string, release?: string): boolean => {
+  if (!terminator || terminator === '\n' || terminator === '\r\n') return false;
+  if (!text.endsWith(terminator)) return false;
+  return !isEscapedAt(text, text.length - terminator.length, release);
+};
+
+/**
+ * Splits a raw interchange stream into segments (terminators removed, whitespace trimmed).
+ * The EDIFACT UNA service string advice is fixed-length and carries the delimiters
+ * themselves, so it is cut off as-is before splitting.
+ */
+export const splitSegments = (stream: string, delimiters: EdiDelimiters): string[] => {
+  const { segment: terminator, release } = delimiters;
+  const segments: string[] = [];
+  let body = stream;
+
+  const trimmed = stream.trimStart();
+  if (delimiters.standard === 'EDIFACT' && trimmed.startsWith('UNA') && trimmed.length >= 9) {
+    segments.push(trimmed.substring(0, 8));
+    body = trimmed.substring(9);
+  }
+
+  splitEscaped(body, terminator, release)
+    .map(p => p.value.trim())
+    .filter(s => s.length > 0)
+    .forEach(s => segments.push(s));
+
+  return segments;
+};
+
+/**
+ * Removes release characters, returning the literal data value.
+ * "SMITH?'S?+CO" -> "SMITH'S+CO", "50?? OFF" -> "50? OFF"
+ */
+export const unescapeValue = (value: string, release?: string): string => {
+  if (!release || !value.includes(release)) return value;
+  let out = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === release && i + 1 < value.length) {
+      out += value[i + 1];
+      i++;
+    } else {
+      out += value[i];
+    }
+  }
+  return out;
+};
+
+/**
+ * Inverse of unescapeValue: prefixes every delimiter (including the repetition separator, when there is
+ * one) and release character with the release character.
+ */
+export const escapeValue = (value: string, delimiters: EdiDelimiters): string => {
+  const { release } = delimiters;
+  if (!release) return value;
+  const specials = new Set([delimiters.segment, delimiters.element, delimiters.component, release]);
+  if (delimiters.repetition) specials.add(delimiters.repetition);
+  let out = '';
+  for (const ch of value) {
+    out += specials.has(ch) ? release + ch : ch;
+  }
+  return out;
+};
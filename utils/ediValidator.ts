@@ -1,52 +1,195 @@
 
-import { LineError, EditorValidationResult, ParsedLine, SegmentRule } from '../types';
-import { parseEdiToLines } from './ediParser';
-import { X12_STRUCTURES } from '../data/x12Structure';
+import { LineError, ElementErrorKind, EditorValidationResult, DocumentValidationResult, ParsedLine, SegmentRule, ElementSchema, SegmentSchema, EdiToken, EdiDocument, EdiTransactionNode, EdiSegmentNode, DateWindow, ParseOptions } from '../types';
+import { parseEdiDocument } from './ediParser';
+import { getTransactions, ruleMaxOccurs } from './ediDocument';
+import { detectDelimiters } from './ediDetection';
+import { unescapeValue } from './ediTokenizer';
+import { fnv1a } from './contentHash';
+import { parseSyntaxNote, checkSyntaxNote } from './syntaxNotes';
+import { validateHlHierarchy } from './hlHierarchy';
+import { validateTotals } from './totalsCheck';
+import { validateDateWindows } from './dateWindows';
+import { validateServiceStringAdvice, validateSyntaxCharset } from './edifactEnvelope';
+import { validateControlNumberUniqueness } from './controlNumbers';
+import { checkEdiDate, checkEdiTime, parseFormattedDate, DateFormat, EDIFACT_DATE_FORMATS, X12_DATE_FORMATS } from './dateTime';
+import { schemaRegistry } from '../data/schemaRegistry';
+import { DEFAULT_DATE_WINDOWS } from '../data/dateWindows';
 
 /**
- * Validates a single element value based on X12 standards.
+ * Validates a single element value against its definition. Definitions come from the
+ * schema registry for the line's dictionary version, so lengths and code lists follow GS08 / UNH S009.
  */
-function validateElement(value: string, type: string, min: number, max: number, qualifiers?: Record<string, string>): { message: string, severity: 'ERROR' | 'WARNING' } | null {
+function validateElement(value: string, schema: ElementSchema): { message: string, severity: 'ERROR' | 'WARNING', kind: ElementErrorKind } | null {
   if (!value) return null;
+  const { type, min, max, qualifiers } = schema;
 
-  if (value.length < min) return { message: `Value '${value}' is too short (Min: ${min})`, severity: 'WARNING' };
-  if (value.length > max) return { message: `Value '${value}' is too long (Max: ${max})`, severity: 'ERROR' };
+  if (value.length < min) return { message: `Value '${value}' is too short (Min: ${min})`, severity: 'WARNING', kind: 'TOO_SHORT' };
+  if (value.length > max) return { message: `Value '${value}' is too long (Max: ${max})`, severity: 'ERROR', kind: 'TOO_LONG' };
 
   switch (type) {
-    case 'DT': 
-        if (!/^\d{6,8}$/.test(value)) return { message: "Invalid Date (Expect YYMMDD or CCYYMMDD)", severity: 'ERROR' }; 
+    case 'DT': {
+        const error = checkEdiDate(value);
+        if (error) return { message: error, severity: 'ERROR', kind: 'INVALID_DATE' };
         break;
-    case 'TM': 
-        if (!/^\d{4,8}$/.test(value)) return { message: "Invalid Time (Expect HHMM, HHMMSS...)", severity: 'ERROR' }; 
+    }
+    case 'TM': {
+        const error = checkEdiTime(value);
+        if (error) return { message: error, severity: 'ERROR', kind: 'INVALID_TIME' };
         break;
+    }
     case 'N0': 
-        if (!/^-?\d+$/.test(value)) return { message: "Expected Integer (N0)", severity: 'ERROR' }; 
+        if (!/^-?\d+$/.test(value)) return { message: "Expected Integer (N0)", severity: 'ERROR', kind: 'INVALID_NUMBER' }; 
         break;
     case 'R':  
     case 'N2': 
-        if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return { message: "Expected Numeric (Decimal allowed)", severity: 'ERROR' }; 
+        if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return { message: "Expected Numeric (Decimal allowed)", severity: 'ERROR', kind: 'INVALID_NUMBER' }; 
         break;
     case 'ID': 
         if (qualifiers && !qualifiers[value] && Object.keys(qualifiers).length > 0) {
-            return { message: `Invalid Qualifier '${value}'. Expected one of: ${Object.keys(qualifiers).join(', ')}`, severity: 'ERROR' }; 
+            return { message: `Invalid Qualifier '${value}'. Expected one of: ${Object.keys(qualifiers).join(', ')}`, severity: 'ERROR', kind: 'INVALID_CODE' }; 
         }
         break;
   }
   return null;
 }
 
+const hasValue = (token: EdiToken): boolean =>
+    token.subTokens
+        ? token.subTokens.some(t => t.type === 'COMPONENT' && t.value !== '')
+        : token.value !== '';
+
 /**
- * Recursive structural validation for X12 segments and loops.
+ * Requirement designators and syntax notes. Mandatory elements must be present; mandatory components
+ * only once their composite (or that repetition of it) is used. Relational conditions come from the
+ * segment's syntax notes, which is what the X designator refers to.
+ */
+function validateElementRelations(line: ParsedLine, schema: SegmentSchema): LineError[] {
+    const errors: LineError[] = [];
+    const elements = new Map<number, EdiToken>();
+    line.tokens.forEach(t => { if (t.type === 'ELEMENT') elements.set(t.index, t); });
+    const isPresent = (position: number) => {
+        const token = elements.get(position);
+        return !!token && hasValue(token);
+    };
+
+    schema.elements.forEach(element => {
+        if (!isPresent(element.index)) {
+            if (element.requirement === 'M') {
+                errors.push({
+                    line: line.lineNumber,
+                    code: 'MISSING_ELEMENT',
+                    message: `Missing mandatory element ${element.id} (${element.name})`,
+                    severity: 'ERROR',
+                    tokenIndex: element.index
+                });
+            }
+            return;
+        }
+
+        const mandatory = element.components?.filter(c => c.requirement === 'M') || [];
+        if (mandatory.length === 0) return;
+        const repetitions = new Map<number, EdiToken[]>();
+        elements.get(element.index)!.subTokens!.forEach(t => {
+            if (t.type !== 'COMPONENT') return;
+            const rep = t.repetitionIndex ?? 0;
+            repetitions.set(rep, [...(repetitions.get(rep) || []), t]);
+        });
+        repetitions.forEach(components => {
+            if (!components.some(c => c.value !== '')) return;
+            mandatory.forEach(c => {
+                if (components.some(t => t.componentIndex === c.index && t.value !== '')) return;
+                errors.push({
+                    line: line.lineNumber,
+                    code: 'MISSING_ELEMENT',
+                    message: `Missing mandatory component ${c.id} (${c.name}) in ${element.id}`,
+                    severity: 'ERROR',
+                    tokenIndex: element.index,
+                    componentIndex: c.index
+                });
+            });
+        });
+    });
+
+    schema.syntax?.forEach(raw => {
+        const note = parseSyntaxNote(raw);
+        const violation = note && checkSyntaxNote(schema.id, note, isPresent);
+        if (violation) {
+            errors.push({
+                line: line.lineNumber,
+                code: violation.code,
+                message: `Syntax note ${raw}: ${violation.message}`,
+                severity: 'ERROR',
+                tokenIndex: violation.position
+            });
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Date values whose layout is given by a format qualifier in the same segment: EDIFACT DTM C507
+ * (value in :2, format code in :3), X12 DTM06 by DTM05 and DTP03 by DTP02. Unlisted codes are not checked.
+ */
+function validateDateFormats(line: ParsedLine, release?: string): LineError[] {
+    const element = (index: number) => line.tokens.find(t => t.type === 'ELEMENT' && t.index === index);
+    const component = (token: EdiToken | undefined, index: number) =>
+        token?.subTokens?.find(t => t.type === 'COMPONENT' && t.componentIndex === index && !t.repetitionIndex)?.value || '';
+
+    let value = '';
+    let code = '';
+    let formats: Record<string, DateFormat> = X12_DATE_FORMATS;
+    let label = '';
+    let tokenIndex = 0;
+    let componentIndex: number | undefined;
+
+    if (line.segmentId === 'DTM' && element(1)?.subTokens) {
+        const c507 = element(1);
+        value = component(c507, 2);
+        code = component(c507, 3);
+        formats = EDIFACT_DATE_FORMATS;
+        label = 'DTM C507';
+        tokenIndex = 1;
+        componentIndex = 2;
+    } else if (line.segmentId === 'DTM' || line.segmentId === 'DTP') {
+        const [formatIndex, valueIndex] = line.segmentId === 'DTM' ? [5, 6] : [2, 3];
+        code = element(formatIndex)?.value || '';
+        value = element(valueIndex)?.value || '';
+        label = `${line.segmentId}${String(valueIndex).padStart(2, '0')}`;
+        tokenIndex = valueIndex;
+    }
+
+    const format = formats[code];
+    if (!value || !format) return [];
+    const result = parseFormattedDate(unescapeValue(value, release), format.pattern);
+    if (typeof result !== 'string') return [];
+    return [{
+        line: line.lineNumber,
+        code: 'DATE_FORMAT',
+        message: `${label}: '${value}' does not match format ${code} (${format.description}): ${result}`,
+        severity: 'ERROR',
+        tokenIndex,
+        componentIndex
+    }];
+}
+
+/**
+ * Recursive structural validation for X12 loops and EDIFACT segment groups.
+ * Consecutive occurrences of a rule are counted against its max use / loop repeat; once the
+ * limit is reached a further occurrence moves on to a later rule for the same segment
+ * (e.g. a second NM1 loop) or, if there is none, is reported as over-use.
  */
 function validateStructure(
     lines: ParsedLine[], 
     structure: SegmentRule[], 
     startIndex: number, 
-    maxIndex: number
+    maxIndex: number,
+    isLoopBody: boolean = false
 ): { errors: LineError[], lastIndex: number } {
     const errors: LineError[] = [];
     let lineIdx = startIndex;
     let structIdx = 0;
+    let occurrences = 0; // Times the current rule has matched in a row
 
     const isExpectedLater = (segId: string, currentStructIdx: number): boolean => {
         for (let i = currentStructIdx; i < structure.length; i++) {
@@ -60,6 +203,9 @@ function validateStructure(
         const rule = structure[structIdx];
         const segId = line.segmentId;
 
+        // The starter opens the next iteration; the enclosing level counts it against the loop repeat
+        if (isLoopBody && lineIdx > startIndex && segId === structure[0].id) break;
+
         if (['ISA', 'GS', 'GE', 'IEA'].includes(segId)) {
             if (!['ISA', 'GS', 'GE', 'IEA'].includes(rule.id)) {
                  lineIdx++;
@@ -68,21 +214,39 @@ function validateStructure(
         }
 
         if (segId === rule.id) {
+            const limit = ruleMaxOccurs(rule);
+            if (occurrences >= limit && isExpectedLater(segId, structIdx + 1)) {
+                structIdx++;
+                occurrences = 0;
+                continue;
+            }
+
+            occurrences++;
+            if (occurrences > limit) {
+                errors.push({
+                    line: line.lineNumber,
+                    code: rule.loop ? 'LOOP_REPEAT_EXCEEDED' : 'MAX_USE_EXCEEDED',
+                    message: rule.loop
+                        ? `Loop ${rule.name || rule.id} exceeds its maximum repeat of ${limit} (occurrence ${occurrences})`
+                        : `Segment ${segId} exceeds its maximum use of ${limit} (occurrence ${occurrences})`,
+                    severity: 'ERROR',
+                    tokenIndex: 0
+                });
+            }
+
             if (rule.loop && rule.children) {
-                const loopResult = validateStructure(lines, rule.children, lineIdx, maxIndex);
+                const loopResult = validateStructure(lines, rule.children, lineIdx, maxIndex, true);
                 errors.push(...loopResult.errors);
                 if (loopResult.lastIndex > lineIdx) {
                     lineIdx = loopResult.lastIndex;
-                    if (!rule.repeat) structIdx++;
                 } else {
                     lineIdx++;
                 }
             } else {
                 lineIdx++;
-                if (!rule.repeat) structIdx++;
             }
         } else {
-            if (rule.req) {
+            if (rule.req && occurrences === 0) {
                 if (isExpectedLater(segId, structIdx + 1)) {
                      errors.push({
                         line: lines[lineIdx].lineNumber,
@@ -97,6 +261,7 @@ function validateStructure(
                 }
             } else {
                 structIdx++;
+                occurrences = 0;
             }
         }
     }
@@ -104,32 +269,21 @@ function validateStructure(
     return { errors, lastIndex: lineIdx };
 }
 
-const validateTransactionStructure = (lines: ParsedLine[]): LineError[] => {
-    const stLineIndex = lines.findIndex(l => l.segmentId === 'ST');
-    if (stLineIndex === -1) return []; 
+const validateTransactionStructure = (lines: ParsedLine[], transaction: EdiTransactionNode): LineError[] => {
+    // Boundaries and definition come from the document tree
+    const def = transaction.definition;
+    if (!transaction.header || !def) return [];
 
-    const stLine = lines[stLineIndex];
-    const transTypeToken = stLine.tokens.find(t => t.index === 1);
-    const transType = transTypeToken?.value;
-    
-    if (!transType) return [];
-    const def = X12_STRUCTURES[transType];
-    if (!def) return [];
-
-    let seLineIndex = -1;
-    for(let i = stLineIndex + 1; i < lines.length; i++) {
-        if (lines[i].segmentId === 'SE') {
-            seLineIndex = i;
-            break;
-        }
-    }
+    const transType = transaction.type;
+    const stLineIndex = transaction.header.lineIndex;
+    const seLineIndex = transaction.trailer ? transaction.trailer.lineIndex : -1;
     
-    const endIndex = seLineIndex !== -1 ? seLineIndex + 1 : lines.length;
+    const endIndex = seLineIndex !== -1 ? seLineIndex + 1 : transaction.endLine + 1;
     const { errors, lastIndex } = validateStructure(lines, def.structure, stLineIndex, endIndex);
     
     if (lastIndex < endIndex) {
         for(let i = lastIndex; i < endIndex; i++) {
-            if (lines[i].segmentId === 'SE') continue;
+            if (lines[i].segmentId === 'SE' || lines[i].segmentId === 'UNT') continue;
             errors.push({
                 line: lines[i].lineNumber,
                 code: 'UNEXPECTED_SEG',
@@ -143,106 +297,161 @@ const validateTransactionStructure = (lines: ParsedLine[]): LineError[] => {
     return errors;
 };
 
-export const validateRealTime = (content: string): EditorValidationResult => {
-  const errors: LineError[] = [];
-  const lines = parseEdiToLines(content);
+const elementValue = (segment: EdiSegmentNode | undefined, index: number): string | undefined =>
+    segment?.elements.find(t => t.index === index)?.value;
 
-  // Envelope Context Tracking
-  let isaControl: string | null = null;
-  let gsControl: string | null = null;
-  let stControl: string | null = null;
-  let segmentCountSinceST = 0;
+const missingTrailer = (header: EdiSegmentNode, trailerId: string, control?: string): LineError => ({
+    line: header.line.lineNumber,
+    code: 'MISSING_TRAILER',
+    message: `${header.id}${control ? ` ${control}` : ''} has no matching ${trailerId} trailer.`,
+    severity: 'ERROR',
+    tokenIndex: 0
+});
 
-  lines.forEach((line) => {
-    const segId = line.segmentId;
-    const lineNum = line.lineNumber;
+const ENVELOPE_TRAILERS: Record<string, { trailer: string; mismatchCode: string }> = {
+    ISA: { trailer: 'IEA', mismatchCode: 'ISA_IEA_MISMATCH' },
+    GS: { trailer: 'GE', mismatchCode: 'GS_GE_MISMATCH' },
+    UNB: { trailer: 'UNZ', mismatchCode: 'UNB_UNZ_MISMATCH' },
+    UNG: { trailer: 'UNE', mismatchCode: 'UNG_UNE_MISMATCH' }
+};
 
-    // --- ISA Fixed Length Check ---
-    if (segId === 'ISA') {
-        const rawTrimmed = line.raw.trim();
-        // ISA is exactly 106 chars if includes terminator (105 elements + 1 terminator)
-        if (rawTrimmed.length > 0 && rawTrimmed.length !== 106 && rawTrimmed.length !== 105) {
-            errors.push({
-                line: lineNum,
-                code: 'ISA_LEN',
-                message: `ISA segment length mismatch. Expected 105 characters, found ${rawTrimmed.length}.`,
-                severity: 'ERROR',
-                tokenIndex: -1
-            });
-        }
-        isaControl = line.tokens.find(t => t.index === 13)?.value || null;
-    }
+/**
+ * Trailer present, trailer control number (element 2) equal to the header's, and, where
+ * `count` is given, trailer element 1 equal to the number of groups / messages it closes.
+ */
+const validateEnvelopePair = (
+    header: EdiSegmentNode | undefined,
+    trailer: EdiSegmentNode | undefined,
+    control: string | undefined,
+    count?: { actual: number; of: string }
+): LineError[] => {
+    const pair = header && ENVELOPE_TRAILERS[header.id];
+    if (!header || !pair) return [];
+    if (!trailer) return [missingTrailer(header, pair.trailer, control)];
 
-    // --- GS Control Tracking ---
-    if (segId === 'GS') {
-        gsControl = line.tokens.find(t => t.index === 6)?.value || null;
+    const errors: LineError[] = [];
+    const trailerControl = elementValue(trailer, 2);
+    if (control && trailerControl !== control) {
+        errors.push({
+            line: trailer.line.lineNumber,
+            code: pair.mismatchCode,
+            message: `Control number mismatch. ${header.id}: ${control}, ${pair.trailer}: ${trailerControl}.`,
+            severity: 'ERROR',
+            tokenIndex: 2
+        });
     }
 
-    // --- ST Control Tracking ---
-    if (segId === 'ST' || segId === 'UNH') {
-      stControl = line.tokens.find(t => t.index === 2)?.value || null;
-      segmentCountSinceST = 0;
+    const declared = elementValue(trailer, 1);
+    if (count && declared !== undefined && parseInt(declared, 10) !== count.actual) {
+        errors.push({
+            line: trailer.line.lineNumber,
+            code: `${pair.trailer}_COUNT`,
+            message: `${pair.trailer}01 is ${declared} but the ${header.id === 'UNG' || header.id === 'GS' ? 'group' : 'interchange'} contains ${count.actual} ${count.of}${count.actual === 1 ? '' : 's'}.`,
+            severity: 'ERROR',
+            tokenIndex: 1
+        });
     }
-    
-    // --- Trailer Integrity & Control Matching ---
-    if (segId === 'SE' || segId === 'UNT') {
-      const seControl = line.tokens.find(t => t.index === 2)?.value;
-      if (stControl && seControl !== stControl) {
-          errors.push({
-              line: lineNum,
-              code: 'ST_SE_MISMATCH',
-              message: `Control number mismatch. ST: ${stControl}, SE: ${seControl}.`,
-              severity: 'ERROR',
-              tokenIndex: 2
-          });
-      }
-
-      const countToken = line.tokens.find(t => t.index === 1);
-      if (countToken && countToken.value) {
-          const expected = segmentCountSinceST + 1;
-          if (parseInt(countToken.value) !== expected) {
-              errors.push({
-                  line: lineNum,
-                  code: 'SEG_COUNT',
-                  message: `Segment count mismatch. Expected ${expected}, found ${countToken.value}.`,
-                  severity: 'WARNING',
-                  tokenIndex: 1
-              });
-          }
-      }
-      stControl = null;
+
+    return errors;
+};
+
+/**
+ * Header/trailer control numbers and counts for interchanges and functional groups, duplicate
+ * control numbers, and the EDIFACT service string advice and syntax character set.
+ */
+const validateEnvelopes = (doc: EdiDocument, release?: string): LineError[] => {
+    const errors: LineError[] = [];
+
+    doc.interchanges.forEach(interchange => {
+        const { header, trailer } = interchange;
+
+        const explicitGroups = interchange.groups.filter(g => g.header);
+        if (header?.id === 'UNB') {
+            // UNZ01 counts functional groups when UNG is used, messages otherwise
+            const count = explicitGroups.length > 0
+                ? { actual: explicitGroups.length, of: 'functional group' }
+                : { actual: interchange.groups.reduce((n, g) => n + g.transactions.length, 0), of: 'message' };
+            errors.push(...validateEnvelopePair(header, trailer, interchange.controlNumber, count));
+            errors.push(...validateSyntaxCharset(interchange, doc.lines, release));
+        } else {
+            errors.push(...validateEnvelopePair(header, trailer, interchange.controlNumber, { actual: explicitGroups.length, of: 'functional group' }));
+        }
+        errors.push(...validateServiceStringAdvice(interchange));
+
+        interchange.groups.forEach(group => {
+            const count = { actual: group.transactions.length, of: group.header?.id === 'UNG' ? 'message' : 'transaction set' };
+            errors.push(...validateEnvelopePair(group.header, group.trailer, group.controlNumber, count));
+        });
+    });
+
+    errors.push(...validateControlNumberUniqueness(doc));
+    return errors;
+};
+
+/**
+ * ST/SE (UNH/UNT) control number and segment count checks for one transaction set.
+ */
+const validateTransactionEnvelope = (transaction: EdiTransactionNode): LineError[] => {
+    const { header: st, trailer: se } = transaction;
+    if (!st) return [];
+
+    const trailerId = st.id === 'UNH' ? 'UNT' : 'SE';
+    if (!se) return [missingTrailer(st, trailerId, transaction.controlNumber)];
+
+    const errors: LineError[] = [];
+    const seControl = elementValue(se, 2);
+    if (transaction.controlNumber && seControl !== transaction.controlNumber) {
+        errors.push({
+            line: se.line.lineNumber,
+            code: 'ST_SE_MISMATCH',
+            message: `Control number mismatch. ${st.id}: ${transaction.controlNumber}, ${trailerId}: ${seControl}.`,
+            severity: 'ERROR',
+            tokenIndex: 2
+        });
     }
 
-    if (segId === 'GE') {
-        const geControl = line.tokens.find(t => t.index === 2)?.value;
-        if (gsControl && geControl !== gsControl) {
+    const count = elementValue(se, 1);
+    if (count) {
+        // Header and trailer are both included in the count
+        const expected = se.lineIndex - st.lineIndex + 1;
+        if (parseInt(count) !== expected) {
             errors.push({
-                line: lineNum,
-                code: 'GS_GE_MISMATCH',
-                message: `Control number mismatch. GS: ${gsControl}, GE: ${geControl}.`,
+                line: se.line.lineNumber,
+                code: 'SEG_COUNT',
+                message: `Segment count mismatch. Expected ${expected}, found ${count}.`,
                 severity: 'ERROR',
-                tokenIndex: 2
+                tokenIndex: 1
             });
         }
-        gsControl = null;
     }
 
-    if (segId === 'IEA') {
-        const ieaControl = line.tokens.find(t => t.index === 2)?.value;
-        if (isaControl && ieaControl !== isaControl) {
+    return errors;
+};
+
+/**
+ * Segment-level checks that only need the line itself: ISA length, unknown segments, element values,
+ * mandatory elements and syntax notes.
+ */
+const validateLine = (line: ParsedLine, release?: string): LineError[] => {
+    const errors: LineError[] = [];
+    const segId = line.segmentId;
+    const lineNum = line.lineNumber;
+
+    // --- ISA Fixed Length Check ---
+    if (segId === 'ISA') {
+        const rawTrimmed = line.raw.trim();
+        // ISA is exactly 106 chars if includes terminator (105 elements + 1 terminator)
+        if (rawTrimmed.length > 0 && rawTrimmed.length !== 106 && rawTrimmed.length !== 105) {
             errors.push({
                 line: lineNum,
-                code: 'ISA_IEA_MISMATCH',
-                message: `Control number mismatch. ISA: ${isaControl}, IEA: ${ieaControl}.`,
+                code: 'ISA_LEN',
+                message: `ISA segment length mismatch. Expected 105 characters, found ${rawTrimmed.length}.`,
                 severity: 'ERROR',
-                tokenIndex: 2
+                tokenIndex: -1
             });
         }
-        isaControl = null;
     }
 
-    if (stControl || segId === 'ST') segmentCountSinceST++;
-
     // --- Unknown Segment Check ---
     const segToken = line.tokens.find(t => t.type === 'SEGMENT_ID');
     if (segToken && !segToken.schema) {
@@ -259,31 +468,153 @@ export const validateRealTime = (content: string): EditorValidationResult => {
 
     // --- Element Validation ---
     line.tokens.forEach((token) => {
-        if (token.type === 'ELEMENT' && token.schema && 'type' in token.schema) {
-            const result = validateElement(
-                token.value,
-                token.schema.type,
-                token.schema.min,
-                token.schema.max,
-                token.schema.qualifiers
-            );
+        if (token.type !== 'ELEMENT') return;
+
+        // Composites and repetitions are checked per component against the component schema.
+        // Components without their own schema fall back to checking the whole element.
+        const components = token.subTokens?.filter(t => t.type === 'COMPONENT' && t.schema) || [];
+        const targets = components.length > 0 ? components : [token];
+
+        targets.forEach(target => {
+            if (!target.schema || !('type' in target.schema)) return;
+
+            // Lengths and formats apply to the literal data, not the release characters
+            const result = validateElement(unescapeValue(target.value, release), target.schema);
 
             if (result) {
                 errors.push({
                     line: lineNum,
                     code: result.severity === 'ERROR' ? 'VAL_ERR' : 'VAL_WARN',
-                    message: `${token.fullId || token.schema.id}: ${result.message}`,
+                    message: `${target.fullId || target.schema.id}: ${result.message}`,
                     severity: result.severity,
-                    tokenIndex: token.index
+                    tokenIndex: token.index,
+                    componentIndex: target === token ? undefined : target.componentIndex,
+                    elementError: result.kind
                 });
             }
+        });
+    });
+
+    // --- Format-Qualified Dates ---
+    errors.push(...validateDateFormats(line, release));
+
+    // --- Requirement Designators & Syntax Notes ---
+    if (segToken?.schema && 'elements' in segToken.schema) {
+        errors.push(...validateElementRelations(line, segToken.schema));
+    }
+
+    return errors;
+};
+
+/**
+ * Everything that depends only on the lines of one transaction set. The result is a pure
+ * function of those lines, which is what makes per-transaction caching safe.
+ */
+const validateTransaction = (
+    lines: ParsedLine[],
+    transaction: EdiTransactionNode,
+    release: string | undefined,
+    dateWindows: DateWindow[],
+    today: Date
+): LineError[] => {
+    const errors: LineError[] = [];
+    for (let i = transaction.startLine; i <= transaction.endLine; i++) {
+        errors.push(...validateLine(lines[i], release));
+    }
+    errors.push(...validateTransactionEnvelope(transaction));
+    errors.push(...validateTransactionStructure(lines, transaction));
+    errors.push(...validateHlHierarchy(transaction));
+    errors.push(...validateTotals(transaction));
+    errors.push(...validateDateWindows(transaction, dateWindows, today));
+    return errors;
+};
+
+// Offset basis of the second hash in transaction keys
+const CHECK_SEED = 0x9e3779b9;
+
+const transactionKey = (lines: ParsedLine[], transaction: EdiTransactionNode, release: string | undefined, salt: string): string => {
+    // Loading a dictionary pack changes element schemas, so cached results from before it are stale.
+    // The dictionary comes from GS08 / UNH, outside the hashed lines for X12, so editing it must miss too.
+    const context = `${schemaRegistry.revision}|${lines[transaction.startLine].dictionary || ''}|${release || ''}|${salt}`;
+    // Two differently seeded hashes and the length, so reusing stale errors takes more than one 32-bit collision
+    let hash = fnv1a(context);
+    let check = fnv1a(context, CHECK_SEED);
+    let length = 0;
+    for (let i = transaction.startLine; i <= transaction.endLine; i++) {
+        hash = fnv1a(lines[i].raw + '\n', hash);
+        check = fnv1a(lines[i].raw + '\n', check);
+        length += lines[i].raw.length + 1;
+    }
+    return `${transaction.endLine - transaction.startLine + 1}-${length.toString(36)}-${hash.toString(36)}-${check.toString(36)}`;
+};
+
+export interface DocumentValidationOptions {
+    /** Per-transaction errors from the previous run, keyed by transaction content hash. Line numbers are relative to the ST line. */
+    previous?: Map<string, LineError[]>;
+    onProgress?: (done: number, total: number) => void;
+    /** Business date windows to check; the defaults when omitted. */
+    dateWindows?: DateWindow[];
+    /** Date the past / future day limits are measured from; now when omitted. */
+    today?: Date;
+}
+
+/**
+ * Validates a parsed document. Transaction sets whose text is unchanged since the previous
+ * run reuse its errors (shifted to their new position), so an edit only revalidates the
+ * transaction sets it touched. Returns the cache to pass as `previous` next time.
+ */
+export const validateDocument = (
+    doc: EdiDocument,
+    release?: string,
+    options: DocumentValidationOptions = {}
+): { result: DocumentValidationResult; cache: Map<string, LineError[]> } => {
+    const { previous, onProgress, dateWindows = DEFAULT_DATE_WINDOWS, today = new Date() } = options;
+    // Results depend on the windows, and on the day once a window has past / future limits
+    const dated = dateWindows.some(w => w.maxPastDays !== undefined || w.maxFutureDays !== undefined);
+    const salt = fnv1a(JSON.stringify(dateWindows) + (dated ? today.toDateString() : '')).toString(36);
+    const lines = doc.lines;
+    const errors: LineError[] = [];
+    const cache = new Map<string, LineError[]>();
+    const covered = new Uint8Array(lines.length);
+    let revalidated = 0;
+    let reused = 0;
+
+    const transactions = getTransactions(doc);
+    transactions.forEach((transaction, idx) => {
+        for (let i = transaction.startLine; i <= transaction.endLine; i++) covered[i] = 1;
+
+        const key = transactionKey(lines, transaction, release, salt);
+        const base = lines[transaction.startLine].lineNumber;
+        let relative = cache.get(key) || previous?.get(key);
+        if (relative) {
+            reused++;
+        } else {
+            relative = validateTransaction(lines, transaction, release, dateWindows, today).map(e => ({ ...e, line: e.line - base }));
+            revalidated++;
         }
+        cache.set(key, relative);
+        relative.forEach(e => errors.push({ ...e, line: e.line + base }));
+
+        onProgress?.(idx + 1, transactions.length);
     });
-  });
 
-  if (lines.length > 0) {
-      errors.push(...validateTransactionStructure(lines));
-  }
+    // Envelope segments and anything outside a transaction set are cheap enough to always check
+    lines.forEach((line, i) => {
+        if (!covered[i]) errors.push(...validateLine(line, release));
+    });
+    errors.push(...validateEnvelopes(doc, release));
+
+    // Keep line order so next/previous error navigation walks the file top to bottom
+    errors.sort((a, b) => a.line - b.line);
+
+    return {
+        result: { isValid: errors.filter(e => e.severity === 'ERROR').length === 0, errors, revalidated, reused },
+        cache
+    };
+};
 
-  return { isValid: errors.filter(e => e.severity === 'ERROR').length === 0, errors };
+export const validateRealTime = (content: string, options?: ParseOptions): EditorValidationResult => {
+  const { release } = detectDelimiters(content);
+  const { result } = validateDocument(parseEdiDocument(content, options), release);
+  return { isValid: result.isValid, errors: result.errors };
 };
@@ -0,0 +1,231 @@
+import { EdiGroupNode, EdiInterchangeNode, EdiSegmentNode, EdiTransactionNode, ElementErrorKind, LineError } from '../types';
+import { parseEdiDocument } from './ediParser';
+import { detectDelimiters } from './ediDetection';
+import { AckOptions, AckResult } from './x12Acknowledgment';
+
+/**
+ * EDIFACT CONTRL (Syntax and Service Report)
+ * Builds a CONTRL message for each received UNB interchange from its validation results: UCI for
+ * the interchange, UCF per UNG group, UCM per message and UCS / UCD for the segments and data
+ * elements in error. Like the X12 acknowledgments, only ERROR findings whose code maps to a
+ * syntax error code (0085) below are reported, and the output is a pure function of its inputs.
+ */
+
+// 0083 Action, coded
+const ACTION_REJECTED = '4'; // This level and all lower levels rejected
+const ACTION_ACKNOWLEDGED = '7'; // This level acknowledged, lower levels acknowledged if not explicitly rejected
+
+// 0085 Syntax error, coded, for findings on UNB/UNZ, UNG/UNE and UNH/UNT lines
+const ENVELOPE_ERROR_CODES: Record<string, string> = {
+  MISSING_TRAILER: '13',
+  UNB_UNZ_MISMATCH: '28',
+  UNG_UNE_MISMATCH: '28',
+  ST_SE_MISMATCH: '28',
+  UNZ_COUNT: '29',
+  UNE_COUNT: '29',
+  SEG_COUNT: '29',
+  DUPLICATE_CONTROL: '26',
+  UNA_INVALID: '22'
+};
+
+// 0085 for a segment (UCS02)
+const SEGMENT_ERROR_CODES: Record<string, string> = {
+  UNKNOWN_SEG: '15',
+  UNEXPECTED_SEG: '15',
+  MISSING_SEG: '13',
+  MAX_USE_EXCEEDED: '35',
+  LOOP_REPEAT_EXCEEDED: '36'
+};
+
+// 0085 for a data element (UCD01)
+const ELEMENT_ERROR_CODES: Record<string, string> = {
+  MISSING_ELEMENT: '13',
+  SYNTAX_REQUIRED: '13',
+  SYNTAX_PAIRED: '13',
+  SYNTAX_CONDITIONAL: '13',
+  SYNTAX_LIST_CONDITIONAL: '13',
+  SYNTAX_EXCLUSION: '15',
+  DATE_FORMAT: '12',
+  INVALID_CHARSET: '21'
+};
+
+const ELEMENT_KIND_CODES: Record<ElementErrorKind, string> = {
+  TOO_SHORT: '40',
+  TOO_LONG: '39',
+  INVALID_NUMBER: '37',
+  INVALID_CODE: '12',
+  INVALID_DATE: '12',
+  INVALID_TIME: '12'
+};
+
+interface EnvelopeError {
+  code: string; // 0085
+  segmentId: string; // 0013 Service segment tag
+  element?: number;
+  component?: number;
+}
+
+const value = (segment: EdiSegmentNode | undefined, index: number, component?: number): string => {
+  const token = segment?.elements.find(t => t.index === index);
+  if (!token) return '';
+  if (!component) return token.value.trim();
+  return token.subTokens?.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value.trim()
+    ?? (component === 1 ? token.value.trim() : '');
+};
+
+const yymmdd = (date: Date) => date.toISOString().substring(2, 10).replace(/-/g, '');
+const hhmm = (date: Date) => date.toISOString().substring(11, 16).replace(':', '');
+
+// S011 Data element identification: element position, component position
+const reference = (error: { element?: number; component?: number }, component: string): string =>
+  error.element ? [error.element, error.component].filter(Boolean).join(component) : '';
+
+/**
+ * The first envelope error on a header or trailer, for UCI / UCF / UCM elements 5 to 7.
+ */
+const envelopeError = (errorsByLine: Map<number, LineError[]>, ...segments: (EdiSegmentNode | undefined)[]): EnvelopeError | undefined => {
+  for (const segment of segments) {
+    if (!segment) continue;
+    for (const error of errorsByLine.get(segment.line.lineNumber) || []) {
+      const code = ENVELOPE_ERROR_CODES[error.code] || (error.elementError ? ELEMENT_KIND_CODES[error.elementError] : ELEMENT_ERROR_CODES[error.code]);
+      if (!code) continue;
+      // A missing trailer is reported against the trailer tag
+      const segmentId = error.code === 'MISSING_TRAILER'
+        ? ({ UNB: 'UNZ', UNG: 'UNE', UNH: 'UNT' } as Record<string, string>)[segment.id] || segment.id
+        : segment.id;
+      const element = error.tokenIndex > 0 && error.code !== 'MISSING_TRAILER' && error.code !== 'UNA_INVALID' ? error.tokenIndex : undefined;
+      return { code, segmentId, element, component: error.componentIndex };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * UCM and its UCS / UCD for one message. Segment positions count from UNH = 1.
+ */
+const messageResponse = (
+  transaction: EdiTransactionNode,
+  errorsByLine: Map<number, LineError[]>,
+  segmentAt: (lineIndex: number) => EdiSegmentNode | undefined,
+  component: string
+): string[][] => {
+  const unh = transaction.header!;
+  const segments: string[][] = [];
+
+  // Segments missing before UNT are reported on it and indicated at its position
+  const lastIndex = transaction.trailer ? transaction.trailer.lineIndex : transaction.endLine;
+  for (let i = unh.lineIndex + 1; i <= lastIndex; i++) {
+    const segment = i === transaction.trailer?.lineIndex ? transaction.trailer : segmentAt(i);
+    if (!segment) continue;
+    const errors = errorsByLine.get(segment.line.lineNumber) || [];
+
+    const segmentError = errors.find(e => SEGMENT_ERROR_CODES[e.code]);
+    const elementErrors = segment === transaction.trailer ? [] : errors
+      .filter(e => e.tokenIndex > 0)
+      .map(e => ({ error: e, code: e.elementError ? ELEMENT_KIND_CODES[e.elementError] : ELEMENT_ERROR_CODES[e.code] }))
+      .filter(e => !!e.code);
+    if (!segmentError && elementErrors.length === 0) continue;
+
+    segments.push(['UCS', String(i - unh.lineIndex + 1), segmentError ? SEGMENT_ERROR_CODES[segmentError.code] : '']);
+    // UCD occurs up to 99 times per UCS
+    elementErrors.slice(0, 99).forEach(({ error, code }) => {
+      segments.push(['UCD', code, reference({ element: error.tokenIndex, component: error.componentIndex }, component)]);
+    });
+  }
+
+  const envelope = envelopeError(errorsByLine, unh, transaction.trailer);
+  const rejected = !!envelope || segments.length > 0;
+  const ucm = ['UCM', transaction.controlNumber || '', value(unh, 2), rejected ? ACTION_REJECTED : ACTION_ACKNOWLEDGED];
+  if (envelope) ucm.push(envelope.code, envelope.segmentId, reference(envelope, component));
+
+  return [ucm, ...segments];
+};
+
+/**
+ * CONTRL for every UNB interchange in the content, addressed back to its sender.
+ */
+export const generateContrl = (content: string, errors: LineError[], options: AckOptions): AckResult => {
+  const doc = parseEdiDocument(content);
+  if (doc.standard !== 'EDIFACT') throw new Error('A CONTRL can only report on EDIFACT content');
+
+  const delimiters = detectDelimiters(content);
+  const component = delimiters.component || ':';
+  const lineBreak = content.includes('\n') ? '\n' : '';
+  const date = options.date || new Date();
+  let nextControlNumber = options.controlNumber;
+
+  const errorsByLine = new Map<number, LineError[]>();
+  errors.filter(e => e.severity === 'ERROR').forEach(e => {
+    if (!errorsByLine.has(e.line)) errorsByLine.set(e.line, []);
+    errorsByLine.get(e.line)!.push(e);
+  });
+
+  const segmentsByIndex = new Map<number, EdiSegmentNode>();
+  const indexSegments = (transaction: EdiTransactionNode) => {
+    const walk = (nodes: EdiTransactionNode['children']) => nodes.forEach(node => {
+      if (node.kind === 'SEGMENT') segmentsByIndex.set(node.lineIndex, node);
+      else walk(node.children);
+    });
+    walk(transaction.children);
+  };
+
+  const render = (segments: string[][]) => segments
+    .map(elements => {
+      // Optional trailing elements are left off
+      let end = elements.length;
+      while (end > 1 && elements[end - 1] === '') end--;
+      return elements.slice(0, end).join(delimiters.element) + delimiters.segment;
+    })
+    .join(lineBreak);
+
+  const output: string[] = [];
+  doc.interchanges.forEach((interchange: EdiInterchangeNode) => {
+    const unb = interchange.header;
+    if (!unb || unb.id !== 'UNB') return;
+    // Don't report on reports
+    const messages = interchange.groups.flatMap(g => g.transactions).filter(t => t.header);
+    if (messages.length > 0 && messages.every(t => t.type === 'CONTRL')) return;
+
+    const control = String(nextControlNumber++);
+    const version = value(unb, 1, 2);
+    const body: string[][] = [];
+    const respond = (transactions: EdiTransactionNode[]) => transactions.filter(t => t.header).forEach(transaction => {
+      indexSegments(transaction);
+      body.push(...messageResponse(transaction, errorsByLine, i => segmentsByIndex.get(i), component));
+    });
+
+    // Action 7 on UCI / UCF still lets a UCM below it reject its own message
+    interchange.groups.forEach((group: EdiGroupNode) => {
+      if (group.header) {
+        const envelope = envelopeError(errorsByLine, group.header, group.trailer);
+        const ucf = ['UCF', group.controlNumber || '', value(group.header, 2), value(group.header, 3), envelope ? ACTION_REJECTED : ACTION_ACKNOWLEDGED];
+        if (envelope) ucf.push(envelope.code, envelope.segmentId, reference(envelope, component));
+        body.push(ucf);
+      }
+      respond(group.transactions);
+    });
+
+    // UCI copies the received sender and recipient
+    const envelope = envelopeError(errorsByLine, interchange.serviceAdvice, unb, interchange.trailer);
+    const uci = ['UCI', (interchange.controlNumber || '').trim(), value(unb, 2), value(unb, 3), envelope ? ACTION_REJECTED : ACTION_ACKNOWLEDGED];
+    if (envelope) uci.push(envelope.code, envelope.segmentId, reference(envelope, component));
+
+    const message = [
+      ['UNH', '1', ['CONTRL', version >= '4' ? '4' : 'D', version >= '4' ? '1' : '3', 'UN'].join(component)],
+      uci,
+      ...body
+    ];
+    message.push(['UNT', String(message.length + 1), '1']);
+
+    const envelopeSegments = [
+      ['UNB', value(unb, 1), value(unb, 3), value(unb, 2), [yymmdd(date), hhmm(date)].join(component), control],
+      ...message,
+      ['UNZ', '1', control]
+    ];
+    const una = interchange.serviceAdvice ? interchange.serviceAdvice.line.raw.trim() + lineBreak : '';
+    output.push(una + render(envelopeSegments));
+  });
+
+  if (output.length === 0) throw new Error('No UNB interchanges to report on');
+  return { content: output.join(lineBreak), nextControlNumber };
+};
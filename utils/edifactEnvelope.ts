@@ -0,0 +1,117 @@
+import { EdiInterchangeNode, LineError, ParsedLine } from '../types';
+import { unescapeValue } from './ediTokenizer';
+
+/**
+ * EDIFACT Service String Advice & Character Sets
+ * Checks that only make sense for a whole interchange: the UNA service characters, and the
+ * characters used in data elements against the syntax level named in UNB S001 (UNOA, UNOB, ...).
+ */
+
+interface SyntaxLevel {
+  description: string;
+  allowed: RegExp; // Whole-value test
+}
+
+const LEVEL_A_SPECIALS = ` .,\\-()/='+:?!"%&*;<>`;
+
+// Control characters are not allowed at any level
+export const EDIFACT_SYNTAX_LEVELS: Record<string, SyntaxLevel> = {
+  UNOA: { description: `upper case letters, digits, space and . , - ( ) / = ' + : ? ! " % & * ; < >`, allowed: new RegExp(`^[A-Z0-9${LEVEL_A_SPECIALS}]*$`) },
+  UNOB: { description: `letters, digits, space and . , - ( ) / = ' + : ? ! " % & * ; < >`, allowed: new RegExp(`^[A-Za-z0-9${LEVEL_A_SPECIALS}]*$`) },
+  UNOC: { description: 'ISO 8859-1 (Latin-1) printable characters', allowed: /^[\x20-\x7E\xA0-\xFF]*$/ }
+};
+
+// Other levels (UNOD-UNOK, UNOW, UNOY) are checked for control characters only
+const ANY_PRINTABLE: SyntaxLevel = { description: 'printable characters', allowed: /^[^\x00-\x1F\x7F-\x9F]*$/ };
+
+const codePoint = (ch: string) => `U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+
+/**
+ * UNA: exactly six service characters (component separator, element separator, decimal mark,
+ * release character, repetition separator or space, segment terminator), all different.
+ */
+export const validateServiceStringAdvice = (interchange: EdiInterchangeNode): LineError[] => {
+  const una = interchange.serviceAdvice;
+  if (!una) return [];
+
+  const error = (message: string, tokenIndex = 1): LineError =>
+    ({ line: una.line.lineNumber, code: 'UNA_INVALID', message, severity: 'ERROR', tokenIndex });
+
+  const advice = una.line.raw.trim().substring(3);
+  if (advice.length !== 6) {
+    return [error(`UNA must be followed by exactly 6 service characters, found ${advice.length} ('${advice}')`)];
+  }
+
+  const errors: LineError[] = [];
+  const [component, element, decimal, release, repetition, terminator] = advice.split('');
+  if (decimal !== '.' && decimal !== ',') {
+    errors.push(error(`UNA decimal mark '${decimal}' must be '.' or ','`));
+  }
+
+  const used = [
+    { name: 'component separator', ch: component },
+    { name: 'element separator', ch: element },
+    { name: 'release character', ch: release },
+    { name: 'repetition separator', ch: repetition },
+    { name: 'segment terminator', ch: terminator }
+  ].filter(d => d.ch !== ' ');
+  used.forEach((d, i) => {
+    const clash = used.slice(0, i).find(other => other.ch === d.ch);
+    if (clash) errors.push(error(`UNA uses '${d.ch}' as both ${clash.name} and ${d.name}`));
+  });
+
+  // Position 5 became the repetition separator in syntax version 4
+  const version = interchange.header?.id === 'UNB' ? syntaxIdentifier(interchange).version : '';
+  if (repetition !== ' ' && version && version < '4') {
+    errors.push(error(`UNA position 5 is reserved (space) before syntax version 4, found '${repetition}' with version ${version}`));
+  }
+
+  if (interchange.header?.id !== 'UNB') {
+    errors.push(error('UNA must be immediately followed by UNB', 0));
+  }
+
+  return errors;
+};
+
+const syntaxIdentifier = (interchange: EdiInterchangeNode): { id: string; version: string } => {
+  const s001 = interchange.header?.elements.find(t => t.index === 1);
+  const components = s001?.subTokens?.filter(t => t.type === 'COMPONENT') || [];
+  return {
+    id: (components[0]?.value ?? s001?.value ?? '').trim(),
+    version: (components[1]?.value ?? '').trim()
+  };
+};
+
+/**
+ * Every data element of the interchange against the character set of its UNB syntax identifier.
+ * One error per element, naming the first offending character.
+ */
+export const validateSyntaxCharset = (interchange: EdiInterchangeNode, lines: ParsedLine[], release?: string): LineError[] => {
+  if (interchange.header?.id !== 'UNB') return [];
+  const { id } = syntaxIdentifier(interchange);
+  const level = EDIFACT_SYNTAX_LEVELS[id] || ANY_PRINTABLE;
+  const errors: LineError[] = [];
+
+  for (let i = interchange.startLine; i <= interchange.endLine; i++) {
+    const line = lines[i];
+    if (!line || line.segmentId === 'UNA' || level.allowed.test(line.raw.trim())) continue;
+
+    line.tokens.forEach(token => {
+      if (token.type !== 'ELEMENT') return;
+      const value = unescapeValue(token.value, release);
+      if (level.allowed.test(value)) return;
+      const bad = value.split('').find(ch => !level.allowed.test(ch))!;
+      errors.push({
+        line: line.lineNumber,
+        code: 'INVALID_CHARSET',
+        message: `Character '${bad}' (${codePoint(bad)}) is not allowed by syntax identifier ${id || 'UNB S001'} (${level.description})`,
+        severity: 'ERROR',
+        tokenIndex: token.index,
+        // Composite values point at the component holding the character
+        componentIndex: token.subTokens?.find(t => t.type === 'COMPONENT' && !level.allowed.test(unescapeValue(t.value, release)))?.componentIndex
+      });
+    });
+  }
+
+  return errors;
+};
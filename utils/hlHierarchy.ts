@@ -0,0 +1,124 @@
+import { EdiTransactionNode, EdiSegmentNode, HlGrammar, HlNode, LineError } from '../types';
+import { HL_GRAMMARS } from '../data/hlGrammars';
+import { transactionSegments } from './ediDocument';
+
+/**
+ * HL Hierarchy
+ * Rebuilds the parent/child tree of HL segments (HL01 id, HL02 parent, HL03 level, HL04 child code)
+ * that the loop structure flattens, and checks it against the transaction's level grammar.
+ */
+
+const value = (segment: EdiSegmentNode, index: number): string =>
+  segment.elements.find(t => t.index === index)?.value.trim() || '';
+
+/**
+ * Grammar for a transaction: the one on its definition, else the default for its type.
+ */
+export const findHlGrammar = (transaction: EdiTransactionNode): HlGrammar | undefined =>
+  transaction.definition?.hierarchy || HL_GRAMMARS[transaction.type];
+
+/**
+ * HL nodes of a transaction in document order, flat. Segments after an HL belong to it until the next HL.
+ */
+const collectHlNodes = (transaction: EdiTransactionNode, grammar?: HlGrammar): HlNode[] => {
+  const nodes: HlNode[] = [];
+  transactionSegments(transaction).forEach(segment => {
+    if (segment.id === 'HL') {
+      const level = value(segment, 3);
+      nodes.push({
+        id: value(segment, 1),
+        parentId: value(segment, 2) || undefined,
+        level,
+        levelName: grammar?.levels[level],
+        segment,
+        segments: [],
+        children: []
+      });
+    } else if (nodes.length > 0) {
+      nodes[nodes.length - 1].segments.push(segment);
+    }
+  });
+  return nodes;
+};
+
+/**
+ * The HL tree of a transaction. Parents are looked up among preceding HLs only; an HL whose
+ * parent can't be found is kept at the top level and marked as an orphan.
+ */
+export const buildHlTree = (transaction: EdiTransactionNode): HlNode[] => {
+  const roots: HlNode[] = [];
+  const seen = new Map<string, HlNode>();
+
+  collectHlNodes(transaction, findHlGrammar(transaction)).forEach(node => {
+    const parent = node.parentId ? seen.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      if (node.parentId) node.orphan = true;
+      roots.push(node);
+    }
+    if (node.id && !seen.has(node.id)) seen.set(node.id, node);
+  });
+
+  return roots;
+};
+
+const levelLabel = (grammar: HlGrammar, level: string): string =>
+  grammar.levels[level] ? `${level} (${grammar.levels[level]})` : `'${level}'`;
+
+/**
+ * HL01 numbering, HL02 parent references, HL03 level transitions and HL04 child codes.
+ * Level checks need a grammar; numbering and parent checks apply to any transaction with HLs.
+ */
+export const validateHlHierarchy = (transaction: EdiTransactionNode): LineError[] => {
+  const grammar = findHlGrammar(transaction);
+  const nodes = collectHlNodes(transaction, grammar);
+  if (nodes.length === 0) return [];
+
+  const errors: LineError[] = [];
+  const byId = new Map<string, HlNode>();
+  const childCount = new Map<HlNode, number>();
+  const error = (node: HlNode, code: string, message: string, tokenIndex: number, severity: LineError['severity'] = 'ERROR') =>
+    errors.push({ line: node.segment.line.lineNumber, code, message, severity, tokenIndex });
+
+  nodes.forEach((node, i) => {
+    // HL01 starts at 1 and increases by 1 for each HL. Compared with the previous HL, so one gap is one error
+    const previous = i === 0 ? 0 : parseInt(nodes[i - 1].id, 10);
+    const expected = String(Number.isNaN(previous) ? i + 1 : previous + 1);
+    if (node.id !== expected) {
+      error(node, 'HL_SEQUENCE', `HL01 '${node.id}' is out of sequence (expected ${expected})`, 1);
+    }
+
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (node.parentId && !parent) {
+      error(node, 'HL_PARENT', `HL02 '${node.parentId}' does not refer to a preceding HL`, 2);
+    }
+    if (parent) childCount.set(parent, (childCount.get(parent) || 0) + 1);
+
+    if (grammar) {
+      if (!grammar.levels[node.level]) {
+        error(node, 'HL_LEVEL', `HL03 '${node.level}' is not a level of ${grammar.name} (expected one of ${Object.keys(grammar.levels).join(', ')})`, 3);
+      } else if (!node.parentId && !grammar.roots.includes(node.level)) {
+        error(node, 'HL_LEVEL', `HL level ${levelLabel(grammar, node.level)} cannot start a hierarchy (expected ${grammar.roots.map(l => levelLabel(grammar, l)).join(' or ')})`, 3);
+      } else if (parent && grammar.levels[parent.level] && !(grammar.children[parent.level] || []).includes(node.level)) {
+        const allowed = grammar.children[parent.level] || [];
+        error(node, 'HL_LEVEL', `HL level ${levelLabel(grammar, node.level)} cannot be a child of ${levelLabel(grammar, parent.level)}${allowed.length ? ` (allowed: ${allowed.join(', ')})` : ' (no child levels allowed)'}`, 3);
+      }
+    }
+
+    if (node.id && !byId.has(node.id)) byId.set(node.id, node);
+  });
+
+  // HL04: 1 = has subordinate HLs, 0 = has none
+  nodes.forEach(node => {
+    const childCode = value(node.segment, 4);
+    const children = childCount.get(node) || 0;
+    if (childCode === '1' && children === 0) {
+      error(node, 'HL_CHILD_CODE', `HL04 is 1 but no HL refers to HL ${node.id} as its parent`, 4, 'WARNING');
+    } else if (childCode === '0' && children > 0) {
+      error(node, 'HL_CHILD_CODE', `HL04 is 0 but ${children} HL${children > 1 ? 's refer' : ' refers'} to HL ${node.id} as parent`, 4, 'WARNING');
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,325 @@
+import { DictionaryPack, ElementSchema, RegisteredTransaction, SchemaBundle, SegmentRule, SegmentSchema } from '../types';
+import { readZipEntries } from './zipArchive';
+
+/**
+ * OpenEDI Importer
+ * Turns OpenEDI specifications (OpenAPI documents whose schemas carry x-openedi-* extensions)
+ * into dictionary packs and transaction structures for the schema registry:
+ *  - x-openedi-message-id (+ -standard, -version) -> TransactionDef; properties in order form the structure
+ *  - x-openedi-loop-id -> loop SegmentRule; its first property is the loop starter
+ *  - x-openedi-segment-id -> SegmentSchema; a property suffix _01, _02... is the element position
+ *  - x-openedi-composite-id -> composite ElementSchema with components
+ *  - a segment's or composite's `required` list -> M designators; x-openedi-syntax -> X12 syntax notes
+ * Object properties with none of these (e.g. "All" containers grouping qualifier variants of a loop)
+ * are flattened into their parent. Specs are read in their JSON form, singly or from a zip bundle.
+ */
+
+type SpecSchema = Record<string, any>;
+
+type Standard = 'X12' | 'EDIFACT';
+
+interface ImportContext {
+  schemas: Record<string, SpecSchema>;
+  segments: Record<string, SegmentSchema>;
+  composites: Record<string, ElementSchema[]>;
+  warnings: string[];
+}
+
+const MAX_REF_DEPTH = 32;
+
+// OpenEDI enums are often restricted per usage (N1_BillTo only allows "BT"), so qualifier lists
+// from several variants of a segment are unioned rather than the last one winning. Likewise an
+// element is only mandatory if every variant requires it.
+const mergeElement = (a: ElementSchema, b: ElementSchema): ElementSchema => ({
+  ...a,
+  min: Math.min(a.min, b.min),
+  max: Math.max(a.max, b.max),
+  qualifiers: a.qualifiers && b.qualifiers ? { ...a.qualifiers, ...b.qualifiers } : undefined,
+  requirement: a.requirement === 'M' && b.requirement === 'M' ? 'M' : undefined,
+  components: a.components && b.components ? mergeElementLists(a.components, b.components) : a.components || b.components
+});
+
+const mergeElementLists = (a: ElementSchema[], b: ElementSchema[]): ElementSchema[] => {
+  const merged = new Map<number, ElementSchema>();
+  a.forEach(e => merged.set(e.index, e));
+  b.forEach(e => {
+    const existing = merged.get(e.index);
+    merged.set(e.index, existing ? mergeElement(existing, e) : e);
+  });
+  return Array.from(merged.values()).sort((x, y) => x.index - y.index);
+};
+
+const resolveRef = (ctx: ImportContext, schema: SpecSchema | undefined): SpecSchema => {
+  let current = schema || {};
+  for (let depth = 0; depth < MAX_REF_DEPTH; depth++) {
+    if (typeof current.$ref === 'string') {
+      const name = current.$ref.split('/').pop() as string;
+      const target = ctx.schemas[name];
+      if (!target) {
+        ctx.warnings.push(`Unresolved reference ${current.$ref}`);
+        return {};
+      }
+      current = target;
+    } else if (Array.isArray(current.allOf) && current.allOf.length === 1) {
+      current = current.allOf[0];
+    } else {
+      return current;
+    }
+  }
+  ctx.warnings.push('Reference chain too deep');
+  return {};
+};
+
+// Arrays are repeating segments, loops or elements; the item schema carries the definition
+const unwrap = (ctx: ImportContext, schema: SpecSchema | undefined) => {
+  const resolved = resolveRef(ctx, schema);
+  if (resolved.type === 'array' || resolved.items) {
+    return {
+      item: resolveRef(ctx, resolved.items),
+      maxItems: typeof resolved.maxItems === 'number' ? resolved.maxItems : Infinity,
+      minItems: resolved.minItems || 0
+    };
+  }
+  return { item: resolved, maxItems: 1, minItems: 0 };
+};
+
+const propertyPosition = (property: string, ordinal: number): number => {
+  const match = property.match(/_(\d+)$/);
+  return match ? parseInt(match[1], 10) : ordinal + 1;
+};
+
+// "TransactionSetPurposeCode_01" -> "Transaction Set Purpose Code"
+const propertyLabel = (property: string): string =>
+  property.replace(/_\d+$/, '').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').trim();
+
+const elementType = (schema: SpecSchema): ElementSchema['type'] => {
+  const format = typeof schema.format === 'string' ? schema.format.toUpperCase() : '';
+  if (format === 'DATE' || format === 'DT') return 'DT';
+  if (format === 'TIME' || format === 'TM') return 'TM';
+  // N1-N9 have no type of their own here; they are implied-decimal numerics like N2
+  const implied = format.match(/^N(\d)$/);
+  if (implied) return implied[1] === '0' ? 'N0' : 'N2';
+  if (format === 'R' || schema.type === 'number') return 'R';
+  if (schema.type === 'integer') return 'N0';
+  if (Array.isArray(schema.enum) || format === 'ID') return 'ID';
+  return 'AN';
+};
+
+const elementQualifiers = (schema: SpecSchema): Record<string, string> | undefined => {
+  if (!Array.isArray(schema.enum) || schema.enum.length === 0) return undefined;
+  const descriptions: unknown[] = schema['x-enum-descriptions'] || schema['x-enumNames'] || [];
+  const qualifiers: Record<string, string> = {};
+  schema.enum.forEach((code: unknown, i: number) => {
+    const description = descriptions[i];
+    qualifiers[String(code)] = typeof description === 'string' && description ? description : String(code);
+  });
+  return qualifiers;
+};
+
+const requiredSet = (schema: SpecSchema): Set<string> =>
+  new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+
+const toElement = (ctx: ImportContext, id: string, property: string, raw: SpecSchema, index: number, required: boolean): ElementSchema => {
+  const { item } = unwrap(ctx, raw);
+  const name = item.title || propertyLabel(property);
+  const compositeId: string | undefined = item['x-openedi-composite-id'];
+  const requirement = required ? 'M' : undefined;
+
+  if (compositeId) {
+    const componentRequired = requiredSet(item);
+    const components = Object.entries<SpecSchema>(item.properties || {}).map(([prop, schema], i) =>
+      toElement(ctx, `${compositeId}-${propertyPosition(prop, i)}`, prop, schema, propertyPosition(prop, i), componentRequired.has(prop))
+    );
+    ctx.composites[compositeId] = ctx.composites[compositeId] ? mergeElementLists(ctx.composites[compositeId], components) : components;
+    const max = components.reduce((sum, c) => sum + c.max, Math.max(0, components.length - 1));
+    const composite: ElementSchema = { index, id, name, type: 'AN', min: 1, max, compositeId, components };
+    if (requirement) composite.requirement = requirement;
+    return composite;
+  }
+
+  const qualifiers = elementQualifiers(item);
+  const longestCode = qualifiers ? Math.max(...Object.keys(qualifiers).map(code => code.length)) : undefined;
+  const element: ElementSchema = {
+    index,
+    id,
+    name,
+    type: elementType(item),
+    min: item.minLength ?? 1,
+    max: item.maxLength ?? longestCode ?? 256
+  };
+  if (qualifiers) element.qualifiers = qualifiers;
+  if (requirement) element.requirement = requirement;
+  return element;
+};
+
+const toSegment = (ctx: ImportContext, segmentId: string, schema: SpecSchema) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const required = requiredSet(schema);
+  const elements = Object.entries<SpecSchema>(schema.properties || {}).map(([property, raw], i) => {
+    const index = propertyPosition(property, i);
+    return toElement(ctx, `${segmentId}${pad(index)}`, property, raw, index, required.has(property));
+  });
+  const syntax: string[] = Array.isArray(schema['x-openedi-syntax'])
+    ? schema['x-openedi-syntax'].filter((note: unknown) => typeof note === 'string')
+    : [];
+
+  const existing = ctx.segments[segmentId];
+  const segment: SegmentSchema = {
+    id: segmentId,
+    name: existing?.name || schema.title || segmentId,
+    purpose: existing?.purpose || schema.description || '',
+    elements: existing ? mergeElementLists(existing.elements, elements) : elements
+  };
+  const notes = Array.from(new Set([...(existing?.syntax || []), ...syntax]));
+  if (notes.length > 0) segment.syntax = notes;
+  ctx.segments[segmentId] = segment;
+};
+
+/**
+ * Structure rules for the properties of a message, loop or grouping schema, in declaration order.
+ */
+const toRules = (ctx: ImportContext, schema: SpecSchema, path: string[]): SegmentRule[] => {
+  const required = requiredSet(schema);
+  const rules: SegmentRule[] = [];
+
+  Object.entries<SpecSchema>(schema.properties || {}).forEach(([property, raw]) => {
+    const { item, maxItems, minItems } = unwrap(ctx, raw);
+    const req = required.has(property) || minItems > 0;
+    const segmentId: string | undefined = item['x-openedi-segment-id'];
+    const loopId: string | undefined = item['x-openedi-loop-id'];
+
+    if (segmentId) {
+      toSegment(ctx, segmentId, item);
+      rules.push(maxItems > 1 ? { id: segmentId, req, maxUse: maxItems } : { id: segmentId, req });
+      return;
+    }
+
+    if (!item.properties) {
+      ctx.warnings.push(`${[...path, property].join('/')}: not a segment, loop or group, skipped`);
+      return;
+    }
+
+    const children = toRules(ctx, item, [...path, property]);
+    if (children.length === 0) return;
+
+    if (loopId) {
+      // The starter is always required within its own loop
+      const [starter, ...rest] = children;
+      const rule: SegmentRule = { id: starter.id, req, loop: true, children: [{ ...starter, req: true }, ...rest] };
+      if (loopId !== starter.id) rule.name = loopId;
+      if (maxItems > 1) rule.loopRepeat = maxItems;
+      rules.push(rule);
+    } else {
+      // Plain grouping: its members can only be mandatory if the group is
+      rules.push(...(req ? children : children.map(c => ({ ...c, req: false }))));
+    }
+  });
+
+  return rules;
+};
+
+// X12 "4010" -> "004010"; EDIFACT "D.96A" / "96A" -> "D96A"
+const normalizeVersion = (standard: Standard, version: unknown): string | undefined => {
+  if (version === undefined || version === null || version === '') return undefined;
+  const v = String(version).trim().toUpperCase().replace(/[.\s]/g, '');
+  if (standard === 'X12') return /^\d{4,5}$/.test(v) ? v.padStart(6, '0') : v;
+  return /^\d{2}[A-Z]$/.test(v) ? `D${v}` : v;
+};
+
+const messageStandard = (schema: SpecSchema): Standard => {
+  const declared = String(schema['x-openedi-message-standard'] || '').toUpperCase();
+  if (declared === 'X12' || declared === 'EDIFACT') return declared;
+  return schema.properties?.UNH ? 'EDIFACT' : 'X12';
+};
+
+const mergePacks = (packs: DictionaryPack[]): DictionaryPack[] => {
+  const byKey = new Map<string, DictionaryPack>();
+  packs.forEach(pack => {
+    const key = `${pack.standard}/${pack.version}`;
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? {
+      ...existing,
+      composites: { ...existing.composites, ...pack.composites },
+      segments: { ...existing.segments, ...pack.segments }
+    } : pack);
+  });
+  return Array.from(byKey.values());
+};
+
+/**
+ * Converts one OpenEDI spec (parsed JSON or its text) into a schema bundle.
+ * Each message in the spec contributes a transaction structure, and the segments it uses go into
+ * a dictionary pack for the message's standard and version.
+ */
+export const importOpenEdiSpec = (spec: string | SpecSchema, source: string): SchemaBundle => {
+  const doc: SpecSchema = typeof spec === 'string' ? JSON.parse(spec) : spec;
+  const schemas: Record<string, SpecSchema> = doc?.components?.schemas || doc?.definitions || {};
+  const bundle: SchemaBundle = { source, packs: [], transactions: [], warnings: [] };
+
+  const messages = Object.entries(schemas).filter(([, schema]) => schema && schema['x-openedi-message-id']);
+  if (messages.length === 0) {
+    bundle.warnings.push(`${source}: no schema with x-openedi-message-id found`);
+    return bundle;
+  }
+
+  messages.forEach(([name, schema]) => {
+    const standard = messageStandard(schema);
+    const type = String(schema['x-openedi-message-id']);
+    const version = normalizeVersion(standard, schema['x-openedi-message-version']);
+    const ctx: ImportContext = { schemas, segments: {}, composites: {}, warnings: [] };
+
+    const structure = toRules(ctx, schema, [name]);
+    bundle.warnings.push(...ctx.warnings.map(w => `${source}: ${w}`));
+    if (structure.length === 0) {
+      bundle.warnings.push(`${source}: message ${type} has no segments, skipped`);
+      return;
+    }
+
+    const transaction: RegisteredTransaction = { standard, definition: { type, structure } };
+    if (version) transaction.version = version;
+    bundle.transactions.push(transaction);
+
+    if (version) {
+      bundle.packs.push({
+        standard,
+        version,
+        description: `Imported from ${source}`,
+        composites: ctx.composites,
+        segments: ctx.segments
+      });
+    } else {
+      bundle.warnings.push(`${source}: message ${type} has no x-openedi-message-version; segment definitions not registered`);
+    }
+  });
+
+  bundle.packs = mergePacks(bundle.packs);
+  return bundle;
+};
+
+/**
+ * Imports a spec file: a single OpenEDI JSON document, or a zip bundle whose .json entries are
+ * imported together. Entries that fail to parse are reported as warnings instead of failing the bundle.
+ */
+export const importOpenEdiFile = async (file: File): Promise<SchemaBundle> => {
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    return importOpenEdiSpec(await file.text(), file.name);
+  }
+
+  const entries = readZipEntries(await file.arrayBuffer()).filter(e => e.name.toLowerCase().endsWith('.json'));
+  const bundle: SchemaBundle = { source: file.name, packs: [], transactions: [], warnings: [] };
+  if (entries.length === 0) bundle.warnings.push(`${file.name}: no JSON specs in archive`);
+
+  for (const entry of entries) {
+    try {
+      const imported = importOpenEdiSpec(await entry.read(), entry.name);
+      bundle.packs.push(...imported.packs);
+      bundle.transactions.push(...imported.transactions);
+      bundle.warnings.push(...imported.warnings);
+    } catch (e: any) {
+      bundle.warnings.push(`${entry.name}: ${e?.message || 'could not be read'}`);
+    }
+  }
+
+  bundle.packs = mergePacks(bundle.packs);
+  return bundle;
+};
@@ -0,0 +1,496 @@
+import { ParsedLine } from '../types';
+import { toDate } from './dateTime';
+
+/**
+ * Business Rule Expressions
+ * The language of CUSTOM_BUSINESS_LOGIC rules. Expressions are parsed into a tree and interpreted
+ * over the segments of the rule's scope; nothing is compiled to JavaScript, and only the functions
+ * below can be called. A rule passes when its expression is true.
+ *
+ *   sum(PO1.02 * PO1.04) == AMT.02
+ *   if BEG.02 == "SA" then exists(DTM[DTM01=002])
+ *   count(N1[01=ST]) == 1 and len(BEG.03) <= 22
+ *   days(date(DTM[01=010].02), date(BEG.05)) >= 0
+ *
+ * A path is a segment id, optional qualifier filters and an element position: DTM[01=002].02,
+ * SLN.05-1 for a component. It stands for the values of that element in every matching segment;
+ * a segment without the element keeps its place as null, and aggregates like sum() and count() skip it.
+ * Arithmetic pairs up list values (PO1.02 * PO1.04 is the extended amount of each PO1 line);
+ * where a single value is expected, the first present one is used. Without an element position, a path is
+ * the list of segments, for exists() and count(). Values that look like numbers compare as numbers.
+ */
+
+type Value = number | string | boolean | Date | null | Value[] | SegmentList;
+
+// Segments selected by a path without an element
+interface SegmentList {
+  segments: ParsedLine[];
+}
+
+interface PathFilter {
+  element: number;
+  values: string[];
+  negate: boolean;
+}
+
+export type RuleExpression =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'path'; segment: string; filters: PathFilter[]; element?: number; component?: number }
+  | { kind: 'unary'; op: '-' | 'not'; operand: RuleExpression }
+  | { kind: 'binary'; op: string; left: RuleExpression; right: RuleExpression }
+  | { kind: 'if'; condition: RuleExpression; then: RuleExpression; else?: RuleExpression }
+  | { kind: 'call'; name: string; args: RuleExpression[] };
+
+interface Token {
+  type: 'number' | 'string' | 'path' | 'word' | 'op' | 'end';
+  text: string;
+  column: number;
+}
+
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 64;
+const MAX_PATTERN_LENGTH = 200;
+const EPSILON = 1e-6;
+
+const PATH = /^[A-Z][A-Z0-9]{1,2}(?:\[[^\]]*\])*(?:\.\d{1,2}(?:-\d{1,2})?)?/;
+const FILTER = /^(?:[A-Z][A-Z0-9]{1,2}?)?(\d{1,2})\s*(!=|==|=)\s*(.+)$/;
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '=', '+', '-', '*', '/', '%', '(', ')', ',', '!'];
+const KEYWORDS = ['if', 'then', 'else', 'and', 'or', 'not', 'true', 'false', 'null'];
+
+// name: [min args, max args]
+const FUNCTIONS: Record<string, [number, number]> = {
+  sum: [1, 1], count: [1, 1], min: [1, 1], max: [1, 1], avg: [1, 1], exists: [1, 1], first: [1, 1], last: [1, 1],
+  len: [1, 1], upper: [1, 1], lower: [1, 1], trim: [1, 1], substr: [2, 3], contains: [2, 2],
+  startsWith: [2, 2], endsWith: [2, 2], matches: [2, 2], concat: [1, 10],
+  number: [1, 1], abs: [1, 1], round: [1, 2], coalesce: [1, 10],
+  date: [1, 1], today: [0, 0], days: [2, 2]
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.substring(i);
+    const column = i + 1;
+    if (/^\s/.test(rest)) { i++; continue; }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      const end = source.indexOf(rest[0], i + 1);
+      if (end === -1) throw new Error(`Unterminated string at column ${column}`);
+      tokens.push({ type: 'string', text: source.substring(i + 1, end), column });
+      i = end + 1;
+      continue;
+    }
+
+    const number = rest.match(/^\d+(?:\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], column });
+      i += number[0].length;
+      continue;
+    }
+
+    // Lowercase words are keywords and functions, uppercase ones segment paths
+    const word = rest.match(/^[a-z][A-Za-z]*/);
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], column });
+      i += word[0].length;
+      continue;
+    }
+
+    const path = rest.match(PATH);
+    if (path) {
+      tokens.push({ type: 'path', text: path[0], column });
+      i += path[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (!op) throw new Error(`Unexpected '${rest[0]}' at column ${column}`);
+    tokens.push({ type: 'op', text: op, column });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', text: '', column: source.length + 1 });
+  return tokens;
+};
+
+const parsePath = (token: Token): RuleExpression => {
+  const match = token.text.match(/^([A-Z][A-Z0-9]{1,2})((?:\[[^\]]*\])*)(?:\.(\d{1,2})(?:-(\d{1,2}))?)?$/)!;
+  const segment = match[1];
+  const filters = (match[2].match(/\[[^\]]*\]/g) || []).map(bracket => {
+    const condition = bracket.slice(1, -1).trim();
+    // DTM01=002 or 01=002; the element id is optional
+    const stripped = condition.startsWith(segment) && /^\d/.test(condition.substring(segment.length)) ? condition.substring(segment.length) : condition;
+    const parsed = stripped.match(FILTER);
+    if (!parsed) throw new Error(`Invalid filter '${condition}' at column ${token.column}`);
+    return {
+      element: parseInt(parsed[1], 10),
+      values: parsed[3].split('|').map(v => v.trim().replace(/^(["'])(.*)\1$/, '$2')),
+      negate: parsed[2] === '!='
+    };
+  });
+  return {
+    kind: 'path',
+    segment,
+    filters,
+    element: match[3] ? parseInt(match[3], 10) : undefined,
+    component: match[4] ? parseInt(match[4], 10) : undefined
+  };
+};
+
+/**
+ * Parses an expression. Throws an Error naming the column of the first problem, so rule
+ * authors see it before the rule is saved.
+ */
+export const parseExpression = (source: string): RuleExpression => {
+  if (!source.trim()) throw new Error('Expression is empty');
+  if (source.length > MAX_LENGTH) throw new Error(`Expression is longer than ${MAX_LENGTH} characters`);
+
+  const tokens = tokenize(source);
+  let pos = 0;
+  let depth = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek().type === 'op' && ops.includes(peek().text);
+  const isWord = (...words: string[]) => peek().type === 'word' && words.includes(peek().text);
+  const describe = (token: Token) => token.type === 'end' ? 'end of expression' : `'${token.text}' at column ${token.column}`;
+  const expect = (text: string) => {
+    if (peek().text !== text || peek().type === 'string') throw new Error(`Expected '${text}' but found ${describe(peek())}`);
+    pos++;
+  };
+
+  const nested = <T>(parse: () => T): T => {
+    if (++depth > MAX_DEPTH) throw new Error('Expression is nested too deeply');
+    try { return parse(); } finally { depth--; }
+  };
+
+  const expression = (): RuleExpression => nested(() => {
+    if (isWord('if')) {
+      pos++;
+      const condition = expression();
+      if (!isWord('then')) throw new Error(`Expected 'then' but found ${describe(peek())}`);
+      pos++;
+      const then = expression();
+      if (!isWord('else')) return { kind: 'if', condition, then };
+      pos++;
+      return { kind: 'if', condition, then, else: expression() };
+    }
+    return or();
+  });
+
+  const binary = (next: () => RuleExpression, ops: string[], words: string[] = [], normalize: Record<string, string> = {}) => (): RuleExpression => {
+    let left = next();
+    while (isOp(...ops) || isWord(...words)) {
+      const op = tokens[pos++].text;
+      left = { kind: 'binary', op: normalize[op] || op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): RuleExpression => nested(() => {
+    const token = peek();
+    if (token.type === 'number') { pos++; return { kind: 'literal', value: Number(token.text) }; }
+    if (token.type === 'string') { pos++; return { kind: 'literal', value: token.text }; }
+    if (token.type === 'path') { pos++; return parsePath(token); }
+    if (isOp('(')) {
+      pos++;
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'word') {
+      pos++;
+      if (token.text === 'true' || token.text === 'false') return { kind: 'literal', value: token.text === 'true' };
+      if (token.text === 'null') return { kind: 'literal', value: null };
+      if (KEYWORDS.includes(token.text)) throw new Error(`Unexpected '${token.text}' at column ${token.column}`);
+      const arity = FUNCTIONS[token.text];
+      if (!arity) throw new Error(`Unknown function '${token.text}' at column ${token.column}`);
+      expect('(');
+      const args: RuleExpression[] = [];
+      if (!isOp(')')) {
+        args.push(expression());
+        while (isOp(',')) { pos++; args.push(expression()); }
+      }
+      expect(')');
+      if (args.length < arity[0] || args.length > arity[1]) {
+        const expected = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} to ${arity[1]}`;
+        throw new Error(`${token.text}() takes ${expected} argument${arity[1] === 1 ? '' : 's'}, got ${args.length} (column ${token.column})`);
+      }
+      return { kind: 'call', name: token.text, args };
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  });
+
+  const unary = (): RuleExpression => {
+    if (isOp('-', '!') || isWord('not')) {
+      const op = tokens[pos++].text === '-' ? '-' : 'not';
+      return nested(() => ({ kind: 'unary', op, operand: unary() }));
+    }
+    return primary();
+  };
+  const multiplicative = binary(unary, ['*', '/', '%']);
+  const additive = binary(multiplicative, ['+', '-']);
+  const comparison = (): RuleExpression => {
+    const left = additive();
+    if (!isOp('==', '=', '!=', '<', '<=', '>', '>=')) return left;
+    const op = tokens[pos++].text;
+    return { kind: 'binary', op: op === '=' ? '==' : op, left, right: additive() };
+  };
+  const and = binary(comparison, ['&&'], ['and'], { '&&': 'and' });
+  const or = binary(and, ['||'], ['or'], { '||': 'or' });
+
+  const result = expression();
+  if (peek().type !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return result;
+};
+
+const isSegmentList = (value: Value): value is SegmentList =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+// Values of a list that are there, without the places of segments missing the element
+const present = (list: Value[]): Value[] => list.filter(v => v !== null && v !== '' && !(typeof v === 'number' && isNaN(v)));
+
+// A list where one value is expected stands for its first present value
+const scalar = (value: Value): Exclude<Value, Value[] | SegmentList> => {
+  if (Array.isArray(value)) {
+    const [first] = present(value);
+    return first === undefined ? null : scalar(first);
+  }
+  if (isSegmentList(value)) return value.segments.length > 0;
+  return value;
+};
+
+const toList = (value: Value): Value[] => {
+  if (Array.isArray(value)) return value;
+  if (isSegmentList(value)) return value.segments.map(() => true);
+  return value === null ? [] : [value];
+};
+
+const toNumber = (value: Value): number => {
+  const v = scalar(value);
+  if (typeof v === 'number') return v;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === 'string' && v.trim() !== '') return Number(v);
+  return NaN;
+};
+
+const toText = (value: Value): string => {
+  const v = scalar(value);
+  if (v === null) return '';
+  if (v instanceof Date) return v.toISOString().substring(0, 10).replace(/-/g, '');
+  return String(v);
+};
+
+const truthy = (value: Value): boolean => {
+  const v = scalar(value);
+  if (typeof v === 'string') return v !== '';
+  if (typeof v === 'number') return v !== 0 && !isNaN(v);
+  return !!v;
+};
+
+const looksNumeric = (value: Value) => {
+  const v = scalar(value);
+  return typeof v === 'number' || v instanceof Date || (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v)));
+};
+
+const compare = (op: string, left: Value, right: Value): boolean => {
+  if (looksNumeric(left) && looksNumeric(right)) {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    switch (op) {
+      case '==': return Math.abs(a - b) < EPSILON;
+      case '!=': return Math.abs(a - b) >= EPSILON;
+      case '<': return a < b - EPSILON;
+      case '<=': return a <= b + EPSILON;
+      case '>': return a > b + EPSILON;
+      case '>=': return a >= b - EPSILON;
+    }
+  }
+  const a = toText(left);
+  const b = toText(right);
+  switch (op) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+};
+
+const arithmetic = (op: string, left: Value, right: Value): Value => {
+  // Element-wise over lists, a single value applying to every item
+  if (Array.isArray(left) || Array.isArray(right)) {
+    const a = toList(left);
+    const b = toList(right);
+    const length = Array.isArray(left) && Array.isArray(right) ? Math.min(a.length, b.length) : Math.max(a.length, b.length);
+    return Array.from({ length }, (_, i) => arithmetic(op, Array.isArray(left) ? a[i] : left, Array.isArray(right) ? b[i] : right));
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? NaN : a / b;
+    default: return b === 0 ? NaN : a % b;
+  }
+};
+
+const QUANTIFIER = /^(?:[+*]|\{\d+,\d*\})/;
+
+// Whether a repeated group contains a repetition itself, like (a+)+ or (\d*x)*: on a near miss
+// the regex engine tries every way of splitting the input between them, which takes exponential time
+const hasNestedQuantifier = (source: string): boolean => {
+  const groups: boolean[] = [];
+  let repeats = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      // Skip the character class
+      while (++i < source.length && source[i] !== ']') if (source[i] === '\\') i++;
+    } else if (ch === '(') {
+      groups.push(repeats);
+      repeats = false;
+    } else if (ch === ')') {
+      const quantified = QUANTIFIER.test(source.substring(i + 1));
+      if (quantified && repeats) return true;
+      repeats = (groups.pop() ?? false) || repeats || quantified;
+    } else if (QUANTIFIER.test(source.substring(i))) {
+      repeats = true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Compiles a user's pattern that has to match a whole value, for matches() and REGEX rules.
+ * Throws if it is invalid, too long or nests quantifiers, or if the flags include g / y: those
+ * make test() continue from the last match, so one compiled pattern can't check several values.
+ */
+export const compilePattern = (source: string, flags: string = ''): RegExp => {
+  if (source.length > MAX_PATTERN_LENGTH) throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+  if (hasNestedQuantifier(source)) throw new Error(`Pattern repeats a group that repeats itself: ${source}`);
+  if (!/^[imsu]*$/.test(flags) || new Set(flags).size !== flags.length) throw new Error(`Unsupported pattern flags '${flags}' (use i, m, s or u)`);
+  try {
+    return new RegExp(`^(?:${source})$`, flags);
+  } catch {
+    throw new Error(`Invalid pattern: ${source}`);
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateValue = (value: Value, today: Date): Date | null => {
+  const v = scalar(value);
+  if (v instanceof Date) return v;
+  return typeof v === 'string' && v ? toDate(v, undefined, today) : null;
+};
+
+const segmentValue = (line: ParsedLine, element: number, component?: number): string => {
+  const token = line.tokens.find(t => t.type === 'ELEMENT' && t.index === element);
+  if (!token) return '';
+  if (!component) return token.value.trim();
+  if (!token.subTokens) return component === 1 ? token.value.trim() : '';
+  return token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value.trim() || '';
+};
+
+/**
+ * Evaluates a parsed expression over the lines of a rule's scope. Throws if a function is
+ * given something it can't use, e.g. an invalid regular expression.
+ */
+export const evaluateExpression = (expression: RuleExpression, lines: ParsedLine[], today: Date = new Date()): boolean => {
+  const evaluate = (node: RuleExpression): Value => {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'path': {
+        const segments = lines.filter(l => l.segmentId === node.segment && node.filters.every(f =>
+          f.values.includes(segmentValue(l, f.element)) !== f.negate));
+        if (node.element === undefined) return { segments };
+        // Missing values stay as null so lists from the same segments still pair up
+        return segments.map(l => segmentValue(l, node.element!, node.component) || null);
+      }
+
+      case 'unary':
+        return node.op === 'not' ? !truthy(evaluate(node.operand)) : arithmetic('-', 0, evaluate(node.operand));
+
+      case 'if':
+        if (truthy(evaluate(node.condition))) return evaluate(node.then);
+        // Without an else, a condition that doesn't apply passes
+        return node.else ? evaluate(node.else) : true;
+
+      case 'binary': {
+        if (node.op === 'and') return truthy(evaluate(node.left)) && truthy(evaluate(node.right));
+        if (node.op === 'or') return truthy(evaluate(node.left)) || truthy(evaluate(node.right));
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (['+', '-', '*', '/', '%'].includes(node.op)) return arithmetic(node.op, left, right);
+        return compare(node.op, left, right);
+      }
+
+      case 'call':
+        return call(node.name, node.args.map(evaluate));
+    }
+  };
+
+  const call = (name: string, args: Value[]): Value => {
+    const [first] = args;
+    const values = () => present(toList(first));
+    const numbers = () => values().map(toNumber).filter(n => !isNaN(n));
+    switch (name) {
+      case 'sum': return numbers().reduce((a, b) => a + b, 0);
+      case 'count': return isSegmentList(first) ? first.segments.length : values().length;
+      case 'min': return numbers().length ? Math.min(...numbers()) : null;
+      case 'max': return numbers().length ? Math.max(...numbers()) : null;
+      case 'avg': return numbers().length ? numbers().reduce((a, b) => a + b, 0) / numbers().length : null;
+      case 'exists': return isSegmentList(first) ? first.segments.length > 0 : values().length > 0;
+      case 'first': return values()[0] ?? null;
+      case 'last': return values().slice(-1)[0] ?? null;
+      case 'len': return toText(first).length;
+      case 'upper': return toText(first).toUpperCase();
+      case 'lower': return toText(first).toLowerCase();
+      case 'trim': return toText(first).trim();
+      case 'substr': {
+        // 1-based start, like the positions in specs
+        const start = Math.max(toNumber(args[1]) - 1, 0);
+        return args.length > 2 ? toText(first).substring(start, start + toNumber(args[2])) : toText(first).substring(start);
+      }
+      case 'contains': return toText(first).includes(toText(args[1]));
+      case 'startsWith': return toText(first).startsWith(toText(args[1]));
+      case 'endsWith': return toText(first).endsWith(toText(args[1]));
+      case 'matches': {
+        let pattern: RegExp;
+        try {
+          pattern = compilePattern(toText(args[1]));
+        } catch (e: any) {
+          throw new Error(`matches(): ${e.message}`);
+        }
+        return pattern.test(toText(first));
+      }
+      case 'concat': return args.map(toText).join('');
+      case 'number': return toNumber(first);
+      case 'abs': return Math.abs(toNumber(first));
+      case 'round': {
+        const factor = Math.pow(10, args.length > 1 ? toNumber(args[1]) : 0);
+        return Math.round(toNumber(first) * factor) / factor;
+      }
+      case 'coalesce': return args.map(scalar).find(v => v !== null && v !== '') ?? null;
+      case 'date': return toDateValue(first, today);
+      case 'today': return new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+      case 'days': {
+        // Whole days from the second date to the first
+        const a = toDateValue(first, today);
+        const b = toDateValue(args[1], today);
+        return a && b ? Math.round((a.getTime() - b.getTime()) / DAY_MS) : null;
+      }
+      default:
+        throw new Error(`Unknown function '${name}'`);
+    }
+  };
+
+  return truthy(evaluate(expression));
+};
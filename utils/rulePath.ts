@@ -0,0 +1,108 @@
+import { EdiBodyNode, EdiSegmentNode, EdiTransactionNode } from '../types';
+
+/**
+ * Rule Scope Paths
+ * Where a trading partner rule applies within a transaction, written as a path over the parsed
+ * loop hierarchy:
+ *
+ *   PO1              every PO1 loop instance
+ *   PO1/SLN          SLN loops inside a PO1 loop
+ *   N1[01=ST]        N1 loops whose N101 is ST
+ *   N1[01=ST|BT]     ... ST or BT
+ *   REF[01=DP]       single REF segments whose REF01 is DP
+ *   HL[03=I]         item level of an HL hierarchy
+ *   SG2[01=BY]       EDIFACT groups by their name; the condition is on the starter (NAD)
+ *
+ * A step names a loop by its starter segment or its name (SG2). Each step looks at any depth below
+ * the previous one. The last step may also name a plain segment, which is then its own scope.
+ * Conditions in brackets compare an element of the loop starter (or the segment) and can be
+ * chained, [01=ST][03=92], or negated, [01!=ST].
+ */
+
+export interface RulePathCondition {
+  element: number;
+  values: string[];
+  negate: boolean;
+}
+
+export interface RulePathStep {
+  id: string;
+  conditions: RulePathCondition[];
+}
+
+// A matched scope: the segments of one loop instance, or one segment
+export interface RuleContext {
+  start: EdiSegmentNode;
+  segments: EdiSegmentNode[];
+}
+
+const STEP = /^([A-Z0-9]{2,3}|SG\d+)((?:\[[^\]]*\])*)$/i;
+const CONDITION = /^(?:[A-Z0-9]{2,3}?)?(\d{1,2})(!?=)(.*)$/i;
+
+/**
+ * Parses a scope path. Throws on a malformed one, naming the part it couldn't read.
+ */
+export const parseRulePath = (expression: string): RulePathStep[] => {
+  const parts = expression.trim().split('/').map(p => p.trim());
+  if (parts.length === 0 || parts.some(p => !p)) throw new Error(`Empty step in scope path '${expression}'`);
+
+  return parts.map(part => {
+    const match = part.match(STEP);
+    if (!match) throw new Error(`Invalid scope path step '${part}'`);
+    const id = match[1].toUpperCase();
+    const conditions = (match[2].match(/\[[^\]]*\]/g) || []).map(bracket => {
+      // Element ids may be written in full: N101=ST
+      const condition = bracket.slice(1, -1).trim();
+      const parsed = condition.toUpperCase().startsWith(id) && /^\d/.test(condition.substring(id.length))
+        ? condition.substring(id.length).match(CONDITION)
+        : condition.match(CONDITION);
+      if (!parsed) throw new Error(`Invalid condition '${condition}' in scope path step '${part}'`);
+      return {
+        element: parseInt(parsed[1], 10),
+        values: parsed[3].split('|').map(v => v.trim()),
+        negate: parsed[2] === '!='
+      };
+    });
+    return { id, conditions };
+  });
+};
+
+const elementValue = (segment: EdiSegmentNode, element: number): string =>
+  segment.elements.find(t => t.index === element)?.value.trim() || '';
+
+const matchesConditions = (segment: EdiSegmentNode | undefined, conditions: RulePathCondition[]): boolean =>
+  !!segment && conditions.every(c => c.values.includes(elementValue(segment, c.element)) !== c.negate);
+
+const loopSegments = (nodes: EdiBodyNode[]): EdiSegmentNode[] =>
+  nodes.flatMap(node => node.kind === 'SEGMENT' ? [node] : loopSegments(node.children));
+
+const matchStep = (nodes: EdiBodyNode[], step: RulePathStep, isLast: boolean): { context: RuleContext; children: EdiBodyNode[] }[] => {
+  const matches: { context: RuleContext; children: EdiBodyNode[] }[] = [];
+  nodes.forEach(node => {
+    if (node.kind === 'LOOP') {
+      const starter = node.children[0]?.kind === 'SEGMENT' ? node.children[0] : undefined;
+      const name = node.path.split('/').pop();
+      if ((node.id === step.id || name === step.id) && matchesConditions(starter, step.conditions)) {
+        matches.push({ context: { start: starter!, segments: loopSegments(node.children) }, children: node.children });
+        return;
+      }
+      // Loops of the same kind don't nest, so only look inside the ones that didn't match
+      matches.push(...matchStep(node.children, step, isLast));
+    } else if (isLast && node.id === step.id && matchesConditions(node, step.conditions)) {
+      matches.push({ context: { start: node, segments: [node] }, children: [] });
+    }
+  });
+  return matches;
+};
+
+/**
+ * Every scope in the transaction that the path selects, in document order.
+ */
+export const selectRuleContexts = (transaction: EdiTransactionNode, path: RulePathStep[]): RuleContext[] => {
+  let current: { context: RuleContext; children: EdiBodyNode[] }[] = [{ context: { start: transaction.header!, segments: [] }, children: transaction.children }];
+  path.forEach((step, i) => {
+    const isLast = i === path.length - 1;
+    current = current.flatMap(c => matchStep(c.children, step, isLast));
+  });
+  return current.map(c => c.context);
+};
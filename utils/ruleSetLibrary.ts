@@ -0,0 +1,219 @@
+import { RuleChange, RuleSetDiff, RuleSetTestCase, RuleSetVersion, TPRule, TPRuleSet, VersionBump } from '../types';
+import { RULE_TYPES } from '../data/ruleTypes';
+import { parseYaml, toYaml } from './yaml';
+
+/**
+ * Rule Set Library
+ * File format, semantic versions and diffs for trading partner rule sets. A rule set file wraps the
+ * set in an envelope with a schema version, so files from newer releases are refused instead of
+ * half-read. Publishing a version records a changelog entry and a snapshot to diff against later.
+ */
+
+export const RULE_SET_SCHEMA_VERSION = 1;
+const RULE_SET_FILE_KIND = 'edi-studio/rule-set';
+
+export type RuleSetFormat = 'json' | 'yaml';
+
+interface RuleSetFile {
+  kind: string;
+  schemaVersion: number;
+  exportedAt: string;
+  ruleSet: Omit<TPRuleSet, 'isActive'>;
+}
+
+// --- Versions ---
+
+const parseVersion = (version?: string): [number, number, number] => {
+  const match = version?.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : [0, 0, 0];
+};
+
+export const isValidVersion = (version: string): boolean => /^\d+\.\d+\.\d+$/.test(version.trim());
+
+export const compareVersions = (a?: string, b?: string): number => {
+  const [x, y] = [parseVersion(a), parseVersion(b)];
+  return x[0] - y[0] || x[1] - y[1] || x[2] - y[2];
+};
+
+export const bumpVersion = (version: string | undefined, bump: VersionBump): string => {
+  const [major, minor, patch] = parseVersion(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+};
+
+/**
+ * Publishes the set as a new version: bumps it, adds the changelog entry and returns the snapshot to store.
+ */
+export const publishRuleSet = (set: TPRuleSet, bump: VersionBump, summary: string, now: Date = new Date()): { ruleSet: TPRuleSet; snapshot: RuleSetVersion } => {
+  const version = bumpVersion(set.version, bump);
+  const date = now.toISOString();
+  const ruleSet: TPRuleSet = {
+    ...set,
+    version,
+    updatedAt: date,
+    changelog: [{ version, date, summary: summary.trim() || `Version ${version}` }, ...(set.changelog || [])]
+  };
+  return { ruleSet, snapshot: { setId: set.id, version, savedAt: date, ruleSet } };
+};
+
+// --- Diff ---
+
+// Rules are matched by id, then by what they check, so sets re-extracted from a revised guide still line up
+const ruleKey = (rule: TPRule) => [rule.type, rule.targetSegment, rule.targetElement ?? '', rule.scopePath ?? ''].join('|');
+
+const changedFields = (before: TPRule, after: TPRule): string[] => {
+  const fields: string[] = [];
+  (['type', 'targetSegment', 'targetElement', 'scopePath', 'severity', 'message'] as const).forEach(field => {
+    if ((before[field] ?? '') !== (after[field] ?? '')) fields.push(field);
+  });
+  const params = new Set([...Object.keys(before.params || {}), ...Object.keys(after.params || {})]);
+  params.forEach(key => {
+    const a = (before.params as Record<string, unknown> | undefined)?.[key];
+    const b = (after.params as Record<string, unknown> | undefined)?.[key];
+    if (JSON.stringify(a) !== JSON.stringify(b)) fields.push(`params.${key}`);
+  });
+  return fields;
+};
+
+/**
+ * What changed from one version of a rule set to another. The suggested bump is major when rules
+ * were removed or retargeted, minor when rules were added or their checks changed, and patch when
+ * only messages or the set's details changed.
+ */
+export const diffRuleSets = (before: TPRuleSet, after: TPRuleSet): RuleSetDiff => {
+  const unmatched = new Map(before.rules.map(r => [r.id, r]));
+  const pairs: [TPRule, TPRule][] = [];
+  const added: TPRule[] = [];
+
+  const afterById = after.rules.filter(r => {
+    const previous = unmatched.get(r.id);
+    if (!previous) return true;
+    unmatched.delete(r.id);
+    pairs.push([previous, r]);
+    return false;
+  });
+  afterById.forEach(rule => {
+    const previous = [...unmatched.values()].find(r => ruleKey(r) === ruleKey(rule));
+    if (previous) {
+      unmatched.delete(previous.id);
+      pairs.push([previous, rule]);
+    } else {
+      added.push(rule);
+    }
+  });
+  const removed = [...unmatched.values()];
+
+  const changed: RuleChange[] = pairs
+    .map(([a, b]) => ({ before: a, after: b, fields: changedFields(a, b) }))
+    .filter(c => c.fields.length > 0);
+
+  const metadata = (['name', 'transactionType'] as const)
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field], after: after[field] }));
+
+  const retargeted = changed.some(c => c.fields.some(f => f === 'type' || f === 'targetSegment' || f === 'targetElement'));
+  const checksChanged = changed.some(c => c.fields.some(f => f !== 'message'));
+  const suggestedBump: VersionBump | null =
+    removed.length > 0 || retargeted ? 'major'
+      : added.length > 0 || checksChanged ? 'minor'
+        : changed.length > 0 || metadata.length > 0 ? 'patch'
+          : null;
+
+  return { added, removed, changed, metadata, suggestedBump };
+};
+
+// --- Import / Export ---
+
+/**
+ * The rule set as a file for sharing. Whether it's active is left to whoever imports it.
+ */
+export const exportRuleSet = (set: TPRuleSet, format: RuleSetFormat, now: Date = new Date()): string => {
+  const { isActive, ...ruleSet } = set;
+  const file: RuleSetFile = { kind: RULE_SET_FILE_KIND, schemaVersion: RULE_SET_SCHEMA_VERSION, exportedAt: now.toISOString(), ruleSet };
+  return format === 'yaml' ? toYaml(file) : JSON.stringify(file, null, 2);
+};
+
+export const ruleSetFileName = (set: TPRuleSet, format: RuleSetFormat): string =>
+  `${set.name.replace(/[^\w.-]+/g, '_')}${set.version ? `_v${set.version}` : ''}.${format === 'yaml' ? 'yaml' : 'json'}`;
+
+const readRule = (raw: any, index: number): TPRule => {
+  const where = `Rule ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} is not an object`);
+  if (!(raw.type in RULE_TYPES)) throw new Error(`${where} has an unknown type '${raw.type}'`);
+  if (typeof raw.targetSegment !== 'string' || !raw.targetSegment) throw new Error(`${where} has no target segment`);
+  if (raw.severity !== 'ERROR' && raw.severity !== 'WARNING') throw new Error(`${where} has an invalid severity '${raw.severity}'`);
+  if (raw.targetElement !== undefined && raw.targetElement !== null && !Number.isInteger(raw.targetElement)) {
+    throw new Error(`${where} has an invalid target element '${raw.targetElement}'`);
+  }
+  if (raw.params !== undefined && raw.params !== null && typeof raw.params !== 'object') throw new Error(`${where} has invalid params`);
+  return {
+    id: raw.id ? String(raw.id) : `${Date.now()}-${index}`,
+    type: raw.type,
+    targetSegment: raw.targetSegment.toUpperCase(),
+    targetElement: raw.targetElement ?? undefined,
+    scopePath: raw.scopePath || undefined,
+    params: raw.params ?? undefined,
+    message: raw.message ? String(raw.message) : '',
+    severity: raw.severity
+  } as TPRule;
+};
+
+const readTestCase = (raw: any, index: number): RuleSetTestCase => {
+  const where = `Test ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${where} is not an object`);
+  if (typeof raw.content !== 'string' || !raw.content.trim()) throw new Error(`${where} has no sample document`);
+  if (raw.expect !== 'CLEAN' && raw.expect !== 'ISSUES') throw new Error(`${where} has an invalid expectation '${raw.expect}'`);
+  const expectedIssues = raw.expectedIssues ?? [];
+  if (!Array.isArray(expectedIssues) || expectedIssues.some((e: any) => !e || typeof e.code !== 'string')) {
+    throw new Error(`${where} has invalid expected issues`);
+  }
+  return {
+    id: raw.id ? String(raw.id) : `${Date.now()}-${index}`,
+    name: raw.name !== undefined && raw.name !== null ? String(raw.name) : `Sample ${index + 1}`,
+    content: raw.content,
+    expect: raw.expect,
+    expectedIssues: expectedIssues.map((e: any) => ({ code: e.code, line: Number.isInteger(e.line) ? e.line : undefined })),
+    allowOtherIssues: raw.allowOtherIssues === true || undefined
+  };
+};
+
+/**
+ * Reads a rule set file (JSON or YAML, told apart by the content). Bare rule set objects without
+ * the file envelope are accepted too. Throws with the reason the file can't be used.
+ */
+export const importRuleSet = (text: string): TPRuleSet => {
+  const trimmed = text.trim();
+  let data: any;
+  try {
+    data = trimmed.startsWith('{') || trimmed.startsWith('[') ? JSON.parse(trimmed) : parseYaml(trimmed);
+  } catch (e: any) {
+    throw new Error(`Not a readable rule set file: ${e.message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('Not a rule set file');
+
+  if (data.kind !== undefined || data.schemaVersion !== undefined) {
+    if (data.kind !== RULE_SET_FILE_KIND) throw new Error(`Not a rule set file (kind '${data.kind}')`);
+    if (typeof data.schemaVersion !== 'number' || data.schemaVersion > RULE_SET_SCHEMA_VERSION) {
+      throw new Error(`Rule set file schema version ${data.schemaVersion} is newer than this app supports (${RULE_SET_SCHEMA_VERSION})`);
+    }
+  }
+  const raw = data.ruleSet ?? data;
+  if (typeof raw.name !== 'string' || !Array.isArray(raw.rules)) throw new Error('Rule set needs a name and a list of rules');
+  if (raw.version !== undefined && !isValidVersion(String(raw.version))) throw new Error(`Invalid rule set version '${raw.version}'`);
+
+  return {
+    id: raw.id ? String(raw.id) : Date.now().toString(),
+    name: raw.name,
+    transactionType: raw.transactionType ? String(raw.transactionType) : 'Unknown',
+    rules: raw.rules.map(readRule),
+    rawSpecText: raw.rawSpecText || undefined,
+    isActive: true,
+    version: raw.version !== undefined ? String(raw.version) : undefined,
+    changelog: Array.isArray(raw.changelog)
+      ? raw.changelog.map((c: any) => ({ version: String(c.version), date: String(c.date), summary: String(c.summary ?? '') }))
+      : undefined,
+    updatedAt: raw.updatedAt || undefined,
+    tests: Array.isArray(raw.tests) ? raw.tests.map(readTestCase) : undefined
+  };
+};
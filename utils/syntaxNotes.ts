@@ -0,0 +1,87 @@
+/**
+ * X12 Syntax Notes
+ * Relational conditions between the elements of a segment, written the way the X12 dictionaries
+ * publish them: a type letter followed by two-digit element positions, e.g. "P0304" (PER03 and
+ * PER04 are paired) or "L030405" (if 03 is present, at least one of 04 or 05 is required).
+ */
+
+export type SyntaxNoteType = 'P' | 'R' | 'E' | 'C' | 'L';
+
+export interface SyntaxNote {
+  type: SyntaxNoteType;
+  positions: number[];
+}
+
+export interface SyntaxViolation {
+  code: string;
+  message: string;
+  position: number; // Element the violation is reported against
+}
+
+const NOTE_CODES: Record<SyntaxNoteType, string> = {
+  P: 'SYNTAX_PAIRED',
+  R: 'SYNTAX_REQUIRED',
+  E: 'SYNTAX_EXCLUSION',
+  C: 'SYNTAX_CONDITIONAL',
+  L: 'SYNTAX_LIST_CONDITIONAL'
+};
+
+/**
+ * "C0403" -> { type: 'C', positions: [4, 3] }. Returns null for anything that isn't a note.
+ */
+export const parseSyntaxNote = (note: string): SyntaxNote | null => {
+  const match = /^([PRECL])((?:\d{2}){2,})$/.exec(note.trim().toUpperCase());
+  if (!match) return null;
+  return {
+    type: match[1] as SyntaxNoteType,
+    positions: match[2].match(/\d{2}/g)!.map(p => parseInt(p, 10))
+  };
+};
+
+/**
+ * Evaluates one syntax note against the elements present in a segment occurrence.
+ * `segmentId` is only used to name elements in the message (e.g. "N103").
+ */
+export const checkSyntaxNote = (
+  segmentId: string,
+  note: SyntaxNote,
+  isPresent: (position: number) => boolean
+): SyntaxViolation | null => {
+  const name = (position: number) => `${segmentId}${String(position).padStart(2, '0')}`;
+  const list = (positions: number[]) => positions.map(name).join(', ');
+  const present = note.positions.filter(isPresent);
+  const missing = note.positions.filter(p => !isPresent(p));
+  const [first, ...rest] = note.positions;
+  const code = NOTE_CODES[note.type];
+
+  switch (note.type) {
+    case 'P':
+      // All or none
+      if (present.length > 0 && missing.length > 0) {
+        return { code, message: `${list(present)} requires ${list(missing)} (paired: ${list(note.positions)})`, position: missing[0] };
+      }
+      return null;
+    case 'R':
+      if (present.length === 0) {
+        return { code, message: `At least one of ${list(note.positions)} is required`, position: first };
+      }
+      return null;
+    case 'E':
+      if (present.length > 1) {
+        return { code, message: `Only one of ${list(note.positions)} may be present (found ${list(present)})`, position: present[1] };
+      }
+      return null;
+    case 'C': {
+      const absent = rest.filter(p => !isPresent(p));
+      if (isPresent(first) && absent.length > 0) {
+        return { code, message: `${name(first)} requires ${list(absent)}`, position: absent[0] };
+      }
+      return null;
+    }
+    case 'L':
+      if (isPresent(first) && !rest.some(isPresent)) {
+        return { code, message: `${name(first)} requires at least one of ${list(rest)}`, position: rest[0] };
+      }
+      return null;
+  }
+};
@@ -0,0 +1,186 @@
+import { EdiTransactionNode, EdiSegmentNode, LineError } from '../types';
+import { transactionSegments } from './ediDocument';
+
+/**
+ * Totals Check
+ * Cross-segment arithmetic that trading partners reject documents for: line counts, hash totals
+ * and monetary totals in the summary area, compared with what the detail lines add up to.
+ *  - 850 / 810: CTT01 = PO1 / IT1 count, CTT02 = sum of PO102 / IT102
+ *  - 810: TDS01 = sum of IT102 x IT104, plus SAC charges, minus SAC allowances (implied 2 decimals)
+ *  - 856: CTT01 = HL count, CTT02 = sum of SN102
+ *  - EDIFACT: CNT 2 = LIN count, CNT 1 = sum of each line's first QTY,
+ *    MOA 79 = sum of line MOA 203, MOA 86 = MOA 125 + MOA 176
+ */
+
+const MAX_LISTED_LINES = 10;
+
+interface TotalsContext {
+  segments: EdiSegmentNode[];
+  errors: LineError[];
+}
+
+const elementValue = (segment: EdiSegmentNode, index: number, component?: number): string => {
+  const token = segment.elements.find(t => t.index === index);
+  if (!token) return '';
+  if (component && token.subTokens) {
+    return token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value || '';
+  }
+  return token.value;
+};
+
+// EDIFACT allows a comma as the decimal mark
+const toNumber = (value: string): number | undefined => {
+  const n = parseFloat(value.trim().replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const sameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.005;
+
+// Rounds away float noise (0.1 + 0.2) without hiding real differences
+const format = (n: number): string => String(Math.round(n * 10000) / 10000);
+
+const lineList = (segments: EdiSegmentNode[]): string => {
+  const lines = segments.map(s => s.line.lineNumber);
+  const listed = lines.slice(0, MAX_LISTED_LINES).join(', ');
+  if (lines.length === 1) return `line ${listed}`;
+  return lines.length > MAX_LISTED_LINES ? `lines ${listed}, … (${lines.length} in total)` : `lines ${listed}`;
+};
+
+const mismatch = (ctx: TotalsContext, total: EdiSegmentNode, tokenIndex: number, message: string) => {
+  ctx.errors.push({ line: total.line.lineNumber, code: 'TOTAL_MISMATCH', message, severity: 'ERROR', tokenIndex });
+};
+
+const byId = (ctx: TotalsContext, id: string) => ctx.segments.filter(s => s.id === id);
+
+/**
+ * CTT01 against the number of detail segments, CTT02 against the sum of one of their elements.
+ */
+const checkCtt = (ctx: TotalsContext, countedId: string, hash?: { id: string; index: number }) => {
+  const ctt = byId(ctx, 'CTT')[0];
+  if (!ctt) return;
+
+  const counted = byId(ctx, countedId);
+  const declared = toNumber(elementValue(ctt, 1));
+  if (declared !== undefined && declared !== counted.length) {
+    mismatch(ctx, ctt, 1, `CTT01 is ${declared} but the transaction has ${counted.length} ${countedId} segment${counted.length === 1 ? '' : 's'}${counted.length ? ` (${lineList(counted)})` : ''}`);
+  }
+
+  if (!hash) return;
+  const declaredHash = toNumber(elementValue(ctt, 2));
+  if (declaredHash === undefined) return;
+  const sources = byId(ctx, hash.id).filter(s => toNumber(elementValue(s, hash.index)) !== undefined);
+  const sum = sources.reduce((total, s) => total + toNumber(elementValue(s, hash.index))!, 0);
+  const element = `${hash.id}${String(hash.index).padStart(2, '0')}`;
+  if (!sameAmount(declaredHash, sum)) {
+    mismatch(ctx, ctt, 2, `CTT02 hash total is ${format(declaredHash)} but the sum of ${element} is ${format(sum)}${sources.length ? ` (${lineList(sources)})` : ''}`);
+  }
+};
+
+/**
+ * TDS01 (N2, in cents) against the extended line amounts plus charges less allowances.
+ */
+const checkTds = (ctx: TotalsContext) => {
+  const tds = byId(ctx, 'TDS')[0];
+  const declared = tds ? toNumber(elementValue(tds, 1)) : undefined;
+  if (!tds || declared === undefined) return;
+
+  const items = byId(ctx, 'IT1');
+  const lineCents = items.reduce((sum, it1) =>
+    sum + Math.round((toNumber(elementValue(it1, 2)) ?? 0) * (toNumber(elementValue(it1, 4)) ?? 0) * 100), 0);
+
+  const sacs = byId(ctx, 'SAC').filter(s => toNumber(elementValue(s, 5)) !== undefined);
+  const sacCents = sacs.reduce((sum, sac) => {
+    const amount = toNumber(elementValue(sac, 5))!;
+    const indicator = elementValue(sac, 1);
+    return indicator === 'A' ? sum - amount : indicator === 'C' ? sum + amount : sum;
+  }, 0);
+
+  const expected = lineCents + sacCents;
+  if (Math.round(declared) !== expected) {
+    const involved = [...items.length ? [`IT1 ${lineList(items)}`] : [], ...sacs.length ? [`SAC ${lineList(sacs)}`] : []];
+    mismatch(ctx, tds, 1, `TDS01 is ${(declared / 100).toFixed(2)} but IT102 x IT104 + charges - allowances is ${(expected / 100).toFixed(2)}${involved.length ? ` (${involved.join('; ')})` : ''}`);
+  }
+};
+
+/**
+ * CNT control totals and MOA summary amounts. Detail lines are the ones before UNS+S.
+ */
+const checkEdifactTotals = (ctx: TotalsContext) => {
+  const summaryStart = ctx.segments.findIndex(s => s.id === 'UNS' && elementValue(s, 1) === 'S');
+  const detail = summaryStart === -1 ? ctx.segments : ctx.segments.slice(0, summaryStart);
+  const summary = summaryStart === -1 ? [] : ctx.segments.slice(summaryStart + 1);
+
+  const lineItems = detail.filter(s => s.id === 'LIN');
+  const firstQuantities: EdiSegmentNode[] = [];
+  let inLine = false;
+  let hasQuantity = false;
+  detail.forEach(s => {
+    if (s.id === 'LIN') {
+      inLine = true;
+      hasQuantity = false;
+    } else if (inLine && !hasQuantity && s.id === 'QTY') {
+      firstQuantities.push(s);
+      hasQuantity = true;
+    }
+  });
+
+  summary.filter(s => s.id === 'CNT').forEach(cnt => {
+    const qualifier = elementValue(cnt, 1, 1);
+    const declared = toNumber(elementValue(cnt, 1, 2));
+    if (declared === undefined) return;
+    if (qualifier === '2' && declared !== lineItems.length) {
+      mismatch(ctx, cnt, 1, `CNT 2 (number of line items) is ${declared} but the message has ${lineItems.length} LIN segment${lineItems.length === 1 ? '' : 's'}${lineItems.length ? ` (${lineList(lineItems)})` : ''}`);
+    } else if (qualifier === '1') {
+      const sum = firstQuantities.reduce((total, q) => total + (toNumber(elementValue(q, 1, 2)) ?? 0), 0);
+      if (!sameAmount(declared, sum)) {
+        mismatch(ctx, cnt, 1, `CNT 1 (total quantity) is ${format(declared)} but the line item quantities add up to ${format(sum)}${firstQuantities.length ? ` (${lineList(firstQuantities)})` : ''}`);
+      }
+    }
+  });
+
+  const summaryAmount = (qualifier: string) => summary.find(s => s.id === 'MOA' && elementValue(s, 1, 1) === qualifier);
+  const amountOf = (moa: EdiSegmentNode | undefined) => moa ? toNumber(elementValue(moa, 1, 2)) : undefined;
+
+  const lineTotal = summaryAmount('79');
+  const lineAmounts = detail.filter(s => s.id === 'MOA' && elementValue(s, 1, 1) === '203' && toNumber(elementValue(s, 1, 2)) !== undefined);
+  if (lineTotal && amountOf(lineTotal) !== undefined && lineAmounts.length > 0) {
+    const sum = lineAmounts.reduce((total, m) => total + amountOf(m)!, 0);
+    if (!sameAmount(amountOf(lineTotal)!, sum)) {
+      mismatch(ctx, lineTotal, 1, `MOA 79 (total line items amount) is ${format(amountOf(lineTotal)!)} but the MOA 203 line amounts add up to ${format(sum)} (${lineList(lineAmounts)})`);
+    }
+  }
+
+  const total = summaryAmount('86');
+  const taxable = summaryAmount('125');
+  const tax = summaryAmount('176');
+  if (total && taxable && tax && [total, taxable, tax].every(m => amountOf(m) !== undefined)) {
+    const expected = amountOf(taxable)! + amountOf(tax)!;
+    if (!sameAmount(amountOf(total)!, expected)) {
+      mismatch(ctx, total, 1, `MOA 86 (message total) is ${format(amountOf(total)!)} but MOA 125 + MOA 176 is ${format(expected)} (${lineList([taxable, tax])})`);
+    }
+  }
+};
+
+const X12_CHECKS: Record<string, (ctx: TotalsContext) => void> = {
+  '850': ctx => checkCtt(ctx, 'PO1', { id: 'PO1', index: 2 }),
+  '810': ctx => {
+    checkCtt(ctx, 'IT1', { id: 'IT1', index: 2 });
+    checkTds(ctx);
+  },
+  '856': ctx => checkCtt(ctx, 'HL', { id: 'SN1', index: 2 })
+};
+
+/**
+ * Summary totals of one transaction set. Each mismatch is reported on the total's line
+ * with the expected value and the detail lines it was computed from.
+ */
+export const validateTotals = (transaction: EdiTransactionNode): LineError[] => {
+  const ctx: TotalsContext = { segments: transactionSegments(transaction), errors: [] };
+
+  if (transaction.header?.id === 'UNH') {
+    checkEdifactTotals(ctx);
+  } else {
+    X12_CHECKS[transaction.type]?.(ctx);
+  }
+  return ctx.errors;
+};
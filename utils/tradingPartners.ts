@@ -0,0 +1,169 @@
+import { EdiInterchangeNode, EdiTransactionNode, ParsedLine, PartnerIdentity, PartnerMatch, TPRuleSet, TradingPartner, ValidationIssue } from '../types';
+import { EdiDelimiters } from './ediDetection';
+import { edifactDirectory } from '../data/schemaRegistry';
+
+/**
+ * Trading Partners
+ * Finds the partner profile for each interchange from its envelope IDs (ISA05-08 and GS02/03, or
+ * UNB S002 / S003), in either direction, and checks the interchange against what was agreed with
+ * the partner: version, test / production usage and delimiters.
+ */
+
+const elementValue = (line: ParsedLine, index: number, component?: number): string => {
+  const token = line.tokens.find(t => t.type === 'ELEMENT' && t.index === index);
+  if (!token) return '';
+  if (component && token.subTokens) {
+    return (token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value || '').trim();
+  }
+  return component && component > 1 ? '' : token.value.trim();
+};
+
+interface EnvelopeParty {
+  qualifier: string;
+  id: string;
+}
+
+// Sender and receiver of the interchange, and the GS02 / GS03 pairs of its groups
+const envelopeParties = (interchange: EdiInterchangeNode): { sender: EnvelopeParty; receiver: EnvelopeParty; applications: [string, string][] } | undefined => {
+  const header = interchange.header?.line;
+  if (!header) return undefined;
+  if (header.segmentId === 'ISA') {
+    return {
+      sender: { qualifier: elementValue(header, 5), id: elementValue(header, 6) },
+      receiver: { qualifier: elementValue(header, 7), id: elementValue(header, 8) },
+      applications: interchange.groups
+        .filter(g => g.header?.id === 'GS')
+        .map(g => [elementValue(g.header!.line, 2), elementValue(g.header!.line, 3)])
+    };
+  }
+  return {
+    sender: { qualifier: elementValue(header, 2, 2), id: elementValue(header, 2, 1) },
+    receiver: { qualifier: elementValue(header, 3, 2), id: elementValue(header, 3, 1) },
+    applications: []
+  };
+};
+
+const sameCode = (expected: string | undefined, actual: string) => !expected?.trim() || expected.trim().toUpperCase() === actual.toUpperCase();
+
+const isParty = (expected: PartnerIdentity, party: EnvelopeParty) =>
+  !!expected.id.trim() && expected.id.trim().toUpperCase() === party.id.toUpperCase() && sameCode(expected.qualifier, party.qualifier);
+
+// ISA15 T / P, UNB11 1 for test
+const interchangeUsage = (interchange: EdiInterchangeNode): 'TEST' | 'PRODUCTION' => {
+  const header = interchange.header!;
+  const test = header.id === 'ISA' ? elementValue(header.line, 15).toUpperCase() === 'T' : elementValue(header.line, 11) === '1';
+  return test ? 'TEST' : 'PRODUCTION';
+};
+
+// UNH S009 "ORDERS:D:96A:UN" -> "D96A"
+const messageDirectory = (transaction: EdiTransactionNode): string | undefined =>
+  transaction.header && edifactDirectory(elementValue(transaction.header.line, 2, 2), elementValue(transaction.header.line, 2, 3));
+
+/**
+ * The partner whose profile matches the interchange's envelope, as sender (inbound) or as
+ * receiver of a document going out to them (outbound).
+ */
+export const findPartner = (partners: TradingPartner[], interchange: EdiInterchangeNode): PartnerMatch | undefined => {
+  const parties = envelopeParties(interchange);
+  if (!parties) return undefined;
+  const standard = interchange.header!.line.segmentId === 'ISA' ? 'X12' : 'EDIFACT';
+  const interchangeLine = interchange.header!.line.lineNumber;
+
+  for (const partner of partners) {
+    if (partner.standard !== standard) continue;
+    const applicationsMatch = (from?: string, to?: string) =>
+      (!from?.trim() && !to?.trim()) || parties.applications.some(([s, r]) => sameCode(from, s) && sameCode(to, r));
+
+    if (isParty(partner.sender, parties.sender) && isParty(partner.receiver, parties.receiver) &&
+        applicationsMatch(partner.applicationSender, partner.applicationReceiver)) {
+      return { partner, direction: 'INBOUND', interchangeLine };
+    }
+    if (isParty(partner.sender, parties.receiver) && isParty(partner.receiver, parties.sender) &&
+        applicationsMatch(partner.applicationReceiver, partner.applicationSender)) {
+      return { partner, direction: 'OUTBOUND', interchangeLine };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * A new partner profile filled in from an interchange's envelope, named after its sender.
+ */
+export const partnerFromInterchange = (interchange: EdiInterchangeNode, delimiters: EdiDelimiters): TradingPartner | undefined => {
+  const parties = envelopeParties(interchange);
+  if (!parties) return undefined;
+  const x12 = interchange.header!.id === 'ISA';
+  const group = interchange.groups[0];
+  const message = group?.transactions.find(t => t.header);
+  return {
+    id: Date.now().toString(),
+    name: parties.sender.id,
+    standard: x12 ? 'X12' : 'EDIFACT',
+    sender: parties.sender,
+    receiver: parties.receiver,
+    applicationSender: parties.applications[0]?.[0] || undefined,
+    applicationReceiver: parties.applications[0]?.[1] || undefined,
+    version: (x12 ? group?.version : message && messageDirectory(message)) || undefined,
+    delimiters: { segment: delimiters.segment, element: delimiters.element, component: delimiters.component, repetition: delimiters.repetition },
+    usage: interchangeUsage(interchange),
+    ruleSets: {}
+  };
+};
+
+/**
+ * The partner's rule sets for a transaction type; sets assigned to "*" apply to every type.
+ */
+export const partnerRuleSets = (partner: TradingPartner, ruleSets: TPRuleSet[], transactionType: string): TPRuleSet[] => {
+  const ids = new Set([...(partner.ruleSets[transactionType] || []), ...(partner.ruleSets['*'] || [])]);
+  return ruleSets.filter(set => ids.has(set.id));
+};
+
+const DELIMITER_NAMES: Record<keyof NonNullable<TradingPartner['delimiters']>, string> = {
+  segment: 'segment terminator',
+  element: 'element separator',
+  component: 'component separator',
+  repetition: 'repetition separator'
+};
+
+const printable = (value?: string) => value === undefined ? 'none' : value === '\n' ? 'newline' : `'${value}'`;
+
+/**
+ * Differences between the interchange and the partner agreement, as warnings. Versions are
+ * checked on each group (GS08) or message (UNH S009) rather than once per interchange.
+ */
+export const checkPartnerAgreement = (match: PartnerMatch, interchange: EdiInterchangeNode, delimiters: EdiDelimiters): ValidationIssue[] => {
+  const { partner } = match;
+  const issues: ValidationIssue[] = [];
+  const warn = (code: string, message: string, line: number, segmentId?: string) =>
+    issues.push({ code, message, severity: 'WARNING', line, segmentId, source: 'TP_RULE' });
+  const header = interchange.header!;
+
+  if (partner.usage) {
+    const usage = interchangeUsage(interchange);
+    if (usage !== partner.usage) {
+      warn('PARTNER_USAGE', `${partner.name} is set up for ${partner.usage.toLowerCase()} data, but this interchange is marked ${usage.toLowerCase()}`, match.interchangeLine, header.id);
+    }
+  }
+
+  const agreed = partner.version?.trim().toUpperCase();
+  if (agreed) {
+    interchange.groups.forEach(group => {
+      const targets: { version?: string; line: number; segmentId: string }[] = header.id === 'ISA'
+        ? (group.header ? [{ version: group.version, line: group.header.line.lineNumber, segmentId: 'GS' }] : [])
+        : group.transactions.filter(t => t.header).map(t => ({ version: messageDirectory(t), line: t.header!.line.lineNumber, segmentId: 'UNH' }));
+      targets.forEach(({ version, line, segmentId }) => {
+        const actual = version?.trim().toUpperCase();
+        if (!actual || actual === agreed) return;
+        warn('PARTNER_VERSION', `${partner.name} exchanges version ${partner.version}, but ${segmentId} declares ${version}`, line, segmentId);
+      });
+    });
+  }
+
+  (Object.keys(DELIMITER_NAMES) as (keyof typeof DELIMITER_NAMES)[]).forEach(kind => {
+    const preferred = partner.delimiters?.[kind];
+    if (!preferred || preferred === delimiters[kind]) return;
+    warn('PARTNER_DELIMITER', `${partner.name} expects ${printable(preferred)} as the ${DELIMITER_NAMES[kind]}, this file uses ${printable(delimiters[kind])}`, match.interchangeLine, header.id);
+  });
+
+  return issues;
+};
@@ -0,0 +1,499 @@
+import { EdiGroupNode, EdiInterchangeNode, EdiSegmentNode, EdiTransactionNode, ElementErrorKind, LineError, ValidationIssue } from '../types';
+import { parseEdiDocument } from './ediParser';
+import { detectDelimiters } from './ediDetection';
+
+/**
+ * X12 Acknowledgments
+ * Builds 997 Functional and 999 Implementation Acknowledgments, and TA1 Interchange
+ * Acknowledgments, from a received file and its validation results (validateRealTime /
+ * ediParseService errors plus rulesEngine issues). Only syntax problems are acknowledged: errors
+ * whose code maps to an X12 syntax error code below. Business checks (totals, HL levels, date
+ * windows) and warnings don't affect acceptance.
+ * The output is a pure function of its inputs; the caller supplies the control numbers and date.
+ */
+
+export interface AckOptions {
+  controlNumber: number; // First ISA13 / GS06 to use; each envelope takes the next one
+  date?: Date;
+}
+
+export interface AckResult {
+  content: string;
+  nextControlNumber: number; // Persist and pass in next time so numbers stay unique
+}
+
+// 720 Segment Syntax Error Code (AK304)
+const SEGMENT_ERROR_CODES: Record<string, string> = {
+  UNKNOWN_SEG: '1',
+  UNEXPECTED_SEG: '2',
+  TP_FORBIDDEN_SEG: '2',
+  MISSING_SEG: '3',
+  TP_MISSING_SEG: '3',
+  TP_MIN_USE: '3',
+  LOOP_REPEAT_EXCEEDED: '4',
+  MAX_USE_EXCEEDED: '5',
+  TP_MAX_USE: '5'
+};
+
+// 723 Data Element Syntax Error Code (AK403)
+const ELEMENT_ERROR_CODES: Record<string, string> = {
+  MISSING_ELEMENT: '1',
+  SYNTAX_REQUIRED: '2',
+  SYNTAX_PAIRED: '2',
+  SYNTAX_CONDITIONAL: '2',
+  SYNTAX_LIST_CONDITIONAL: '2',
+  SYNTAX_EXCLUSION: '10',
+  DATE_FORMAT: '8',
+  TP_MISSING_ELEMENT: '1',
+  TP_MIN_LEN: '4',
+  TP_LEN_ERR: '5',
+  TP_PATTERN: '6',
+  TP_INVALID_CODE: '7'
+};
+
+const ELEMENT_KIND_CODES: Record<ElementErrorKind, string> = {
+  TOO_SHORT: '4',
+  TOO_LONG: '5',
+  INVALID_NUMBER: '6',
+  INVALID_CODE: '7',
+  INVALID_DATE: '8',
+  INVALID_TIME: '9'
+};
+
+// 718 Transaction Set Syntax Error Code (AK502-AK506), reported on the ST or SE line
+const TRANSACTION_ERROR_CODES: Record<string, string> = {
+  MISSING_TRAILER: '2',
+  ST_SE_MISMATCH: '3',
+  SEG_COUNT: '4',
+  DUPLICATE_CONTROL: '23'
+};
+
+// 716 Functional Group Syntax Error Code (AK905-AK909), reported on the GS or GE line
+const GROUP_ERROR_CODES: Record<string, string> = {
+  MISSING_TRAILER: '3',
+  GS_GE_MISMATCH: '4',
+  GE_COUNT: '5',
+  DUPLICATE_CONTROL: '19'
+};
+
+// 999 reports partner / implementation guide findings with the implementation codes
+const IMPLEMENTATION_SEGMENT_CODES: Record<string, string> = { ...SEGMENT_ERROR_CODES, TP_FORBIDDEN_SEG: 'I4', TP_MIN_USE: 'I8' };
+const IMPLEMENTATION_ELEMENT_CODES: Record<string, string> = {
+  ...ELEMENT_ERROR_CODES, TP_INVALID_CODE: 'I6', TP_MISSING_ELEMENT: 'I9', TP_PATTERN: 'I12', TP_RANGE: 'I12'
+};
+
+// I18 Interchange Note Code (TA105), reported on the ISA or IEA line
+const INTERCHANGE_NOTE_CODES: Record<string, string> = {
+  ISA_IEA_MISMATCH: '001',
+  IEA_COUNT: '021',
+  ISA_LEN: '022',
+  MISSING_TRAILER: '023',
+  DUPLICATE_CONTROL: '025'
+};
+
+// ISA element errors by position: ISA01 -> 010 ... ISA15 -> 020, ISA16 -> 027
+const ISA_ELEMENT_NOTE_CODES: Record<number, string> = {
+  1: '010', 2: '011', 3: '012', 4: '013', 5: '005', 6: '006', 7: '007', 8: '008',
+  9: '014', 10: '015', 11: '016', 12: '017', 13: '018', 14: '019', 15: '020', 16: '027'
+};
+
+// The segment whose first element identifies the business unit (claim, payment) an error is in, for 999 CTX
+const BUSINESS_UNIT_LOOPS: Record<string, string> = {
+  '837': 'CLM',
+  '835': 'CLP'
+};
+
+const IMPLEMENTATION_GUIDE_999 = '005010X231A1';
+
+interface AckDialect {
+  transactionSet: '997' | '999';
+  segmentNote: string;
+  elementNote: string;
+  response: string;
+  segmentCodes: Record<string, string>;
+  elementCodes: Record<string, string>;
+}
+
+const DIALECTS: Record<'997' | '999', AckDialect> = {
+  '997': {
+    transactionSet: '997', segmentNote: 'AK3', elementNote: 'AK4', response: 'AK5',
+    segmentCodes: SEGMENT_ERROR_CODES, elementCodes: ELEMENT_ERROR_CODES
+  },
+  '999': {
+    transactionSet: '999', segmentNote: 'IK3', elementNote: 'IK4', response: 'IK5',
+    segmentCodes: IMPLEMENTATION_SEGMENT_CODES, elementCodes: IMPLEMENTATION_ELEMENT_CODES
+  }
+};
+
+/**
+ * A validation finding reduced to what an acknowledgment needs.
+ */
+interface AckError {
+  line?: number; // Absent for file-wide findings (rulesEngine REQUIRED_SEGMENT)
+  code: string;
+  segmentId?: string;
+  element?: number;
+  component?: number;
+  elementError?: ElementErrorKind;
+}
+
+interface SegmentNote {
+  segmentId: string;
+  position: number;
+  code?: string;
+  context?: string[]; // 999 business unit, e.g. ['CLM01', '26463774']
+  elements: { position: number; component?: number; code: string; data?: string }[];
+}
+
+// Position from an element id such as N103, after its segment id
+const elementPosition = (elementId?: string, segmentId?: string): number | undefined => {
+  const suffix = elementId && segmentId && elementId.startsWith(segmentId) ? elementId.substring(segmentId.length) : elementId;
+  const match = suffix?.match(/^(\d+)/) || suffix?.match(/(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+const toAckErrors = (errors: LineError[], issues: ValidationIssue[]): AckError[] => [
+  ...errors
+    .filter(e => e.severity === 'ERROR')
+    .map(e => ({
+      line: e.line,
+      code: e.code,
+      // MISSING_SEG is reported on the segment it was expected before; the message names the missing one
+      segmentId: e.code === 'MISSING_SEG' ? e.message.match(/Segment: (\w+)/)?.[1] : undefined,
+      element: e.tokenIndex !== undefined && e.tokenIndex > 0 ? e.tokenIndex : undefined,
+      component: e.componentIndex,
+      elementError: e.elementError
+    })),
+  ...issues
+    .filter(i => i.severity === 'ERROR' && i.source === 'TP_RULE')
+    .map(i => ({ line: i.line, code: i.code, segmentId: i.segmentId, element: elementPosition(i.elementId, i.segmentId) }))
+];
+
+const elementCode = (error: AckError, dialect: AckDialect): string | undefined =>
+  error.elementError ? ELEMENT_KIND_CODES[error.elementError] : dialect.elementCodes[error.code];
+
+const elementData = (segment: EdiSegmentNode | undefined, position: number, component?: number): string | undefined => {
+  const token = segment?.elements.find(t => t.index === position);
+  if (!token) return undefined;
+  const value = component && token.subTokens
+    ? token.subTokens.find(t => t.type === 'COMPONENT' && t.componentIndex === component && !t.repetitionIndex)?.value
+    : token.value;
+  return value ? value.substring(0, 99) : undefined;
+};
+
+// Numeric codes in order, implementation (I) codes after them
+const sortCodes = (codes: Set<string>) => [...codes].sort((a, b) =>
+  (a.startsWith('I') ? 1 : 0) - (b.startsWith('I') ? 1 : 0) || Number(a.replace('I', '')) - Number(b.replace('I', '')));
+
+const pad = (value: string | undefined, width: number) => (value || '').trim().padEnd(width, ' ').substring(0, width);
+
+const yymmdd = (date: Date) => date.toISOString().substring(2, 10).replace(/-/g, '');
+const ccyymmdd = (date: Date) => date.toISOString().substring(0, 10).replace(/-/g, '');
+const hhmm = (date: Date) => date.toISOString().substring(11, 16).replace(':', '');
+
+/**
+ * First segment of the business unit loop (837 CLM, 835 CLP) enclosing each segment of a transaction.
+ */
+const businessUnits = (transaction: EdiTransactionNode): Map<number, EdiSegmentNode> => {
+  const units = new Map<number, EdiSegmentNode>();
+  const loopId = BUSINESS_UNIT_LOOPS[transaction.type];
+  if (!loopId) return units;
+
+  const walk = (nodes: EdiTransactionNode['children'], unit?: EdiSegmentNode) => nodes.forEach(node => {
+    if (node.kind === 'SEGMENT') {
+      if (unit) units.set(node.lineIndex, unit);
+      return;
+    }
+    const starter = node.children[0];
+    walk(node.children, node.id === loopId && starter?.kind === 'SEGMENT' ? starter : unit);
+  });
+  walk(transaction.children);
+  return units;
+};
+
+/**
+ * AK1 to AK9 for one received group.
+ */
+const buildResponses = (
+  group: EdiGroupNode,
+  errorsByLine: Map<number, AckError[]>,
+  fileWide: AckError[],
+  segmentAt: (lineIndex: number) => EdiSegmentNode | undefined,
+  dialect: AckDialect,
+  is5010: boolean,
+  componentSeparator: string
+): string[][] => {
+  const gs = group.header!;
+  const value = (segment: EdiSegmentNode | undefined, index: number) => segment?.elements.find(t => t.index === index)?.value.trim() || '';
+  const segments: string[][] = [];
+  const ak1 = ['AK1', group.functionalId || '', group.controlNumber || ''];
+  if (is5010) ak1.push(group.version || '');
+  segments.push(ak1);
+
+  let accepted = 0;
+  group.transactions.forEach(transaction => {
+    const st = transaction.header;
+    if (!st) return;
+
+    const ak2 = ['AK2', transaction.type, transaction.controlNumber || ''];
+    if (is5010 && value(st, 3)) ak2.push(value(st, 3));
+    segments.push(ak2);
+
+    const units = dialect.transactionSet === '999' ? businessUnits(transaction) : new Map<number, EdiSegmentNode>();
+    const transactionCodes = new Set<string>();
+    // A missing segment is noted at the position of the segment it was reported on, so key by both
+    const notes = new Map<string, SegmentNote>();
+    const noteFor = (position: number, segmentId: string) => {
+      let note = notes.get(`${position}|${segmentId}`);
+      if (!note) {
+        const unit = units.get(st.lineIndex + position - 1);
+        const unitId = value(unit, 1);
+        note = { segmentId, position, elements: [], context: unit && unitId ? [`${unit.id}01`, unitId] : undefined };
+        notes.set(`${position}|${segmentId}`, note);
+      }
+      return note;
+    };
+
+    const lastIndex = transaction.trailer ? transaction.trailer.lineIndex : transaction.endLine;
+    for (let i = st.lineIndex; i <= lastIndex; i++) {
+      const segment = segmentAt(i);
+      if (!segment) continue;
+      const position = i - st.lineIndex + 1;
+
+      (errorsByLine.get(segment.line.lineNumber) || []).forEach(error => {
+        if ((segment === st || segment === transaction.trailer) && TRANSACTION_ERROR_CODES[error.code]) {
+          transactionCodes.add(TRANSACTION_ERROR_CODES[error.code]);
+          return;
+        }
+        if (dialect.segmentCodes[error.code]) {
+          const note = noteFor(position, error.segmentId || segment.id);
+          note.code = note.code || dialect.segmentCodes[error.code];
+          return;
+        }
+        const code = elementCode(error, dialect);
+        if (code && error.element) {
+          noteFor(position, segment.id).elements.push({
+            position: error.element,
+            component: error.component,
+            code,
+            data: code === '1' || code === '2' ? undefined : elementData(segment, error.element, error.component)
+          });
+        }
+      });
+    }
+
+    // File-wide required segments (rulesEngine) are reported where SE would have had to follow them
+    fileWide.forEach(error => {
+      noteFor(lastIndex - st.lineIndex + 1, error.segmentId || '').code = dialect.segmentCodes[error.code];
+    });
+
+    const sortedNotes = [...notes.values()].sort((a, b) => a.position - b.position);
+    sortedNotes.forEach(note => {
+      segments.push([dialect.segmentNote, note.segmentId, String(note.position), '', note.code || '8']);
+      if (note.context) segments.push(['CTX', note.context.join(componentSeparator)]);
+      note.elements.forEach(e => {
+        const ak4 = [dialect.elementNote, e.component ? `${e.position}${componentSeparator}${e.component}` : String(e.position), '', e.code];
+        if (e.data) ak4.push(e.data);
+        segments.push(ak4);
+      });
+    });
+
+    if (sortedNotes.length > 0) {
+      // 999: I5 when every finding is against the implementation guide rather than the standard
+      const implementationOnly = dialect.transactionSet === '999' && sortedNotes.every(note =>
+        (note.code || '8').startsWith('I') || (note.code === undefined && note.elements.every(e => e.code.startsWith('I'))));
+      transactionCodes.add(implementationOnly ? 'I5' : '5');
+    }
+    if (transactionCodes.size === 0) {
+      accepted++;
+      segments.push([dialect.response, 'A']);
+    } else {
+      segments.push([dialect.response, 'R', ...sortCodes(transactionCodes).slice(0, 5)]);
+    }
+  });
+
+  const groupCodes = new Set<string>();
+  [gs, group.trailer].forEach(segment => {
+    if (!segment) return;
+    (errorsByLine.get(segment.line.lineNumber) || []).forEach(error => {
+      if (GROUP_ERROR_CODES[error.code]) groupCodes.add(GROUP_ERROR_CODES[error.code]);
+    });
+  });
+
+  const received = group.transactions.filter(t => t.header).length;
+  const declared = value(group.trailer, 1) || String(received);
+  const status = groupCodes.size > 0 || accepted === 0 ? 'R' : accepted === received ? 'A' : 'P';
+  segments.push(['AK9', status, declared, String(received), String(accepted), ...sortCodes(groupCodes).slice(0, 5)]);
+
+  return segments;
+};
+const indexByLine = (errors: AckError[]): Map<number, AckError[]> => {
+  const byLine = new Map<number, AckError[]>();
+  errors.forEach(e => {
+    if (e.line === undefined) return;
+    if (!byLine.has(e.line)) byLine.set(e.line, []);
+    byLine.get(e.line)!.push(e);
+  });
+  return byLine;
+};
+
+/**
+ * Writes one acknowledging interchange per received ISA: a reversed copy of its ISA with the next
+ * control number, around the segments `body` returns for it (undefined: nothing to acknowledge).
+ */
+const writeInterchanges = (
+  content: string,
+  options: AckOptions,
+  body: (interchange: EdiInterchangeNode, nextControl: () => string, delimiters: ReturnType<typeof detectDelimiters>) => { segments: string[][]; groups: number } | undefined,
+  interchangeVersion?: string // ISA12 to write instead of the received one
+): { content?: string; nextControlNumber: number } => {
+  const doc = parseEdiDocument(content);
+  const delimiters = detectDelimiters(content);
+  const lineBreak = content.includes('\n') ? '\n' : '';
+  const date = options.date || new Date();
+  let nextControlNumber = options.controlNumber;
+  const nextControl = () => String(nextControlNumber++);
+
+  const render = (segments: string[][]) => segments
+    .map(elements => {
+      // Optional trailing elements are left off
+      let end = elements.length;
+      while (end > 1 && elements[end - 1] === '') end--;
+      return elements.slice(0, end).join(delimiters.element) + delimiters.segment;
+    })
+    .join(lineBreak);
+
+  const output: string[] = [];
+  doc.interchanges.forEach(interchange => {
+    const isa = interchange.header;
+    if (!isa || isa.id !== 'ISA') return;
+    const first = nextControlNumber;
+    const isaControl = nextControl().padStart(9, '0').slice(-9);
+    const result = body(interchange, nextControl, delimiters);
+    if (!result) {
+      nextControlNumber = first;
+      return;
+    }
+
+    const isaValue = (index: number) => isa.elements.find(t => t.index === index)?.value || '';
+    // In 00501 ISA11 is the repetition separator rather than the standards identifier
+    const isa11 = interchangeVersion === '00501' ? delimiters.repetition || '^' : isaValue(11) || 'U';
+    const header = [
+      'ISA', '00', pad('', 10), '00', pad('', 10),
+      pad(isaValue(7), 2), pad(isaValue(8), 15), pad(isaValue(5), 2), pad(isaValue(6), 15),
+      yymmdd(date), hhmm(date), isa11, interchangeVersion || isaValue(12) || '00401', isaControl, '0', isaValue(15) || 'P', delimiters.component
+    ];
+    // ISA is fixed width: its empty elements are never dropped
+    output.push(header.join(delimiters.element) + delimiters.segment + lineBreak +
+      render([...result.segments, ['IEA', String(result.groups), isaControl]]));
+  });
+
+  return { content: output.length > 0 ? output.join(lineBreak) : undefined, nextControlNumber };
+};
+
+const generateFunctionalAck = (
+  dialect: AckDialect,
+  content: string,
+  errors: LineError[],
+  issues: ValidationIssue[],
+  options: AckOptions
+): AckResult => {
+  const doc = parseEdiDocument(content);
+  if (doc.standard !== 'X12') throw new Error(`A ${dialect.transactionSet} can only acknowledge X12 content`);
+
+  const date = options.date || new Date();
+  const ackErrors = toAckErrors(errors, issues);
+  const errorsByLine = indexByLine(ackErrors);
+  const fileWide = ackErrors.filter(e => e.line === undefined && dialect.segmentCodes[e.code]);
+
+  const segmentsByIndex = new Map<number, EdiSegmentNode>();
+  const indexSegments = (transaction: EdiTransactionNode) => {
+    [transaction.header, transaction.trailer].forEach(s => { if (s) segmentsByIndex.set(s.lineIndex, s); });
+    const walk = (nodes: EdiTransactionNode['children']) => nodes.forEach(node => {
+      if (node.kind === 'SEGMENT') segmentsByIndex.set(node.lineIndex, node);
+      else walk(node.children);
+    });
+    walk(transaction.children);
+  };
+
+  const { content: ack, nextControlNumber } = writeInterchanges(content, options, (interchange, nextControl, delimiters) => {
+    // Don't acknowledge acknowledgments
+    const groups = interchange.groups.filter(g => g.header?.id === 'GS' && g.functionalId !== 'FA');
+    if (groups.length === 0) return undefined;
+
+    const segments: string[][] = [];
+    groups.forEach(group => {
+      group.transactions.forEach(indexSegments);
+      const gs = group.header!;
+      const gsValue = (index: number) => gs.elements.find(t => t.index === index)?.value.trim() || '';
+      const version = group.version || '004010';
+      const groupControl = nextControl();
+
+      // A 999 is always 5010 and names its implementation guide; a 997 follows the received version
+      const is999 = dialect.transactionSet === '999';
+      const body = buildResponses(group, errorsByLine, fileWide, i => segmentsByIndex.get(i), dialect, is999 || version >= '005010', delimiters.component);
+      if (is999 && body[0].length < 4) body[0].push(version);
+      segments.push(['GS', 'FA', gsValue(3), gsValue(2), ccyymmdd(date), hhmm(date), groupControl, 'X', is999 ? IMPLEMENTATION_GUIDE_999 : version]);
+      segments.push(is999 ? ['ST', '999', '0001', IMPLEMENTATION_GUIDE_999] : ['ST', '997', '0001']);
+      segments.push(...body);
+      segments.push(['SE', String(body.length + 2), '0001']);
+      segments.push(['GE', '1', groupControl]);
+    });
+    return { segments, groups: groups.length };
+  }, dialect.transactionSet === '999' ? '00501' : undefined);
+
+  if (!ack) throw new Error('No functional groups to acknowledge');
+  return { content: ack, nextControlNumber };
+};
+
+/**
+ * 997 Functional Acknowledgment for every functional group in the content, one acknowledging
+ * interchange per received interchange with sender and receiver swapped.
+ */
+export const generate997 = (
+  content: string,
+  errors: LineError[],
+  issues: ValidationIssue[] = [],
+  options: AckOptions
+): AckResult => generateFunctionalAck(DIALECTS['997'], content, errors, issues, options);
+
+/**
+ * 999 Implementation Acknowledgment (005010X231A1): the 997 with IK3 / IK4 / IK5, implementation
+ * guide error codes and, for claims and payments, a CTX naming the business unit in error.
+ */
+export const generate999 = (
+  content: string,
+  errors: LineError[],
+  issues: ValidationIssue[] = [],
+  options: AckOptions
+): AckResult => generateFunctionalAck(DIALECTS['999'], content, errors, issues, options);
+
+/**
+ * TA1 Interchange Acknowledgment for every interchange in the content: accepted (000), or
+ * rejected with the note code of the first ISA / IEA error.
+ */
+export const generateTA1 = (content: string, errors: LineError[], options: AckOptions): AckResult => {
+  const doc = parseEdiDocument(content);
+  if (doc.standard !== 'X12') throw new Error('A TA1 can only acknowledge X12 content');
+
+  const errorsByLine = indexByLine(toAckErrors(errors, []));
+  const noteCode = (error: AckError, isHeader: boolean): string | undefined =>
+    INTERCHANGE_NOTE_CODES[error.code] ||
+    (isHeader && error.element && (error.elementError || ELEMENT_ERROR_CODES[error.code]) ? ISA_ELEMENT_NOTE_CODES[error.element] : undefined);
+
+  const { content: ack, nextControlNumber } = writeInterchanges(content, options, (interchange, nextControl) => {
+    const isa = interchange.header!;
+    const codes = [isa, interchange.trailer].flatMap(segment => segment
+      ? (errorsByLine.get(segment.line.lineNumber) || []).map(e => noteCode(e, segment === isa)).filter((c): c is string => !!c)
+      : []);
+    const isaValue = (index: number) => isa.elements.find(t => t.index === index)?.value.trim() || '';
+    const note = codes.sort()[0];
+    return {
+      segments: [['TA1', (interchange.controlNumber || '').trim(), isaValue(9), isaValue(10), note ? 'R' : 'A', note || '000']],
+      groups: 0
+    };
+  });
+
+  if (!ack) throw new Error('No interchanges to acknowledge');
+  return { content: ack, nextControlNumber };
+};
@@ -0,0 +1,238 @@
+/**
+ * Minimal YAML
+ * Reads and writes the YAML subset rule set files need, so no YAML library is required: block
+ * mappings and sequences, plain / quoted scalars, flow sequences of scalars ([a, b]), literal
+ * block scalars (|) and comments. Anchors, tags and multiple documents are not supported.
+ */
+
+interface YamlLine {
+  number: number; // 1-based, for error messages
+  indent: number;
+  text: string; // Without indentation; comments are stripped when the line is read
+}
+
+const NEEDS_QUOTES = /^$|^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#]\s|:$|\s$|[\n\r\t]|^(true|false|null|~|yes|no|on|off)$|^[-+]?(\d|\.\d)/i;
+
+const scalarToYaml = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = String(value);
+  // JSON strings are valid double-quoted YAML strings
+  return NEEDS_QUOTES.test(text) ? JSON.stringify(text) : text;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isScalar = (value: unknown) => !Array.isArray(value) && !isPlainObject(value);
+
+const emit = (value: unknown, indent: number): string[] => {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (isScalar(item)) return [`${pad}- ${scalarToYaml(item)}`];
+      if (Array.isArray(item) ? item.length === 0 : Object.keys(item as object).length === 0) return [`${pad}- ${Array.isArray(item) ? '[]' : '{}'}`];
+      // The first line of a nested block goes after the dash
+      const lines = emit(item, indent + 2);
+      return [`${pad}- ${lines[0].trimStart()}`, ...lines.slice(1)];
+    });
+  }
+
+  if (isPlainObject(value)) {
+    return Object.entries(value).filter(([, v]) => v !== undefined).flatMap(([key, v]) => {
+      const name = scalarToYaml(key);
+      if (isScalar(v)) return [`${pad}${name}: ${scalarToYaml(v)}`];
+      if (Array.isArray(v) && v.length === 0) return [`${pad}${name}: []`];
+      if (isPlainObject(v) && Object.keys(v).length === 0) return [`${pad}${name}: {}`];
+      return [`${pad}${name}:`, ...emit(v, indent + 2)];
+    });
+  }
+
+  return [`${pad}${scalarToYaml(value)}`];
+};
+
+/**
+ * YAML text for a JSON-compatible value. Undefined properties are left out, as in JSON.
+ */
+export const toYaml = (value: unknown): string => emit(value, 0).join('\n') + '\n';
+
+// Text before a comment, ignoring # inside quotes
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.substring(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+// Splits on commas outside quotes, for flow sequences
+const splitFlow = (text: string): string[] => {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ',') {
+      parts.push(text.substring(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.substring(start));
+  return parts.map(p => p.trim()).filter(p => p !== '');
+};
+
+const parseScalar = (text: string, line: number): unknown => {
+  const value = text.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`YAML line ${line}: invalid double-quoted string`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) throw new Error(`YAML line ${line}: unterminated single-quoted string`);
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw new Error(`YAML line ${line}: unterminated flow sequence`);
+    return splitFlow(value.slice(1, -1)).map(item => parseScalar(item, line));
+  }
+  if (value === '{}') return {};
+  if (value.startsWith('{')) throw new Error(`YAML line ${line}: flow mappings are not supported`);
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+  return value;
+};
+
+// Index of the ": " (or final ":") ending a mapping key, outside quotes; -1 when the line isn't one
+const keySeparator = (text: string): number => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if ((c === '"' || c === "'") && i === 0) {
+      quote = c;
+    } else if (c === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/**
+ * Parses YAML text into plain objects, arrays and scalars. Throws with the line number of the
+ * first construct it can't read.
+ */
+export const parseYaml = (source: string): unknown => {
+  const lines: YamlLine[] = [];
+  source.replace(/\r\n?/g, '\n').split('\n').forEach((raw, i) => {
+    if (/^\s*(#.*)?$/.test(raw) || raw.trim() === '---') return;
+    if (/^\s*\t/.test(raw)) throw new Error(`YAML line ${i + 1}: tabs are not allowed for indentation`);
+    lines.push({ number: i + 1, indent: raw.length - raw.trimStart().length, text: raw.trim() });
+  });
+  let pos = 0;
+
+  // Lines of a literal block scalar: everything indented deeper than the key, kept verbatim
+  const blockScalar = (parentIndent: number, header: string, rawLines: string[], startNumber: number): string => {
+    const collected: string[] = [];
+    let blockIndent = -1;
+    for (let n = startNumber; n < rawLines.length; n++) {
+      const raw = rawLines[n];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() !== '' && indent <= parentIndent) break;
+      if (raw.trim() !== '' && blockIndent === -1) blockIndent = indent;
+      collected.push(raw.substring(Math.min(indent, blockIndent === -1 ? indent : blockIndent)));
+    }
+    // Skip the parsed lines that belonged to the block
+    const last = startNumber + collected.length;
+    while (pos < lines.length && lines[pos].number <= last) pos++;
+    while (collected.length && collected[collected.length - 1].trim() === '') collected.pop();
+    const text = collected.join('\n');
+    return header.startsWith('|-') ? text : text + '\n';
+  };
+  const rawLines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  const value = (text: string, line: YamlLine, indent: number): unknown => {
+    if (text.startsWith('|')) return blockScalar(indent, text, rawLines, line.number);
+    if (text.startsWith('>')) throw new Error(`YAML line ${line.number}: folded block scalars are not supported`);
+    return parseScalar(text, line.number);
+  };
+
+  const nestedBlock = (indent: number): unknown => {
+    const next = lines[pos];
+    // A sequence may sit at the same indent as its key
+    if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) return block(next.indent);
+    return null;
+  };
+
+  const sequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const rest = stripComment(line.text.substring(1)).trimStart();
+      if (rest === '') {
+        pos++;
+        items.push(nestedBlock(indent));
+      } else if (isSequenceItem(rest) || keySeparator(rest) !== -1) {
+        // "- key: value" starts a mapping at the column after the dash
+        lines[pos] = { number: line.number, indent: indent + (line.text.length - rest.length), text: rest };
+        items.push(block(lines[pos].indent));
+      } else {
+        pos++;
+        items.push(value(rest, line, indent));
+      }
+    }
+    return items;
+  };
+
+  const mapping = (indent: number): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const text = stripComment(line.text);
+      const separator = keySeparator(text);
+      if (separator === -1) throw new Error(`YAML line ${line.number}: expected "key: value"`);
+      const key = String(parseScalar(text.substring(0, separator), line.number));
+      const rest = text.substring(separator + 1).trim();
+      pos++;
+      result[key] = rest === '' ? nestedBlock(indent) : value(rest, line, indent);
+    }
+    return result;
+  };
+
+  const block = (indent: number): unknown => {
+    const line = lines[pos];
+    if (isSequenceItem(line.text)) return sequence(indent);
+    if (keySeparator(stripComment(line.text)) === -1) {
+      pos++;
+      return value(stripComment(line.text), line, indent - 1);
+    }
+    return mapping(indent);
+  };
+
+  if (lines.length === 0) return null;
+  const result = block(lines[0].indent);
+  if (pos < lines.length) throw new Error(`YAML line ${lines[pos].number}: unexpected indentation`);
+  return result;
+};
@@ -0,0 +1,86 @@
+/**
+ * Zip Archive Reader
+ * Minimal reader for spec bundles: walks the central directory and inflates entries with the
+ * platform DecompressionStream, so no zip library is needed. Supports stored and deflated entries.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed size
+  read: () => Promise<string>;
+}
+
+// The end-of-central-directory record sits in the last 22 bytes plus an optional comment of up to 64 KB
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= stop; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<string> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+/**
+ * Lists the file entries of a zip archive. Throws if the archive is not a zip or is truncated
+ * (the central directory is written last, so an incomplete download has none).
+ */
+export const readZipEntries = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = view.byteLength >= 22 ? findEndOfCentralDirectory(view) : -1;
+  if (eocd < 0) {
+    throw new Error('Not a zip archive, or the archive is incomplete (no central directory found)');
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt or incomplete zip archive: bad central directory entry');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`Corrupt zip archive: bad local header for ${name}`);
+        }
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (data.length < compressedSize) throw new Error(`Zip entry ${name} is truncated`);
+        if (method === METHOD_STORED) return decoder.decode(data);
+        if (method === METHOD_DEFLATE) return inflate(data);
+        throw new Error(`Zip entry ${name} uses unsupported compression method ${method}`);
+      }
+    });
+  }
+
+  return entries;
+};